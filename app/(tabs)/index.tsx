@@ -1,8 +1,11 @@
 import DashboardStats from '@/components/DashboardStats';
 import ModernScreenLayout from '@/components/layout/ModernScreenLayout';
 import LevelProgress from '@/components/LevelProgress';
+import LevelSuggestionCard from '@/components/LevelSuggestionCard';
+import ProfileSwitcher from '@/components/ProfileSwitcher';
 import QuickActions from '@/components/QuickActions';
 import { ThemedView } from '@/components/ThemedView';
+import VocabularyImportCard from '@/components/VocabularyImportCard';
 import WeeklyProgress from '@/components/WeeklyProgress';
 import { databaseService } from '@/services/database';
 import { useAppStore } from '@/store/useAppStore';
@@ -42,6 +45,9 @@ export default function DashboardScreen() {
       title="Dashboard"
       subtitle="Track your vocabulary learning progress"
     >
+      <ProfileSwitcher />
+      <VocabularyImportCard />
+      <LevelSuggestionCard />
       <DashboardStats stats={progress.todayStats} goals={userSettings} />
       <WeeklyProgress data={progress.weeklyData} />
       <LevelProgress level={progress.level} xp={progress.xp} />
@@ -3,13 +3,15 @@ import QuizModeSelector from '@/components/QuizModeSelector';
 import ModernScreenLayout from '@/components/layout/ModernScreenLayout';
 import { databaseService } from '@/services/database';
 import { useAppStore } from '@/store/useAppStore';
+import { QuizFilterSpec, QuizMode } from '@/types';
 import { useFocusEffect } from '@react-navigation/native';
 import React, { useCallback, useEffect, useState } from 'react';
 import { Alert } from 'react-native';
 
 export default function QuizScreen() {
-  const { currentSession, isLoading, startQuiz, initialize, updateProgress, cancelQuiz } = useAppStore();
-  const [selectedMode, setSelectedMode] = useState<'random' | 'review' | 'bookmarked' | 'weak'>('random');
+  const { currentSession, isLoading, startQuiz, initialize, updateProgress, cancelQuiz, dueCounts } = useAppStore();
+  const [selectedMode, setSelectedMode] = useState<QuizMode>('random');
+  const [customFilter, setCustomFilter] = useState<QuizFilterSpec>({});
 
   useEffect(() => {
     initialize();
@@ -28,11 +30,17 @@ export default function QuizScreen() {
     }, [updateProgress])
   );
 
-  const handleStartQuiz = async (mode: 'random' | 'review' | 'bookmarked' | 'weak') => {
+  const handleStartQuiz = async (mode: QuizMode) => {
     try {
-      await startQuiz(mode);
+      // カスタムクイズは選んだ条件で開始
+      await startQuiz(mode === 'custom' ? customFilter : mode);
     } catch (error) {
-      Alert.alert('Error', 'Failed to start quiz. Please try again.');
+      Alert.alert(
+        'Error',
+        mode === 'custom'
+          ? 'No questions could be made from words matching your filters. Try widening them.'
+          : 'Failed to start quiz. Please try again.'
+      );
     }
   };
 
@@ -56,6 +64,9 @@ export default function QuizScreen() {
       <QuizModeSelector
         selectedMode={selectedMode}
         onModeSelect={setSelectedMode}
+        dueCount={dueCounts.total}
+        customFilter={customFilter}
+        onCustomFilterChange={setCustomFilter}
         onStartQuiz={() => handleStartQuiz(selectedMode)}
       />
     </ModernScreenLayout>
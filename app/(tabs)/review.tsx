@@ -1,3 +1,5 @@
+import AnkiCard from '@/components/AnkiCard';
+import DeckSection from '@/components/DeckSection';
 import ReviewSection from '@/components/ReviewSection';
 import ModernScreenLayout from '@/components/layout/ModernScreenLayout';
 import { databaseService } from '@/services/database';
@@ -38,7 +40,9 @@ export default function ReviewScreen() {
       title="Review Words"
       subtitle="Review your bookmarked and challenging words"
     >
+      <DeckSection />
       <ReviewSection />
+      <AnkiCard />
     </ModernScreenLayout>
   );
 }
@@ -1,4 +1,8 @@
+import BackupSection from '@/components/BackupSection';
 import SettingsForm from '@/components/SettingsForm';
+import SyncSection from '@/components/SyncSection';
+import VocabularyImportCard from '@/components/VocabularyImportCard';
+import VocabularyPackSection from '@/components/VocabularyPackSection';
 import ModernScreenLayout from '@/components/layout/ModernScreenLayout';
 import { databaseService } from '@/services/database';
 import { useAppStore } from '@/store/useAppStore';
@@ -39,6 +43,10 @@ export default function SettingsScreen() {
       subtitle="Customize your learning experience"
     >
       <SettingsForm />
+      <VocabularyImportCard />
+      <VocabularyPackSection />
+      <SyncSection />
+      <BackupSection />
     </ModernScreenLayout>
   );
 }
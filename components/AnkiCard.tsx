@@ -0,0 +1,142 @@
+import { Spacing } from '@/constants/ModernColors';
+import { AnkiExportSource, ankiService } from '@/services/ankiService';
+import * as DocumentPicker from 'expo-document-picker';
+import * as Sharing from 'expo-sharing';
+import React, { useState } from 'react';
+import { Alert, StyleSheet } from 'react-native';
+import { ThemedText } from './ThemedText';
+import ModernCard from './layout/ModernCard';
+import ModernButton from './modern/ModernButton';
+
+interface Props {
+  deck?: { id: number; name: string }; // 指定するとデッキの書き出し・読み込み、なければブックマーク・苦手単語の書き出し
+  onImported?: () => void;
+}
+
+export default function AnkiCard({ deck, onImported }: Props) {
+  const [busyAction, setBusyAction] = useState<string | null>(null);
+
+  const handleExport = async (source: AnkiExportSource) => {
+    setBusyAction(source.type);
+    try {
+      if (!(await Sharing.isAvailableAsync())) {
+        Alert.alert('Not Supported', 'Sharing files is not available on this device.');
+        return;
+      }
+      const uri = await ankiService.exportWords(source);
+      await Sharing.shareAsync(uri, { mimeType: 'application/octet-stream', dialogTitle: 'Export to Anki' });
+    } catch (error) {
+      console.error('Error exporting to Anki:', error);
+      Alert.alert('Export Failed', String(error).includes('No words to export')
+        ? 'There are no words to export yet.'
+        : 'Failed to create the Anki package. Please try again.');
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!deck) return;
+
+    try {
+      const result = await DocumentPicker.getDocumentAsync({ type: '*/*', copyToCacheDirectory: true });
+      if (result.canceled || result.assets.length === 0) return;
+      if (!result.assets[0].name.toLowerCase().endsWith('.apkg')) {
+        Alert.alert('Unsupported File', 'Please choose an Anki package (.apkg).');
+        return;
+      }
+
+      setBusyAction('import');
+      const summary = await ankiService.importPackage(result.assets[0].uri, deck.id);
+      onImported?.();
+      Alert.alert(
+        'Import Complete',
+        `Added ${summary.importedCount} of ${summary.noteCount} notes. Review history was carried over for ${summary.withHistoryCount} words.`
+      );
+    } catch (error) {
+      console.error('Error importing Anki package:', error);
+      Alert.alert('Import Failed', error instanceof Error ? error.message : 'Failed to read the Anki package.');
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  return (
+    <ModernCard variant="neutral" pressable={false} delay={0} style={styles.card}>
+      <ThemedText style={styles.sectionTitle}>🃏 Anki</ThemedText>
+      <ThemedText style={styles.hintText}>
+        {deck
+          ? 'Export this deck with IPA, definitions, examples and CEFR tags, or import a basic Anki deck.'
+          : 'Export your words with IPA, definitions, examples and CEFR tags.'}
+      </ThemedText>
+
+      {deck ? (
+        <>
+          <ModernButton
+            title="Export Deck"
+            onPress={() => handleExport({ type: 'deck', deckId: deck.id, name: deck.name })}
+            variant="primary"
+            size="md"
+            icon="📤"
+            loading={busyAction === 'deck'}
+            disabled={!!busyAction}
+            style={styles.fullWidthButton}
+          />
+          <ModernButton
+            title="Import Anki Deck"
+            onPress={handleImport}
+            variant="secondary"
+            size="md"
+            icon="📥"
+            loading={busyAction === 'import'}
+            disabled={!!busyAction}
+            style={styles.fullWidthButton}
+          />
+        </>
+      ) : (
+        <>
+          <ModernButton
+            title="Export Bookmarked"
+            onPress={() => handleExport({ type: 'bookmarked' })}
+            variant="primary"
+            size="md"
+            icon="⭐"
+            loading={busyAction === 'bookmarked'}
+            disabled={!!busyAction}
+            style={styles.fullWidthButton}
+          />
+          <ModernButton
+            title="Export Weak Words"
+            onPress={() => handleExport({ type: 'weak' })}
+            variant="secondary"
+            size="md"
+            icon="🔥"
+            loading={busyAction === 'weak'}
+            disabled={!!busyAction}
+            style={styles.fullWidthButton}
+          />
+        </>
+      )}
+    </ModernCard>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: Spacing.md,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#ffffff',
+    marginBottom: Spacing.sm,
+  },
+  hintText: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.7)',
+  },
+  fullWidthButton: {
+    width: '100%',
+    marginTop: Spacing.sm,
+  },
+});
@@ -0,0 +1,150 @@
+import { Spacing } from '@/constants/ModernColors';
+import { BackupFile, backupService } from '@/services/backupService';
+import { useAppStore } from '@/store/useAppStore';
+import { RestoreMode } from '@/types';
+import * as DocumentPicker from 'expo-document-picker';
+import * as Sharing from 'expo-sharing';
+import React, { useState } from 'react';
+import { Alert, StyleSheet } from 'react-native';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+import { ThemedText } from './ThemedText';
+import ModernCard from './layout/ModernCard';
+import ModernButton from './modern/ModernButton';
+
+export default function BackupSection() {
+  const { loadProfiles, updateProgress } = useAppStore();
+  const [busyAction, setBusyAction] = useState<'export' | 'restore' | null>(null);
+
+  const handleExport = async () => {
+    setBusyAction('export');
+    try {
+      if (!(await Sharing.isAvailableAsync())) {
+        Alert.alert('Not Supported', 'Sharing files is not available on this device.');
+        return;
+      }
+      const uri = await backupService.exportToFile();
+      await Sharing.shareAsync(uri, { mimeType: 'application/json', dialogTitle: 'Save Backup' });
+    } catch (error) {
+      console.error('Error creating backup:', error);
+      Alert.alert('Backup Failed', 'Failed to create a backup. Please try again.');
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const runRestore = async (backup: BackupFile, mode: RestoreMode) => {
+    setBusyAction('restore');
+    // 学習データの復元が完了した後の失敗では「何も変更していない」とは伝えない
+    let dataRestored = false;
+    try {
+      const { partial } = await backupService.restore(backup, mode);
+      dataRestored = true;
+      // 復元した設定・XP・現在のプロフィールをストアに読み込み直す
+      await useAppStore.persist.rehydrate();
+      await loadProfiles();
+      await updateProgress();
+      if (partial) {
+        Alert.alert('Restore Partly Complete', 'Your learning data has been restored, but some settings could not be restored.');
+      } else {
+        Alert.alert('Restore Complete', 'Your learning data has been restored.');
+      }
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      if (dataRestored) {
+        Alert.alert('Restart Required', 'Your learning data has been restored. Please restart the app to see it.');
+      } else {
+        Alert.alert('Restore Failed', 'Nothing was changed. Please try again.');
+      }
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handleRestore = async () => {
+    let backup: BackupFile;
+    try {
+      const result = await DocumentPicker.getDocumentAsync({ type: 'application/json', copyToCacheDirectory: true });
+      if (result.canceled || result.assets.length === 0) return;
+      backup = await backupService.readFile(result.assets[0].uri);
+    } catch (error) {
+      console.error('Error reading backup:', error);
+      Alert.alert('Invalid Backup', error instanceof Error ? error.message : 'Failed to read the backup file.');
+      return;
+    }
+
+    const summary = backupService.summarize(backup);
+    Alert.alert(
+      'Restore Backup',
+      `Backup from ${summary.createdAt.toLocaleString()} with ${summary.rowCount} records.\n\n` +
+        'Merge keeps your current data and adds what is missing. Replace deletes your current data first.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Merge', onPress: () => runRestore(backup, 'merge') },
+        {
+          text: 'Replace',
+          style: 'destructive',
+          onPress: () => Alert.alert(
+            'Replace All Data?',
+            'All progress on this device will be replaced by the backup. This cannot be undone.',
+            [
+              { text: 'Cancel', style: 'cancel' },
+              { text: 'Replace', style: 'destructive', onPress: () => runRestore(backup, 'replace') },
+            ]
+          ),
+        },
+      ]
+    );
+  };
+
+  return (
+    <Animated.View entering={FadeInDown.delay(300)} style={styles.container}>
+      <ModernCard variant="neutral" pressable={false} delay={0}>
+        <ThemedText style={styles.sectionTitle}>💾 Backup &amp; Restore</ThemedText>
+        <ThemedText style={styles.hintText}>
+          Save the progress, decks, settings and XP of every profile to a file so you can restore them after reinstalling the app.
+        </ThemedText>
+        <ModernButton
+          title="Export Backup"
+          onPress={handleExport}
+          variant="primary"
+          size="md"
+          icon="📤"
+          loading={busyAction === 'export'}
+          disabled={!!busyAction}
+          style={styles.fullWidthButton}
+        />
+        <ModernButton
+          title="Restore from Backup"
+          onPress={handleRestore}
+          variant="secondary"
+          size="md"
+          icon="📥"
+          loading={busyAction === 'restore'}
+          disabled={!!busyAction}
+          style={styles.fullWidthButton}
+        />
+      </ModernCard>
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: Spacing.md,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#ffffff',
+    marginBottom: Spacing.sm,
+  },
+  hintText: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.7)',
+    lineHeight: 20,
+  },
+  fullWidthButton: {
+    width: '100%',
+    marginTop: Spacing.sm,
+  },
+});
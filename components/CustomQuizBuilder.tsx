@@ -0,0 +1,199 @@
+import { Spacing } from '@/constants/ModernColors';
+import { enrichedVocabularyService } from '@/services/enrichedVocabularyService';
+import { findCustomQuizWords } from '@/store/useAppStore';
+import { FrequencyBand, QuizFilterSpec, WordSelection } from '@/types';
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, View } from 'react-native';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+import { ThemedText } from './ThemedText';
+import ModernCard from './layout/ModernCard';
+import ModernButton from './modern/ModernButton';
+
+interface Props {
+  filter: QuizFilterSpec;
+  onFilterChange: (filter: QuizFilterSpec) => void;
+}
+
+const frequencyOptions: { value: FrequencyBand; label: string }[] = [
+  { value: 'common', label: 'Common' },
+  { value: 'intermediate', label: 'Intermediate' },
+  { value: 'rare', label: 'Rare' },
+];
+
+const masteryOptions: { label: string; range?: { min: number; max: number } }[] = [
+  { label: 'Any' },
+  { label: '0-25%', range: { min: 0, max: 25 } },
+  { label: '26-50%', range: { min: 26, max: 50 } },
+  { label: '51-75%', range: { min: 51, max: 75 } },
+  { label: '76-100%', range: { min: 76, max: 100 } },
+];
+
+const selectionOptions: { value: WordSelection; label: string }[] = [
+  { value: 'bookmarked', label: '⭐ Bookmarked' },
+  { value: 'weak', label: '🔥 Weak' },
+  { value: 'unseen', label: '🆕 Unseen' },
+];
+
+// 配列に値があれば取り除き、なければ追加（空になったら条件なし）
+const toggleValue = <T,>(values: T[] | undefined, value: T): T[] | undefined => {
+  const current = values || [];
+  const next = current.includes(value) ? current.filter(v => v !== value) : [...current, value];
+  return next.length > 0 ? next : undefined;
+};
+
+export default function CustomQuizBuilder({ filter, onFilterChange }: Props) {
+  const [availableLevels, setAvailableLevels] = useState<string[]>([]);
+  const [partsOfSpeech, setPartsOfSpeech] = useState<string[]>([]);
+  const [matchCount, setMatchCount] = useState<number | null>(null);
+
+  useEffect(() => {
+    enrichedVocabularyService.getAvailableLevels().then(setAvailableLevels);
+  }, []);
+
+  // 選んだレベルに含まれる品詞だけを表示
+  useEffect(() => {
+    enrichedVocabularyService.getPartsOfSpeech(filter.cefrLevels).then(setPartsOfSpeech);
+  }, [filter.cefrLevels]);
+
+  // 条件に合う単語数を表示（条件変更中の古い結果は捨てる）
+  useEffect(() => {
+    let cancelled = false;
+    setMatchCount(null);
+    findCustomQuizWords(filter)
+      .then(words => {
+        if (!cancelled) setMatchCount(words.length);
+      })
+      .catch(error => console.error('Error counting custom quiz words:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [filter]);
+
+  const isMasterySelected = (range?: { min: number; max: number }) =>
+    filter.masteryRange?.min === range?.min && filter.masteryRange?.max === range?.max;
+
+  return (
+    <Animated.View entering={FadeInDown.delay(200)}>
+      <ModernCard variant="neutral" pressable={false} delay={0} style={styles.card}>
+        <ThemedText style={styles.title}>🛠️ Build Your Quiz</ThemedText>
+        <ThemedText style={styles.hint}>Leave a group empty to include everything.</ThemedText>
+
+        <ThemedText style={styles.label}>CEFR Levels</ThemedText>
+        <View style={styles.optionGrid}>
+          {availableLevels.map(level => (
+            <ModernButton
+              key={level}
+              title={level}
+              onPress={() => onFilterChange({ ...filter, cefrLevels: toggleValue(filter.cefrLevels, level) })}
+              variant={filter.cefrLevels?.includes(level) ? 'primary' : 'secondary'}
+              size="sm"
+              style={styles.optionButton}
+            />
+          ))}
+        </View>
+
+        <ThemedText style={styles.label}>Parts of Speech</ThemedText>
+        <View style={styles.optionGrid}>
+          {partsOfSpeech.map(pos => (
+            <ModernButton
+              key={pos}
+              title={pos}
+              onPress={() => onFilterChange({ ...filter, partsOfSpeech: toggleValue(filter.partsOfSpeech, pos) })}
+              variant={filter.partsOfSpeech?.includes(pos) ? 'primary' : 'secondary'}
+              size="sm"
+              style={styles.optionButton}
+            />
+          ))}
+        </View>
+
+        <ThemedText style={styles.label}>Word Frequency</ThemedText>
+        <View style={styles.optionGrid}>
+          {frequencyOptions.map(option => (
+            <ModernButton
+              key={option.value}
+              title={option.label}
+              onPress={() => onFilterChange({ ...filter, frequencyBands: toggleValue(filter.frequencyBands, option.value) })}
+              variant={filter.frequencyBands?.includes(option.value) ? 'primary' : 'secondary'}
+              size="sm"
+              style={styles.optionButton}
+            />
+          ))}
+        </View>
+
+        <ThemedText style={styles.label}>Mastery</ThemedText>
+        <View style={styles.optionGrid}>
+          {masteryOptions.map(option => (
+            <ModernButton
+              key={option.label}
+              title={option.label}
+              onPress={() => onFilterChange({ ...filter, masteryRange: option.range })}
+              variant={isMasterySelected(option.range) ? 'primary' : 'secondary'}
+              size="sm"
+              style={styles.optionButton}
+            />
+          ))}
+        </View>
+
+        <ThemedText style={styles.label}>Only Include</ThemedText>
+        <View style={styles.optionGrid}>
+          {selectionOptions.map(option => (
+            <ModernButton
+              key={option.value}
+              title={option.label}
+              onPress={() => onFilterChange({ ...filter, include: toggleValue(filter.include, option.value) })}
+              variant={filter.include?.includes(option.value) ? 'primary' : 'secondary'}
+              size="sm"
+              style={styles.optionButton}
+            />
+          ))}
+        </View>
+
+        <ThemedText style={styles.matchCount}>
+          {matchCount === null
+            ? 'Counting matching words...'
+            : `${matchCount} ${matchCount === 1 ? 'word matches' : 'words match'} your filters`}
+        </ThemedText>
+      </ModernCard>
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginVertical: 0,
+    marginBottom: Spacing.lg,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#ffffff',
+    marginBottom: 4,
+  },
+  hint: {
+    fontSize: 13,
+    color: 'rgba(255, 255, 255, 0.7)',
+    marginBottom: Spacing.md,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffffff',
+    marginTop: Spacing.sm,
+    marginBottom: Spacing.xs,
+  },
+  optionGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.xs,
+  },
+  optionButton: {
+    minWidth: 60,
+  },
+  matchCount: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: 'rgba(255, 255, 255, 0.9)',
+    textAlign: 'center',
+    marginTop: Spacing.md,
+  },
+});
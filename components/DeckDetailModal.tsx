@@ -0,0 +1,443 @@
+import { Spacing } from '@/constants/ModernColors';
+import { databaseService } from '@/services/database';
+import { enrichedVocabularyService } from '@/services/enrichedVocabularyService';
+import { useAppStore } from '@/store/useAppStore';
+import { Deck, DeckWord, QuizMode } from '@/types';
+import { useRouter } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import { Alert, Modal, Pressable, ScrollView, StyleSheet, TextInput, View } from 'react-native';
+import AnkiCard from './AnkiCard';
+import { ThemedText } from './ThemedText';
+import WordListImport from './WordListImport';
+import ModernCard from './layout/ModernCard';
+import ModernButton from './modern/ModernButton';
+
+interface Props {
+  deck: Deck | null; // nullのときは非表示
+  onClose: () => void;
+  onChanged: () => void; // デッキ名・単語数が変わったとき
+}
+
+// デッキで出題できるモード（カスタムクイズはクイズタブの条件指定から）
+const deckQuizModes: { value: QuizMode; label: string }[] = [
+  { value: 'random', label: 'Random' },
+  { value: 'due', label: 'Due Today' },
+  { value: 'recall', label: 'Recall' },
+  { value: 'dictation', label: 'Dictation' },
+  { value: 'review', label: 'Review' },
+  { value: 'bookmarked', label: 'Bookmarked' },
+  { value: 'weak', label: 'Challenge' },
+];
+
+export default function DeckDetailModal({ deck, onClose, onChanged }: Props) {
+  const router = useRouter();
+  const { startQuiz } = useAppStore();
+  const [words, setWords] = useState<DeckWord[]>([]);
+  const [name, setName] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<{ word: string; cefr: string; definition?: string }[]>([]);
+  const [customWord, setCustomWord] = useState('');
+  const [customDefinition, setCustomDefinition] = useState('');
+  const [quizMode, setQuizMode] = useState<QuizMode>('random');
+
+  const loadWords = async (deckId: number) => {
+    setWords(await databaseService.getDeckWords(deckId));
+  };
+
+  useEffect(() => {
+    if (!deck) return;
+    setName(deck.name);
+    setSearchQuery('');
+    setCustomWord('');
+    setCustomDefinition('');
+    loadWords(deck.id);
+  }, [deck]);
+
+  // 検索（プレフィックス一致、最大10件）
+  useEffect(() => {
+    let cancelled = false;
+    if (searchQuery.trim().length === 0) {
+      setSearchResults([]);
+      return;
+    }
+    enrichedVocabularyService.searchWordsAcrossLevels(searchQuery, 10)
+      .then(results => {
+        if (!cancelled) setSearchResults(results.map(r => ({ word: r.word, cefr: r.cefr, definition: r.definition })));
+      })
+      .catch(() => {
+        if (!cancelled) setSearchResults([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [searchQuery]);
+
+  if (!deck) return null;
+
+  const handleRename = async () => {
+    try {
+      await databaseService.renameDeck(deck.id, name);
+      onChanged();
+    } catch (error) {
+      console.error('Error renaming deck:', error);
+      Alert.alert('Error', 'Failed to rename deck.');
+    }
+  };
+
+  const handleDelete = () => {
+    Alert.alert(
+      'Delete Deck',
+      `Delete "${deck.name}"? Your learning progress for its words is kept.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await databaseService.deleteDeck(deck.id);
+              onChanged();
+              onClose();
+            } catch (error) {
+              console.error('Error deleting deck:', error);
+              Alert.alert('Error', 'Failed to delete deck.');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const handleAddEnrichedWord = async (word: string, cefrLevel: string) => {
+    try {
+      await databaseService.addEnrichedWordToDeck(deck.id, word, cefrLevel);
+      setSearchQuery('');
+      await loadWords(deck.id);
+      onChanged();
+    } catch (error) {
+      console.error('Error adding word to deck:', error);
+      Alert.alert('Error', 'Failed to add word.');
+    }
+  };
+
+  const handleAddCustomWord = async () => {
+    if (!customWord.trim() || !customDefinition.trim()) return;
+
+    try {
+      await databaseService.addCustomWordToDeck(deck.id, {
+        word: customWord.trim(),
+        definition: customDefinition.trim(),
+        pronunciation: '',
+        difficulty: 2,
+        category: 'custom'
+      });
+      setCustomWord('');
+      setCustomDefinition('');
+      await loadWords(deck.id);
+      onChanged();
+    } catch (error) {
+      console.error('Error adding custom word to deck:', error);
+      Alert.alert('Error', 'Failed to add custom word.');
+    }
+  };
+
+  const handleRemoveWord = async (deckWord: DeckWord) => {
+    try {
+      await databaseService.removeDeckWord(deckWord.id);
+      await loadWords(deck.id);
+      onChanged();
+    } catch (error) {
+      console.error('Error removing word from deck:', error);
+      Alert.alert('Error', 'Failed to remove word.');
+    }
+  };
+
+  const handleStartQuiz = async () => {
+    try {
+      await startQuiz(quizMode, undefined, deck.id);
+      onClose();
+      router.push('/quiz');
+    } catch {
+      Alert.alert('No Questions', 'This deck has no words for that mode yet. Try another mode or add more words.');
+    }
+  };
+
+  return (
+    <Modal visible={!!deck} animationType="slide" presentationStyle="fullScreen" onRequestClose={onClose}>
+      <View style={styles.modal}>
+        <ScrollView contentContainerStyle={styles.content}>
+          <View style={styles.header}>
+            <ThemedText style={styles.title} numberOfLines={1}>{deck.name}</ThemedText>
+            <ModernButton title="Close" onPress={onClose} variant="secondary" size="sm" />
+          </View>
+
+          {/* Quiz */}
+          <ModernCard variant="primary" pressable={false} delay={0}>
+            <ThemedText style={styles.sectionTitle}>🎯 Quiz This Deck</ThemedText>
+            <View style={styles.optionGrid}>
+              {deckQuizModes.map(option => (
+                <ModernButton
+                  key={option.value}
+                  title={option.label}
+                  onPress={() => setQuizMode(option.value)}
+                  variant={quizMode === option.value ? 'success' : 'secondary'}
+                  size="sm"
+                  style={styles.optionButton}
+                />
+              ))}
+            </View>
+            <ModernButton
+              title="Start Quiz"
+              onPress={handleStartQuiz}
+              variant="success"
+              size="lg"
+              icon="🚀"
+              disabled={words.length === 0}
+              style={styles.fullWidthButton}
+            />
+          </ModernCard>
+
+          {/* Words */}
+          <ModernCard variant="secondary" pressable={false} delay={0}>
+            <ThemedText style={styles.sectionTitle}>
+              📖 Words ({words.length})
+            </ThemedText>
+            {words.length === 0 ? (
+              <ThemedText style={styles.hintText}>Search for a word or add your own below.</ThemedText>
+            ) : (
+              <View style={styles.wordList}>
+                {words.map(deckWord => (
+                  <View key={deckWord.id} style={styles.wordRow}>
+                    <View style={styles.wordInfo}>
+                      <ThemedText style={styles.wordText}>{deckWord.word}</ThemedText>
+                      {deckWord.definition ? (
+                        <ThemedText style={styles.definitionText} numberOfLines={1}>{deckWord.definition}</ThemedText>
+                      ) : null}
+                    </View>
+                    <View style={styles.badge}>
+                      <ThemedText style={styles.badgeText}>{deckWord.cefrLevel || 'Custom'}</ThemedText>
+                    </View>
+                    <Pressable onPress={() => handleRemoveWord(deckWord)} hitSlop={8}>
+                      <ThemedText style={styles.removeText}>✕</ThemedText>
+                    </Pressable>
+                  </View>
+                ))}
+              </View>
+            )}
+          </ModernCard>
+
+          {/* Add words */}
+          <ModernCard variant="neutral" pressable={false} delay={0}>
+            <ThemedText style={styles.sectionTitle}>➕ Add Words</ThemedText>
+            <TextInput
+              placeholder="Search words (A1–C2)..."
+              placeholderTextColor="rgba(255,255,255,0.6)"
+              value={searchQuery}
+              onChangeText={setSearchQuery}
+              style={styles.input}
+            />
+            {searchResults.map(result => (
+              <Pressable
+                key={`${result.cefr}-${result.word}`}
+                onPress={() => handleAddEnrichedWord(result.word, result.cefr)}
+                style={styles.searchResult}
+              >
+                <View style={styles.wordInfo}>
+                  <ThemedText style={styles.wordText}>{result.word}</ThemedText>
+                  {result.definition ? (
+                    <ThemedText style={styles.definitionText} numberOfLines={1}>{result.definition}</ThemedText>
+                  ) : null}
+                </View>
+                <View style={styles.badge}>
+                  <ThemedText style={styles.badgeText}>{result.cefr}</ThemedText>
+                </View>
+              </Pressable>
+            ))}
+
+            <ThemedText style={styles.label}>Custom word</ThemedText>
+            <TextInput
+              placeholder="Word"
+              placeholderTextColor="rgba(255,255,255,0.6)"
+              value={customWord}
+              onChangeText={setCustomWord}
+              autoCapitalize="none"
+              style={styles.input}
+            />
+            <TextInput
+              placeholder="Definition"
+              placeholderTextColor="rgba(255,255,255,0.6)"
+              value={customDefinition}
+              onChangeText={setCustomDefinition}
+              multiline
+              style={styles.input}
+            />
+            <ModernButton
+              title="Add Custom Word"
+              onPress={handleAddCustomWord}
+              variant="primary"
+              size="md"
+              disabled={!customWord.trim() || !customDefinition.trim()}
+              style={styles.fullWidthButton}
+            />
+          </ModernCard>
+
+          {/* Import */}
+          <WordListImport
+            deckId={deck.id}
+            onImported={() => {
+              loadWords(deck.id);
+              onChanged();
+            }}
+          />
+
+          {/* Anki */}
+          <AnkiCard
+            deck={deck}
+            onImported={() => {
+              loadWords(deck.id);
+              onChanged();
+            }}
+          />
+
+          {/* Manage */}
+          <ModernCard variant="warning" pressable={false} delay={0}>
+            <ThemedText style={styles.sectionTitle}>⚙️ Manage Deck</ThemedText>
+            <TextInput
+              value={name}
+              onChangeText={setName}
+              placeholder="Deck name"
+              placeholderTextColor="rgba(255,255,255,0.6)"
+              style={styles.input}
+            />
+            <ModernButton
+              title="Rename"
+              onPress={handleRename}
+              variant="secondary"
+              size="md"
+              disabled={!name.trim() || name.trim() === deck.name}
+              style={styles.fullWidthButton}
+            />
+            <ModernButton
+              title="Delete Deck"
+              onPress={handleDelete}
+              variant="error"
+              size="md"
+              icon="🗑️"
+              style={styles.fullWidthButton}
+            />
+          </ModernCard>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modal: {
+    flex: 1,
+    backgroundColor: '#1a0b2e',
+    paddingTop: Spacing.xl,
+  },
+  content: {
+    paddingHorizontal: Spacing.lg,
+    paddingBottom: Spacing.xl,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: Spacing.md,
+    marginBottom: Spacing.md,
+  },
+  title: {
+    flex: 1,
+    fontSize: 24,
+    fontWeight: '800',
+    color: '#ffffff',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#ffffff',
+    marginBottom: Spacing.sm,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffffff',
+    marginTop: Spacing.md,
+  },
+  hintText: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.7)',
+  },
+  optionGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.xs,
+    marginBottom: Spacing.md,
+  },
+  optionButton: {
+    minWidth: 60,
+  },
+  fullWidthButton: {
+    width: '100%',
+    marginTop: Spacing.sm,
+  },
+  wordList: {
+    gap: Spacing.xs,
+  },
+  wordRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  wordInfo: {
+    flex: 1,
+  },
+  wordText: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  definitionText: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.8)',
+  },
+  badge: {
+    backgroundColor: 'rgba(255, 255, 255, 0.3)',
+    paddingHorizontal: Spacing.xs,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  badgeText: {
+    color: '#ffffff',
+    fontSize: 10,
+    fontWeight: '700',
+  },
+  removeText: {
+    color: 'rgba(255, 255, 255, 0.8)',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  searchResult: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    paddingVertical: 6,
+  },
+  input: {
+    width: '100%',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.2)',
+    borderRadius: 12,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: 10,
+    color: '#ffffff',
+    marginTop: Spacing.sm,
+    backgroundColor: 'rgba(255,255,255,0.08)',
+  },
+});
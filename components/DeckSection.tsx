@@ -0,0 +1,229 @@
+import { Spacing } from '@/constants/ModernColors';
+import { databaseService } from '@/services/database';
+import { Deck } from '@/types';
+import { useFocusEffect } from '@react-navigation/native';
+import React, { useCallback, useState } from 'react';
+import { Alert, Pressable, StyleSheet, TextInput, View } from 'react-native';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+import DeckDetailModal from './DeckDetailModal';
+import { ThemedText } from './ThemedText';
+import ModernCard from './layout/ModernCard';
+import ModernButton from './modern/ModernButton';
+
+export default function DeckSection() {
+  const [decks, setDecks] = useState<Deck[]>([]);
+  const [newDeckName, setNewDeckName] = useState('');
+  const [selectedDeck, setSelectedDeck] = useState<Deck | null>(null);
+
+  const loadDecks = useCallback(async () => {
+    if (!databaseService.isInitialized()) return;
+    setDecks(await databaseService.getDecks());
+  }, []);
+
+  // 画面がフォーカスされたときにデッキ一覧をリフレッシュ
+  useFocusEffect(
+    useCallback(() => {
+      loadDecks();
+    }, [loadDecks])
+  );
+
+  const handleCreateDeck = async () => {
+    if (!newDeckName.trim()) return;
+
+    try {
+      await databaseService.createDeck(newDeckName);
+      setNewDeckName('');
+      await loadDecks();
+    } catch (error) {
+      console.error('Error creating deck:', error);
+      Alert.alert('Error', 'Failed to create deck.');
+    }
+  };
+
+  // 隣のデッキと入れ替えて並び順を保存
+  const handleMoveDeck = async (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= decks.length) return;
+
+    const reordered = [...decks];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setDecks(reordered);
+
+    try {
+      await databaseService.reorderDecks(reordered.map(deck => deck.id));
+    } catch (error) {
+      console.error('Error reordering decks:', error);
+      Alert.alert('Error', 'Failed to reorder decks.');
+      await loadDecks();
+    }
+  };
+
+  return (
+    <Animated.View entering={FadeInDown.delay(80)} style={styles.container}>
+      <ModernCard variant="success" pressable={false} delay={0}>
+        <View style={styles.sectionHeader}>
+          <View style={styles.sectionTitleContainer}>
+            <ThemedText style={styles.sectionEmoji}>🗂️</ThemedText>
+            <ThemedText style={styles.sectionTitle}>My Decks</ThemedText>
+          </View>
+          <ThemedText style={styles.deckCount}>
+            {decks.length} {decks.length === 1 ? 'deck' : 'decks'}
+          </ThemedText>
+        </View>
+
+        {decks.length === 0 ? (
+          <View style={styles.emptyState}>
+            <ThemedText style={styles.emptyStateText}>No decks yet</ThemedText>
+            <ThemedText style={styles.emptyStateSubtext}>
+              Create a deck to collect words for an exam or topic
+            </ThemedText>
+          </View>
+        ) : (
+          <View style={styles.deckList}>
+            {decks.map((deck, index) => (
+              <View key={deck.id} style={styles.deckRow}>
+                <Pressable style={styles.deckInfo} onPress={() => setSelectedDeck(deck)}>
+                  <ThemedText style={styles.deckName} numberOfLines={1}>{deck.name}</ThemedText>
+                  <ThemedText style={styles.deckWordCount}>
+                    {deck.wordCount} {deck.wordCount === 1 ? 'word' : 'words'}
+                  </ThemedText>
+                </Pressable>
+                <ModernButton
+                  title="↑"
+                  onPress={() => handleMoveDeck(index, -1)}
+                  variant="secondary"
+                  size="sm"
+                  disabled={index === 0}
+                  style={styles.moveButton}
+                />
+                <ModernButton
+                  title="↓"
+                  onPress={() => handleMoveDeck(index, 1)}
+                  variant="secondary"
+                  size="sm"
+                  disabled={index === decks.length - 1}
+                  style={styles.moveButton}
+                />
+              </View>
+            ))}
+          </View>
+        )}
+
+        <View style={styles.createRow}>
+          <TextInput
+            placeholder="New deck name"
+            placeholderTextColor="rgba(255,255,255,0.6)"
+            value={newDeckName}
+            onChangeText={setNewDeckName}
+            onSubmitEditing={handleCreateDeck}
+            style={styles.input}
+          />
+          <ModernButton
+            title="Create"
+            onPress={handleCreateDeck}
+            variant="primary"
+            size="sm"
+            icon="➕"
+            disabled={!newDeckName.trim()}
+          />
+        </View>
+      </ModernCard>
+
+      <DeckDetailModal
+        deck={selectedDeck}
+        onClose={() => setSelectedDeck(null)}
+        onChanged={loadDecks}
+      />
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: Spacing.md,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: Spacing.md,
+  },
+  sectionTitleContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  sectionEmoji: {
+    fontSize: 24,
+    marginRight: Spacing.xs,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  deckCount: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.8)',
+    fontWeight: '600',
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: Spacing.lg,
+  },
+  emptyStateText: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: Spacing.xs,
+    color: 'rgba(255, 255, 255, 0.8)',
+    textAlign: 'center',
+  },
+  emptyStateSubtext: {
+    fontSize: 14,
+    textAlign: 'center',
+    color: 'rgba(255, 255, 255, 0.6)',
+    lineHeight: 20,
+  },
+  deckList: {
+    gap: Spacing.sm,
+  },
+  deckRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    backgroundColor: 'rgba(255, 255, 255, 0.12)',
+    borderRadius: 12,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+  },
+  deckInfo: {
+    flex: 1,
+  },
+  deckName: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  deckWordCount: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.75)',
+  },
+  moveButton: {
+    minWidth: 36,
+  },
+  createRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    marginTop: Spacing.md,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.2)',
+    borderRadius: 12,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: 10,
+    color: '#ffffff',
+    backgroundColor: 'rgba(255,255,255,0.08)',
+  },
+});
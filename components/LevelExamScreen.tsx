@@ -0,0 +1,246 @@
+import { Spacing } from '@/constants/ModernColors';
+import { QuizQuestion } from '@/services/enrichedQuizService';
+import { LevelExamResult, LevelSuggestion, levelProgressionService } from '@/services/levelProgressionService';
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, ScrollView, StyleSheet, View } from 'react-native';
+import Animated, { FadeInDown, FadeInUp } from 'react-native-reanimated';
+import { ThemedText } from './ThemedText';
+import ModernCard from './layout/ModernCard';
+import ModernButton from './modern/ModernButton';
+
+interface LevelExamScreenProps {
+  suggestion: LevelSuggestion;
+  onFinish: (result: LevelExamResult | null) => void;
+}
+
+// 回答後に正誤を表示してから次の問題に進むまでの時間
+const FEEDBACK_DELAY_MS = 800;
+
+export default function LevelExamScreen({ suggestion, onFinish }: LevelExamScreenProps) {
+  const [questions, setQuestions] = useState<QuizQuestion[]>([]);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [correctCount, setCorrectCount] = useState(0);
+  const [selectedOption, setSelectedOption] = useState<string | null>(null);
+  const [result, setResult] = useState<LevelExamResult | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const loadExam = async () => {
+      try {
+        const examQuestions = await levelProgressionService.createExam(suggestion);
+        if (examQuestions.length === 0) {
+          throw new Error('No exam questions available');
+        }
+        setQuestions(examQuestions);
+      } catch (error) {
+        console.error('Error creating level exam:', error);
+        Alert.alert('Error', 'Failed to create the level exam. Please try again later.');
+        onFinish(null);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadExam();
+  }, [suggestion, onFinish]);
+
+  const finishExam = async (finalCorrectCount: number) => {
+    setIsLoading(true);
+    try {
+      setResult(await levelProgressionService.completeExam(suggestion, finalCorrectCount, questions.length));
+    } catch (error) {
+      console.error('Error finishing level exam:', error);
+      Alert.alert('Error', 'Failed to save your exam result. Please try again.');
+      onFinish(null);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleAnswer = (option: string) => {
+    const question = questions[currentIndex];
+    if (!question || selectedOption) return;
+
+    setSelectedOption(option);
+    const nextCorrectCount = correctCount + (option === question.correctAnswer ? 1 : 0);
+    setCorrectCount(nextCorrectCount);
+
+    setTimeout(() => {
+      if (currentIndex + 1 >= questions.length) {
+        finishExam(nextCorrectCount);
+      } else {
+        setCurrentIndex(currentIndex + 1);
+        setSelectedOption(null);
+      }
+    }, FEEDBACK_DELAY_MS);
+  };
+
+  const getOptionVariant = (option: string) => {
+    const question = questions[currentIndex];
+    if (!selectedOption || !question) return 'secondary';
+    if (option === question.correctAnswer) return 'success';
+    if (option === selectedOption) return 'error';
+    return 'secondary';
+  };
+
+  const question = questions[currentIndex];
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+      <Animated.View style={styles.titleSection} entering={FadeInUp.delay(200)}>
+        <ThemedText style={styles.titleEmoji}>🎓</ThemedText>
+        <ThemedText style={styles.title}>{suggestion.toLevel} Level-Up Exam</ThemedText>
+        <ThemedText style={styles.subtitle}>
+          {result
+            ? 'Exam complete'
+            : `Question ${Math.min(currentIndex + 1, questions.length || 1)} of ${questions.length || levelProgressionService.EXAM_QUESTION_COUNT}`}
+        </ThemedText>
+      </Animated.View>
+
+      {!result && (
+        <Animated.View entering={FadeInDown.delay(100)}>
+          <ModernCard variant="secondary" pressable={false} delay={0}>
+            {isLoading || !question ? (
+              <View style={styles.loadingContainer}>
+                <ActivityIndicator size="large" color="#ffffff" />
+              </View>
+            ) : (
+              <>
+                <ThemedText style={styles.questionWord}>{question.word.word}</ThemedText>
+                {question.word.pos && (
+                  <ThemedText style={styles.questionPos}>{question.word.pos}</ThemedText>
+                )}
+                <ThemedText style={styles.sectionDescription}>Select the correct definition:</ThemedText>
+                <View style={styles.optionsContainer}>
+                  {question.options.map(option => (
+                    <ModernButton
+                      key={option}
+                      title={option}
+                      onPress={() => handleAnswer(option)}
+                      variant={getOptionVariant(option)}
+                      size="md"
+                      disabled={!!selectedOption}
+                      style={styles.optionButton}
+                    />
+                  ))}
+                </View>
+              </>
+            )}
+          </ModernCard>
+        </Animated.View>
+      )}
+
+      {result && (
+        <Animated.View entering={FadeInDown.delay(200)}>
+          <ModernCard variant={result.passed ? 'success' : 'warning'} pressable={false} delay={0}>
+            <ThemedText style={styles.sectionTitle}>
+              {result.passed ? `Welcome to ${suggestion.toLevel}!` : `Stay at ${suggestion.fromLevel} for now`}
+            </ThemedText>
+            <ThemedText style={styles.sectionDescription}>
+              {result.correctCount} of {result.totalCount} correct.{' '}
+              {result.passed
+                ? `Your level has been updated to ${suggestion.toLevel}.`
+                : `You need ${Math.round(levelProgressionService.EXAM_PASS_ACCURACY * 100)}% to pass. Keep practicing and try again later.`}
+            </ThemedText>
+            <ModernButton
+              title="Done"
+              onPress={() => onFinish(result)}
+              variant="primary"
+              size="lg"
+              style={styles.primaryButton}
+            />
+          </ModernCard>
+        </Animated.View>
+      )}
+
+      {!result && (
+        <Animated.View style={styles.actionsContainer} entering={FadeInDown.delay(600)}>
+          <ModernButton
+            title="Cancel"
+            onPress={() => onFinish(null)}
+            variant="secondary"
+            size="md"
+            style={styles.secondaryButton}
+          />
+        </Animated.View>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  contentContainer: {
+    flexGrow: 1,
+    paddingHorizontal: Spacing.lg,
+    paddingBottom: Spacing.xl,
+  },
+  titleSection: {
+    alignItems: 'center',
+    paddingVertical: Spacing.lg,
+  },
+  titleEmoji: {
+    fontSize: 48,
+    marginBottom: Spacing.md,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '800',
+    color: '#ffffff',
+    textAlign: 'center',
+    marginBottom: Spacing.sm,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: 'rgba(255, 255, 255, 0.8)',
+    textAlign: 'center',
+    lineHeight: 22,
+    fontWeight: '500',
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#ffffff',
+    marginBottom: Spacing.sm,
+  },
+  sectionDescription: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.8)',
+    lineHeight: 20,
+    marginBottom: Spacing.lg,
+    fontWeight: '400',
+  },
+  loadingContainer: {
+    paddingVertical: Spacing.xl,
+    alignItems: 'center',
+  },
+  questionWord: {
+    fontSize: 32,
+    fontWeight: '800',
+    color: '#ffffff',
+    textAlign: 'center',
+  },
+  questionPos: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.7)',
+    textAlign: 'center',
+    fontStyle: 'italic',
+    marginBottom: Spacing.md,
+  },
+  optionsContainer: {
+    gap: Spacing.sm,
+  },
+  optionButton: {
+    width: '100%',
+  },
+  actionsContainer: {
+    marginTop: Spacing.lg,
+  },
+  primaryButton: {
+    width: '100%',
+  },
+  secondaryButton: {
+    width: '100%',
+  },
+});
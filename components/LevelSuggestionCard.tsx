@@ -0,0 +1,138 @@
+import { Spacing } from '@/constants/ModernColors';
+import { databaseService } from '@/services/database';
+import { LevelExamResult, LevelSuggestion, levelProgressionService } from '@/services/levelProgressionService';
+import { useAppStore } from '@/store/useAppStore';
+import { useFocusEffect } from '@react-navigation/native';
+import React, { useCallback, useEffect, useState } from 'react';
+import { Alert, Modal, StyleSheet, View } from 'react-native';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+import LevelExamScreen from './LevelExamScreen';
+import { ThemedText } from './ThemedText';
+import ModernCard from './layout/ModernCard';
+import ModernButton from './modern/ModernButton';
+
+export default function LevelSuggestionCard() {
+  const [suggestion, setSuggestion] = useState<LevelSuggestion | null>(null);
+  const [showExam, setShowExam] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const activeProfileId = useAppStore(state => state.activeProfileId);
+
+  const loadSuggestion = useCallback(() => {
+    if (!databaseService.isInitialized()) return;
+    levelProgressionService.getSuggestion().then(setSuggestion);
+  }, []);
+
+  // タブがアクティブになるたびに直近の成績から提案を更新
+  useFocusEffect(loadSuggestion);
+
+  // プロフィールを切り替えたら切り替え先の成績で提案し直す
+  useEffect(() => {
+    loadSuggestion();
+  }, [activeProfileId, loadSuggestion]);
+
+  const handleDismiss = async () => {
+    await levelProgressionService.dismissSuggestion();
+    setSuggestion(null);
+  };
+
+  const handleAcceptDemotion = async () => {
+    if (!suggestion) return;
+
+    setIsSaving(true);
+    try {
+      await levelProgressionService.acceptDemotion(suggestion);
+      setSuggestion(null);
+    } catch (error) {
+      console.error('Error accepting level change:', error);
+      Alert.alert('Error', 'Failed to change your level. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // 試験画面の読み込み処理が再実行されないようにメモ化する
+  const handleExamFinish = useCallback((result: LevelExamResult | null) => {
+    setShowExam(false);
+    // 受験した場合は合否に関係なく判定済みになるので提案を閉じる
+    if (result) {
+      setSuggestion(null);
+    }
+  }, []);
+
+  if (!suggestion) return null;
+
+  const isPromotion = suggestion.direction === 'promotion';
+  const accuracyPercent = Math.round(suggestion.accuracy * 100);
+
+  return (
+    <Animated.View entering={FadeInDown.delay(500)} style={styles.container}>
+      <ModernCard variant={isPromotion ? 'success' : 'warning'} pressable={false} delay={0}>
+        <ThemedText style={styles.title}>
+          {isPromotion ? `🎓 Ready for ${suggestion.toLevel}?` : `🧭 Try ${suggestion.toLevel} for a while?`}
+        </ThemedText>
+        <ThemedText style={styles.description}>
+          {isPromotion
+            ? `You answered ${accuracyPercent}% of your last ${suggestion.attempts} ${suggestion.fromLevel} questions correctly. Pass a short ${levelProgressionService.EXAM_QUESTION_COUNT}-question exam to move up.`
+            : `You answered ${accuracyPercent}% of your last ${suggestion.attempts} ${suggestion.fromLevel} questions correctly. Practicing at ${suggestion.toLevel} can help you build a stronger base.`}
+        </ThemedText>
+        <View style={styles.actions}>
+          <ModernButton
+            title={isPromotion ? 'Take Level-Up Exam' : `Switch to ${suggestion.toLevel}`}
+            onPress={isPromotion ? () => setShowExam(true) : handleAcceptDemotion}
+            variant="primary"
+            size="md"
+            loading={isSaving}
+            style={styles.button}
+          />
+          <ModernButton
+            title={isPromotion ? 'Not Now' : `Keep ${suggestion.fromLevel}`}
+            onPress={handleDismiss}
+            variant="secondary"
+            size="md"
+            style={styles.button}
+          />
+        </View>
+      </ModernCard>
+
+      <Modal
+        visible={showExam}
+        animationType="slide"
+        presentationStyle="fullScreen"
+        onRequestClose={() => setShowExam(false)}
+      >
+        <View style={styles.examModal}>
+          {showExam && <LevelExamScreen suggestion={suggestion} onFinish={handleExamFinish} />}
+        </View>
+      </Modal>
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: Spacing.md,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#ffffff',
+    marginBottom: Spacing.sm,
+  },
+  description: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.85)',
+    lineHeight: 20,
+    marginBottom: Spacing.md,
+  },
+  actions: {
+    gap: Spacing.sm,
+  },
+  button: {
+    width: '100%',
+  },
+  examModal: {
+    flex: 1,
+    backgroundColor: '#1a0b2e',
+    paddingTop: Spacing.xl,
+  },
+});
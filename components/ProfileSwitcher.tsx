@@ -0,0 +1,289 @@
+import { Spacing } from '@/constants/ModernColors';
+import { useAppStore } from '@/store/useAppStore';
+import { Profile } from '@/types';
+import React, { useState } from 'react';
+import { Alert, Modal, Pressable, ScrollView, StyleSheet, TextInput, View } from 'react-native';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+import { ThemedText } from './ThemedText';
+import ModernCard from './layout/ModernCard';
+import ModernButton from './modern/ModernButton';
+
+// プロフィールのアバター（未設定の場合は名前の頭文字を表示）
+const AVATARS = ['🙂', '🦊', '🐼', '🐯', '🐸', '🦄', '🐙', '🚀', '⭐', '🎨'];
+
+const getAvatarLabel = (profile: Profile): string => profile.avatar || profile.name.charAt(0).toUpperCase();
+
+export default function ProfileSwitcher() {
+  const { profiles, activeProfileId, switchProfile, createProfile, updateProfile, deleteProfile } = useAppStore();
+  const [editing, setEditing] = useState<Profile | 'new' | null>(null);
+  const [name, setName] = useState('');
+  const [avatar, setAvatar] = useState<string | undefined>(AVATARS[0]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const openEditor = (profile: Profile | 'new') => {
+    setEditing(profile);
+    setName(profile === 'new' ? '' : profile.name);
+    setAvatar(profile === 'new' ? AVATARS[0] : profile.avatar);
+  };
+
+  const handleSwitch = async (profileId: number) => {
+    try {
+      await switchProfile(profileId);
+    } catch (error) {
+      console.error('Error switching profile:', error);
+      Alert.alert('Cannot Switch Profile', error instanceof Error ? error.message : 'Failed to switch profile.');
+    }
+  };
+
+  // 新しいプロフィールは作成後にそのまま切り替える
+  const handleSave = async () => {
+    if (!editing || !name.trim()) return;
+
+    setIsSaving(true);
+    try {
+      if (editing === 'new') {
+        const profileId = await createProfile(name, avatar);
+        await switchProfile(profileId);
+      } else {
+        await updateProfile(editing.id, name, avatar);
+      }
+      setEditing(null);
+    } catch (error) {
+      console.error('Error saving profile:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to save the profile.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!editing || editing === 'new') return;
+
+    const profile = editing;
+    Alert.alert(
+      'Delete Profile?',
+      `All progress, bookmarks, decks, settings and XP of ${profile.name} will be deleted. This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteProfile(profile.id);
+              setEditing(null);
+            } catch (error) {
+              console.error('Error deleting profile:', error);
+              Alert.alert('Error', error instanceof Error ? error.message : 'Failed to delete the profile.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  if (profiles.length === 0) return null;
+
+  return (
+    <Animated.View entering={FadeInDown.delay(50)} style={styles.container}>
+      <ModernCard variant="glass" pressable={false} delay={0}>
+        <View style={styles.header}>
+          <ThemedText style={styles.sectionTitle}>👥 Who&apos;s learning?</ThemedText>
+          <ThemedText style={styles.hintText}>Long-press to edit</ThemedText>
+        </View>
+
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.profileList}>
+          {profiles.map(profile => {
+            const isActive = profile.id === activeProfileId;
+            return (
+              <Pressable
+                key={profile.id}
+                onPress={() => handleSwitch(profile.id)}
+                onLongPress={() => openEditor(profile)}
+                style={[styles.profileChip, isActive && styles.activeChip]}
+              >
+                <ThemedText style={styles.avatar}>{getAvatarLabel(profile)}</ThemedText>
+                <ThemedText style={styles.profileName} numberOfLines={1}>{profile.name}</ThemedText>
+              </Pressable>
+            );
+          })}
+          <Pressable onPress={() => openEditor('new')} style={styles.profileChip}>
+            <ThemedText style={styles.avatar}>➕</ThemedText>
+            <ThemedText style={styles.profileName}>Add</ThemedText>
+          </Pressable>
+        </ScrollView>
+      </ModernCard>
+
+      <Modal visible={!!editing} animationType="slide" presentationStyle="fullScreen" onRequestClose={() => setEditing(null)}>
+        <View style={styles.modal}>
+          <ScrollView contentContainerStyle={styles.content}>
+            <View style={styles.modalHeader}>
+              <ThemedText style={styles.title}>{editing === 'new' ? 'New Profile' : 'Edit Profile'}</ThemedText>
+              <ModernButton title="Close" onPress={() => setEditing(null)} variant="secondary" size="sm" />
+            </View>
+
+            <ModernCard variant="neutral" pressable={false} delay={0}>
+              <ThemedText style={styles.label}>Name</ThemedText>
+              <TextInput
+                placeholder="Name"
+                placeholderTextColor="rgba(255,255,255,0.6)"
+                value={name}
+                onChangeText={setName}
+                maxLength={30}
+                style={styles.input}
+              />
+
+              <ThemedText style={styles.label}>Avatar</ThemedText>
+              <View style={styles.avatarGrid}>
+                <Pressable
+                  onPress={() => setAvatar(undefined)}
+                  style={[styles.avatarOption, !avatar && styles.activeChip]}
+                >
+                  <ThemedText style={styles.avatar}>{name.trim().charAt(0).toUpperCase() || '?'}</ThemedText>
+                </Pressable>
+                {AVATARS.map(option => (
+                  <Pressable
+                    key={option}
+                    onPress={() => setAvatar(option)}
+                    style={[styles.avatarOption, avatar === option && styles.activeChip]}
+                  >
+                    <ThemedText style={styles.avatar}>{option}</ThemedText>
+                  </Pressable>
+                ))}
+              </View>
+
+              <ModernButton
+                title={editing === 'new' ? 'Create Profile' : 'Save'}
+                onPress={handleSave}
+                variant="primary"
+                size="md"
+                loading={isSaving}
+                disabled={!name.trim()}
+                style={styles.fullWidthButton}
+              />
+              {editing !== 'new' && editing !== null && profiles.length > 1 && (
+                <ModernButton
+                  title="Delete Profile"
+                  onPress={handleDelete}
+                  variant="error"
+                  size="md"
+                  icon="🗑️"
+                  disabled={isSaving}
+                  style={styles.fullWidthButton}
+                />
+              )}
+            </ModernCard>
+          </ScrollView>
+        </View>
+      </Modal>
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: Spacing.md,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: Spacing.sm,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  hintText: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.7)',
+  },
+  profileList: {
+    gap: Spacing.sm,
+  },
+  profileChip: {
+    alignItems: 'center',
+    width: 72,
+    paddingVertical: Spacing.sm,
+    borderRadius: 16,
+    borderWidth: 2,
+    borderColor: 'transparent',
+    backgroundColor: 'rgba(255, 255, 255, 0.12)',
+  },
+  activeChip: {
+    borderColor: '#ffffff',
+    backgroundColor: 'rgba(255, 255, 255, 0.25)',
+  },
+  avatar: {
+    fontSize: 28,
+    lineHeight: 34,
+    color: '#ffffff',
+    fontWeight: '700',
+  },
+  profileName: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#ffffff',
+    marginTop: 2,
+    paddingHorizontal: 4,
+  },
+  modal: {
+    flex: 1,
+    backgroundColor: '#1a0b2e',
+    paddingTop: Spacing.xl,
+  },
+  content: {
+    paddingHorizontal: Spacing.lg,
+    paddingBottom: Spacing.xl,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: Spacing.md,
+    marginBottom: Spacing.md,
+  },
+  title: {
+    flex: 1,
+    fontSize: 24,
+    fontWeight: '800',
+    color: '#ffffff',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffffff',
+    marginTop: Spacing.sm,
+    marginBottom: Spacing.xs,
+  },
+  input: {
+    width: '100%',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.2)',
+    borderRadius: 12,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: 10,
+    color: '#ffffff',
+    backgroundColor: 'rgba(255,255,255,0.08)',
+  },
+  avatarGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.xs,
+  },
+  avatarOption: {
+    width: 52,
+    height: 52,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: 14,
+    borderWidth: 2,
+    borderColor: 'transparent',
+    backgroundColor: 'rgba(255, 255, 255, 0.12)',
+  },
+  fullWidthButton: {
+    width: '100%',
+    marginTop: Spacing.md,
+  },
+});
@@ -1,5 +1,6 @@
 import { Spacing } from '@/constants/ModernColors';
 import { useAppStore } from '@/store/useAppStore';
+import { QuizMode } from '@/types';
 import { useRouter } from 'expo-router';
 import React from 'react';
 import { Alert, StyleSheet, Text, View } from 'react-native';
@@ -10,9 +11,9 @@ import ModernButton from './modern/ModernButton';
 
 export default function QuickActions() {
   const router = useRouter();
-  const { startQuiz } = useAppStore();
+  const { startQuiz, dueCounts } = useAppStore();
 
-  const handleQuickQuiz = async (mode: 'random' | 'review') => {
+  const handleQuickQuiz = async (mode: QuizMode) => {
     try {
       await startQuiz(mode, 10); // Quick 10-question quiz
       router.push('/quiz');
@@ -28,6 +29,26 @@ export default function QuickActions() {
       </Animated.View>
       
       <View style={styles.actionsGrid}>
+        {dueCounts.total > 0 && (
+          <Animated.View entering={FadeInDown.delay(650)}>
+            <ModernCard
+              variant="success"
+              onPress={() => handleQuickQuiz('due')}
+              style={styles.dueCard}
+            >
+              <View style={styles.dueContent}>
+                <Text style={styles.dueEmoji}>⏰</Text>
+                <View style={styles.dueInfo}>
+                  <ThemedText style={styles.dueTitle}>
+                    {dueCounts.total} {dueCounts.total === 1 ? 'review' : 'reviews'} due
+                  </ThemedText>
+                  <ThemedText style={styles.dueSubtitle}>Tap to review before you forget</ThemedText>
+                </View>
+              </View>
+            </ModernCard>
+          </Animated.View>
+        )}
+
         <Animated.View entering={FadeInDown.delay(700)} style={styles.actionRow}>
           <ModernButton
             title="Quick Quiz"
@@ -94,6 +115,29 @@ const styles = StyleSheet.create({
   actionsGrid: {
     gap: Spacing.md,
   },
+  dueCard: {
+    marginVertical: 0,
+  },
+  dueContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  dueEmoji: {
+    fontSize: 32,
+    marginRight: Spacing.md,
+  },
+  dueInfo: {
+    flex: 1,
+  },
+  dueTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  dueSubtitle: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.8)',
+  },
   actionRow: {
     width: '100%',
   },
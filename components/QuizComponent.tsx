@@ -1,6 +1,7 @@
 import { BorderRadius, ModernColors, ShadowStyles, Spacing } from '@/constants/ModernColors';
 import { useAudio } from '@/hooks/useAudio';
 import { useAppStore } from '@/store/useAppStore';
+import { AnswerOutcome } from '@/types';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useRouter } from 'expo-router';
 import React, { useEffect, useRef, useState } from 'react';
@@ -22,6 +23,7 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { ThemedText } from './ThemedText';
 import { ThemedView } from './ThemedView';
 import ModernButton from './modern/ModernButton';
+import ModernTextInput from './modern/ModernTextInput';
 
 export default function QuizComponent() {
   const router = useRouter();
@@ -32,16 +34,17 @@ export default function QuizComponent() {
     nextQuestion, 
     previousQuestion,
     finishSession, 
-    bookmarkWord,
-    bookmarkEnrichedWord,
+    toggleBookmark,
     cancelQuiz
   } = useAppStore();
 
-  const { playWord, isPlaying, settings } = useAudio();
+  const { playWord, speakWord, isPlaying, settings } = useAudio();
 
   const [selectedAnswer, setSelectedAnswer] = useState<string>('');
   const [showResult, setShowResult] = useState(false);
   const [isCorrect, setIsCorrect] = useState(false);
+  const [typedAnswer, setTypedAnswer] = useState('');
+  const [answerOutcome, setAnswerOutcome] = useState<AnswerOutcome | null>(null);
   const [showSummary, setShowSummary] = useState(false);
   const [summaryCorrectWords, setSummaryCorrectWords] = useState<string[]>([]);
   const [summaryIncorrectWords, setSummaryIncorrectWords] = useState<string[]>([]);
@@ -51,12 +54,22 @@ export default function QuizComponent() {
   useEffect(() => {
     if (currentSession && settings.autoPlay) {
       const currentQuestion = currentSession.questions[currentSession.currentIndex];
-      if (currentQuestion) {
+      // 単語を隠す問題（タイピング・定義や例文の提示）では発音が答えになってしまうため自動再生しない
+      if (currentQuestion && currentQuestion.answerFormat !== 'typed' && !currentQuestion.prompt) {
         playWord(currentQuestion.word, currentQuestion.pronunciation);
       }
     }
   }, [currentSession?.currentIndex, settings.autoPlay, playWord, currentSession]);
 
+  // 書き取り問題は表示時に単語を読み上げる（見出し語の表記ゆれは最初の形を使用）
+  const sessionQuestion = currentSession?.questions[currentSession.currentIndex];
+  const dictationWord = sessionQuestion?.questionType === 'dictation' ? sessionQuestion.word.split('/')[0] : null;
+  useEffect(() => {
+    if (dictationWord) {
+      speakWord(dictationWord);
+    }
+  }, [dictationWord, currentSession?.currentIndex, speakWord]);
+
   // デバッグ用: クイズデータの確認
   useEffect(() => {
     if (currentSession) {
@@ -88,6 +101,13 @@ export default function QuizComponent() {
   const currentQuestion = currentSession.questions[currentSession.currentIndex];
   const progress = ((currentSession.currentIndex + 1) / currentSession.questions.length) * 100;
   const isLastQuestion = currentSession.currentIndex === currentSession.questions.length - 1;
+  const isTypedQuestion = currentQuestion.answerFormat === 'typed';
+  const isDictationQuestion = currentQuestion.questionType === 'dictation';
+
+  // 書き取りの再生（slowはユーザー設定の0.5倍速）
+  const handleDictationPlay = (slow: boolean) => {
+    speakWord(currentQuestion.word.split('/')[0], { speed: settings.speed * (slow ? 0.5 : 1) });
+  };
 
   const handleAnswerSelect = async (answer: string) => {
     if (showResult) return;
@@ -102,6 +122,25 @@ export default function QuizComponent() {
     await submitAnswer(currentQuestion.id, answer);
   };
 
+  // タイピング解答の送信
+  const handleTypedSubmit = async () => {
+    if (showResult || !typedAnswer.trim()) return;
+
+    setSelectedAnswer(typedAnswer);
+    const outcome = await submitAnswer(currentQuestion.id, typedAnswer) ?? 'incorrect';
+    setAnswerOutcome(outcome);
+    setIsCorrect(outcome === 'correct');
+    setShowResult(true);
+  };
+
+  const resetAnswerState = () => {
+    setSelectedAnswer('');
+    setShowResult(false);
+    setIsCorrect(false);
+    setTypedAnswer('');
+    setAnswerOutcome(null);
+  };
+
   const handleExitQuiz = () => {
     Alert.alert(
       'Exit Quiz',
@@ -123,16 +162,27 @@ export default function QuizComponent() {
     );
   };
 
-  // Helper function to map difficulty to CEFR level
-  const mapDifficultyToCefr = (difficulty: number): string => {
-    switch (difficulty) {
-      case 1: return 'A1';
-      case 2: return 'A2';
-      case 3: return 'B1';
-      case 4: return 'B2';
-      case 5: return 'C1';
-      case 6: return 'C2';
-      default: return 'A2';
+  // 問題形式ごとの指示文
+  const getInstruction = (): string => {
+    if (isDictationQuestion) {
+      return 'Listen and type the word you hear:';
+    }
+    if (isTypedQuestion) {
+      return currentQuestion.questionType === 'example'
+        ? 'Type the word that fills the blank:'
+        : 'Type the word that matches this definition:';
+    }
+    switch (currentQuestion.questionType) {
+      case 'reverse':
+        return 'Select the word that matches this definition:';
+      case 'synonym':
+        return 'Select the word with the same meaning:';
+      case 'antonym':
+        return 'Select the word with the opposite meaning:';
+      case 'example':
+        return 'Select the word that fills the blank:';
+      default:
+        return 'Select the correct definition:';
     }
   };
 
@@ -142,9 +192,7 @@ export default function QuizComponent() {
       handleFinish();
     } else {
       // Reset state for next question
-      setSelectedAnswer('');
-      setShowResult(false);
-      setIsCorrect(false);
+      resetAnswerState();
       
       // 状態の更新が完了した後で次の問題に移行
       Promise.resolve().then(() => {
@@ -161,9 +209,7 @@ export default function QuizComponent() {
   const handleBack = () => {
     if (currentSession.currentIndex > 0) {
       // Reset state for previous question
-      setSelectedAnswer('');
-      setShowResult(false);
-      setIsCorrect(false);
+      resetAnswerState();
       
       // Go to previous question
       Promise.resolve().then(() => {
@@ -212,31 +258,8 @@ export default function QuizComponent() {
     if (!currentSession || !currentQuestion) return;
     
     try {
-      console.log(`Bookmark attempt - Question ID: ${currentQuestion.id}, Word: ${currentQuestion.word}, CEFR: ${currentQuestion.cefrLevel}, Difficulty: ${currentQuestion.difficulty}`);
-      
-      // CEFRレベルが設定されている、またはIDがenriched形式の場合はenriched word
-      const isEnrichedWord = currentQuestion.cefrLevel || currentQuestion.id.startsWith('enriched-');
-      
-      if (isEnrichedWord) {
-        // Enriched vocabulary system
-        const word = currentQuestion.word;
-        const cefrLevel = currentQuestion.cefrLevel || mapDifficultyToCefr(currentQuestion.difficulty);
-        console.log(`Bookmarking enriched word: ${word} (${cefrLevel})`);
-        await bookmarkEnrichedWord(word, cefrLevel);
-      } else {
-        // Legacy system - IDから数値を抽出
-        const wordIdStr = currentQuestion.id.split('-')[0];
-        const wordId = parseInt(wordIdStr);
-        
-        if (isNaN(wordId)) {
-          console.error(`Invalid word ID format: ${currentQuestion.id}, parsed: ${wordIdStr}`);
-          Alert.alert('Error', 'Unable to bookmark this word due to invalid ID format.');
-          return;
-        }
-        
-        console.log(`Bookmarking legacy word: ${currentQuestion.word} (ID: ${wordId})`);
-        await bookmarkWord(wordId);
-      }
+      console.log(`Bookmarking ${currentQuestion.wordRef.kind} word: ${currentQuestion.word}`);
+      await toggleBookmark(currentQuestion.wordRef);
       Alert.alert('Success', 'Word bookmarked for review!');
     } catch (error) {
       console.error('Error bookmarking word:', error);
@@ -281,30 +304,91 @@ export default function QuizComponent() {
                   end={{ x: 1, y: 1 }}
                   style={styles.questionCardGradient}
                 >
-                  <Animated.View entering={SlideInLeft.delay(400)}>
-                    <ThemedText type="title" style={styles.modernWord}>
-                      {currentQuestion.word}
-                    </ThemedText>
-                  </Animated.View>
-                  
-                  <Animated.View entering={SlideInRight.delay(500)}>
-                    <ModernButton
-                      title={isPlaying ? 'Playing...' : 'Play Pronunciation'}
-                      onPress={() => playWord(currentQuestion.word, currentQuestion.pronunciation)}
-                      variant={isPlaying ? 'warning' : 'success'}
-                      size="md"
-                      icon={isPlaying ? '⏸️' : '🔊'}
-                      disabled={isPlaying}
-                      style={styles.modernAudioButton}
-                    />
-                  </Animated.View>
+                  {isDictationQuestion ? (
+                    <Animated.View entering={SlideInLeft.delay(400)} style={styles.dictationContainer}>
+                      <ThemedText style={styles.dictationEmoji}>🎧</ThemedText>
+                      <View style={styles.dictationButtons}>
+                        <ModernButton
+                          title={isPlaying ? 'Playing...' : 'Play Again'}
+                          onPress={() => handleDictationPlay(false)}
+                          variant="success"
+                          size="md"
+                          icon="🔊"
+                          disabled={isPlaying}
+                          style={styles.dictationButton}
+                        />
+                        <ModernButton
+                          title="Slow (0.5x)"
+                          onPress={() => handleDictationPlay(true)}
+                          variant="secondary"
+                          size="md"
+                          icon="🐢"
+                          disabled={isPlaying}
+                          style={styles.dictationButton}
+                        />
+                      </View>
+                    </Animated.View>
+                  ) : currentQuestion.prompt ? (
+                    <Animated.View entering={SlideInLeft.delay(400)}>
+                      <ThemedText style={styles.promptText}>
+                        {currentQuestion.prompt}
+                      </ThemedText>
+                    </Animated.View>
+                  ) : (
+                    <>
+                      <Animated.View entering={SlideInLeft.delay(400)}>
+                        <ThemedText type="title" style={styles.modernWord}>
+                          {currentQuestion.word}
+                        </ThemedText>
+                      </Animated.View>
+                      
+                      <Animated.View entering={SlideInRight.delay(500)}>
+                        <ModernButton
+                          title={isPlaying ? 'Playing...' : 'Play Pronunciation'}
+                          onPress={() => playWord(currentQuestion.word, currentQuestion.pronunciation)}
+                          variant={isPlaying ? 'warning' : 'success'}
+                          size="md"
+                          icon={isPlaying ? '⏸️' : '🔊'}
+                          disabled={isPlaying}
+                          style={styles.modernAudioButton}
+                        />
+                      </Animated.View>
+                    </>
+                  )}
 
                   <Animated.View entering={FadeInDown.delay(600)}>
                     <ThemedText style={styles.modernInstruction}>
-                      {showResult ? 'Answer selected!' : 'Select the correct definition:'}
+                      {showResult ? 'Answer selected!' : getInstruction()}
                     </ThemedText>
                   </Animated.View>
 
+                  {isTypedQuestion && (
+                    <Animated.View entering={FadeInDown.delay(700)} style={styles.typedAnswerContainer}>
+                      <ModernTextInput
+                        value={typedAnswer}
+                        onChangeText={setTypedAnswer}
+                        placeholder="Type your answer"
+                        autoCapitalize="none"
+                        autoCorrect={false}
+                        returnKeyType="done"
+                        onSubmitEditing={handleTypedSubmit}
+                        editable={!showResult}
+                        variant="neutral"
+                        size="lg"
+                      />
+                      {!showResult && (
+                        <ModernButton
+                          title="Check"
+                          onPress={handleTypedSubmit}
+                          variant="primary"
+                          size="md"
+                          icon="✔️"
+                          disabled={!typedAnswer.trim()}
+                        />
+                      )}
+                    </Animated.View>
+                  )}
+
                   <View style={styles.optionsContainer}>
                     {currentQuestion.options.map((option, index) => {
                       const isSelected = selectedAnswer === option;
@@ -358,19 +442,28 @@ export default function QuizComponent() {
                     <Animated.View entering={FadeInUp.delay(1000)} style={styles.resultContainer}>
                       <View style={styles.resultCard}>
                         <LinearGradient
-                          colors={isCorrect ? ModernColors.gradients.success as [string, string, ...string[]] : ModernColors.gradients.error as [string, string, ...string[]]}
+                          colors={(isCorrect
+                            ? ModernColors.gradients.success
+                            : answerOutcome === 'near-miss'
+                              ? ModernColors.gradients.warning
+                              : ModernColors.gradients.error) as [string, string, ...string[]]}
                           start={{ x: 0, y: 0 }}
                           end={{ x: 1, y: 1 }}
                           style={styles.resultCardGradient}
                         >
                           <ThemedText style={styles.modernResultText}>
-                            {isCorrect ? '✅ Correct!' : '✖ Incorrect'}
+                            {isCorrect ? '✅ Correct!' : answerOutcome === 'near-miss' ? '🟡 Almost! Check the spelling' : '✖ Incorrect'}
                           </ThemedText>
                           {!isCorrect && (
                             <ThemedText style={styles.modernCorrectAnswerText}>
                               Correct answer: {currentQuestion.correctAnswer}
                             </ThemedText>
                           )}
+                          {isTypedQuestion && !isCorrect && (
+                            <ThemedText style={styles.modernCorrectAnswerText}>
+                              Your answer: {selectedAnswer}
+                            </ThemedText>
+                          )}
                         </LinearGradient>
                       </View>
                       
@@ -553,6 +646,36 @@ const styles = StyleSheet.create({
     textShadowOffset: { width: 1, height: 1 },
     textShadowRadius: 2,
   },
+  promptText: {
+    fontSize: 20,
+    fontWeight: '600',
+    lineHeight: 28,
+    marginBottom: Spacing.md,
+    textAlign: 'center',
+    color: '#ffffff',
+  },
+  dictationContainer: {
+    width: '100%',
+    alignItems: 'center',
+    marginBottom: Spacing.md,
+  },
+  dictationEmoji: {
+    fontSize: 48,
+    lineHeight: 56,
+    marginBottom: Spacing.md,
+  },
+  dictationButtons: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+  },
+  dictationButton: {
+    flex: 1,
+  },
+  typedAnswerContainer: {
+    width: '100%',
+    gap: Spacing.md,
+    marginBottom: Spacing.md,
+  },
   modernAudioButton: {
     marginBottom: Spacing.md,
   },
@@ -1,18 +1,38 @@
 import { Spacing } from '@/constants/ModernColors';
+import { getSessionLength, useAppStore } from '@/store/useAppStore';
+import { QuizFilterSpec, QuizMode } from '@/types';
 import React from 'react';
 import { StyleSheet, View } from 'react-native';
 import Animated, { FadeInDown } from 'react-native-reanimated';
+import CustomQuizBuilder from './CustomQuizBuilder';
 import { ThemedText } from './ThemedText';
 import ModernCard from './layout/ModernCard';
 import ModernButton from './modern/ModernButton';
 
 interface Props {
-  selectedMode: 'random' | 'review' | 'bookmarked' | 'weak';
-  onModeSelect: (mode: 'random' | 'review' | 'bookmarked' | 'weak') => void;
+  selectedMode: QuizMode;
+  onModeSelect: (mode: QuizMode) => void;
   onStartQuiz: () => void;
+  dueCount?: number;
+  customFilter: QuizFilterSpec;
+  onCustomFilterChange: (filter: QuizFilterSpec) => void;
 }
 
-export default function QuizModeSelector({ selectedMode, onModeSelect, onStartQuiz }: Props) {
+export default function QuizModeSelector({
+  selectedMode,
+  onModeSelect,
+  onStartQuiz,
+  dueCount = 0,
+  customFilter,
+  onCustomFilterChange
+}: Props) {
+  const { userSettings } = useAppStore();
+  // 設定した1回の問題数（モード別）
+  const lengthOf = (mode: QuizMode) => {
+    const length = getSessionLength(userSettings, mode);
+    return `${length} ${length === 1 ? 'question' : 'questions'}`;
+  };
+
   const modes = [
     {
       id: 'random' as const,
@@ -20,7 +40,32 @@ export default function QuizModeSelector({ selectedMode, onModeSelect, onStartQu
       subtitle: 'Mixed difficulty words',
       emoji: '🎲',
       variant: 'primary' as const,
-      description: 'Practice with a random selection of words based on your CEFR level. Always 10 questions.'
+      description: `Practice with a random selection of words based on your CEFR level. Always ${lengthOf('random')}.`
+    },
+    {
+      id: 'due' as const,
+      title: 'Due Today',
+      subtitle: dueCount > 0 ? `${dueCount} ${dueCount === 1 ? 'review' : 'reviews'} due` : 'Nothing due right now',
+      emoji: '⏰',
+      variant: 'success' as const,
+      description: `Review words whose spaced-repetition date has arrived, oldest first. Up to ${lengthOf('due')} based on due words.`,
+      badge: dueCount
+    },
+    {
+      id: 'recall' as const,
+      title: 'Recall Mode',
+      subtitle: 'Type the word yourself',
+      emoji: '⌨️',
+      variant: 'secondary' as const,
+      description: `See a definition or a sentence with a blank and type the word. Small spelling mistakes earn partial credit. Up to ${lengthOf('recall')}.`
+    },
+    {
+      id: 'dictation' as const,
+      title: 'Dictation',
+      subtitle: 'Listen and spell',
+      emoji: '🎧',
+      variant: 'success' as const,
+      description: `Hear each word in your chosen accent and speed, then type it. Words you often misspell come first. Up to ${lengthOf('dictation')}.`
     },
     {
       id: 'review' as const,
@@ -28,7 +73,7 @@ export default function QuizModeSelector({ selectedMode, onModeSelect, onStartQu
       subtitle: 'Words with <50% accuracy',
       emoji: '📚',
       variant: 'warning' as const,
-      description: 'Review words with accuracy below 50%. Up to 10 questions based on available words.'
+      description: `Review words with accuracy below 50%. Up to ${lengthOf('review')} based on available words.`
     },
     {
       id: 'bookmarked' as const,
@@ -36,7 +81,7 @@ export default function QuizModeSelector({ selectedMode, onModeSelect, onStartQu
       subtitle: 'Your saved words',
       emoji: '⭐',
       variant: 'secondary' as const,
-      description: 'Practice words you\'ve bookmarked for review. Up to 10 questions based on available words.'
+      description: `Practice words you've bookmarked for review. Up to ${lengthOf('bookmarked')} based on available words.`
     },
     {
       id: 'weak' as const,
@@ -44,7 +89,15 @@ export default function QuizModeSelector({ selectedMode, onModeSelect, onStartQu
       subtitle: 'Words with <30% accuracy',
       emoji: '🔥',
       variant: 'error' as const,
-      description: 'Focus on your most challenging words with accuracy below 30%. Up to 10 questions based on available words.'
+      description: `Focus on your most challenging words with accuracy below 30%. Up to ${lengthOf('weak')} based on available words.`
+    },
+    {
+      id: 'custom' as const,
+      title: 'Custom Quiz',
+      subtitle: 'Pick exactly what to practice',
+      emoji: '🛠️',
+      variant: 'primary' as const,
+      description: `Choose CEFR levels, parts of speech, word frequency, mastery and word lists. Up to ${lengthOf('custom')} from matching words.`
     }
   ];
 
@@ -74,6 +127,11 @@ export default function QuizModeSelector({ selectedMode, onModeSelect, onStartQu
                   {mode.subtitle}
                 </ThemedText>
               </View>
+              {'badge' in mode && !!mode.badge && selectedMode !== mode.id && (
+                <View style={styles.badge}>
+                  <ThemedText style={styles.badgeText}>{mode.badge}</ThemedText>
+                </View>
+              )}
               {selectedMode === mode.id && (
                 <Animated.View 
                   entering={FadeInDown.delay(200)}
@@ -90,6 +148,10 @@ export default function QuizModeSelector({ selectedMode, onModeSelect, onStartQu
         ))}
       </View>
 
+      {selectedMode === 'custom' && (
+        <CustomQuizBuilder filter={customFilter} onFilterChange={onCustomFilterChange} />
+      )}
+
       <Animated.View 
         entering={FadeInDown.delay(500)} 
         style={styles.selectedModeInfo}
@@ -159,6 +221,20 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  badge: {
+    minWidth: 30,
+    height: 30,
+    borderRadius: 15,
+    paddingHorizontal: Spacing.sm,
+    backgroundColor: 'rgba(255, 255, 255, 0.3)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  badgeText: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '800',
+  },
   checkmark: {
     color: '#ffffff',
     fontSize: 16,
@@ -1,8 +1,9 @@
 import { Spacing } from '@/constants/ModernColors';
 import { databaseService } from '@/services/database';
 import { enrichedVocabularyService } from '@/services/enrichedVocabularyService';
+import { enrichedWordRef, wordKey, wordRepository } from '@/services/wordRepository';
 import { useAppStore } from '@/store/useAppStore';
-import { Word } from '@/types';
+import { StudyWord, WordRef } from '@/types';
 import { useFocusEffect } from '@react-navigation/native';
 import { useRouter } from 'expo-router';
 import React, { useCallback, useEffect, useState } from 'react';
@@ -23,39 +24,26 @@ import ModernButton from './modern/ModernButton';
 export default function ReviewSection() {
   const router = useRouter();
   const { startQuiz } = useAppStore();
-  const [bookmarkedWords, setBookmarkedWords] = useState<Word[]>([]);
-  const [enrichedBookmarkedWords, setEnrichedBookmarkedWords] = useState<{word: string; cefr_level: string; created_at: string}[]>([]);
-  const [weakWords, setWeakWords] = useState<Word[]>([]);
-  const [enrichedWeakWords, setEnrichedWeakWords] = useState<{word: string; cefr_level: string; attempts: number; correct_attempts: number; mastery_level: number}[]>([]);
+  const [bookmarkedWords, setBookmarkedWords] = useState<StudyWord[]>([]);
+  const [weakWords, setWeakWords] = useState<StudyWord[]>([]);
+  const [spellingWeakWords, setSpellingWeakWords] = useState<{word: string; cefr_level: string; spelling_attempts: number; spelling_accuracy: number}[]>([]);
   const [loading, setLoading] = useState(true);
   const [detailVisible, setDetailVisible] = useState(false);
-  const [detailData, setDetailData] = useState<
-    | {
-        type: 'legacy';
-        word: string;
-        definition?: string;
-        pronunciation?: string;
-        difficulty?: number;
-      }
-    | {
-        type: 'enriched';
-        word: string;
-        cefr: string;
-        definition?: string;
-        pronunciation?: string;
-        example?: string;
-        synonyms?: string[];
-        antonyms?: string[];
-        pos?: string;
-        attempts?: number;
-        correctAttempts?: number;
-        masteryLevel?: number;
-        isBookmarked?: boolean;
-        source?: 'search' | 'bookmarked' | 'challenging';
-      }
-    | null
-  >(null);
-  const [enrichedDefinitionMap, setEnrichedDefinitionMap] = useState<Record<string, string>>({});
+  const [detailData, setDetailData] = useState<{
+    ref: WordRef;
+    word: string;
+    cefr?: string;
+    definition?: string;
+    pronunciation?: string;
+    example?: string;
+    synonyms?: string[];
+    antonyms?: string[];
+    pos?: string;
+    attempts?: number;
+    correctAttempts?: number;
+    isBookmarked?: boolean;
+    source?: 'search' | 'bookmarked' | 'challenging';
+  } | null>(null);
   const [bookmarkedPage, setBookmarkedPage] = useState(0);
   const [challengingPage, setChallengingPage] = useState(0);
   const [listVisible, setListVisible] = useState(false);
@@ -84,47 +72,16 @@ export default function ReviewSection() {
   const loadReviewData = async () => {
     try {
       setLoading(true);
-      const [bookmarked, weak, enrichedBookmarked, enrichedWeak] = await Promise.all([
-        databaseService.getBookmarkedWords(),
-        databaseService.getWeakWords(),
-        databaseService.getEnrichedBookmarkedWords(),
-        databaseService.getEnrichedWeakWords()
+      const [bookmarked, weak, spellingWeak] = await Promise.all([
+        wordRepository.getStudyWords('bookmarked'),
+        wordRepository.getStudyWords('weak'),
+        databaseService.getEnrichedSpellingWeakWords()
       ]);
+      setSpellingWeakWords(spellingWeak);
       setBookmarkedWords(bookmarked);
       setWeakWords(weak);
-      setEnrichedBookmarkedWords(enrichedBookmarked);
-      // DBのis_weakに準拠（UI側での重複フィルタはしない）
-      setEnrichedWeakWords(enrichedWeak);
-      // Enriched定義の事前取得（代表的なもの1つ）
-      try {
-        const levelSet = Array.from(new Set([
-          ...enrichedBookmarked.map(w => w.cefr_level),
-          ...enrichedWeak.map(w => w.cefr_level),
-        ]));
-        const map: Record<string, string> = {};
-        for (const level of levelSet) {
-          const data = await enrichedVocabularyService.getEnrichedVocabulary(level);
-          for (const b of enrichedBookmarked.filter(w => w.cefr_level === level)) {
-            const found = data.vocabulary.find(v => v.word.toLowerCase() === b.word.toLowerCase());
-            const def = found?.apiData?.definitions && found.apiData.definitions.length > 0 ? found.apiData.definitions[0].definition : undefined;
-            if (def) {
-              map[`${b.word}|${level}`] = def;
-            }
-          }
-          for (const ew of enrichedWeak.filter(w => w.cefr_level === level)) {
-            const found = data.vocabulary.find(v => v.word.toLowerCase() === ew.word.toLowerCase());
-            const def = found?.apiData?.definitions && found.apiData.definitions.length > 0 ? found.apiData.definitions[0].definition : undefined;
-            if (def) {
-              map[`${ew.word}|${level}`] = def;
-            }
-          }
-        }
-        setEnrichedDefinitionMap(map);
-      } catch (e) {
-        console.warn('Failed to prefetch enriched definitions', e);
-      }
       
-      console.log(`Loaded review data: ${bookmarked.length} legacy bookmarked, ${enrichedBookmarked.length} enriched bookmarked, ${weak.length} legacy weak, ${enrichedWeak.length} enriched weak`);
+      console.log(`Loaded review data: ${bookmarked.length} bookmarked, ${weak.length} weak, ${spellingWeak.length} spelling-weak`);
     } catch (error) {
       console.error('Error loading review data:', error);
     } finally {
@@ -157,54 +114,69 @@ export default function ReviewSection() {
     };
   }, [searchQuery]);
 
-  const openLegacyDetail = (word: Word) => {
-    setDetailData({
-      type: 'legacy',
-      word: word.word,
-      definition: word.definition,
-      pronunciation: word.pronunciation,
-      difficulty: word.difficulty,
-    });
-    setDetailVisible(true);
-  };
-
-  const openEnrichedDetail = async (
-    word: string,
-    cefr: string,
-    stats?: { attempts?: number; correctAttempts?: number; masteryLevel?: number },
+  // カスタム単語は一覧の定義・発音、enriched単語は語彙データの詳細を表示
+  const openDetail = async (
+    ref: WordRef,
+    studyWord?: StudyWord,
     source?: 'search' | 'bookmarked' | 'challenging'
   ) => {
     try {
-      const data = await enrichedVocabularyService.getEnrichedVocabulary(cefr);
-      const found = data.vocabulary.find(v => v.word.toLowerCase() === word.toLowerCase());
-      const isBm = await databaseService.isEnrichedWordBookmarked(word, cefr);
+      const isBm = await wordRepository.isBookmarked(ref);
+      const stats = studyWord ? { attempts: studyWord.attempts, correctAttempts: studyWord.correctAttempts } : {};
+
+      if (ref.kind === 'custom') {
+        setDetailData({
+          ref,
+          word: ref.word,
+          definition: studyWord?.definition,
+          pronunciation: studyWord?.pronunciation,
+          ...stats,
+          isBookmarked: isBm,
+          source,
+        });
+        setDetailVisible(true);
+        return;
+      }
+
+      // 語彙パックが削除されたレベルの単語は学習状況だけを表示
+      const isInstalled = (await enrichedVocabularyService.getAvailableLevels()).includes(ref.cefrLevel);
+      const found = isInstalled ? await enrichedVocabularyService.getEnrichedWord(ref.word, ref.cefrLevel) : null;
       setDetailData({
-        type: 'enriched',
-        word,
-        cefr,
-        definition: found?.apiData?.definitions && found.apiData.definitions.length > 0 ? found.apiData.definitions[0].definition : undefined,
-        pronunciation: found?.apiData?.pronunciation?.all,
-        example: found?.apiData?.examples && found.apiData.examples.length > 0 ? found.apiData.examples[0] : undefined,
-        synonyms: found?.apiData?.synonyms,
-        antonyms: found?.apiData?.antonyms,
+        ref,
+        word: ref.word,
+        cefr: ref.cefrLevel,
+        definition: found?.definition,
+        pronunciation: found?.pronunciation,
+        example: found?.example_sentence,
+        synonyms: found?.synonyms?.split(', '),
+        antonyms: found?.antonyms?.split(', '),
         pos: found?.pos,
-        attempts: stats?.attempts,
-        correctAttempts: stats?.correctAttempts,
-        masteryLevel: stats?.masteryLevel,
+        ...stats,
         isBookmarked: isBm,
         source,
       });
       setDetailVisible(true);
-    } catch {
+    } catch (error) {
+      console.error('Error loading word details:', error);
       Alert.alert('Error', 'Failed to load word details');
     }
   };
 
+  // 詳細画面のボタン操作（完了後に一覧を読み込み直して閉じる）
+  const updateFromDetail = async (action: () => Promise<void>, errorMessage: string) => {
+    try {
+      await action();
+      await loadReviewData();
+      setDetailVisible(false);
+    } catch (err) {
+      console.error('[ReviewSection] Error updating word:', err);
+      Alert.alert('Error', errorMessage);
+    }
+  };
+
   const handleStartReview = async (mode: 'bookmarked' | 'weak') => {
     try {
-      const legacyWordCount = mode === 'bookmarked' ? bookmarkedWords.length : weakWords.length;
-      const enrichedWordCount = mode === 'bookmarked' ? enrichedBookmarkedWords.length : enrichedWeakWords.length;
-      const totalWordCount = legacyWordCount + enrichedWordCount;
+      const totalWordCount = mode === 'bookmarked' ? bookmarkedWords.length : weakWords.length;
       
       if (totalWordCount === 0) {
         Alert.alert(
@@ -216,7 +188,7 @@ export default function ReviewSection() {
         return;
       }
       
-      console.log(`Starting ${mode} review with ${totalWordCount} words (${legacyWordCount} legacy + ${enrichedWordCount} enriched)`);
+      console.log(`Starting ${mode} review with ${totalWordCount} words`);
       await startQuiz(mode, Math.min(totalWordCount, 20));
       router.push('/quiz');
     } catch {
@@ -224,6 +196,15 @@ export default function ReviewSection() {
     }
   };
 
+  const handleStartSpellingPractice = async () => {
+    try {
+      await startQuiz('dictation', Math.min(Math.max(spellingWeakWords.length, 10), 20));
+      router.push('/quiz');
+    } catch {
+      Alert.alert('Error', 'Failed to start spelling practice. Please try again.');
+    }
+  };
+
   // Note: remove handlers are now inlined in the detail modal buttons
 
   if (loading) {
@@ -255,7 +236,7 @@ export default function ReviewSection() {
                 <ThemedText style={styles.detailText}>No results</ThemedText>
               ) : (
                 searchResults.map((s, idx) => (
-                  <Pressable key={`s-${s.cefr}-${s.word}-${idx}`} onPress={() => openEnrichedDetail(s.word, s.cefr, undefined, 'search')}>
+                  <Pressable key={`s-${s.cefr}-${s.word}-${idx}`} onPress={() => openDetail(enrichedWordRef(s.word, s.cefr), undefined, 'search')}>
                     <View style={styles.suggestionRow}>
                       <ThemedText style={styles.suggestionWord}>{s.word}</ThemedText>
                       <View style={styles.cefrBadge}><ThemedText style={styles.cefrText}>{s.cefr}</ThemedText></View>
@@ -282,33 +263,16 @@ export default function ReviewSection() {
             </View>
             <Pressable onPress={() => { setListType('bookmarked'); setListVisible(true); }}>
               <ThemedText style={styles.wordCount}>
-                {bookmarkedWords.length + enrichedBookmarkedWords.length} words
+                {bookmarkedWords.length} words
               </ThemedText>
             </Pressable>
           </View>
 
-          {(bookmarkedWords.length + enrichedBookmarkedWords.length) > 0 ? (
+          {bookmarkedWords.length > 0 ? (
             <>
               {/* Bookmarked pagination (10 per page) */}
               {(() => {
-                const combined = [
-                  ...bookmarkedWords.map(w => ({
-                    key: `legacy-${w.id}`,
-                    type: 'legacy' as const,
-                    word: w.word,
-                    definition: w.definition,
-                    cefr: undefined as string | undefined,
-                    legacy: w,
-                  })),
-                  ...enrichedBookmarkedWords.map(w => ({
-                    key: `enriched-${w.word}-${w.cefr_level}`,
-                    type: 'enriched' as const,
-                    word: w.word,
-                    definition: enrichedDefinitionMap[`${w.word}|${w.cefr_level}`] || `${w.cefr_level} level word`,
-                    cefr: w.cefr_level,
-                    legacy: undefined,
-                  })),
-                ];
+                const combined = bookmarkedWords;
                 const pageSize = 10;
                 const totalPages = Math.max(1, Math.ceil(combined.length / pageSize));
                 const page = Math.min(bookmarkedPage, totalPages - 1);
@@ -322,20 +286,20 @@ export default function ReviewSection() {
                       contentContainerStyle={styles.wordsScrollContent}
                     >
                       {pageItems.map((item, idx) => (
-                        <Animated.View key={item.key} entering={FadeInLeft.delay(200 + idx * 80)}>
+                        <Animated.View key={wordKey(item.ref)} entering={FadeInLeft.delay(200 + idx * 80)}>
                           <ModernCard
                             variant="glass"
-                            onPress={() => item.type === 'legacy' ? openLegacyDetail(item.legacy!) : openEnrichedDetail(item.word, item.cefr!, undefined, 'bookmarked')}
+                            onPress={() => openDetail(item.ref, item, 'bookmarked')}
                             style={styles.wordCard}
                             glassEffect={true}
                           >
                             <ThemedText style={styles.wordText}>{item.word}</ThemedText>
                             <ThemedText style={styles.definitionText} numberOfLines={2}>
-                              {item.definition}
+                              {item.definition || `${item.cefrLevel} level word`}
                             </ThemedText>
-                            <View style={item.cefr ? styles.cefrBadge : styles.sourceBadge}>
-                              <ThemedText style={item.cefr ? styles.cefrText : styles.sourceText}>
-                                {item.cefr || 'Legacy'}
+                            <View style={item.cefrLevel ? styles.cefrBadge : styles.sourceBadge}>
+                              <ThemedText style={item.cefrLevel ? styles.cefrText : styles.sourceText}>
+                                {item.cefrLevel || 'Custom'}
                               </ThemedText>
                             </View>
                           </ModernCard>
@@ -401,33 +365,15 @@ export default function ReviewSection() {
             </View>
             <Pressable onPress={() => { setListType('challenging'); setListVisible(true); }}>
               <ThemedText style={styles.wordCount}>
-                {weakWords.length + enrichedWeakWords.length} words
+                {weakWords.length} words
               </ThemedText>
             </Pressable>
           </View>
 
-          {(weakWords.length + enrichedWeakWords.length) > 0 ? (
+          {weakWords.length > 0 ? (
             <>
               {(() => {
-                const combined = [
-                  ...weakWords.map(w => ({
-                    key: `legacy-weak-${w.id}`,
-                    type: 'legacy' as const,
-                    word: w.word,
-                    definition: w.definition,
-                    cefr: undefined as string | undefined,
-                    legacy: w,
-                  })),
-                  ...enrichedWeakWords.map(w => ({
-                    key: `enriched-weak-${w.word}-${w.cefr_level}`,
-                    type: 'enriched' as const,
-                    word: w.word,
-                    definition: enrichedDefinitionMap[`${w.word}|${w.cefr_level}`] || `${w.cefr_level} level word`,
-                    cefr: w.cefr_level,
-                    legacy: undefined,
-                    stats: { attempts: w.attempts, correctAttempts: w.correct_attempts, masteryLevel: w.mastery_level }
-                  })),
-                ];
+                const combined = weakWords;
                 const pageSize = 10;
                 const totalPages = Math.max(1, Math.ceil(combined.length / pageSize));
                 const page = Math.min(challengingPage, totalPages - 1);
@@ -441,20 +387,20 @@ export default function ReviewSection() {
                       contentContainerStyle={styles.wordsScrollContent}
                     >
                       {pageItems.map((item, idx) => (
-                        <Animated.View key={item.key} entering={FadeInRight.delay(300 + idx * 80)}>
+                        <Animated.View key={wordKey(item.ref)} entering={FadeInRight.delay(300 + idx * 80)}>
                           <ModernCard
                             variant="glass"
-                            onPress={() => item.type === 'legacy' ? undefined : openEnrichedDetail(item.word, item.cefr!, item.stats, 'challenging')}
+                            onPress={() => openDetail(item.ref, item, 'challenging')}
                             style={styles.wordCard}
                             glassEffect={true}
                           >
                             <ThemedText style={styles.wordText}>{item.word}</ThemedText>
                             <ThemedText style={styles.definitionText} numberOfLines={2}>
-                              {item.definition}
+                              {item.definition || `${item.cefrLevel} level word`}
                             </ThemedText>
-                            <View style={item.cefr ? styles.cefrBadge : styles.difficultyBadge}>
-                              <ThemedText style={item.cefr ? styles.cefrText : styles.difficultyText}>
-                                {item.cefr || (item.legacy?.difficulty === 1 ? 'Easy' : item.legacy?.difficulty === 2 ? 'Medium' : 'Hard')}
+                            <View style={item.cefrLevel ? styles.cefrBadge : styles.sourceBadge}>
+                              <ThemedText style={item.cefrLevel ? styles.cefrText : styles.sourceText}>
+                                {item.cefrLevel || 'Custom'}
                               </ThemedText>
                             </View>
                           </ModernCard>
@@ -508,6 +454,60 @@ export default function ReviewSection() {
         </ModernCard>
       </Animated.View>
 
+      {/* Spelling Section（書き取りの結果は意味の正答率とは別に表示） */}
+      {spellingWeakWords.length > 0 && (
+        <Animated.View entering={FadeInDown.delay(250)}>
+          <ModernCard variant="warning" delay={0}>
+            <View style={styles.sectionHeader}>
+              <View style={styles.sectionTitleContainer}>
+                <ThemedText style={styles.sectionEmoji}>✍️</ThemedText>
+                <ThemedText style={styles.sectionTitle}>
+                  Spelling Practice
+                </ThemedText>
+              </View>
+              <ThemedText style={styles.wordCount}>
+                {spellingWeakWords.length} words
+              </ThemedText>
+            </View>
+
+            <ScrollView 
+              horizontal 
+              showsHorizontalScrollIndicator={false}
+              style={styles.wordsScroll}
+              contentContainerStyle={styles.wordsScrollContent}
+            >
+              {spellingWeakWords.slice(0, 10).map((item, idx) => (
+                <Animated.View key={`spelling-${item.word}-${item.cefr_level}`} entering={FadeInRight.delay(300 + idx * 80)}>
+                  <ModernCard
+                    variant="glass"
+                    onPress={() => openDetail(enrichedWordRef(item.word, item.cefr_level), undefined, 'challenging')}
+                    style={styles.wordCard}
+                    glassEffect={true}
+                  >
+                    <ThemedText style={styles.wordText}>{item.word}</ThemedText>
+                    <ThemedText style={styles.definitionText} numberOfLines={2}>
+                      Spelling accuracy {item.spelling_accuracy}% ({item.spelling_attempts} tries)
+                    </ThemedText>
+                    <View style={styles.cefrBadge}>
+                      <ThemedText style={styles.cefrText}>{item.cefr_level}</ThemedText>
+                    </View>
+                  </ModernCard>
+                </Animated.View>
+              ))}
+            </ScrollView>
+
+            <ModernButton
+              title="Practice Spelling"
+              onPress={handleStartSpellingPractice}
+              variant="warning"
+              size="lg"
+              icon="🎧"
+              style={styles.reviewButton}
+            />
+          </ModernCard>
+        </Animated.View>
+      )}
+
       {/* Quick Actions */}
       <Animated.View entering={FadeInDown.delay(300)}>
         <ModernCard variant="primary" delay={0} style={styles.quickActionsCard}>
@@ -544,7 +544,7 @@ export default function ReviewSection() {
             {detailData && (
               <>
                 <ThemedText style={styles.detailTitle}>{detailData.word}</ThemedText>
-                {'cefr' in detailData && detailData.cefr ? (
+                {detailData.cefr ? (
                   <View style={styles.detailBadgesRow}>
                     <View style={styles.cefrBadge}><ThemedText style={styles.cefrText}>{detailData.cefr}</ThemedText></View>
                     {detailData.pos ? (<View style={styles.sourceBadge}><ThemedText style={styles.sourceText}>{detailData.pos}</ThemedText></View>) : null}
@@ -556,7 +556,7 @@ export default function ReviewSection() {
                     <ThemedText style={styles.detailText}>{detailData.definition}</ThemedText>
                   </View>
                 ) : null}
-                {'attempts' in detailData && (detailData.attempts ?? 0) > 0 ? (
+                {(detailData.attempts ?? 0) > 0 ? (
                   <View style={styles.detailBlock}>
                     <ThemedText style={styles.detailLabel}>Accuracy</ThemedText>
                     <ThemedText style={styles.detailText}>
@@ -564,19 +564,19 @@ export default function ReviewSection() {
                     </ThemedText>
                   </View>
                 ) : null}
-                {'example' in detailData && detailData.example ? (
+                {detailData.example ? (
                   <View style={styles.detailBlock}>
                     <ThemedText style={styles.detailLabel}>Example</ThemedText>
                     <ThemedText style={styles.detailText}>{detailData.example}</ThemedText>
                   </View>
                 ) : null}
-                {'synonyms' in detailData && detailData.synonyms && detailData.synonyms.length > 0 ? (
+                {detailData.synonyms && detailData.synonyms.length > 0 ? (
                   <View style={styles.detailBlock}>
                     <ThemedText style={styles.detailLabel}>Synonyms</ThemedText>
                     <ThemedText style={styles.detailText}>{detailData.synonyms.join(', ')}</ThemedText>
                   </View>
                 ) : null}
-                {'antonyms' in detailData && detailData.antonyms && detailData.antonyms.length > 0 ? (
+                {detailData.antonyms && detailData.antonyms.length > 0 ? (
                   <View style={styles.detailBlock}>
                     <ThemedText style={styles.detailLabel}>Antonyms</ThemedText>
                     <ThemedText style={styles.detailText}>{detailData.antonyms.join(', ')}</ThemedText>
@@ -589,57 +589,30 @@ export default function ReviewSection() {
                   </View>
                 ) : null}
 
-                {detailData?.type === 'enriched' && detailData.source === 'search' && (
+                {detailData.source === 'search' && (
                   <ModernButton
                     title={detailData.isBookmarked ? 'Remove Bookmark' : 'Add Bookmark'}
-                    onPress={async () => {
-                      try {
-                        await databaseService.toggleEnrichedWordBookmark(detailData.word, detailData.cefr);
-                        await loadReviewData();
-                        setDetailVisible(false);
-                      } catch (err) {
-                        console.error('[ReviewSection] Error during bookmark toggle:', err);
-                        Alert.alert('Error', 'Failed to update bookmark.');
-                      }
-                    }}
+                    onPress={() => updateFromDetail(() => wordRepository.toggleBookmark(detailData.ref), 'Failed to update bookmark.')}
                     variant="secondary"
                     size="md"
                     icon={detailData.isBookmarked ? '🗑️' : '⭐'}
                     style={styles.detailRemoveButton}
                   />
                 )}
-                {detailData?.type === 'enriched' && detailData.source === 'bookmarked' && (
+                {detailData.source === 'bookmarked' && (
                   <ModernButton
                     title="Remove Bookmark"
-                    onPress={async () => {
-                      try {
-                        await databaseService.removeEnrichedBookmark(detailData.word, detailData.cefr);
-                        await loadReviewData();
-                        setDetailVisible(false);
-                      } catch (err) {
-                        console.error('[ReviewSection] Error during enriched bookmark removal:', err);
-                        Alert.alert('Error', 'Failed to remove bookmark.');
-                      }
-                    }}
+                    onPress={() => updateFromDetail(() => wordRepository.removeBookmark(detailData.ref), 'Failed to remove bookmark.')}
                     variant="error"
                     size="md"
                     icon="🗑️"
                     style={styles.detailRemoveButton}
                   />
                 )}
-                {detailData?.type === 'enriched' && detailData.source === 'challenging' && (
+                {detailData.source === 'challenging' && wordRepository.canRemoveWeakWord(detailData.ref) && (
                   <ModernButton
                     title="Remove Challenging Word"
-                    onPress={async () => {
-                      try {
-                        await databaseService.removeEnrichedWeakWord(detailData.word, detailData.cefr);
-                        await loadReviewData();
-                        setDetailVisible(false);
-                      } catch (err) {
-                        console.error('[ReviewSection] Error during weak word removal:', err);
-                        Alert.alert('Error', 'Failed to remove challenging word.');
-                      }
-                    }}
+                    onPress={() => updateFromDetail(() => wordRepository.removeWeakWord(detailData.ref), 'Failed to remove challenging word.')}
                     variant="error"
                     size="md"
                     icon="🗑️"
@@ -662,15 +635,7 @@ export default function ReviewSection() {
             </ThemedText>
             <ScrollView style={styles.listScroll} contentContainerStyle={styles.listContent} showsVerticalScrollIndicator={true}>
               {(() => {
-                const words = listType === 'bookmarked'
-                  ? [
-                      ...bookmarkedWords.map(w => w.word),
-                      ...enrichedBookmarkedWords.map(w => w.word),
-                    ]
-                  : [
-                      ...weakWords.map(w => w.word),
-                      ...enrichedWeakWords.map(w => w.word),
-                    ];
+                const words = (listType === 'bookmarked' ? bookmarkedWords : weakWords).map(w => w.word);
                 if (words.length === 0) {
                   return <ThemedText style={styles.detailText}>No words</ThemedText>;
                 }
@@ -776,19 +741,6 @@ const styles = StyleSheet.create({
     fontSize: 10,
     fontWeight: '700',
   },
-  difficultyBadge: {
-    backgroundColor: 'rgba(255, 255, 255, 0.3)',
-    paddingHorizontal: Spacing.xs,
-    paddingVertical: 4,
-    borderRadius: 12,
-    alignSelf: 'flex-start',
-    marginTop: Spacing.xs,
-  },
-  difficultyText: {
-    color: '#ffffff',
-    fontSize: 10,
-    fontWeight: '700',
-  },
   reviewButton: {
     width: '100%',
   },
@@ -2,15 +2,16 @@ import { Spacing } from '@/constants/ModernColors';
 import { useAudio } from '@/hooks/useAudio';
 
 import { databaseService } from '@/services/database';
-import { enrichedVocabularyService } from '@/services/enrichedVocabularyService';
-import { useAppStore } from '@/store/useAppStore';
-import { LearningGoals } from '@/types';
+import { vocabularyPackService } from '@/services/vocabularyPackService';
+import { DEFAULT_QUIZ_LENGTH, useAppStore } from '@/store/useAppStore';
+import { DistractorDifficulty, LearningGoals, QuestionTypeMix, QuizMode } from '@/types';
 import { useFocusEffect } from '@react-navigation/native';
 import { useRouter } from 'expo-router';
 import React, { useCallback, useEffect, useState } from 'react';
 import { Controller, useForm } from 'react-hook-form';
 import {
   Alert,
+  Modal,
   ScrollView,
   StyleSheet,
   Switch,
@@ -20,6 +21,7 @@ import Animated, { FadeInDown } from 'react-native-reanimated';
 
 import { ThemedText } from './ThemedText';
 import ModernCard from './layout/ModernCard';
+import PlacementTestScreen from './onboarding/PlacementTestScreen';
 import ModernButton from './modern/ModernButton';
 
 export default function SettingsForm() {
@@ -33,9 +35,13 @@ export default function SettingsForm() {
   const [bookmarkStats, setBookmarkStats] = useState({ legacy: 0, enriched: 0 });
   const [weakWordsStats, setWeakWordsStats] = useState({ legacy: 0, enriched: 0 });
 
-  const { control, handleSubmit } = useForm<LearningGoals>({
+  const [lengthMode, setLengthMode] = useState<QuizMode>('random');
+  const [showPlacementTest, setShowPlacementTest] = useState(false);
+
+  const { control, handleSubmit, watch } = useForm<LearningGoals>({
     defaultValues: userSettings,
   });
+  const dailyWordCount = watch('dailyWordCount');
 
   useEffect(() => {
     loadUserLevel();
@@ -78,19 +84,15 @@ export default function SettingsForm() {
     }
   };
 
+  // インストールされていないレベルは0語として表示
   const loadEnrichedVocabStats = async () => {
     try {
       const levels = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'];
+      const packs = await vocabularyPackService.getInstalledPacks();
       const stats: {[level: string]: number} = {};
       
       for (const level of levels) {
-        try {
-          const vocabData = await enrichedVocabularyService.getEnrichedVocabulary(level);
-          stats[level] = vocabData.metadata.totalWords || 0;
-        } catch (error) {
-          console.warn(`Failed to load ${level} vocabulary stats:`, error);
-          stats[level] = 0;
-        }
+        stats[level] = packs.find(pack => pack.cefrLevel === level)?.wordCount ?? 0;
       }
       
       setEnrichedVocabStats(stats);
@@ -127,6 +129,13 @@ export default function SettingsForm() {
   };
 
   const onSubmit = (data: LearningGoals) => {
+    if (data.questionTypeMix) {
+      const total = getMixTotal(data.questionTypeMix);
+      if (total !== 100) {
+        Alert.alert('Question Mix', `Question type percentages must add up to 100% (currently ${total}%).`);
+        return;
+      }
+    }
     setUserSettings(data);
     Alert.alert('Success', 'Settings saved successfully!');
   };
@@ -141,6 +150,12 @@ export default function SettingsForm() {
     }
   };
 
+  const handlePlacementComplete = (level: string, targetLevel: string) => {
+    setUserLevel({ current_level: level, target_level: targetLevel });
+    setShowPlacementTest(false);
+    Alert.alert('Level Updated', `Your CEFR level is now ${level}.`);
+  };
+
   const handleDeleteBookmarks = async () => {
     const totalBookmarks = bookmarkStats.legacy + bookmarkStats.enriched;
     
@@ -228,6 +243,32 @@ export default function SettingsForm() {
   const cefrLevels = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'];
   const speedOptions = [0.5, 0.75, 1.0, 1.25, 1.5];
   const volumeOptions = [0.3, 0.5, 0.7, 1.0];
+  const quizLengthOptions = [5, 10, 15, 20, 30, 40, 50, 75, 100];
+  const quizModeOptions: { value: QuizMode; label: string }[] = [
+    { value: 'random', label: 'Random' },
+    { value: 'due', label: 'Due Today' },
+    { value: 'recall', label: 'Recall' },
+    { value: 'dictation', label: 'Dictation' },
+    { value: 'review', label: 'Review' },
+    { value: 'bookmarked', label: 'Bookmarked' },
+    { value: 'weak', label: 'Challenge' },
+    { value: 'custom', label: 'Custom' },
+  ];
+  const questionTypeOptions: { value: keyof QuestionTypeMix; label: string }[] = [
+    { value: 'definition', label: 'Definition' },
+    { value: 'synonym', label: 'Synonym' },
+    { value: 'antonym', label: 'Antonym' },
+    { value: 'example', label: 'Example' },
+    { value: 'reverse', label: 'Definition → Word' },
+  ];
+  const mixPercentOptions = [0, 10, 20, 30, 40, 50, 60, 80, 100];
+  const defaultQuestionTypeMix: QuestionTypeMix = { definition: 40, synonym: 20, antonym: 10, example: 15, reverse: 15 };
+  const distractorOptions: { value?: DistractorDifficulty; label: string }[] = [
+    { value: undefined, label: 'Auto' },
+    { value: 'easy', label: 'Easy' },
+    { value: 'medium', label: 'Medium' },
+    { value: 'hard', label: 'Hard' },
+  ];
 
   const dayNames = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
 
@@ -296,6 +337,152 @@ export default function SettingsForm() {
             />
           </View>
 
+          {/* Answer Choice Difficulty */}
+          <View style={styles.setting}>
+            <ThemedText style={styles.label}>Answer Choice Difficulty</ThemedText>
+            <ThemedText style={styles.settingDescription}>
+              Harder choices use words with similar meaning and usage. Auto picks by your CEFR level.
+            </ThemedText>
+            <Controller
+              control={control}
+              name="distractorDifficulty"
+              render={({ field: { value, onChange } }) => (
+                <ScrollView 
+                  horizontal 
+                  showsHorizontalScrollIndicator={false}
+                  style={styles.scrollContainer}
+                  contentContainerStyle={styles.scrollContent}
+                >
+                  {distractorOptions.map((option, index) => (
+                    <Animated.View key={option.label} entering={FadeInDown.delay(350 + index * 50)}>
+                      <ModernButton
+                        title={option.label}
+                        onPress={() => onChange(option.value)}
+                        variant={value === option.value ? 'success' : 'secondary'}
+                        size="sm"
+                        style={styles.scrollOptionButton}
+                      />
+                    </Animated.View>
+                  ))}
+                </ScrollView>
+              )}
+            />
+          </View>
+
+        </ModernCard>
+      </Animated.View>
+
+      {/* Quiz Settings Section */}
+      <Animated.View entering={FadeInDown.delay(125)}>
+        <ModernCard variant="primary" delay={0}>
+          <ThemedText style={styles.sectionTitle}>📝 Quiz Settings</ThemedText>
+
+          {/* Questions per Quiz (per mode) */}
+          <View style={styles.setting}>
+            <ThemedText style={styles.label}>Questions per Quiz</ThemedText>
+            <ThemedText style={styles.settingDescription}>
+              Set a length for each quiz mode, up to your daily word count ({dailyWordCount}).
+            </ThemedText>
+            <ScrollView 
+              horizontal 
+              showsHorizontalScrollIndicator={false}
+              style={styles.scrollContainer}
+              contentContainerStyle={styles.scrollContent}
+            >
+              {quizModeOptions.map(option => (
+                <ModernButton
+                  key={option.value}
+                  title={option.label}
+                  onPress={() => setLengthMode(option.value)}
+                  variant={lengthMode === option.value ? 'primary' : 'secondary'}
+                  size="sm"
+                  style={styles.scrollOptionButton}
+                />
+              ))}
+            </ScrollView>
+            <Controller
+              control={control}
+              name="quizLengths"
+              render={({ field: { value, onChange } }) => {
+                const selectedLength = Math.min(value?.[lengthMode] ?? DEFAULT_QUIZ_LENGTH, dailyWordCount);
+                return (
+                  <ScrollView 
+                    horizontal 
+                    showsHorizontalScrollIndicator={false}
+                    style={styles.scrollContainer}
+                    contentContainerStyle={styles.scrollContent}
+                  >
+                    {quizLengthOptions.filter(length => length <= dailyWordCount).map(length => (
+                      <ModernButton
+                        key={length}
+                        title={length.toString()}
+                        onPress={() => onChange({ ...value, [lengthMode]: length })}
+                        variant={selectedLength === length ? 'success' : 'secondary'}
+                        size="sm"
+                        style={styles.scrollOptionButton}
+                      />
+                    ))}
+                  </ScrollView>
+                );
+              }}
+            />
+          </View>
+
+          {/* Question Type Mix */}
+          <Controller
+            control={control}
+            name="questionTypeMix"
+            render={({ field: { value, onChange } }) => (
+              <View style={styles.setting}>
+                <ModernCard variant="glass" style={styles.switchCard}>
+                  <View style={styles.switchRow}>
+                    <View style={styles.switchTextContainer}>
+                      <ThemedText style={styles.switchLabel}>Custom Question Mix</ThemedText>
+                      <ThemedText style={styles.switchDescription}>
+                        Choose how often each question type appears. When off, types are picked from each word&apos;s data.
+                      </ThemedText>
+                    </View>
+                    <Switch
+                      value={!!value}
+                      onValueChange={(enabled) => onChange(enabled ? defaultQuestionTypeMix : undefined)}
+                      trackColor={{ false: 'rgba(255,255,255,0.3)', true: 'rgba(16,185,129,0.8)' }}
+                      thumbColor={value ? '#ffffff' : 'rgba(255,255,255,0.8)'}
+                    />
+                  </View>
+                </ModernCard>
+
+                {value && (
+                  <View style={styles.mixContainer}>
+                    {questionTypeOptions.map(type => (
+                      <View key={type.value} style={styles.mixRow}>
+                        <ThemedText style={styles.mixLabel}>{type.label}: {value[type.value]}%</ThemedText>
+                        <ScrollView 
+                          horizontal 
+                          showsHorizontalScrollIndicator={false}
+                          style={styles.scrollContainer}
+                          contentContainerStyle={styles.scrollContent}
+                        >
+                          {mixPercentOptions.map(percent => (
+                            <ModernButton
+                              key={percent}
+                              title={`${percent}%`}
+                              onPress={() => onChange({ ...value, [type.value]: percent })}
+                              variant={value[type.value] === percent ? 'success' : 'secondary'}
+                              size="sm"
+                              style={styles.mixOptionButton}
+                            />
+                          ))}
+                        </ScrollView>
+                      </View>
+                    ))}
+                    <ThemedText style={[styles.mixTotal, getMixTotal(value) !== 100 && styles.mixTotalInvalid]}>
+                      Total: {getMixTotal(value)}%
+                    </ThemedText>
+                  </View>
+                )}
+              </View>
+            )}
+          />
         </ModernCard>
       </Animated.View>
 
@@ -325,9 +512,32 @@ export default function SettingsForm() {
               ))}
             </ScrollView>
           </View>
+
+          <ModernButton
+            title="Take Placement Test"
+            onPress={() => setShowPlacementTest(true)}
+            variant="secondary"
+            size="md"
+            icon="🧭"
+            style={styles.placementButton}
+          />
         </ModernCard>
       </Animated.View>
 
+      <Modal
+        visible={showPlacementTest}
+        animationType="slide"
+        presentationStyle="fullScreen"
+        onRequestClose={() => setShowPlacementTest(false)}
+      >
+        <View style={styles.placementModal}>
+          <PlacementTestScreen
+            onBack={() => setShowPlacementTest(false)}
+            onComplete={(result, targetLevel) => handlePlacementComplete(result.level, targetLevel)}
+          />
+        </View>
+      </Modal>
+
       {/* Schedule Section */}
       <Animated.View entering={FadeInDown.delay(200)}>
         <ModernCard variant="secondary" delay={0}>
@@ -638,6 +848,47 @@ const styles = StyleSheet.create({
     marginBottom: Spacing.sm,
     color: '#ffffff',
   },
+  mixContainer: {
+    marginTop: Spacing.md,
+    gap: Spacing.sm,
+  },
+  mixRow: {
+    gap: Spacing.xs,
+  },
+  mixLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  mixOptionButton: {
+    minWidth: 60,
+    marginRight: Spacing.xs,
+  },
+  mixTotal: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#10b981',
+    textAlign: 'right',
+  },
+  mixTotalInvalid: {
+    color: '#ef4444',
+  },
+  switchTextContainer: {
+    flex: 1,
+  },
+  placementButton: {
+    width: '100%',
+  },
+  placementModal: {
+    flex: 1,
+    backgroundColor: '#1a0b2e',
+    paddingTop: Spacing.xl,
+  },
+  settingDescription: {
+    fontSize: 13,
+    color: 'rgba(255, 255, 255, 0.7)',
+    marginBottom: Spacing.sm,
+  },
   optionGrid: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -815,4 +1066,7 @@ const styles = StyleSheet.create({
     width: '100%',
   },
 
-});
\ No newline at end of file
+});
+
+const getMixTotal = (mix: QuestionTypeMix): number =>
+  mix.definition + mix.synonym + mix.antonym + mix.example + mix.reverse;
@@ -0,0 +1,148 @@
+import { Spacing } from '@/constants/ModernColors';
+import { databaseService } from '@/services/database';
+import { SyncStatus, syncService } from '@/services/syncService';
+import { useAppStore } from '@/store/useAppStore';
+import { useFocusEffect } from '@react-navigation/native';
+import React, { useCallback, useState } from 'react';
+import { Alert, StyleSheet, TextInput } from 'react-native';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+import { ThemedText } from './ThemedText';
+import ModernCard from './layout/ModernCard';
+import ModernButton from './modern/ModernButton';
+
+export default function SyncSection() {
+  const { updateProgress } = useAppStore();
+  const [status, setStatus] = useState<SyncStatus | null>(null);
+  const [serverUrl, setServerUrl] = useState('');
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  const loadStatus = useCallback(async () => {
+    if (!databaseService.isInitialized()) return;
+    const current = await syncService.getStatus();
+    setStatus(current);
+    setServerUrl(current.serverUrl || '');
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadStatus();
+    }, [loadStatus])
+  );
+
+  const handleSaveServer = async () => {
+    try {
+      await syncService.setServerUrl(serverUrl);
+      await loadStatus();
+    } catch (error) {
+      console.error('Error saving sync server:', error);
+      Alert.alert('Error', 'Failed to save the sync server.');
+    }
+  };
+
+  const handleSync = async () => {
+    setIsSyncing(true);
+    try {
+      const result = await syncService.sync();
+      // 他の端末の学習設定は送信待ちに記録せずにストアへ反映する
+      if (result.settings) {
+        useAppStore.setState({ userSettings: result.settings });
+      }
+      await updateProgress();
+      Alert.alert('Sync Complete', `Sent ${result.pushed} and received ${result.pulled} changes.`);
+    } catch (error) {
+      console.error('Error syncing:', error);
+      Alert.alert('Sync Failed', 'Your changes are saved on this device and will be sent next time.');
+    } finally {
+      setIsSyncing(false);
+      await loadStatus();
+    }
+  };
+
+  const savedUrl = status?.serverUrl || '';
+
+  return (
+    <Animated.View entering={FadeInDown.delay(350)} style={styles.container}>
+      <ModernCard variant="neutral" pressable={false} delay={0}>
+        <ThemedText style={styles.sectionTitle}>🔄 Sync</ThemedText>
+        <ThemedText style={styles.hintText}>
+          Keep bookmarks, progress, study sessions and settings of this profile in sync between your devices.
+        </ThemedText>
+
+        <TextInput
+          placeholder="https://sync.example.com"
+          placeholderTextColor="rgba(255,255,255,0.6)"
+          value={serverUrl}
+          onChangeText={setServerUrl}
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="url"
+          style={styles.input}
+        />
+        {serverUrl.trim() !== savedUrl && (
+          <ModernButton
+            title="Save Server"
+            onPress={handleSaveServer}
+            variant="secondary"
+            size="md"
+            style={styles.fullWidthButton}
+          />
+        )}
+
+        {status && (
+          <ThemedText style={styles.statusText}>
+            {status.pendingCount} {status.pendingCount === 1 ? 'change' : 'changes'} waiting ·{' '}
+            {status.lastSyncedAt ? `Last synced ${status.lastSyncedAt.toLocaleString()}` : 'Never synced'}
+          </ThemedText>
+        )}
+
+        <ModernButton
+          title="Sync Now"
+          onPress={handleSync}
+          variant="primary"
+          size="md"
+          icon="🔄"
+          loading={isSyncing}
+          disabled={!savedUrl || serverUrl.trim() !== savedUrl}
+          style={styles.fullWidthButton}
+        />
+      </ModernCard>
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: Spacing.md,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#ffffff',
+    marginBottom: Spacing.sm,
+  },
+  hintText: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.7)',
+    lineHeight: 20,
+  },
+  statusText: {
+    fontSize: 13,
+    color: 'rgba(255, 255, 255, 0.8)',
+    marginTop: Spacing.sm,
+  },
+  input: {
+    width: '100%',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.2)',
+    borderRadius: 12,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: 10,
+    color: '#ffffff',
+    marginTop: Spacing.sm,
+    backgroundColor: 'rgba(255,255,255,0.08)',
+  },
+  fullWidthButton: {
+    width: '100%',
+    marginTop: Spacing.sm,
+  },
+});
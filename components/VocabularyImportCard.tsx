@@ -0,0 +1,131 @@
+import { BorderRadius, Spacing } from '@/constants/ModernColors';
+import { useAppStore } from '@/store/useAppStore';
+import React from 'react';
+import { StyleSheet, View } from 'react-native';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+import { ThemedText } from './ThemedText';
+import ModernCard from './layout/ModernCard';
+import ModernButton from './modern/ModernButton';
+
+// 表示する単語の例の数
+const MAX_EXAMPLES = 3;
+
+// 語彙データの取り込み中の進捗と、失敗したときの再試行、語彙パックの更新で変わった単語
+export default function VocabularyImportCard() {
+  const { vocabularyImport, importVocabulary, vocabularyChanges, dismissVocabularyChanges } = useAppStore();
+  const { status, progress } = vocabularyImport;
+
+  if (status === 'error') {
+    return (
+      <Animated.View entering={FadeInDown.delay(100)} style={styles.container}>
+        <ModernCard variant="warning" pressable={false} delay={0}>
+          <ThemedText style={styles.title}>📚 Vocabulary setup paused</ThemedText>
+          <ThemedText style={styles.description}>
+            The word list could not be prepared. Quizzes still work, but search may be slower until it finishes.
+          </ThemedText>
+          <ModernButton
+            title="Try Again"
+            onPress={importVocabulary}
+            variant="primary"
+            size="md"
+            style={styles.button}
+          />
+        </ModernCard>
+      </Animated.View>
+    );
+  }
+
+  if (status !== 'running' && vocabularyChanges) {
+    const { cefrLevels, moved, removed, restored, affectedWords } = vocabularyChanges;
+    const movedExamples = moved.slice(0, MAX_EXAMPLES).map(({ word, from, to }) => `${word} (${from} → ${to})`).join(', ');
+
+    return (
+      <Animated.View entering={FadeInDown.delay(100)} style={styles.container}>
+        <ModernCard variant="neutral" pressable={false} delay={0}>
+          <ThemedText style={styles.title}>📚 Vocabulary updated{cefrLevels.length > 0 ? ` · ${cefrLevels.join(', ')}` : ''}</ThemedText>
+          {moved.length > 0 && (
+            <ThemedText style={styles.description}>
+              {moved.length} {moved.length === 1 ? 'word moved' : 'words moved'} to another level: {movedExamples}
+              {moved.length > MAX_EXAMPLES ? ` and ${moved.length - MAX_EXAMPLES} more` : ''}
+            </ThemedText>
+          )}
+          {removed.length > 0 && (
+            <ThemedText style={styles.description}>
+              {removed.length} {removed.length === 1 ? 'word was' : 'words were'} removed. Your progress on them is archived and comes back if they return.
+            </ThemedText>
+          )}
+          {restored.length > 0 && (
+            <ThemedText style={styles.description}>
+              {restored.length} archived {restored.length === 1 ? 'word is' : 'words are'} back with your progress.
+            </ThemedText>
+          )}
+          {affectedWords > 0 && (
+            <ThemedText style={styles.description}>
+              Your progress and bookmarks were updated for {affectedWords} {affectedWords === 1 ? 'word' : 'words'}.
+            </ThemedText>
+          )}
+          <ModernButton
+            title="Got It"
+            onPress={dismissVocabularyChanges}
+            variant="secondary"
+            size="md"
+            style={styles.button}
+          />
+        </ModernCard>
+      </Animated.View>
+    );
+  }
+
+  if (status !== 'running' || !progress) return null;
+
+  const percent = progress.total > 0 ? Math.round((progress.processed / progress.total) * 100) : 0;
+
+  return (
+    <Animated.View entering={FadeInDown.delay(100)} style={styles.container}>
+      <ModernCard variant="neutral" pressable={false} delay={0}>
+        <ThemedText style={styles.title}>📚 Preparing vocabulary</ThemedText>
+        <ThemedText style={styles.description}>
+          {progress.phase === 'profile'
+            ? 'Adding the CEFR word list'
+            : `Adding definitions and examples${progress.cefrLevel ? ` for ${progress.cefrLevel}` : ''}`}
+          {' '}· {progress.processed.toLocaleString()} / {progress.total.toLocaleString()} ({percent}%)
+        </ThemedText>
+        <View style={styles.progressBar}>
+          <View style={[styles.progressFill, { width: `${percent}%` }]} />
+        </View>
+      </ModernCard>
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: Spacing.md,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#ffffff',
+    marginBottom: Spacing.sm,
+  },
+  description: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.85)',
+    lineHeight: 20,
+    marginBottom: Spacing.sm,
+  },
+  progressBar: {
+    height: 8,
+    backgroundColor: 'rgba(255, 255, 255, 0.3)',
+    borderRadius: BorderRadius.full,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: '#ffffff',
+    borderRadius: BorderRadius.full,
+  },
+  button: {
+    width: '100%',
+  },
+});
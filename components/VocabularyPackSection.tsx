@@ -0,0 +1,211 @@
+import { BorderRadius, Spacing } from '@/constants/ModernColors';
+import { vocabularyPackService } from '@/services/vocabularyPackService';
+import { useAppStore } from '@/store/useAppStore';
+import { InstalledVocabularyPack } from '@/types';
+import * as DocumentPicker from 'expo-document-picker';
+import React, { useEffect, useState } from 'react';
+import { Alert, StyleSheet, TouchableOpacity, View } from 'react-native';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+import { ThemedText } from './ThemedText';
+import ModernCard from './layout/ModernCard';
+import ModernButton from './modern/ModernButton';
+
+// インストール済みの語彙パックの一覧と、ファイルからのインストール・削除
+export default function VocabularyPackSection() {
+  const { installVocabularyPack, removeVocabularyPack } = useAppStore();
+  const [packs, setPacks] = useState<InstalledVocabularyPack[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  const loadPacks = async () => {
+    try {
+      setPacks(await vocabularyPackService.getInstalledPacks());
+    } catch (error) {
+      console.error('Error loading vocabulary packs:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadPacks();
+  }, []);
+
+  const handleInstall = async () => {
+    let uri: string;
+    try {
+      const result = await DocumentPicker.getDocumentAsync({ type: 'application/json', copyToCacheDirectory: true });
+      if (result.canceled || result.assets.length === 0) return;
+      uri = result.assets[0].uri;
+    } catch (error) {
+      console.error('Error picking vocabulary pack:', error);
+      Alert.alert('Install Failed', 'Failed to open the file. Please try again.');
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const { pack, previous } = await installVocabularyPack(uri);
+      await loadPacks();
+      Alert.alert(
+        previous ? 'Pack Updated' : 'Pack Installed',
+        previous
+          ? `${pack.cefrLevel} now uses ${pack.id} (${pack.version}) instead of ${previous.id} (${previous.version}).`
+          : `${pack.wordCount.toLocaleString()} ${pack.cefrLevel} words are now available.`
+      );
+    } catch (error) {
+      console.error('Error installing vocabulary pack:', error);
+      Alert.alert('Install Failed', error instanceof Error ? error.message : 'Failed to install the vocabulary pack.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRemove = (pack: InstalledVocabularyPack) => {
+    Alert.alert(
+      'Remove Pack',
+      `Remove ${pack.id} (${pack.cefrLevel})? Your progress on these words is kept and comes back if you reinstall the pack.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            setBusy(true);
+            try {
+              await removeVocabularyPack(pack.id);
+              await loadPacks();
+            } catch (error) {
+              console.error('Error removing vocabulary pack:', error);
+              Alert.alert('Remove Failed', error instanceof Error ? error.message : 'Failed to remove the vocabulary pack.');
+            } finally {
+              setBusy(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <Animated.View entering={FadeInDown.delay(300)} style={styles.container}>
+      <ModernCard variant="neutral" pressable={false} delay={0}>
+        <ThemedText style={styles.sectionTitle}>📦 Vocabulary Packs</ThemedText>
+        <ThemedText style={styles.hintText}>
+          Each pack adds the words of one CEFR level. Install a pack file to study a new level or update an existing one.
+        </ThemedText>
+
+        {packs.length === 0 ? (
+          <ThemedText style={styles.emptyText}>No vocabulary packs are installed.</ThemedText>
+        ) : (
+          packs.map(pack => (
+            <View key={pack.id} style={styles.packRow}>
+              <View style={styles.levelBadge}>
+                <ThemedText style={styles.levelText}>{pack.cefrLevel}</ThemedText>
+              </View>
+              <View style={styles.packInfo}>
+                <ThemedText style={styles.packName}>
+                  {pack.id}
+                  {pack.bundled ? <ThemedText style={styles.bundledText}> · Built-in</ThemedText> : null}
+                </ThemedText>
+                <ThemedText style={styles.packMeta}>
+                  v{pack.version} · {pack.wordCount.toLocaleString()} words
+                  {pack.source ? ` · ${pack.source}` : ''}
+                </ThemedText>
+              </View>
+              {!pack.bundled && (
+                <TouchableOpacity onPress={() => handleRemove(pack)} disabled={busy} style={styles.removeButton}>
+                  <ThemedText style={styles.removeText}>Remove</ThemedText>
+                </TouchableOpacity>
+              )}
+            </View>
+          ))
+        )}
+
+        <ModernButton
+          title="Install Pack from File"
+          onPress={handleInstall}
+          variant="primary"
+          size="md"
+          icon="📥"
+          loading={busy}
+          disabled={busy}
+          style={styles.fullWidthButton}
+        />
+      </ModernCard>
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: Spacing.md,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#ffffff',
+    marginBottom: Spacing.sm,
+  },
+  hintText: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.7)',
+    lineHeight: 20,
+    marginBottom: Spacing.sm,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.6)',
+    fontStyle: 'italic',
+    marginVertical: Spacing.sm,
+  },
+  packRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: Spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  levelBadge: {
+    width: 40,
+    height: 40,
+    borderRadius: BorderRadius.md,
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: Spacing.sm,
+  },
+  levelText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  packInfo: {
+    flex: 1,
+  },
+  packName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  bundledText: {
+    fontSize: 13,
+    fontWeight: '400',
+    color: 'rgba(255, 255, 255, 0.6)',
+  },
+  packMeta: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.6)',
+    marginTop: 2,
+  },
+  removeButton: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+  },
+  removeText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ff6b6b',
+  },
+  fullWidthButton: {
+    width: '100%',
+    marginTop: Spacing.sm,
+  },
+});
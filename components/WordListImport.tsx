@@ -0,0 +1,207 @@
+import { Spacing } from '@/constants/ModernColors';
+import { ImportPreview, ImportPreviewRow, wordListImportService } from '@/services/wordListImportService';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import React, { useState } from 'react';
+import { Alert, StyleSheet, Switch, View } from 'react-native';
+import { ThemedText } from './ThemedText';
+import ModernCard from './layout/ModernCard';
+import ModernButton from './modern/ModernButton';
+
+interface Props {
+  deckId: number;
+  onImported: () => void;
+}
+
+// プレビューに表示する問題行の最大数
+const MAX_LISTED_ROWS = 20;
+
+export default function WordListImport({ deckId, onImported }: Props) {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [updateConflicts, setUpdateConflicts] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const resetPreview = () => {
+    setFileName(null);
+    setPreview(null);
+    setUpdateConflicts(false);
+  };
+
+  const handlePickFile = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ['text/csv', 'text/comma-separated-values', 'text/tab-separated-values', 'text/plain'],
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled || result.assets.length === 0) return;
+
+      setIsLoading(true);
+      const asset = result.assets[0];
+      const text = await FileSystem.readAsStringAsync(asset.uri);
+      setPreview(await wordListImportService.createPreview(text, deckId));
+      setFileName(asset.name);
+    } catch (error) {
+      console.error('Error reading word list:', error);
+      Alert.alert('Error', 'Failed to read the file. Make sure it is a CSV or TSV text file.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+
+    setIsLoading(true);
+    try {
+      const imported = await wordListImportService.commitImport(deckId, preview, { updateConflicts });
+      resetPreview();
+      onImported();
+      Alert.alert('Import Complete', `Added ${imported} ${imported === 1 ? 'word' : 'words'} to this deck.`);
+    } catch (error) {
+      console.error('Error importing word list:', error);
+      Alert.alert('Error', 'Import failed. No words were added.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const problemRows = preview?.rows.filter(row => row.status !== 'new') || [];
+  const importableCount = preview ? preview.newCount + preview.conflictCount : 0;
+
+  const describeRow = (row: ImportPreviewRow) => {
+    if (row.status === 'duplicate') return 'Duplicate — skipped';
+    return updateConflicts
+      ? `Conflict — definition will be replaced (was "${row.existingDefinition}")`
+      : `Conflict — keeps existing definition "${row.existingDefinition}"`;
+  };
+
+  return (
+    <ModernCard variant="neutral" pressable={false} delay={0}>
+      <ThemedText style={styles.sectionTitle}>📥 Import Word List</ThemedText>
+      <ThemedText style={styles.hintText}>
+        CSV or TSV with columns: word, definition, example (optional), tag (optional).
+      </ThemedText>
+
+      {!preview ? (
+        <ModernButton
+          title="Choose File"
+          onPress={handlePickFile}
+          variant="primary"
+          size="md"
+          icon="📄"
+          loading={isLoading}
+          style={styles.fullWidthButton}
+        />
+      ) : (
+        <>
+          <ThemedText style={styles.fileName} numberOfLines={1}>{fileName}</ThemedText>
+          <View style={styles.summaryRow}>
+            <ThemedText style={styles.summaryText}>🆕 {preview.newCount} new</ThemedText>
+            <ThemedText style={styles.summaryText}>🔁 {preview.duplicateCount} duplicates</ThemedText>
+            <ThemedText style={styles.summaryText}>⚠️ {preview.conflictCount} conflicts</ThemedText>
+            <ThemedText style={styles.summaryText}>❌ {preview.errors.length} errors</ThemedText>
+          </View>
+          <ThemedText style={styles.hintText}>
+            {preview.rows.filter(row => row.status === 'new' && row.cefrLevel).length} words will be linked to the built-in vocabulary.
+          </ThemedText>
+
+          {preview.errors.slice(0, MAX_LISTED_ROWS).map(error => (
+            <ThemedText key={`error-${error.line}`} style={styles.issueText}>
+              Line {error.line}: {error.message}
+            </ThemedText>
+          ))}
+          {problemRows.slice(0, MAX_LISTED_ROWS).map(row => (
+            <ThemedText key={`row-${row.line}`} style={styles.issueText} numberOfLines={2}>
+              Line {row.line}: {row.word} — {describeRow(row)}
+            </ThemedText>
+          ))}
+          {(preview.errors.length > MAX_LISTED_ROWS || problemRows.length > MAX_LISTED_ROWS) && (
+            <ThemedText style={styles.hintText}>More issues not shown.</ThemedText>
+          )}
+
+          {preview.conflictCount > 0 && (
+            <View style={styles.switchRow}>
+              <ThemedText style={styles.switchLabel}>Replace existing definitions</ThemedText>
+              <Switch
+                value={updateConflicts}
+                onValueChange={setUpdateConflicts}
+                trackColor={{ false: 'rgba(255,255,255,0.3)', true: 'rgba(16,185,129,0.8)' }}
+                thumbColor={updateConflicts ? '#ffffff' : 'rgba(255,255,255,0.8)'}
+              />
+            </View>
+          )}
+
+          <ModernButton
+            title={`Import ${importableCount} ${importableCount === 1 ? 'Word' : 'Words'}`}
+            onPress={handleImport}
+            variant="success"
+            size="md"
+            loading={isLoading}
+            disabled={importableCount === 0}
+            style={styles.fullWidthButton}
+          />
+          <ModernButton
+            title="Cancel"
+            onPress={resetPreview}
+            variant="secondary"
+            size="md"
+            disabled={isLoading}
+            style={styles.fullWidthButton}
+          />
+        </>
+      )}
+    </ModernCard>
+  );
+}
+
+const styles = StyleSheet.create({
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#ffffff',
+    marginBottom: Spacing.sm,
+  },
+  hintText: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.7)',
+    marginTop: Spacing.xs,
+  },
+  fileName: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#ffffff',
+    marginTop: Spacing.sm,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+    marginTop: Spacing.sm,
+  },
+  summaryText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  issueText: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.8)',
+    marginTop: 4,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: Spacing.md,
+  },
+  switchLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  fullWidthButton: {
+    width: '100%',
+    marginTop: Spacing.sm,
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { View, StyleSheet, ScrollView, Alert } from 'react-native';
 import Animated, { 
   FadeInDown, 
@@ -73,6 +73,12 @@ export default function LevelSelectionScreen({
   const [selectedCurrentLevel, setSelectedCurrentLevel] = useState(currentLevel || '');
   const [selectedTargetLevel, setSelectedTargetLevel] = useState(targetLevel || '');
 
+  // プレースメントテストの結果が後から渡された場合に反映
+  useEffect(() => {
+    if (currentLevel) setSelectedCurrentLevel(currentLevel);
+    if (targetLevel) setSelectedTargetLevel(targetLevel);
+  }, [currentLevel, targetLevel]);
+
   const handleCurrentLevelSelect = (level: string) => {
     setSelectedCurrentLevel(level);
     
@@ -17,6 +17,7 @@ import { Spacing } from '../../constants/ModernColors';
 import WelcomeScreen from './WelcomeScreen';
 import CefrIntroScreen from './CefrIntroScreen';
 import LevelSelectionScreen from './LevelSelectionScreen';
+import PlacementTestScreen from './PlacementTestScreen';
 import ApiKeySetupScreen from './ApiKeySetupScreen';
 import OnboardingCompleteScreen from './OnboardingCompleteScreen';
 import OnboardingProgress from './OnboardingProgress';
@@ -32,12 +33,14 @@ export interface OnboardingData {
   currentLevel: string;
   targetLevel: string;
   apiKeyConfigured: boolean;
+  placementConfidence?: number; // プレースメントテストを受けた場合の判定の信頼度
   completedAt: Date;
 }
 
 const ONBOARDING_STEPS = [
   { id: 'welcome', title: 'Welcome', component: WelcomeScreen },
   { id: 'cefr-intro', title: 'CEFR Levels', component: CefrIntroScreen },
+  { id: 'placement-test', title: 'Placement', component: PlacementTestScreen },
   { id: 'level-selection', title: 'Your Level', component: LevelSelectionScreen },
   { id: 'api-setup', title: 'API Setup', component: ApiKeySetupScreen },
   { id: 'complete', title: 'Ready!', component: OnboardingCompleteScreen },
@@ -83,6 +86,7 @@ export default function OnboardingFlow({ visible, onComplete }: OnboardingFlowPr
       currentLevel: onboardingData.currentLevel || 'A1',
       targetLevel: onboardingData.targetLevel || 'B2',
       apiKeyConfigured: onboardingData.apiKeyConfigured || false,
+      placementConfidence: onboardingData.placementConfidence,
       completedAt: new Date(),
     };
     
@@ -141,6 +145,21 @@ export default function OnboardingFlow({ visible, onComplete }: OnboardingFlowPr
             onSkip={() => skipToStep(2)}
           />
           
+          <PlacementTestScreen
+            key="placement-test"
+            onBack={goToPreviousStep}
+            onSkip={goToNextStep}
+            onComplete={(result, targetLevel) => {
+              // 推定レベルを次の画面の初期値にする（ユーザーが調整できる）
+              updateOnboardingData({
+                currentLevel: result.level,
+                targetLevel,
+                placementConfidence: result.confidence
+              });
+              goToNextStep();
+            }}
+          />
+          
           <LevelSelectionScreen
             key="level-selection"
             onNext={goToNextStep}
@@ -0,0 +1,324 @@
+import React, { useState } from 'react';
+import { ActivityIndicator, Alert, ScrollView, StyleSheet, View } from 'react-native';
+import Animated, { FadeInDown, FadeInUp } from 'react-native-reanimated';
+import { Spacing } from '../../constants/ModernColors';
+import { databaseService } from '../../services/database';
+import { QuizQuestion } from '../../services/enrichedQuizService';
+import {
+  CEFR_LEVEL_ORDER,
+  PlacementResult,
+  PlacementTestState,
+  placementTestService
+} from '../../services/placementTestService';
+import { ThemedText } from '../ThemedText';
+import ModernCard from '../layout/ModernCard';
+import ModernButton from '../modern/ModernButton';
+
+interface PlacementTestScreenProps {
+  onComplete: (result: PlacementResult, targetLevel: string) => void;
+  onSkip?: () => void;
+  onBack?: () => void;
+}
+
+type Phase = 'intro' | 'question' | 'result';
+
+// 回答後に正誤を表示してから次の問題に進むまでの時間
+const FEEDBACK_DELAY_MS = 800;
+
+export default function PlacementTestScreen({ onComplete, onSkip, onBack }: PlacementTestScreenProps) {
+  const [phase, setPhase] = useState<Phase>('intro');
+  const [testState, setTestState] = useState<PlacementTestState | null>(null);
+  const [question, setQuestion] = useState<QuizQuestion | null>(null);
+  const [selectedOption, setSelectedOption] = useState<string | null>(null);
+  const [result, setResult] = useState<PlacementResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadQuestion = async (state: PlacementTestState) => {
+    setIsLoading(true);
+    setSelectedOption(null);
+    try {
+      const nextQuestion = await placementTestService.getNextQuestion(state);
+      if (!nextQuestion) {
+        // 問題を作れない場合はそこまでの回答で判定
+        finishTest(state);
+        return;
+      }
+      setQuestion(nextQuestion);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleStart = async () => {
+    try {
+      const state = await placementTestService.createTest();
+      setTestState(state);
+      setResult(null);
+      setPhase('question');
+      await loadQuestion(state);
+    } catch (error) {
+      console.error('Error starting placement test:', error);
+      Alert.alert('Error', 'Failed to start the placement test. Please try again.');
+    }
+  };
+
+  const finishTest = (state: PlacementTestState) => {
+    setResult(placementTestService.estimateLevel(state));
+    setQuestion(null);
+    setPhase('result');
+  };
+
+  const handleAnswer = (option: string) => {
+    if (!testState || !question || selectedOption) return;
+
+    setSelectedOption(option);
+    const nextState = placementTestService.recordAnswer(testState, question, option === question.correctAnswer);
+    setTestState(nextState);
+
+    setTimeout(() => {
+      if (placementTestService.isComplete(nextState)) {
+        finishTest(nextState);
+      } else {
+        loadQuestion(nextState);
+      }
+    }, FEEDBACK_DELAY_MS);
+  };
+
+  const handleUseLevel = async () => {
+    if (!result) return;
+
+    setIsSaving(true);
+    try {
+      // 現在の目標が推定レベル以下なら1つ上を目標にする
+      const existing = await databaseService.getUserCefrLevel();
+      const targetLevel = CEFR_LEVEL_ORDER.indexOf(existing.target_level) > CEFR_LEVEL_ORDER.indexOf(result.level)
+        ? existing.target_level
+        : placementTestService.suggestTargetLevel(result.level);
+
+      await databaseService.updateUserCefrLevel(result.level, targetLevel, result.confidence);
+      onComplete(result, targetLevel);
+    } catch (error) {
+      console.error('Error saving placement result:', error);
+      Alert.alert('Error', 'Failed to save your level. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const getOptionVariant = (option: string) => {
+    if (!selectedOption || !question) return 'secondary';
+    if (option === question.correctAnswer) return 'success';
+    if (option === selectedOption) return 'error';
+    return 'secondary';
+  };
+
+  const answeredCount = testState?.answers.length ?? 0;
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+      {/* Title Section */}
+      <Animated.View style={styles.titleSection} entering={FadeInUp.delay(200)}>
+        <ThemedText style={styles.titleEmoji}>🧭</ThemedText>
+        <ThemedText style={styles.title}>Placement Test</ThemedText>
+        <ThemedText style={styles.subtitle}>
+          {phase === 'question'
+            ? `Question ${Math.min(answeredCount + 1, placementTestService.QUESTION_COUNT)} of ${placementTestService.QUESTION_COUNT}`
+            : 'Find your CEFR level in a few minutes'}
+        </ThemedText>
+      </Animated.View>
+
+      {phase === 'intro' && (
+        <Animated.View entering={FadeInDown.delay(400)}>
+          <ModernCard variant="primary" pressable={false} delay={0}>
+            <ThemedText style={styles.sectionTitle}>How it works</ThemedText>
+            <ThemedText style={styles.sectionDescription}>
+              You will see {placementTestService.QUESTION_COUNT} words and choose their meaning.
+              The questions get harder when you answer correctly and easier when you miss,
+              so don&apos;t worry about getting some wrong.
+            </ThemedText>
+            <ModernButton
+              title="Start Test"
+              onPress={handleStart}
+              variant="primary"
+              size="lg"
+              icon="🚀"
+              style={styles.primaryButton}
+            />
+          </ModernCard>
+        </Animated.View>
+      )}
+
+      {phase === 'question' && (
+        <Animated.View entering={FadeInDown.delay(100)}>
+          <ModernCard variant="secondary" pressable={false} delay={0}>
+            {isLoading || !question ? (
+              <View style={styles.loadingContainer}>
+                <ActivityIndicator size="large" color="#ffffff" />
+              </View>
+            ) : (
+              <>
+                <ThemedText style={styles.questionWord}>{question.word.word}</ThemedText>
+                {question.word.pos && (
+                  <ThemedText style={styles.questionPos}>{question.word.pos}</ThemedText>
+                )}
+                <ThemedText style={styles.sectionDescription}>Select the correct definition:</ThemedText>
+                <View style={styles.optionsContainer}>
+                  {question.options.map(option => (
+                    <ModernButton
+                      key={option}
+                      title={option}
+                      onPress={() => handleAnswer(option)}
+                      variant={getOptionVariant(option)}
+                      size="md"
+                      disabled={!!selectedOption}
+                      style={styles.optionButton}
+                    />
+                  ))}
+                </View>
+              </>
+            )}
+          </ModernCard>
+        </Animated.View>
+      )}
+
+      {phase === 'result' && result && (
+        <Animated.View entering={FadeInDown.delay(200)}>
+          <ModernCard variant="success" pressable={false} delay={0}>
+            <ThemedText style={styles.sectionTitle}>Your estimated level</ThemedText>
+            <ThemedText style={styles.resultLevel}>{result.level}</ThemedText>
+            <ThemedText style={styles.sectionDescription}>
+              {result.correctCount} of {result.answeredCount} correct · Confidence {Math.round(result.confidence * 100)}%
+            </ThemedText>
+            <ModernButton
+              title="Use This Level"
+              onPress={handleUseLevel}
+              variant="primary"
+              size="lg"
+              icon="✨"
+              loading={isSaving}
+              style={styles.primaryButton}
+            />
+            <ModernButton
+              title="Retake Test"
+              onPress={handleStart}
+              variant="secondary"
+              size="md"
+              icon="🔄"
+              style={styles.secondaryButton}
+            />
+          </ModernCard>
+        </Animated.View>
+      )}
+
+      {/* Action Buttons */}
+      <Animated.View style={styles.actionsContainer} entering={FadeInDown.delay(600)}>
+        {onSkip && phase !== 'result' && (
+          <ModernButton
+            title="Skip and choose my level"
+            onPress={onSkip}
+            variant="secondary"
+            size="md"
+            style={styles.secondaryButton}
+          />
+        )}
+        {onBack && (
+          <ModernButton
+            title="Back"
+            onPress={onBack}
+            variant="secondary"
+            size="md"
+            style={styles.secondaryButton}
+          />
+        )}
+      </Animated.View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  contentContainer: {
+    flexGrow: 1,
+    paddingHorizontal: Spacing.lg,
+    paddingBottom: Spacing.xl,
+  },
+  titleSection: {
+    alignItems: 'center',
+    paddingVertical: Spacing.lg,
+  },
+  titleEmoji: {
+    fontSize: 48,
+    marginBottom: Spacing.md,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '800',
+    color: '#ffffff',
+    textAlign: 'center',
+    marginBottom: Spacing.sm,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: 'rgba(255, 255, 255, 0.8)',
+    textAlign: 'center',
+    lineHeight: 22,
+    fontWeight: '500',
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#ffffff',
+    marginBottom: Spacing.sm,
+  },
+  sectionDescription: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.8)',
+    lineHeight: 20,
+    marginBottom: Spacing.lg,
+    fontWeight: '400',
+  },
+  loadingContainer: {
+    paddingVertical: Spacing.xl,
+    alignItems: 'center',
+  },
+  questionWord: {
+    fontSize: 32,
+    fontWeight: '800',
+    color: '#ffffff',
+    textAlign: 'center',
+  },
+  questionPos: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.7)',
+    textAlign: 'center',
+    fontStyle: 'italic',
+    marginBottom: Spacing.md,
+  },
+  optionsContainer: {
+    gap: Spacing.sm,
+  },
+  optionButton: {
+    width: '100%',
+  },
+  resultLevel: {
+    fontSize: 56,
+    fontWeight: '900',
+    color: '#ffffff',
+    textAlign: 'center',
+    marginVertical: Spacing.md,
+  },
+  actionsContainer: {
+    marginTop: Spacing.lg,
+    gap: Spacing.md,
+  },
+  primaryButton: {
+    width: '100%',
+  },
+  secondaryButton: {
+    width: '100%',
+    marginTop: Spacing.sm,
+  },
+});
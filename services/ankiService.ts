@@ -0,0 +1,456 @@
+import * as Crypto from 'expo-crypto';
+import * as FileSystem from 'expo-file-system';
+import * as SQLite from 'expo-sqlite';
+import { strToU8, unzipSync, zipSync } from 'fflate';
+import { DeckImportEntry, ImportedProgress } from '../types';
+import { databaseService } from './database';
+import { enrichedVocabularyService } from './enrichedVocabularyService';
+import { spacedRepetitionService } from './spacedRepetitionService';
+import { wordRepository } from './wordRepository';
+
+export type AnkiExportSource =
+  | { type: 'bookmarked' }
+  | { type: 'weak' }
+  | { type: 'deck'; deckId: number; name: string };
+
+export interface AnkiImportResult {
+  noteCount: number; // パッケージ内のノート数
+  importedCount: number; // デッキに追加した単語数
+  withHistoryCount: number; // 学習履歴を引き継いだ単語数
+}
+
+interface AnkiNote {
+  word: string;
+  ipa: string;
+  definition: string;
+  example: string;
+  tags: string[];
+}
+
+interface AnkiCardRow {
+  nid: number;
+  type: number;
+  queue: number;
+  due: number;
+  ivl: number;
+  factor: number;
+  reps: number;
+  lapses: number;
+}
+
+interface AnkiRevlogRow {
+  id: number; // 復習日時（エポックミリ秒）
+  cid: number;
+  ease: number; // 1: Again, 2-4: 正解, 0: 手動での再スケジュール
+}
+
+const ANKI_FIELD_SEPARATOR = '\x1f';
+const MODEL_FIELDS = ['Word', 'IPA', 'Definition', 'Example'];
+
+// Anki 2.1の.apkg（collection.anki2 + media をzipしたもの）の書き出しと読み込み
+// 読み込みは基本的なノートタイプ（1番目のフィールドが単語、2番目が意味）を想定
+class AnkiService {
+  private readonly EXPORT_DIR = `${FileSystem.cacheDirectory}anki-export/`;
+  private readonly IMPORT_DIR = `${FileSystem.cacheDirectory}anki-import/`;
+  private readonly COLLECTION_NAME = 'collection.anki2';
+
+  // .apkgを作成してファイルのURIを返す（共有は呼び出し側で行う）
+  async exportWords(source: AnkiExportSource): Promise<string> {
+    const notes = await this.collectNotes(source);
+    if (notes.length === 0) {
+      throw new Error('No words to export');
+    }
+
+    const deckName = source.type === 'deck'
+      ? source.name
+      : source.type === 'bookmarked' ? 'English Lesson::Bookmarked' : 'English Lesson::Weak Words';
+
+    try {
+      await FileSystem.deleteAsync(this.EXPORT_DIR, { idempotent: true });
+      await FileSystem.makeDirectoryAsync(this.EXPORT_DIR, { intermediates: true });
+
+      const collection = await SQLite.openDatabaseAsync(this.COLLECTION_NAME, undefined, this.toPath(this.EXPORT_DIR));
+      try {
+        await this.writeCollection(collection, deckName, notes);
+      } finally {
+        await collection.closeAsync();
+      }
+
+      const collectionBase64 = await FileSystem.readAsStringAsync(this.EXPORT_DIR + this.COLLECTION_NAME, {
+        encoding: FileSystem.EncodingType.Base64,
+      });
+      const packageBytes = zipSync({
+        [this.COLLECTION_NAME]: this.base64ToBytes(collectionBase64),
+        media: strToU8('{}'),
+      });
+
+      const fileName = `${deckName.replace(/[^A-Za-z0-9]+/g, '_').replace(/^_|_$/g, '') || 'words'}.apkg`;
+      const packageUri = this.EXPORT_DIR + fileName;
+      await FileSystem.writeAsStringAsync(packageUri, this.bytesToBase64(packageBytes), {
+        encoding: FileSystem.EncodingType.Base64,
+      });
+
+      console.log(`Exported ${notes.length} notes to ${packageUri}`);
+      return packageUri;
+    } catch (error) {
+      console.error('Error exporting Anki package:', error);
+      throw new Error(`Failed to export Anki package: ${error}`);
+    }
+  }
+
+  // .apkgのノートをデッキに追加し、カードの復習履歴を学習進捗に引き継ぐ
+  async importPackage(uri: string, deckId: number): Promise<AnkiImportResult> {
+    const packageBase64 = await FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.Base64 });
+    const files = unzipSync(this.base64ToBytes(packageBase64));
+
+    const collectionBytes = files['collection.anki21'] ?? files['collection.anki2'];
+    if (!collectionBytes) {
+      // 新しい形式（collection.anki21b）はzstd圧縮されているため未対応
+      throw new Error(files['collection.anki21b']
+        ? 'This package uses the latest Anki format. Export it again with "Support older Anki versions" enabled.'
+        : 'Not an Anki package');
+    }
+
+    await FileSystem.deleteAsync(this.IMPORT_DIR, { idempotent: true });
+    await FileSystem.makeDirectoryAsync(this.IMPORT_DIR, { intermediates: true });
+    await FileSystem.writeAsStringAsync(this.IMPORT_DIR + this.COLLECTION_NAME, this.bytesToBase64(collectionBytes), {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+
+    const collection = await SQLite.openDatabaseAsync(this.COLLECTION_NAME, undefined, this.toPath(this.IMPORT_DIR));
+    let entries: DeckImportEntry[];
+    try {
+      entries = await this.readEntries(collection);
+    } finally {
+      await collection.closeAsync();
+      await FileSystem.deleteAsync(this.IMPORT_DIR, { idempotent: true });
+    }
+
+    const importedCount = entries.length > 0 ? await databaseService.importDeckWords(deckId, entries) : 0;
+    return {
+      noteCount: entries.length,
+      importedCount,
+      withHistoryCount: entries.filter(entry => entry.progress).length,
+    };
+  }
+
+  private async collectNotes(source: AnkiExportSource): Promise<AnkiNote[]> {
+    const enrichedTargets: { word: string; cefrLevel: string; tag?: string }[] = [];
+    const notes: AnkiNote[] = [];
+
+    if (source.type === 'deck') {
+      for (const deckWord of await databaseService.getDeckWords(source.deckId)) {
+        if (deckWord.cefrLevel) {
+          enrichedTargets.push({ word: deckWord.word, cefrLevel: deckWord.cefrLevel, tag: deckWord.tag });
+        } else {
+          notes.push({
+            word: deckWord.word,
+            ipa: '',
+            definition: deckWord.definition || '',
+            example: deckWord.example || '',
+            tags: ['custom', ...(deckWord.tag ? [deckWord.tag] : [])],
+          });
+        }
+      }
+    } else {
+      for (const studyWord of await wordRepository.getStudyWords(source.type)) {
+        if (studyWord.ref.kind === 'enriched') {
+          enrichedTargets.push({ word: studyWord.ref.word, cefrLevel: studyWord.ref.cefrLevel });
+        } else {
+          notes.push({
+            word: studyWord.word,
+            ipa: studyWord.pronunciation || '',
+            definition: studyWord.definition || '',
+            example: '',
+            tags: ['custom'],
+          });
+        }
+      }
+    }
+
+    for (const target of enrichedTargets) {
+      const enrichedWord = await enrichedVocabularyService.getEnrichedWord(target.word, target.cefrLevel);
+      notes.push({
+        word: target.word,
+        ipa: enrichedWord?.pronunciation || '',
+        definition: enrichedWord?.definition || '',
+        example: enrichedWord?.example_sentence || '',
+        tags: [`CEFR::${target.cefrLevel}`, ...(target.tag ? [target.tag] : [])],
+      });
+    }
+
+    return notes;
+  }
+
+  // Anki 2.1（スキーマ11）のコレクションを作成し、すべて新規カードとして登録
+  private async writeCollection(collection: SQLite.SQLiteDatabase, deckName: string, notes: AnkiNote[]): Promise<void> {
+    const now = Date.now();
+    const nowSeconds = Math.floor(now / 1000);
+    const modelId = now;
+    const deckId = now + 1;
+
+    await collection.execAsync(`
+      CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null,
+        ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null,
+        models text not null, decks text not null, dconf text not null, tags text not null);
+      CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null,
+        usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null,
+        flags integer not null, data text not null);
+      CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null,
+        mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null,
+        ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null,
+        odue integer not null, odid integer not null, flags integer not null, data text not null);
+      CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null,
+        ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+      CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+      CREATE INDEX ix_notes_usn on notes (usn);
+      CREATE INDEX ix_cards_usn on cards (usn);
+      CREATE INDEX ix_revlog_usn on revlog (usn);
+      CREATE INDEX ix_cards_nid on cards (nid);
+      CREATE INDEX ix_cards_sched on cards (did, queue, due);
+      CREATE INDEX ix_revlog_cid on revlog (cid);
+      CREATE INDEX ix_notes_csum on notes (csum);
+    `);
+
+    const model = {
+      id: modelId,
+      name: 'English Lesson Vocabulary',
+      type: 0,
+      mod: nowSeconds,
+      usn: 0,
+      sortf: 0,
+      did: deckId,
+      tmpls: [{
+        name: 'Card 1',
+        ord: 0,
+        qfmt: '<div class="word">{{Word}}</div>',
+        afmt: '{{FrontSide}}<hr id=answer><div class="ipa">{{IPA}}</div><div>{{Definition}}</div><div class="example">{{Example}}</div>',
+        did: null,
+        bqfmt: '',
+        bafmt: '',
+      }],
+      flds: MODEL_FIELDS.map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] })),
+      css: '.card { font-family: arial; font-size: 20px; text-align: center; } .word { font-size: 32px; font-weight: bold; } .ipa { color: #888; } .example { font-style: italic; margin-top: 8px; }',
+      latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+      latexPost: '\\end{document}',
+      tags: [],
+      vers: [],
+      req: [[0, 'any', [0]]],
+    };
+    const deckDefaults = {
+      mod: nowSeconds,
+      usn: 0,
+      desc: '',
+      dyn: 0,
+      conf: 1,
+      collapsed: false,
+      newToday: [0, 0],
+      revToday: [0, 0],
+      lrnToday: [0, 0],
+      timeToday: [0, 0],
+      extendNew: 10,
+      extendRev: 50,
+    };
+    const decks = {
+      1: { ...deckDefaults, id: 1, name: 'Default' },
+      [deckId]: { ...deckDefaults, id: deckId, name: deckName },
+    };
+    const deckConfig = {
+      1: {
+        id: 1,
+        name: 'Default',
+        mod: 0,
+        usn: 0,
+        maxTaken: 60,
+        autoplay: true,
+        timer: 0,
+        replayq: true,
+        dyn: false,
+        new: { delays: [1, 10], ints: [1, 4, 7], initialFactor: 2500, order: 1, perDay: 20, bury: true },
+        lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 0 },
+        rev: { perDay: 200, ease4: 1.3, fuzz: 0.05, maxIvl: 36500, ivlFct: 1, bury: true, hardFactor: 1.2 },
+      },
+    };
+    const config = {
+      nextPos: notes.length + 1,
+      estTimes: true,
+      activeDecks: [1],
+      sortType: 'noteFld',
+      timeLim: 0,
+      sortBackwards: false,
+      addToCur: true,
+      curDeck: 1,
+      newBury: true,
+      newSpread: 0,
+      dueCounts: true,
+      curModel: modelId,
+      collapseTime: 1200,
+    };
+
+    await collection.runAsync(
+      'INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)',
+      [nowSeconds - (nowSeconds % 86400), now, now, JSON.stringify(config), JSON.stringify({ [modelId]: model }),
+        JSON.stringify(decks), JSON.stringify(deckConfig), '{}']
+    );
+
+    await collection.withTransactionAsync(async () => {
+      for (let i = 0; i < notes.length; i++) {
+        const note = notes[i];
+        const noteId = now + i;
+        const fields = [note.word, note.ipa, note.definition, note.example].map(field => this.escapeHtml(field));
+        const tags = note.tags.map(tag => tag.trim().replace(/\s+/g, '_')).filter(Boolean);
+
+        await collection.runAsync(
+          'INSERT INTO notes VALUES (?, ?, ?, ?, 0, ?, ?, ?, ?, 0, ?)',
+          [noteId, this.noteGuid(note), modelId, nowSeconds, tags.length > 0 ? ` ${tags.join(' ')} ` : '',
+            fields.join(ANKI_FIELD_SEPARATOR), note.word, await this.fieldChecksum(note.word), '']
+        );
+        await collection.runAsync(
+          'INSERT INTO cards VALUES (?, ?, ?, 0, ?, 0, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, ?)',
+          [noteId, noteId, deckId, nowSeconds, i + 1, '']
+        );
+      }
+    });
+  }
+
+  // ノートとカード・復習履歴を読み込み、デッキに登録する単語に変換
+  private async readEntries(collection: SQLite.SQLiteDatabase): Promise<DeckImportEntry[]> {
+    const col = await collection.getFirstAsync<{ crt: number; models: string }>('SELECT crt, models FROM col');
+    if (!col) throw new Error('Anki collection is empty');
+
+    const models: { [id: string]: { flds: { name: string; ord: number }[] } } = JSON.parse(col.models);
+    const notes = await collection.getAllAsync<{ id: number; mid: number; flds: string; tags: string }>(
+      'SELECT id, mid, flds, tags FROM notes ORDER BY id'
+    );
+    const cards = await collection.getAllAsync<AnkiCardRow & { id: number }>(
+      'SELECT id, nid, type, queue, due, ivl, factor, reps, lapses FROM cards WHERE ord = 0'
+    );
+    const revlog = await collection.getAllAsync<AnkiRevlogRow>('SELECT id, cid, ease FROM revlog ORDER BY id');
+
+    const cardByNote = new Map(cards.map(card => [card.nid, card]));
+    const reviewsByCard = new Map<number, AnkiRevlogRow[]>();
+    for (const review of revlog) {
+      reviewsByCard.set(review.cid, [...(reviewsByCard.get(review.cid) || []), review]);
+    }
+
+    const parsed = notes.map(note => {
+      const values = note.flds.split(ANKI_FIELD_SEPARATOR).map(value => this.stripHtml(value));
+      const fieldNames = (models[String(note.mid)]?.flds || [])
+        .slice()
+        .sort((a, b) => a.ord - b.ord)
+        .map(field => field.name.toLowerCase());
+      const findField = (names: string[], fallbackIndex: number) => {
+        const index = fieldNames.findIndex(name => names.includes(name));
+        return values[index >= 0 ? index : fallbackIndex] || '';
+      };
+      const card = cardByNote.get(note.id);
+
+      return {
+        word: findField(['word', 'front', 'expression', 'vocabulary'], 0),
+        definition: findField(['definition', 'back', 'meaning'], 1),
+        example: findField(['example', 'sentence'], -1),
+        tags: note.tags.trim().split(/\s+/).filter(Boolean),
+        progress: card ? this.toProgress(card, reviewsByCard.get(card.id) || [], col.crt) : undefined,
+      };
+    }).filter(note => note.word && note.definition);
+
+    const enrichedMatches = await enrichedVocabularyService.findWordsAcrossLevels(parsed.map(note => note.word));
+    return parsed.map(note => {
+      const match = enrichedMatches.get(note.word.toLowerCase());
+      // CEFRタグはこのアプリの書き出しで付けたものなので、それ以外を最初のタグとして残す
+      const tag = note.tags.find(t => !t.startsWith('CEFR::') && t !== 'custom');
+      return {
+        word: match?.word ?? note.word,
+        cefrLevel: match?.cefr,
+        definition: note.definition,
+        example: note.example || undefined,
+        tag,
+        progress: note.progress,
+      };
+    });
+  }
+
+  // Ankiのカード状態を間隔反復スケジュールに変換（新規カードは履歴なし）
+  private toProgress(card: AnkiCardRow, reviews: AnkiRevlogRow[], collectionCreated: number): ImportedProgress | undefined {
+    const answered = reviews.filter(review => review.ease > 0);
+    if (card.type === 0 && answered.length === 0) return undefined;
+
+    let streak = 0;
+    for (let i = answered.length - 1; i >= 0 && answered[i].ease > 1; i--) streak++;
+
+    const lastReview = answered.length > 0 ? new Date(answered[answered.length - 1].id) : null;
+    // 学習中（queue 1）のdueはエポック秒、それ以外はコレクション作成日からの日数
+    const nextReviewDate = card.type === 0
+      ? null
+      : new Date((card.queue === 1 ? card.due : collectionCreated + card.due * 86400) * 1000);
+
+    return {
+      attempts: answered.length > 0 ? answered.length : card.reps,
+      correctAttempts: answered.length > 0 ? answered.filter(review => review.ease > 1).length : Math.max(0, card.reps - card.lapses),
+      easeFactor: card.factor > 0
+        ? Math.max(spacedRepetitionService.MIN_EASE_FACTOR, card.factor / 1000)
+        : spacedRepetitionService.DEFAULT_EASE_FACTOR,
+      intervalDays: Math.max(0, card.ivl), // 負の値は学習中の秒単位の間隔
+      repetitions: answered.length > 0 ? streak : Math.max(0, card.reps - card.lapses),
+      lapses: card.lapses,
+      lastReviewDate: lastReview,
+      nextReviewDate,
+    };
+  }
+
+  // 同じ単語を再度書き出したときにAnki側で重複せず更新されるよう、単語とタグから固定のGUIDを作る
+  private noteGuid(note: AnkiNote): string {
+    return `ela:${note.word.toLowerCase()}:${note.tags[0] || ''}`;
+  }
+
+  // Ankiの重複チェック用チェックサム（ソートフィールドのSHA1の先頭8桁）
+  private async fieldChecksum(text: string): Promise<number> {
+    const digest = await Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA1, text);
+    return parseInt(digest.substring(0, 8), 16);
+  }
+
+  private escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  }
+
+  private stripHtml(html: string): string {
+    return html
+      .replace(/\[sound:[^\]]*\]/g, '')
+      .replace(/<br\s*\/?>/gi, ' ')
+      .replace(/<[^>]*>/g, '')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;/g, "'")
+      .replace(/&amp;/g, '&')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  // expo-sqliteのdirectoryにはfile://を除いたパスを渡す
+  private toPath(uri: string): string {
+    return uri.replace(/^file:\/\//, '').replace(/\/$/, '');
+  }
+
+  private base64ToBytes(base64: string): Uint8Array {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+  }
+
+  private bytesToBase64(bytes: Uint8Array): string {
+    // 大きな配列でもスタックを溢れさせないよう分割して変換
+    const chunkSize = 0x8000;
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += chunkSize) {
+      binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+    }
+    return btoa(binary);
+  }
+}
+
+export const ankiService = new AnkiService();
@@ -0,0 +1,113 @@
+import { AnswerOutcome } from '../types';
+import { morphology } from './morphology';
+
+export interface AnswerCheckOptions {
+  allowInflections?: boolean; // 活用形も正解とするか（デフォルト: true。書き取りでは聞いた形そのものを求めるためfalse）
+}
+
+export interface AnswerCheckResult {
+  outcome: AnswerOutcome;
+  distance: number; // 最も近い許容形との編集距離
+  closestForm?: string; // 最も近い許容形
+}
+
+// 入力された解答を見出し語と照合する（タイピング解答用）
+class AnswerChecker {
+  // 比較用の正規化：小文字化、引用符の統一、前後の記号と冠詞・to不定詞の除去
+  normalize(text: string): string {
+    return text
+      .toLowerCase()
+      .replace(/[‘’ʼ]/g, "'")
+      .replace(/[‐-―]/g, '-')
+      .replace(/\s+/g, ' ')
+      .trim()
+      .replace(/^[^a-z0-9]+|[^a-z0-9.]+$/g, '')
+      .replace(/^(a|an|the|to) (?=\S)/, '');
+  }
+
+  // 見出し語のスラッシュ区切りの表記ゆれを展開（"a.m./A.M./am/AM" -> ["a.m.", "am"]）
+  getHeadwordVariants(headword: string): string[] {
+    const variants = headword
+      .split('/')
+      .map(v => this.normalize(v))
+      .filter(v => v.length > 0);
+    return Array.from(new Set(variants));
+  }
+
+  // 解答を判定する
+  // 見出し語の表記ゆれ・活用形と一致すれば正解、スペルミス程度の差なら near-miss
+  checkAnswer(input: string, headword: string, pos?: string, options: AnswerCheckOptions = {}): AnswerCheckResult {
+    const { allowInflections = true } = options;
+    const answerKey = this.compact(this.normalize(input));
+    if (!answerKey) {
+      return { outcome: 'incorrect', distance: Infinity };
+    }
+
+    const variants = this.getHeadwordVariants(headword);
+    const acceptedForms = allowInflections
+      ? variants.flatMap(variant => morphology.getInflections(variant, pos))
+      : variants;
+
+    let closestForm: string | undefined;
+    let closestDistance = Infinity;
+
+    for (const form of acceptedForms) {
+      const formKey = this.compact(form);
+      if (formKey === answerKey) {
+        return { outcome: 'correct', distance: 0, closestForm: form };
+      }
+      const distance = this.editDistance(answerKey, formKey);
+      if (distance < closestDistance) {
+        closestDistance = distance;
+        closestForm = form;
+      }
+    }
+
+    const tolerance = this.getTolerance(closestForm ? this.compact(closestForm).length : 0);
+    return {
+      outcome: closestDistance <= tolerance ? 'near-miss' : 'incorrect',
+      distance: closestDistance,
+      closestForm,
+    };
+  }
+
+  // 短い単語ほど1文字違いで別の単語になりやすいため許容範囲を狭くする
+  private getTolerance(length: number): number {
+    if (length <= 3) return 0;
+    if (length <= 7) return 1;
+    return 2;
+  }
+
+  // ピリオド・ハイフン・アポストロフィ・空白を無視して比較（"a.m." = "am", "ice-cream" = "ice cream"）
+  private compact(text: string): string {
+    return text.replace(/[.\-'\s]/g, '');
+  }
+
+  // 編集距離（隣接文字の入れ替えも1とする）
+  private editDistance(a: string, b: string): number {
+    const rows = a.length + 1;
+    const cols = b.length + 1;
+    const d: number[][] = Array.from({ length: rows }, () => Array(cols).fill(0));
+
+    for (let i = 0; i < rows; i++) d[i][0] = i;
+    for (let j = 0; j < cols; j++) d[0][j] = j;
+
+    for (let i = 1; i < rows; i++) {
+      for (let j = 1; j < cols; j++) {
+        const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+        d[i][j] = Math.min(
+          d[i - 1][j] + 1,
+          d[i][j - 1] + 1,
+          d[i - 1][j - 1] + cost
+        );
+        if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+          d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+        }
+      }
+    }
+
+    return d[a.length][b.length];
+  }
+}
+
+export const answerChecker = new AnswerChecker();
@@ -0,0 +1,197 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import { RestoreMode } from '../types';
+import { audioService } from './audioService';
+import { BackupTableData, databaseService } from './database';
+import { syncService } from './syncService';
+
+export const BACKUP_FORMAT = 'vocabmaster-backup';
+// バックアップ形式を変更したら上げる（復元時に古い形式を変換できるようにする）
+// 2: プロフィールを追加（バージョン1のデータはmergeでは現在のプロフィール、replaceでは最初のプロフィールに復元する）
+// 3: 語彙データ（cefr_words / word_details）を含めない（バージョン2までのバックアップの語彙データは復元しない）
+// 4: 語彙パックの更新でアーカイブした単語の学習履歴（archived_words）を追加
+export const BACKUP_VERSION = 4;
+
+// これより前のバージョンのバックアップは単語の種類の統合前に作成された可能性がある（組み込みの単語の進捗を移す）
+const UNIFIED_WORDS_VERSION = 3;
+
+// 以前のバックアップに含まれていた、復元では無視するテーブル
+const IGNORED_TABLES = ['cefr_words', 'word_details'];
+
+const STORE_STORAGE_KEY = 'vocabmaster-storage';
+const AUDIO_SETTINGS_KEY = 'audio_settings';
+
+export interface RestoreResult {
+  partial: boolean; // 学習データは復元したが、設定の一部を復元できなかった
+}
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string; // ISO 8601
+  database: BackupTableData;
+  settings: {
+    store: any | null; // zustandで永続化している状態（学習設定・XP・レベル）
+    audio: any | null;
+  };
+}
+
+export interface BackupSummary {
+  createdAt: Date;
+  rowCount: number;
+  tableCounts: { [table: string]: number };
+}
+
+// 学習データ（SQLite）と設定（AsyncStorage）のJSONバックアップ・復元
+class BackupService {
+  async createBackup(): Promise<BackupFile> {
+    const storeJson = await AsyncStorage.getItem(STORE_STORAGE_KEY);
+    const audioJson = await AsyncStorage.getItem(AUDIO_SETTINGS_KEY);
+
+    return {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      createdAt: new Date().toISOString(),
+      database: await databaseService.exportBackupTables(),
+      settings: {
+        store: storeJson ? JSON.parse(storeJson) : null,
+        audio: audioJson ? JSON.parse(audioJson) : null,
+      },
+    };
+  }
+
+  // バックアップをファイルに書き出してURIを返す（共有は呼び出し側で行う）
+  async exportToFile(): Promise<string> {
+    try {
+      const backup = await this.createBackup();
+      const fileUri = `${FileSystem.cacheDirectory}vocabmaster-backup-${backup.createdAt.substring(0, 10)}.json`;
+      await FileSystem.writeAsStringAsync(fileUri, JSON.stringify(backup));
+      console.log(`Backup written to ${fileUri}`);
+      return fileUri;
+    } catch (error) {
+      console.error('Error exporting backup:', error);
+      throw new Error(`Failed to export backup: ${error}`);
+    }
+  }
+
+  async readFile(uri: string): Promise<BackupFile> {
+    const text = await FileSystem.readAsStringAsync(uri);
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new Error('The file is not a valid backup (invalid JSON).');
+    }
+    return this.validate(parsed);
+  }
+
+  // 形式・バージョン・テーブルの構造を検証（エラーメッセージはそのまま画面に表示する）
+  validate(data: any): BackupFile {
+    if (!data || typeof data !== 'object' || data.format !== BACKUP_FORMAT) {
+      throw new Error('The file is not a VocabMaster backup.');
+    }
+    if (!Number.isInteger(data.version) || data.version < 1) {
+      throw new Error('The backup has an invalid version.');
+    }
+    if (data.version > BACKUP_VERSION) {
+      throw new Error('This backup was created by a newer version of the app. Please update the app and try again.');
+    }
+    if (!data.database || typeof data.database !== 'object') {
+      throw new Error('The backup does not contain any learning data.');
+    }
+
+    const knownTables = databaseService.getBackupTableNames();
+    const database: BackupTableData = {};
+    for (const [table, rows] of Object.entries(data.database)) {
+      if (IGNORED_TABLES.includes(table)) continue;
+      if (!knownTables.includes(table)) {
+        throw new Error(`The backup contains an unknown table: ${table}`);
+      }
+      if (!Array.isArray(rows) || rows.some(row => !row || typeof row !== 'object' || typeof row.id !== 'number')) {
+        throw new Error(`The backup table ${table} is malformed.`);
+      }
+      database[table] = rows;
+    }
+
+    return {
+      ...data,
+      database,
+      settings: {
+        store: data.settings?.store ?? null,
+        audio: data.settings?.audio ?? null,
+      },
+    };
+  }
+
+  summarize(backup: BackupFile): BackupSummary {
+    const tableCounts: { [table: string]: number } = {};
+    Object.entries(backup.database).forEach(([table, rows]) => {
+      tableCounts[table] = rows.length;
+    });
+    return {
+      createdAt: new Date(backup.createdAt),
+      rowCount: Object.values(tableCounts).reduce((sum, count) => sum + count, 0),
+      tableCounts,
+    };
+  }
+
+  // 復元後はストアの再読み込み（useAppStore.persist.rehydrate）を呼び出し側で行う
+  // 学習データの復元後は取り消せないため、その後の設定の保存・同期の準備が失敗した場合はpartialで知らせる
+  async restore(backup: BackupFile, mode: RestoreMode): Promise<RestoreResult> {
+    // 設定の統合は端末のデータを変える前に行う（失敗したら何も変更しない）
+    let storeState: any | null;
+    try {
+      storeState = await this.mergeStoreState(backup.settings.store, mode);
+    } catch (error) {
+      console.error('Error preparing settings for restore:', error);
+      throw new Error(`Failed to restore settings: ${error}`);
+    }
+
+    await databaseService.restoreBackupTables(backup.database, mode, backup.version < UNIFIED_WORDS_VERSION);
+
+    let partial = false;
+    try {
+      await syncService.requestFullUpload();
+      if (storeState) {
+        await AsyncStorage.setItem(STORE_STORAGE_KEY, JSON.stringify(storeState));
+      }
+
+      // 音声設定はreplaceのときだけ上書き（mergeでは端末の設定を優先）
+      if (backup.settings.audio && mode === 'replace') {
+        await audioService.saveSettings(backup.settings.audio);
+      }
+    } catch (error) {
+      console.error('Error restoring settings after the learning data was restored:', error);
+      partial = true;
+    }
+
+    console.log(`Backup from ${backup.createdAt} restored (${mode}${partial ? ', settings not restored' : ''})`);
+    return { partial };
+  }
+
+  // mergeでは端末の学習設定を残し、XPとレベルは大きい方を採用する
+  private async mergeStoreState(backupStore: any, mode: RestoreMode): Promise<any | null> {
+    if (!backupStore?.state) return null;
+    if (mode === 'replace') return backupStore;
+
+    const currentJson = await AsyncStorage.getItem(STORE_STORAGE_KEY);
+    const current = currentJson ? JSON.parse(currentJson) : null;
+    if (!current?.state) return backupStore;
+
+    const currentProgress = current.state.progress || {};
+    const backupProgress = backupStore.state.progress || {};
+    return {
+      ...current,
+      state: {
+        ...current.state,
+        progress: {
+          ...currentProgress,
+          xp: Math.max(currentProgress.xp ?? 0, backupProgress.xp ?? 0),
+          level: Math.max(currentProgress.level ?? 1, backupProgress.level ?? 1),
+        },
+      },
+    };
+  }
+}
+
+export const backupService = new BackupService();
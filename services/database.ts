@@ -1,16 +1,110 @@
 import * as SQLite from 'expo-sqlite';
-import { StudySession, UserProgress, Word } from '../types';
-import vocabularyData from './vocabulary.json';
+import { AnswerOutcome, Deck, DeckImportEntry, DeckWord, InstalledVocabularyPack, LearningRecord, LevelAccuracy, Profile, QuizAttempt, QuizAttemptFilter, RestoreMode, ReviewSchedule, StudySession, StudyWord, StudyWordList, SyncChange, SyncEntity, UserProgress, Word } from '../types';
+import { MIGRATIONS, Migration, assignSessionSyncKeys, moveRestoredBuiltInWordProgress } from './migrations';
+import { spacedRepetitionService } from './spacedRepetitionService';
 
 const DATABASE_NAME = 'vocabmaster.db';
 
+// バックアップ対象のテーブル（参照先のテーブルが先になる順）
+// 語彙データ（cefr_words / word_details）は語彙の取り込みで作り直せるため含めない
+// key: マージ時に同じレコードとみなす列 / refs: 他テーブルのidを参照する列 / newerBy: 両方にあるとき新しい方を残す判定列
+interface BackupTableSpec {
+  table: string;
+  key: string[];
+  refs?: { [column: string]: string };
+  newerBy?: string;
+}
+
+const BACKUP_TABLES: BackupTableSpec[] = [
+  { table: 'profiles', key: ['name'] },
+  { table: 'words', key: ['word'] },
+  { table: 'user_progress', key: ['profile_id', 'word_id'], refs: { profile_id: 'profiles', word_id: 'words' }, newerBy: 'last_attempt_date' },
+  { table: 'study_sessions', key: ['profile_id', 'date', 'created_at'], refs: { profile_id: 'profiles' } },
+  { table: 'user_cefr_levels', key: ['profile_id'], refs: { profile_id: 'profiles' }, newerBy: 'updated_at' },
+  { table: 'enriched_bookmarks', key: ['profile_id', 'word', 'cefr_level'], refs: { profile_id: 'profiles' } },
+  { table: 'enriched_progress', key: ['profile_id', 'word', 'cefr_level'], refs: { profile_id: 'profiles' }, newerBy: 'last_attempt_date' },
+  { table: 'quiz_attempts', key: ['profile_id', 'word', 'created_at', 'session_id'], refs: { profile_id: 'profiles', word_id: 'words' } },
+  { table: 'decks', key: ['profile_id', 'name'], refs: { profile_id: 'profiles' } },
+  { table: 'deck_words', key: ['deck_id', 'word', 'cefr_level', 'word_id'], refs: { deck_id: 'decks', word_id: 'words' } },
+  { table: 'archived_words', key: ['profile_id', 'word', 'cefr_level'], refs: { profile_id: 'profiles' } },
+];
+
+export type BackupTableData = { [table: string]: Record<string, any>[] };
+
+// プロフィールごとに分けるテーブル（profile_id列を持つ）
+const PROFILE_TABLES = [
+  'user_progress', 'study_sessions', 'user_cefr_levels', 'enriched_bookmarks',
+  'enriched_progress', 'quiz_attempts', 'decks', 'sync_outbox', 'archived_words',
+];
+
+// プロフィール機能の追加前のデータは最初のプロフィールに属する
+export const DEFAULT_PROFILE_ID = 1;
+
+// 語彙の取り込みで登録する単語（CEFR-J語彙プロファイルの1項目）
+export interface CefrWordEntry {
+  word: string;
+  pos: string | null;
+  cefrLevel: string;
+  coreInventory?: number; // コア語彙（トピック別の基本語彙）に含まれる場合は1
+}
+
+// enriched語彙から取り込む単語の詳細（synonyms / antonymsはカンマ区切り、relationsはJSON）
+export interface WordDetailsEntry extends CefrWordEntry {
+  definition?: string;
+  pronunciation?: string;
+  exampleSentence?: string;
+  synonyms?: string;
+  antonyms?: string;
+  relations?: string;
+  frequency?: number;
+}
+
+// 詳細を取り込んだ単語の検索条件（prefixは前方一致、wordsは完全一致。どちらも大文字小文字を区別しない）
+export interface CefrWordQuery {
+  cefrLevels?: string[];
+  partsOfSpeech?: string[];
+  words?: string[];
+  prefix?: string;
+  exclude?: string[];
+  random?: boolean;
+  limit?: number;
+}
+
+export interface CefrWordDetailsRow {
+  id: number;
+  word: string;
+  pos: string | null;
+  cefr_level: string;
+  definition: string | null;
+  pronunciation: string | null;
+  example_sentence: string | null;
+  synonyms: string | null;
+  antonyms: string | null;
+  relations: string | null;
+  frequency_score: number | null;
+}
+
+// 語彙パックの更新で学習履歴を付け替える単語
+// move: 別のレベルに移った単語 / archive: 削除された単語 / restore: アーカイブした単語が語彙パックに戻った
+export interface EnrichedWordChange {
+  kind: 'move' | 'archive' | 'restore';
+  word: string;
+  from: string;
+  to?: string; // move / restoreの移動先のレベル
+  packVersion?: string; // archiveで単語を削除した語彙パック（id@version）
+}
+
+// 一度に条件に並べる単語数（SQLiteの変数の上限より小さくする）
+const WORD_QUERY_CHUNK_SIZE = 500;
+
 class DatabaseService {
   private db: SQLite.SQLiteDatabase | null = null;
+  private activeProfileId = DEFAULT_PROFILE_ID;
 
   async init(): Promise<void> {
     try {
       this.db = await SQLite.openDatabaseAsync(DATABASE_NAME);
-      await this.createTables();
+      await this.runMigrations();
       await this.seedInitialData();
     } catch (error) {
       console.error('Database initialization error:', error);
@@ -23,219 +117,190 @@ class DatabaseService {
     return this.db !== null;
   }
 
-  private async createTables(): Promise<void> {
+  // schema_versionに記録されたバージョンより新しいマイグレーションを順番に実行（マイグレーションごとにトランザクション）
+  private async runMigrations(): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
 
-    // Words table
-    await this.db.execAsync(`
-      CREATE TABLE IF NOT EXISTS words (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        word TEXT UNIQUE NOT NULL,
-        definition TEXT NOT NULL,
-        pronunciation TEXT,
-        difficulty INTEGER DEFAULT 1,
-        category TEXT DEFAULT 'general',
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    const db = this.db;
+    await db.execAsync(`
+      CREATE TABLE IF NOT EXISTS schema_version (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
       );
     `);
 
-    // User progress table
-    await this.db.execAsync(`
-      CREATE TABLE IF NOT EXISTS user_progress (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        word_id INTEGER NOT NULL,
-        attempts INTEGER DEFAULT 0,
-        correct_attempts INTEGER DEFAULT 0,
-        last_attempt_date DATETIME,
-        mastery_level INTEGER DEFAULT 0,
-        is_bookmarked BOOLEAN DEFAULT 0,
-        FOREIGN KEY (word_id) REFERENCES words (id)
-      );
-    `);
+    const current = await this.getSchemaVersion();
+    const latest = MIGRATIONS[MIGRATIONS.length - 1].version;
+    if (current > latest) {
+      // 新しいバージョンのアプリで更新されたデータベース（ダウングレード）は変更しない
+      console.warn(`Database schema version ${current} is newer than this app supports (${latest})`);
+      return;
+    }
 
-    // Study sessions table
-    await this.db.execAsync(`
-      CREATE TABLE IF NOT EXISTS study_sessions (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        date DATE NOT NULL,
-        duration_minutes INTEGER NOT NULL,
-        words_studied INTEGER NOT NULL,
-        correct_answers INTEGER NOT NULL,
-        total_questions INTEGER NOT NULL,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      );
-    `);
+    for (const migration of MIGRATIONS.filter(m => m.version > current)) {
+      if (migration.destructive) {
+        await this.backupBeforeMigration(migration);
+      }
 
-    // CEFR Words table
-    await this.db.execAsync(`
-      CREATE TABLE IF NOT EXISTS cefr_words (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        word TEXT UNIQUE NOT NULL,
-        pos TEXT,
-        cefr_level TEXT NOT NULL,
-        core_inventory INTEGER DEFAULT 0,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      );
-    `);
+      try {
+        await db.withTransactionAsync(async () => {
+          await migration.up(db);
+          await db.runAsync('INSERT INTO schema_version (version, name) VALUES (?, ?)', [migration.version, migration.name]);
+        });
+      } catch (error) {
+        console.error(`Migration ${migration.version} (${migration.name}) failed:`, error);
+        throw new Error(`Failed to migrate database to version ${migration.version}: ${error}`);
+      }
+      console.log(`Applied migration ${migration.version} (${migration.name})`);
+    }
+  }
 
-    // Word Details table (for Words API data)
-    await this.db.execAsync(`
-      CREATE TABLE IF NOT EXISTS word_details (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        word_id INTEGER NOT NULL,
-        definition TEXT,
-        pronunciation TEXT,
-        example_sentence TEXT,
-        etymology TEXT,
-        synonyms TEXT,
-        antonyms TEXT,
-        difficulty_score REAL,
-        frequency_score REAL,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        FOREIGN KEY (word_id) REFERENCES cefr_words (id)
-      );
-    `);
+  async getSchemaVersion(): Promise<number> {
+    if (!this.db) throw new Error('Database not initialized');
 
-    // User CEFR Levels table
-    await this.db.execAsync(`
-      CREATE TABLE IF NOT EXISTS user_cefr_levels (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        user_id TEXT DEFAULT 'default',
-        current_level TEXT DEFAULT 'A1',
-        target_level TEXT DEFAULT 'B2',
-        last_assessment_date DATETIME,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      );
-    `);
+    const result = await this.db.getFirstAsync<{ version: number | null }>('SELECT MAX(version) as version FROM schema_version');
+    return result?.version ?? 0;
+  }
 
-    // Enriched vocabulary tables
-    await this.db.execAsync(`
-      CREATE TABLE IF NOT EXISTS enriched_bookmarks (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        word TEXT NOT NULL,
-        cefr_level TEXT NOT NULL,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      );
-    `);
+  // データを書き換えるマイグレーションの前にデータベースを別ファイルに複製する
+  // 失敗したマイグレーションはトランザクションで元に戻るが、後から不具合が見つかっても移行前のデータを取り出せるよう残しておく
+  private async backupBeforeMigration(migration: Migration): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
 
-    await this.db.execAsync(`
-      CREATE TABLE IF NOT EXISTS enriched_progress (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        word TEXT NOT NULL,
-        cefr_level TEXT NOT NULL,
-        attempts INTEGER DEFAULT 0,
-        correct_attempts INTEGER DEFAULT 0,
-        mastery_level INTEGER DEFAULT 0,
-        last_attempt_date DATETIME,
-        is_weak BOOLEAN DEFAULT 0,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      );
-    `);
+    const backupName = `${DATABASE_NAME.replace(/\.db$/, '')}-before-v${migration.version}.db`;
+    const backup = await SQLite.openDatabaseAsync(backupName);
+    try {
+      await SQLite.backupDatabaseAsync({ sourceDatabase: this.db, destDatabase: backup });
+      console.log(`Backed up database to ${backupName} before migration ${migration.version}`);
+    } finally {
+      await backup.closeAsync();
+    }
+  }
 
-    // Create indexes for better performance
-    await this.db.execAsync(`
-      CREATE INDEX IF NOT EXISTS idx_words_difficulty ON words(difficulty);
-      CREATE INDEX IF NOT EXISTS idx_words_category ON words(category);
-      CREATE INDEX IF NOT EXISTS idx_user_progress_word_id ON user_progress(word_id);
-      CREATE INDEX IF NOT EXISTS idx_study_sessions_date ON study_sessions(date);
-      CREATE INDEX IF NOT EXISTS idx_cefr_words_level ON cefr_words(cefr_level);
-      CREATE INDEX IF NOT EXISTS idx_cefr_words_word ON cefr_words(word);
-      CREATE INDEX IF NOT EXISTS idx_word_details_word_id ON word_details(word_id);
-      CREATE INDEX IF NOT EXISTS idx_enriched_bookmarks_word_level ON enriched_bookmarks(word, cefr_level);
-      CREATE INDEX IF NOT EXISTS idx_enriched_progress_word_level ON enriched_progress(word, cefr_level);
-    `);
+  // SQLiteのUTC日時文字列（YYYY-MM-DD HH:MM:SS）とDateの相互変換
+  private toSqlDateTime(date: Date): string {
+    return date.toISOString().replace('T', ' ').substring(0, 19);
+  }
+
+  private fromSqlDateTime(value: string | null | undefined): Date | null {
+    if (!value) return null;
+    const date = new Date(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  // 進捗レコードのスケジュール列をReviewScheduleに変換
+  private rowToSchedule(row: any): ReviewSchedule {
+    if (!row) return spacedRepetitionService.createInitialSchedule();
+    return {
+      easeFactor: row.ease_factor ?? spacedRepetitionService.DEFAULT_EASE_FACTOR,
+      intervalDays: row.interval_days ?? 0,
+      repetitions: row.repetitions ?? 0,
+      lapses: row.lapses ?? 0,
+      lastReviewDate: this.fromSqlDateTime(row.last_review_date),
+      nextReviewDate: this.fromSqlDateTime(row.next_review_date),
+    };
   }
 
   private async seedInitialData(): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
 
-    // Check if legacy words already exist
-    const existingWords = await this.db.getFirstAsync('SELECT COUNT(*) as count FROM words');
-    if (!existingWords || (existingWords as any).count === 0) {
-      // Initial word data for testing (reduced set)
-    const sampleWords = [
-      { word: 'beautiful', definition: 'having beauty; pleasing to the senses or mind', difficulty: 1, category: 'general' },
-      { word: 'difficult', definition: 'hard to do, deal with, or understand', difficulty: 1, category: 'general' },
-      { word: 'knowledge', definition: 'information and skills acquired through experience or education', difficulty: 2, category: 'academic' },
-      { word: 'remember', definition: 'have in or be able to bring to one\'s mind', difficulty: 1, category: 'general' },
-      { word: 'important', definition: 'of great significance or value', difficulty: 1, category: 'general' },
-      { word: 'understand', definition: 'perceive the intended meaning of words or actions', difficulty: 2, category: 'general' },
-      { word: 'different', definition: 'not the same as another or each other', difficulty: 1, category: 'general' },
-      { word: 'experience', definition: 'practical contact with and observation of facts or events', difficulty: 2, category: 'general' },
-      { word: 'environment', definition: 'the surroundings or conditions in which a person lives', difficulty: 3, category: 'academic' },
-      { word: 'technology', definition: 'the application of scientific knowledge for practical purposes', difficulty: 3, category: 'technology' },
-      // Additional beginner words
-      { word: 'house', definition: 'a building for human habitation', difficulty: 1, category: 'general' },
-      { word: 'water', definition: 'a colorless, transparent liquid', difficulty: 1, category: 'general' },
-      { word: 'friend', definition: 'a person whom one knows and with whom one has a bond', difficulty: 1, category: 'general' },
-      { word: 'family', definition: 'a group consisting of parents and children', difficulty: 1, category: 'general' },
-      { word: 'school', definition: 'an institution for educating children', difficulty: 1, category: 'general' },
-      // Intermediate words
-      { word: 'analyze', definition: 'examine methodically and in detail', difficulty: 2, category: 'academic' },
-      { word: 'create', definition: 'bring something into existence', difficulty: 2, category: 'general' },
-      { word: 'develop', definition: 'grow or cause to grow and become more mature', difficulty: 2, category: 'general' },
-      { word: 'evaluate', definition: 'form an idea of the amount or value of', difficulty: 2, category: 'academic' },
-      { word: 'process', definition: 'a series of actions or steps taken to achieve a result', difficulty: 2, category: 'general' },
-      // Advanced words
-      { word: 'sophisticated', definition: 'having great knowledge or experience', difficulty: 3, category: 'general' },
-      { word: 'fundamental', definition: 'forming a necessary base or core', difficulty: 3, category: 'academic' },
-      { word: 'comprehensive', definition: 'complete and including everything', difficulty: 3, category: 'academic' },
-      { word: 'significant', definition: 'sufficiently great or important to be worthy of attention', difficulty: 3, category: 'academic' },
-      { word: 'demonstrate', definition: 'clearly show the existence or truth of something', difficulty: 3, category: 'academic' }
-    ];
-
-    for (const word of sampleWords) {
+    // 最初のプロフィール（プロフィール機能の追加前のデータはこのプロフィールに属する）
+    const existingProfiles = await this.db.getFirstAsync('SELECT COUNT(*) as count FROM profiles');
+    if (!existingProfiles || (existingProfiles as any).count === 0) {
       await this.db.runAsync(
-        'INSERT INTO words (word, definition, difficulty, category) VALUES (?, ?, ?, ?)',
-        [word.word, word.definition, word.difficulty, word.category]
+        'INSERT INTO profiles (id, name, avatar) VALUES (?, ?, ?)',
+        [DEFAULT_PROFILE_ID, 'Learner', '🙂']
       );
-    }
-
-      console.log(`Seeded ${sampleWords.length} legacy words`);
-    }
-
-    // Check if CEFR words already exist
-    const existingCefrWords = await this.db.getFirstAsync('SELECT COUNT(*) as count FROM cefr_words');
-    if (!existingCefrWords || (existingCefrWords as any).count === 0) {
-      console.log('Seeding CEFR-J vocabulary data...');
-      
-      // Seed CEFR-J vocabulary data
-      let seededCount = 0;
-      const batchSize = 100;
-      
-      for (let i = 0; i < vocabularyData.vocabulary.length; i += batchSize) {
-        const batch = vocabularyData.vocabulary.slice(i, i + batchSize);
-        
-        await this.db.withTransactionAsync(async () => {
-          for (const item of batch) {
-            try {
-              await this.db!.runAsync(
-                'INSERT INTO cefr_words (word, pos, cefr_level, core_inventory) VALUES (?, ?, ?, ?)',
-                [item.word, item.pos, item.cefr, item.coreInventory1 || 0]
-              );
-              seededCount++;
-            } catch {
-              console.warn(`Skipping duplicate word: ${item.word}`);
-            }
-          }
-        });
-      }
-      
-      console.log(`Seeded ${seededCount} CEFR-J words`);
+      console.log('Seeded default profile');
     }
 
     // Check if user CEFR level settings exist
     const existingUserLevel = await this.db.getFirstAsync('SELECT COUNT(*) as count FROM user_cefr_levels');
     if (!existingUserLevel || (existingUserLevel as any).count === 0) {
       await this.db.runAsync(
-        'INSERT INTO user_cefr_levels (user_id, current_level, target_level) VALUES (?, ?, ?)',
-        ['default', 'A1', 'B2']
+        'INSERT INTO user_cefr_levels (user_id, profile_id, current_level, target_level) VALUES (?, ?, ?, ?)',
+        ['default', DEFAULT_PROFILE_ID, 'A1', 'B2']
       );
       console.log('Seeded default user CEFR level settings');
     }
   }
 
+  // Profile operations
+  // 以降のクエリはすべて現在のプロフィールのデータだけを対象にする
+  setActiveProfile(profileId: number): void {
+    this.activeProfileId = profileId;
+  }
+
+  getActiveProfileId(): number {
+    return this.activeProfileId;
+  }
+
+  async getProfiles(): Promise<Profile[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const result = await this.db.getAllAsync('SELECT id, name, avatar, created_at FROM profiles ORDER BY id ASC');
+    return result.map((row: any) => ({
+      id: row.id,
+      name: row.name,
+      avatar: row.avatar ?? undefined,
+      createdAt: this.fromSqlDateTime(row.created_at) ?? new Date(0),
+    }));
+  }
+
+  async createProfile(name: string, avatar?: string): Promise<number> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const trimmed = name.trim();
+    if (!trimmed) throw new Error('Profile name is required');
+
+    const db = this.db;
+    let profileId = 0;
+    await db.withTransactionAsync(async () => {
+      const result = await db.runAsync('INSERT INTO profiles (name, avatar) VALUES (?, ?)', [trimmed, avatar || null]);
+      profileId = result.lastInsertRowId;
+      await db.runAsync(
+        'INSERT INTO user_cefr_levels (user_id, profile_id, current_level, target_level) VALUES (?, ?, ?, ?)',
+        ['default', profileId, 'A1', 'B2']
+      );
+    });
+
+    return profileId;
+  }
+
+  async updateProfile(profileId: number, name: string, avatar?: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const trimmed = name.trim();
+    if (!trimmed) throw new Error('Profile name is required');
+
+    await this.db.runAsync('UPDATE profiles SET name = ?, avatar = ? WHERE id = ?', [trimmed, avatar || null, profileId]);
+  }
+
+  // プロフィールと学習データをすべて削除（最後の1つは削除できない）
+  async deleteProfile(profileId: number): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const db = this.db;
+    const count = await db.getFirstAsync<{ count: number }>('SELECT COUNT(*) as count FROM profiles');
+    if ((count?.count ?? 0) <= 1) throw new Error('The last profile cannot be deleted');
+
+    try {
+      await db.withTransactionAsync(async () => {
+        await db.runAsync('DELETE FROM deck_words WHERE deck_id IN (SELECT id FROM decks WHERE profile_id = ?)', [profileId]);
+        for (const table of PROFILE_TABLES) {
+          await db.runAsync(`DELETE FROM ${table} WHERE profile_id = ?`, [profileId]);
+        }
+        await db.runAsync('DELETE FROM profiles WHERE id = ?', [profileId]);
+      });
+    } catch (error) {
+      console.error('Error deleting profile:', error);
+      throw new Error(`Failed to delete profile: ${error}`);
+    }
+
+    console.log(`Deleted profile ${profileId}`);
+  }
+
   // Word operations
   async getAllWords(): Promise<Word[]> {
     if (!this.db) throw new Error('Database not initialized');
@@ -406,32 +471,66 @@ class DatabaseService {
     if (!this.db) throw new Error('Database not initialized');
     
     const result = await this.db.getFirstAsync(
-      'SELECT * FROM user_cefr_levels WHERE user_id = ?',
-      ['default']
+      'SELECT * FROM user_cefr_levels WHERE profile_id = ?',
+      [this.activeProfileId]
     );
     
     return result || { current_level: 'A1', target_level: 'B2' };
   }
 
-  async updateUserCefrLevel(currentLevel: string, targetLevel?: string): Promise<void> {
+  // confidenceを指定した場合はテストによる判定として評価日時と信頼度も記録する
+  async updateUserCefrLevel(currentLevel: string, targetLevel?: string, confidence?: number): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
     
     const existing = await this.getUserCefrLevel();
+    const isAssessment = confidence !== undefined;
     
     if (existing.id) {
-      await this.db.runAsync(`
-        UPDATE user_cefr_levels 
-        SET current_level = ?, target_level = ?, updated_at = CURRENT_TIMESTAMP
-        WHERE user_id = ?
-      `, [currentLevel, targetLevel || existing.target_level, 'default']);
+      if (isAssessment) {
+        await this.db.runAsync(`
+          UPDATE user_cefr_levels 
+          SET current_level = ?, target_level = ?, assessment_confidence = ?,
+              last_assessment_date = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+          WHERE profile_id = ?
+        `, [currentLevel, targetLevel || existing.target_level, confidence, this.activeProfileId]);
+      } else {
+        await this.db.runAsync(`
+          UPDATE user_cefr_levels 
+          SET current_level = ?, target_level = ?, updated_at = CURRENT_TIMESTAMP
+          WHERE profile_id = ?
+        `, [currentLevel, targetLevel || existing.target_level, this.activeProfileId]);
+      }
     } else {
       await this.db.runAsync(
-        'INSERT INTO user_cefr_levels (user_id, current_level, target_level) VALUES (?, ?, ?)',
-        ['default', currentLevel, targetLevel || 'B2']
+        `INSERT INTO user_cefr_levels (user_id, profile_id, current_level, target_level, assessment_confidence, last_assessment_date)
+         VALUES (?, ?, ?, ?, ?, ${isAssessment ? 'CURRENT_TIMESTAMP' : 'NULL'})`,
+        ['default', this.activeProfileId, currentLevel, targetLevel || 'B2', isAssessment ? confidence : null]
       );
     }
   }
 
+  // 判定日時だけを記録（レベル・判定の確信度は変えない）
+  async markLevelAssessed(): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    await this.db.runAsync(`
+      UPDATE user_cefr_levels
+      SET last_assessment_date = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+      WHERE profile_id = ?
+    `, [this.activeProfileId]);
+  }
+
+  // レベル変更の提案を見送った日時を記録（しばらく再提案しない）
+  async dismissLevelSuggestion(): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    await this.db.runAsync(`
+      UPDATE user_cefr_levels
+      SET suggestion_dismissed_date = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+      WHERE profile_id = ?
+    `, [this.activeProfileId]);
+  }
+
   // Word Details operations
   async addWordDetails(wordId: number, details: {
     definition?: string;
@@ -490,6 +589,391 @@ class DatabaseService {
     return result;
   }
 
+  // 語彙の取り込み
+  async getVocabularyImportVersion(source: string): Promise<string | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const result = await this.db.getFirstAsync<{ version: string }>(
+      'SELECT version FROM vocabulary_imports WHERE source = ?',
+      [source]
+    );
+    return result?.version ?? null;
+  }
+
+  async markVocabularyImported(source: string, version: string, itemCount: number): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    await this.db.runAsync(
+      'INSERT OR REPLACE INTO vocabulary_imports (source, version, item_count, imported_at) VALUES (?, ?, ?, CURRENT_TIMESTAMP)',
+      [source, version, itemCount]
+    );
+  }
+
+  // 取り込みが完了したsource（取り込み元がなくなったものの後片付け用）
+  async getVocabularyImportSources(): Promise<string[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const result = await this.db.getAllAsync<{ source: string }>('SELECT source FROM vocabulary_imports ORDER BY source');
+    return result.map(row => row.source);
+  }
+
+  async deleteVocabularyImport(source: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    await this.db.runAsync('DELETE FROM vocabulary_imports WHERE source = ?', [source]);
+  }
+
+  // 登録済みの単語（同じ単語・品詞・レベル）は変更しない
+  async insertCefrWords(entries: CefrWordEntry[]): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const db = this.db;
+    await db.withTransactionAsync(async () => {
+      for (const entry of entries) {
+        await db.runAsync(
+          'INSERT OR IGNORE INTO cefr_words (word, pos, cefr_level, core_inventory) VALUES (?, ?, ?, ?)',
+          [entry.word, entry.pos, entry.cefrLevel, entry.coreInventory ?? 0]
+        );
+      }
+    });
+  }
+
+  // 新しいバージョンを取り込み直す前に、レベルの単語の詳細を削除する
+  async deleteWordDetailsForLevel(cefrLevel: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    await this.db.runAsync(
+      'DELETE FROM word_details WHERE word_id IN (SELECT id FROM cefr_words WHERE cefr_level = ?)',
+      [cefrLevel]
+    );
+  }
+
+  // 語彙プロファイルにない単語も登録してから詳細を追加（同じ単語の重複した項目は最初のものを残す）
+  async insertWordDetails(entries: WordDetailsEntry[]): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const db = this.db;
+    await db.withTransactionAsync(async () => {
+      for (const entry of entries) {
+        await db.runAsync(
+          'INSERT OR IGNORE INTO cefr_words (word, pos, cefr_level, core_inventory) VALUES (?, ?, ?, ?)',
+          [entry.word, entry.pos, entry.cefrLevel, entry.coreInventory ?? 0]
+        );
+        await db.runAsync(`
+          INSERT INTO word_details
+            (word_id, definition, pronunciation, example_sentence, synonyms, antonyms, relations, frequency_score)
+          SELECT id, ?, ?, ?, ?, ?, ?, ?
+          FROM cefr_words WHERE word = ? AND pos IS ? AND cefr_level = ?
+          ON CONFLICT(word_id) DO NOTHING
+        `, [
+          entry.definition ?? null,
+          entry.pronunciation ?? null,
+          entry.exampleSentence ?? null,
+          entry.synonyms ?? null,
+          entry.antonyms ?? null,
+          entry.relations ?? null,
+          entry.frequency ?? null,
+          entry.word,
+          entry.pos,
+          entry.cefrLevel,
+        ]);
+      }
+    });
+  }
+
+  // 詳細を取り込んだ単語（enriched語彙）の検索（random以外はレベル・単語の順）
+  async queryCefrWordDetails(query: CefrWordQuery = {}): Promise<CefrWordDetailsRow[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+
+    if (query.cefrLevels && query.cefrLevels.length > 0) {
+      conditions.push(`cw.cefr_level IN (${query.cefrLevels.map(() => '?').join(', ')})`);
+      params.push(...query.cefrLevels);
+    }
+    if (query.partsOfSpeech && query.partsOfSpeech.length > 0) {
+      conditions.push(`cw.pos IN (${query.partsOfSpeech.map(() => '?').join(', ')})`);
+      params.push(...query.partsOfSpeech);
+    }
+    if (query.words && query.words.length > 0) {
+      conditions.push(`cw.word COLLATE NOCASE IN (${query.words.map(() => '?').join(', ')})`);
+      params.push(...query.words);
+    }
+    if (query.prefix) {
+      // cefr_words(word COLLATE NOCASE)のインデックスで前方一致を検索する
+      conditions.push("cw.word LIKE ? ESCAPE '\\'");
+      params.push(`${query.prefix.replace(/[\\%_]/g, char => `\\${char}`)}%`);
+    }
+    if (query.exclude && query.exclude.length > 0) {
+      conditions.push(`cw.word COLLATE NOCASE NOT IN (${query.exclude.map(() => '?').join(', ')})`);
+      params.push(...query.exclude);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const orderBy = query.random ? 'ORDER BY RANDOM()' : 'ORDER BY cw.cefr_level, cw.word COLLATE NOCASE, cw.id';
+    const limit = query.limit ? `LIMIT ${Math.max(1, Math.floor(query.limit))}` : '';
+
+    try {
+      return await this.db.getAllAsync<CefrWordDetailsRow>(`
+        SELECT cw.id, cw.word, cw.pos, cw.cefr_level, wd.definition, wd.pronunciation, wd.example_sentence,
+               wd.synonyms, wd.antonyms, wd.relations, wd.frequency_score
+        FROM cefr_words cw
+        INNER JOIN word_details wd ON wd.word_id = cw.id
+        ${where}
+        ${orderBy}
+        ${limit}
+      `, params);
+    } catch (error) {
+      console.error('Error querying CEFR words:', error);
+      return [];
+    }
+  }
+
+  // 詳細を取り込んだ単語の品詞ごとの単語数（多い順）
+  async getCefrPartOfSpeechCounts(cefrLevels: string[]): Promise<{ pos: string; count: number }[]> {
+    if (!this.db) throw new Error('Database not initialized');
+    if (cefrLevels.length === 0) return [];
+
+    return this.db.getAllAsync<{ pos: string; count: number }>(`
+      SELECT cw.pos, COUNT(*) as count
+      FROM cefr_words cw
+      INNER JOIN word_details wd ON wd.word_id = cw.id
+      WHERE cw.pos IS NOT NULL AND cw.pos != '' AND cw.cefr_level IN (${cefrLevels.map(() => '?').join(', ')})
+      GROUP BY cw.pos
+      ORDER BY count DESC
+    `, cefrLevels);
+  }
+
+  // 語彙パック
+  async getVocabularyPacks(): Promise<InstalledVocabularyPack[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const result = await this.db.getAllAsync('SELECT * FROM vocabulary_packs ORDER BY cefr_level');
+    return result.map((row: any) => ({
+      id: row.id,
+      language: row.language,
+      cefrLevel: row.cefr_level,
+      version: row.version,
+      wordCount: row.word_count,
+      checksum: row.checksum,
+      source: row.source ?? '',
+      bundled: !!row.bundled,
+      installedAt: this.fromSqlDateTime(row.installed_at) ?? new Date(0),
+    }));
+  }
+
+  // 同じレベルのパックは置き換える
+  async saveVocabularyPack(pack: Omit<InstalledVocabularyPack, 'installedAt'>): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const db = this.db;
+    await db.withTransactionAsync(async () => {
+      await db.runAsync('DELETE FROM vocabulary_packs WHERE cefr_level = ? OR id = ?', [pack.cefrLevel, pack.id]);
+      await db.runAsync(`
+        INSERT INTO vocabulary_packs (id, language, cefr_level, version, word_count, checksum, source, bundled)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `, [pack.id, pack.language, pack.cefrLevel, pack.version, pack.wordCount, pack.checksum, pack.source, pack.bundled ? 1 : 0]);
+    });
+  }
+
+  async deleteVocabularyPack(packId: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    await this.db.runAsync('DELETE FROM vocabulary_packs WHERE id = ?', [packId]);
+  }
+
+  // 詳細を取り込んだレベルの単語（語彙パックの新しいバージョンを取り込む前の単語との比較用）
+  async getEnrichedWordsForLevel(cefrLevel: string): Promise<string[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const result = await this.db.getAllAsync<{ word: string }>(`
+      SELECT DISTINCT cw.word FROM cefr_words cw
+      INNER JOIN word_details wd ON wd.word_id = cw.id
+      WHERE cw.cefr_level = ?
+    `, [cefrLevel]);
+    return result.map(row => row.word);
+  }
+
+  // 単語ごとの詳細を取り込んだレベル（インストール済みの語彙パックのどのレベルにあるか）
+  async getEnrichedWordLevels(words: string[]): Promise<Map<string, string[]>> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const levels = new Map<string, string[]>();
+    for (let i = 0; i < words.length; i += WORD_QUERY_CHUNK_SIZE) {
+      const chunk = words.slice(i, i + WORD_QUERY_CHUNK_SIZE);
+      const result = await this.db.getAllAsync<{ word: string; cefr_level: string }>(`
+        SELECT DISTINCT cw.word, cw.cefr_level FROM cefr_words cw
+        INNER JOIN word_details wd ON wd.word_id = cw.id
+        WHERE cw.word IN (${chunk.map(() => '?').join(', ')})
+        ORDER BY cw.cefr_level
+      `, chunk);
+      for (const row of result) {
+        levels.set(row.word, [...(levels.get(row.word) ?? []), row.cefr_level]);
+      }
+    }
+    return levels;
+  }
+
+  // アーカイブした単語（全プロフィール）
+  async getArchivedWordRefs(): Promise<{ word: string; cefrLevel: string }[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const result = await this.db.getAllAsync<{ word: string; cefr_level: string }>(
+      'SELECT DISTINCT word, cefr_level FROM archived_words ORDER BY cefr_level, word'
+    );
+    return result.map(row => ({ word: row.word, cefrLevel: row.cefr_level }));
+  }
+
+  // 全プロフィールの学習履歴を付け替え、学習履歴があった単語の変更を返す
+  async reconcileEnrichedWords(changes: EnrichedWordChange[]): Promise<EnrichedWordChange[]> {
+    if (!this.db) throw new Error('Database not initialized');
+    if (changes.length === 0) return [];
+
+    const db = this.db;
+    const affected: EnrichedWordChange[] = [];
+    try {
+      await db.withTransactionAsync(async () => {
+        const progressColumns = (await db.getAllAsync<{ name: string }>('PRAGMA table_info(enriched_progress)')).map(c => c.name);
+        for (const change of changes) {
+          let hasHistory = false;
+          if (change.kind === 'move' && change.to) {
+            hasHistory = await this.moveEnrichedWordHistory(db, change.word, change.from, change.to);
+          } else if (change.kind === 'archive') {
+            hasHistory = await this.archiveEnrichedWordHistory(db, change.word, change.from, change.packVersion ?? null);
+          } else if (change.kind === 'restore' && change.to) {
+            hasHistory = await this.restoreEnrichedWordHistory(db, change.word, change.from, change.to, progressColumns);
+          }
+          if (hasHistory) affected.push(change);
+        }
+      });
+    } catch (error) {
+      console.error('Error reconciling enriched word history:', error);
+      throw new Error(`Failed to reconcile word history: ${error}`);
+    }
+
+    console.log(`Reconciled ${changes.length} changed words (${affected.length} with learning history)`);
+    return affected;
+  }
+
+  // 両方のレベルに進捗がある場合は回答数の多い方を残す（書き取りの記録は両方を合算する）
+  private async moveEnrichedWordHistory(db: SQLite.SQLiteDatabase, word: string, from: string, to: string): Promise<boolean> {
+    await db.runAsync(`
+      UPDATE enriched_progress
+      SET spelling_attempts = COALESCE(enriched_progress.spelling_attempts, 0) + COALESCE(f.spelling_attempts, 0),
+          spelling_correct_attempts = COALESCE(enriched_progress.spelling_correct_attempts, 0) + COALESCE(f.spelling_correct_attempts, 0),
+          spelling_near_miss_attempts = COALESCE(enriched_progress.spelling_near_miss_attempts, 0) + COALESCE(f.spelling_near_miss_attempts, 0),
+          last_spelling_date = NULLIF(MAX(COALESCE(enriched_progress.last_spelling_date, ''), COALESCE(f.last_spelling_date, '')), '')
+      FROM enriched_progress f
+      WHERE enriched_progress.word = ? AND enriched_progress.cefr_level = ?
+        AND f.profile_id = enriched_progress.profile_id AND f.word = enriched_progress.word AND f.cefr_level = ?
+    `, [word, to, from]);
+    await db.runAsync(`
+      UPDATE enriched_progress
+      SET spelling_attempts = t.spelling_attempts, spelling_correct_attempts = t.spelling_correct_attempts,
+          spelling_near_miss_attempts = t.spelling_near_miss_attempts, last_spelling_date = t.last_spelling_date
+      FROM enriched_progress t
+      WHERE enriched_progress.word = ? AND enriched_progress.cefr_level = ?
+        AND t.profile_id = enriched_progress.profile_id AND t.word = enriched_progress.word AND t.cefr_level = ?
+    `, [word, from, to]);
+    await db.runAsync(`
+      DELETE FROM enriched_progress
+      WHERE word = ? AND cefr_level = ? AND EXISTS (
+        SELECT 1 FROM enriched_progress f
+        WHERE f.profile_id = enriched_progress.profile_id AND f.word = enriched_progress.word
+          AND f.cefr_level = ? AND f.attempts > enriched_progress.attempts
+      )
+    `, [word, to, from]);
+    for (const table of ['enriched_progress', 'enriched_bookmarks']) {
+      await db.runAsync(`
+        DELETE FROM ${table}
+        WHERE word = ? AND cefr_level = ? AND EXISTS (
+          SELECT 1 FROM ${table} t
+          WHERE t.profile_id = ${table}.profile_id AND t.word = ${table}.word AND t.cefr_level = ?
+        )
+      `, [word, from, to]);
+    }
+
+    const progress = await db.runAsync('UPDATE enriched_progress SET cefr_level = ? WHERE word = ? AND cefr_level = ?', [to, word, from]);
+    const bookmarks = await db.runAsync('UPDATE enriched_bookmarks SET cefr_level = ? WHERE word = ? AND cefr_level = ?', [to, word, from]);
+    const deckWords = await db.runAsync(
+      'UPDATE OR IGNORE deck_words SET cefr_level = ? WHERE word = ? AND cefr_level = ? AND word_id IS NULL', [to, word, from]
+    );
+    await db.runAsync('DELETE FROM deck_words WHERE word = ? AND cefr_level = ? AND word_id IS NULL', [word, from]);
+    await db.runAsync('UPDATE quiz_attempts SET cefr_level = ? WHERE word = ? AND cefr_level = ? AND word_id IS NULL', [to, word, from]);
+
+    return progress.changes + bookmarks.changes + deckWords.changes > 0;
+  }
+
+  // 進捗とブックマークをarchived_wordsに移す（回答履歴とデッキの単語は残す）
+  private async archiveEnrichedWordHistory(
+    db: SQLite.SQLiteDatabase, word: string, cefrLevel: string, packVersion: string | null
+  ): Promise<boolean> {
+    const progressRows = await db.getAllAsync<Record<string, any>>(
+      'SELECT * FROM enriched_progress WHERE word = ? AND cefr_level = ?', [word, cefrLevel]
+    );
+    const bookmarkRows = await db.getAllAsync<{ profile_id: number; created_at: string | null }>(
+      'SELECT profile_id, created_at FROM enriched_bookmarks WHERE word = ? AND cefr_level = ?', [word, cefrLevel]
+    );
+    const profileIds = new Set([...progressRows, ...bookmarkRows].map(row => row.profile_id));
+
+    for (const profileId of profileIds) {
+      const progress = progressRows.find(row => row.profile_id === profileId);
+      const bookmark = bookmarkRows.find(row => row.profile_id === profileId);
+      await db.runAsync(`
+        INSERT OR REPLACE INTO archived_words (profile_id, word, cefr_level, progress, bookmarked_at, pack_version)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `, [
+        profileId, word, cefrLevel,
+        progress ? JSON.stringify(progress) : null,
+        bookmark ? bookmark.created_at ?? this.toSqlDateTime(new Date()) : null,
+        packVersion,
+      ]);
+    }
+
+    await db.runAsync('DELETE FROM enriched_progress WHERE word = ? AND cefr_level = ?', [word, cefrLevel]);
+    await db.runAsync('DELETE FROM enriched_bookmarks WHERE word = ? AND cefr_level = ?', [word, cefrLevel]);
+    return profileIds.size > 0;
+  }
+
+  // アーカイブした進捗は移動先に進捗がないプロフィールだけ戻す
+  private async restoreEnrichedWordHistory(
+    db: SQLite.SQLiteDatabase, word: string, from: string, to: string, progressColumns: string[]
+  ): Promise<boolean> {
+    const archived = await db.getAllAsync<{ profile_id: number; progress: string | null; bookmarked_at: string | null }>(
+      'SELECT profile_id, progress, bookmarked_at FROM archived_words WHERE word = ? AND cefr_level = ?', [word, from]
+    );
+
+    for (const row of archived) {
+      if (row.progress) {
+        const progress: Record<string, any> = { ...JSON.parse(row.progress), profile_id: row.profile_id, word, cefr_level: to };
+        const columns = Object.keys(progress).filter(column => progressColumns.includes(column) && column !== 'id');
+        await db.runAsync(`
+          INSERT INTO enriched_progress (${columns.join(', ')})
+          SELECT ${columns.map(() => '?').join(', ')}
+          WHERE NOT EXISTS (SELECT 1 FROM enriched_progress WHERE profile_id = ? AND word = ? AND cefr_level = ?)
+        `, [...columns.map(column => progress[column]), row.profile_id, word, to]);
+      }
+      if (row.bookmarked_at) {
+        await db.runAsync(`
+          INSERT INTO enriched_bookmarks (profile_id, word, cefr_level, created_at)
+          SELECT ?, ?, ?, ?
+          WHERE NOT EXISTS (SELECT 1 FROM enriched_bookmarks WHERE profile_id = ? AND word = ? AND cefr_level = ?)
+        `, [row.profile_id, word, to, row.bookmarked_at, row.profile_id, word, to]);
+      }
+    }
+
+    if (from !== to) {
+      await db.runAsync('UPDATE quiz_attempts SET cefr_level = ? WHERE word = ? AND cefr_level = ? AND word_id IS NULL', [to, word, from]);
+      await db.runAsync(
+        'UPDATE OR IGNORE deck_words SET cefr_level = ? WHERE word = ? AND cefr_level = ? AND word_id IS NULL', [to, word, from]
+      );
+      await db.runAsync('DELETE FROM deck_words WHERE word = ? AND cefr_level = ? AND word_id IS NULL', [word, from]);
+    }
+    await db.runAsync('DELETE FROM archived_words WHERE word = ? AND cefr_level = ?', [word, from]);
+    return archived.length > 0;
+  }
+
   // User progress operations
   async getUserProgress(wordId: number): Promise<UserProgress | null> {
     if (!this.db) throw new Error('Database not initialized');
@@ -497,17 +981,25 @@ class DatabaseService {
     const result = await this.db.getFirstAsync(`
       SELECT id, word_id as wordId, attempts, correct_attempts as correctAttempts,
              last_attempt_date as lastAttemptDate, mastery_level as masteryLevel,
-             is_bookmarked as isBookmarked
-      FROM user_progress WHERE word_id = ?
-    `, [wordId]);
+             is_bookmarked as isBookmarked, ease_factor, interval_days, repetitions, lapses,
+             last_review_date, next_review_date
+      FROM user_progress WHERE word_id = ? AND profile_id = ?
+    `, [wordId, this.activeProfileId]) as any;
     
-    return result as UserProgress | null;
+    if (!result) return null;
+
+    const { ease_factor, interval_days, repetitions, lapses, last_review_date, next_review_date, ...progress } = result;
+    return { ...progress, ...this.rowToSchedule(result) } as UserProgress;
   }
 
   async updateUserProgress(wordId: number, isCorrect: boolean): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
     
     const existing = await this.getUserProgress(wordId);
+    const schedule = spacedRepetitionService.scheduleReview(
+      existing ?? spacedRepetitionService.createInitialSchedule(),
+      spacedRepetitionService.qualityFromAnswer(isCorrect)
+    );
     
     if (existing) {
       const newCorrectAttempts = existing.correctAttempts + (isCorrect ? 1 : 0);
@@ -516,16 +1008,55 @@ class DatabaseService {
       
       await this.db.runAsync(`
         UPDATE user_progress 
-        SET attempts = ?, correct_attempts = ?, last_attempt_date = CURRENT_TIMESTAMP, mastery_level = ?
-        WHERE word_id = ?
-      `, [newAttempts, newCorrectAttempts, newMasteryLevel, wordId]);
+        SET attempts = ?, correct_attempts = ?, last_attempt_date = CURRENT_TIMESTAMP, mastery_level = ?,
+            ease_factor = ?, interval_days = ?, repetitions = ?, lapses = ?, last_review_date = ?, next_review_date = ?
+        WHERE word_id = ? AND profile_id = ?
+      `, [newAttempts, newCorrectAttempts, newMasteryLevel, ...this.scheduleParams(schedule), wordId, this.activeProfileId]);
     } else {
       const masteryLevel = isCorrect ? 100 : 0;
       await this.db.runAsync(`
-        INSERT INTO user_progress (word_id, attempts, correct_attempts, last_attempt_date, mastery_level)
-        VALUES (?, 1, ?, CURRENT_TIMESTAMP, ?)
-      `, [wordId, isCorrect ? 1 : 0, masteryLevel]);
+        INSERT INTO user_progress (profile_id, word_id, attempts, correct_attempts, last_attempt_date, mastery_level,
+          ease_factor, interval_days, repetitions, lapses, last_review_date, next_review_date)
+        VALUES (?, ?, 1, ?, CURRENT_TIMESTAMP, ?, ?, ?, ?, ?, ?, ?)
+      `, [this.activeProfileId, wordId, isCorrect ? 1 : 0, masteryLevel, ...this.scheduleParams(schedule)]);
     }
+
+    await this.recordUserProgressChange(wordId);
+  }
+
+  // スケジュールをUPDATE/INSERT用のパラメータ配列に変換
+  private scheduleParams(schedule: ReviewSchedule): (string | number | null)[] {
+    return [
+      schedule.easeFactor,
+      schedule.intervalDays,
+      schedule.repetitions,
+      schedule.lapses,
+      schedule.lastReviewDate ? this.toSqlDateTime(schedule.lastReviewDate) : null,
+      schedule.nextReviewDate ? this.toSqlDateTime(schedule.nextReviewDate) : null,
+    ];
+  }
+
+  async getLearningRecord(wordId: number): Promise<LearningRecord | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const progress = await this.getUserProgress(wordId);
+    if (!progress) return null;
+
+    const attempts = await this.getQuizAttempts({ wordId });
+
+    return {
+      wordId: String(wordId),
+      attempts: attempts.map(a => ({ timestamp: a.timestamp, isCorrect: a.isCorrect, responseTime: a.responseTimeMs })),
+      masteryLevel: progress.masteryLevel,
+      isBookmarked: !!progress.isBookmarked,
+      isWeak: progress.masteryLevel < 50 && progress.attempts >= 3,
+      easeFactor: progress.easeFactor,
+      intervalDays: progress.intervalDays,
+      repetitions: progress.repetitions,
+      lapses: progress.lapses,
+      lastReviewDate: progress.lastReviewDate,
+      nextReviewDate: progress.nextReviewDate,
+    };
   }
 
   async toggleBookmark(wordId: number): Promise<void> {
@@ -535,15 +1066,17 @@ class DatabaseService {
     
     if (existing) {
       await this.db.runAsync(
-        'UPDATE user_progress SET is_bookmarked = ? WHERE word_id = ?',
-        [!existing.isBookmarked, wordId]
+        'UPDATE user_progress SET is_bookmarked = ? WHERE word_id = ? AND profile_id = ?',
+        [!existing.isBookmarked, wordId, this.activeProfileId]
       );
     } else {
       await this.db.runAsync(
-        'INSERT INTO user_progress (word_id, is_bookmarked) VALUES (?, 1)',
-        [wordId]
+        'INSERT INTO user_progress (profile_id, word_id, is_bookmarked) VALUES (?, ?, 1)',
+        [this.activeProfileId, wordId]
       );
     }
+
+    await this.recordLegacyBookmarkChange(wordId);
   }
 
   async getBookmarkedWords(): Promise<Word[]> {
@@ -553,9 +1086,9 @@ class DatabaseService {
       SELECT w.id, w.word, w.definition, w.pronunciation, w.difficulty, w.category, w.created_at as createdAt
       FROM words w
       INNER JOIN user_progress up ON w.id = up.word_id
-      WHERE up.is_bookmarked = 1
+      WHERE up.is_bookmarked = 1 AND up.profile_id = ?
       ORDER BY w.word ASC
-    `);
+    `, [this.activeProfileId]);
     
     return result as Word[];
   }
@@ -567,48 +1100,140 @@ class DatabaseService {
       SELECT w.id, w.word, w.definition, w.pronunciation, w.difficulty, w.category, w.created_at as createdAt
       FROM words w
       INNER JOIN user_progress up ON w.id = up.word_id
-      WHERE up.mastery_level < 50 AND up.attempts >= 3
+      WHERE up.mastery_level < 50 AND up.attempts >= 3 AND up.profile_id = ?
       ORDER BY up.mastery_level ASC
-    `);
+    `, [this.activeProfileId]);
     
     return result as Word[];
   }
 
-  // Enriched vocabulary用のブックマーク・進捗管理メソッド
-  async toggleEnrichedWordBookmark(word: string, cefrLevel: string): Promise<void> {
+  // ブックマーク・苦手・復習期限の単語（enriched単語とカスタム単語を1つの一覧にまとめる）
+  // 苦手の判定: enriched単語はis_weak、カスタム単語は3回以上回答して正答率50%未満
+  async getStudyWords(list: StudyWordList, limit?: number): Promise<StudyWord[]> {
     if (!this.db) throw new Error('Database not initialized');
-    
+
+    const customColumns = `w.id as word_id, w.word, NULL as cefr_level, w.definition, w.pronunciation,
+      up.attempts, up.correct_attempts, up.mastery_level, up.next_review_date`;
+    const enrichedColumns = `NULL as word_id, p.word, p.cefr_level, NULL as definition, NULL as pronunciation,
+      p.attempts, p.correct_attempts, p.mastery_level, p.next_review_date`;
+    let query: string;
+
+    switch (list) {
+      case 'bookmarked':
+        // enriched単語はブックマークした新しい順、カスタム単語はその後にアルファベット順
+        query = `
+          SELECT NULL as word_id, b.word, b.cefr_level, NULL as definition, NULL as pronunciation,
+                 p.attempts, p.correct_attempts, p.mastery_level, p.next_review_date, b.created_at as sort_key
+          FROM enriched_bookmarks b
+          LEFT JOIN enriched_progress p ON p.profile_id = b.profile_id AND p.word = b.word AND p.cefr_level = b.cefr_level
+          WHERE b.profile_id = ?
+          UNION ALL
+          SELECT ${customColumns}, NULL as sort_key
+          FROM words w INNER JOIN user_progress up ON w.id = up.word_id
+          WHERE up.is_bookmarked = 1 AND up.profile_id = ?
+          ORDER BY sort_key DESC, word COLLATE NOCASE ASC
+        `;
+        break;
+      case 'weak':
+        query = `
+          SELECT ${enrichedColumns}, p.last_attempt_date as sort_key
+          FROM enriched_progress p
+          WHERE p.is_weak = 1 AND p.profile_id = ?
+          UNION ALL
+          SELECT ${customColumns}, up.last_attempt_date as sort_key
+          FROM words w INNER JOIN user_progress up ON w.id = up.word_id
+          WHERE up.mastery_level < 50 AND up.attempts >= 3 AND up.profile_id = ?
+          ORDER BY mastery_level ASC, sort_key DESC
+        `;
+        break;
+      case 'due':
+        query = `
+          SELECT ${enrichedColumns}
+          FROM enriched_progress p
+          WHERE p.next_review_date IS NOT NULL AND p.next_review_date <= datetime('now') AND p.profile_id = ?
+          UNION ALL
+          SELECT ${customColumns}
+          FROM words w INNER JOIN user_progress up ON w.id = up.word_id
+          WHERE up.next_review_date IS NOT NULL AND up.next_review_date <= datetime('now') AND up.profile_id = ?
+          ORDER BY next_review_date ASC
+        `;
+        break;
+    }
+
     try {
-      console.log(`Toggling bookmark for enriched word: ${word} (${cefrLevel})`);
-      
-      // まず既存のブックマークを確認
-      const existing = await this.db.getFirstAsync(`
-        SELECT id FROM enriched_bookmarks 
-        WHERE LOWER(word) = LOWER(?) AND UPPER(cefr_level) = UPPER(?)
-      `, [word, cefrLevel]);
+      const rows = await this.db.getAllAsync<any>(`${query} LIMIT ?`, [this.activeProfileId, this.activeProfileId, limit ?? -1]);
+      return rows.map(row => this.rowToStudyWord(row));
+    } catch (error) {
+      console.error(`Error getting ${list} words:`, error);
+      throw new Error(`Failed to get ${list} words: ${error}`);
+    }
+  }
 
-      if (existing) {
+  private rowToStudyWord(row: any): StudyWord {
+    return {
+      ref: row.word_id !== null
+        ? { kind: 'custom', wordId: row.word_id, word: row.word }
+        : { kind: 'enriched', word: row.word, cefrLevel: row.cefr_level },
+      word: row.word,
+      cefrLevel: row.cefr_level ?? undefined,
+      definition: row.definition ?? undefined,
+      pronunciation: row.pronunciation ?? undefined,
+      attempts: row.attempts ?? 0,
+      correctAttempts: row.correct_attempts ?? 0,
+      masteryLevel: row.mastery_level ?? 0,
+      nextReviewDate: this.fromSqlDateTime(row.next_review_date),
+    };
+  }
+
+  // カスタム単語のブックマークを外す（ブックマークされていなければ何もしない）
+  async removeBookmark(wordId: number): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const result = await this.db.runAsync(
+      'UPDATE user_progress SET is_bookmarked = 0 WHERE word_id = ? AND profile_id = ? AND is_bookmarked = 1',
+      [wordId, this.activeProfileId]
+    );
+    if (result.changes > 0) {
+      await this.recordLegacyBookmarkChange(wordId);
+    }
+  }
+
+  // Enriched vocabulary用のブックマーク・進捗管理メソッド
+  async toggleEnrichedWordBookmark(word: string, cefrLevel: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    try {
+      console.log(`Toggling bookmark for enriched word: ${word} (${cefrLevel})`);
+      
+      // まず既存のブックマークを確認
+      const existing = await this.db.getFirstAsync(`
+        SELECT id FROM enriched_bookmarks 
+        WHERE LOWER(word) = LOWER(?) AND UPPER(cefr_level) = UPPER(?) AND profile_id = ?
+      `, [word, cefrLevel, this.activeProfileId]);
+
+      if (existing) {
         // 既にブックマークされていれば削除
         await this.db.runAsync(`
           DELETE FROM enriched_bookmarks 
-          WHERE LOWER(word) = LOWER(?) AND UPPER(cefr_level) = UPPER(?)
-        `, [word, cefrLevel]);
+          WHERE LOWER(word) = LOWER(?) AND UPPER(cefr_level) = UPPER(?) AND profile_id = ?
+        `, [word, cefrLevel, this.activeProfileId]);
         console.log(`Removed bookmark for word (toggle): ${word} (${cefrLevel})`);
       } else {
         // ブックマークされていなければ追加
         await this.db.runAsync(`
-          INSERT INTO enriched_bookmarks (word, cefr_level, created_at)
-          VALUES (?, ?, datetime('now'))
-        `, [word, cefrLevel]);
+          INSERT INTO enriched_bookmarks (profile_id, word, cefr_level, created_at)
+          VALUES (?, ?, ?, datetime('now'))
+        `, [this.activeProfileId, word, cefrLevel]);
         console.log(`Added bookmark for word (toggle): ${word} (${cefrLevel})`);
       }
       
       // 確認のためブックマーク数を取得
       const count = await this.db.getFirstAsync(`
-        SELECT COUNT(*) as count FROM enriched_bookmarks
-      `) as any;
+        SELECT COUNT(*) as count FROM enriched_bookmarks WHERE profile_id = ?
+      `, [this.activeProfileId]) as any;
       console.log(`Total enriched bookmarks: ${count?.count || 0}`);
-      
+
+      await this.recordEnrichedBookmarkChange(word, cefrLevel);
     } catch (error) {
       console.error('Error toggling enriched word bookmark:', error);
       throw error;
@@ -621,8 +1246,8 @@ class DatabaseService {
     try {
       const result = await this.db.getFirstAsync(`
         SELECT id FROM enriched_bookmarks 
-        WHERE word = ? AND cefr_level = ?
-      `, [word, cefrLevel]);
+        WHERE word = ? AND cefr_level = ? AND profile_id = ?
+      `, [word, cefrLevel, this.activeProfileId]);
       
       return !!result;
     } catch (error) {
@@ -638,8 +1263,9 @@ class DatabaseService {
       const result = await this.db.getAllAsync(`
         SELECT word, cefr_level, created_at
         FROM enriched_bookmarks 
+        WHERE profile_id = ?
         ORDER BY datetime(created_at) DESC, word COLLATE NOCASE ASC
-      `);
+      `, [this.activeProfileId]);
       
       return result as {word: string; cefr_level: string; created_at: string}[];
     } catch (error) {
@@ -648,51 +1274,181 @@ class DatabaseService {
     }
   }
 
-  async updateEnrichedWordProgress(word: string, cefrLevel: string, isCorrect: boolean): Promise<void> {
+  // 学習履歴のあるenriched単語の習熟度と苦手フラグ（カスタムクイズの絞り込み用）
+  async getEnrichedProgressEntries(): Promise<{word: string; cefr_level: string; mastery_level: number; is_weak: boolean}[]> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    try {
+      const result = await this.db.getAllAsync(`
+        SELECT word, cefr_level, mastery_level, is_weak
+        FROM enriched_progress
+        WHERE attempts > 0 AND profile_id = ?
+      `, [this.activeProfileId]);
+      
+      return result.map((row: any) => ({
+        word: row.word,
+        cefr_level: row.cefr_level,
+        mastery_level: row.mastery_level || 0,
+        is_weak: row.is_weak === 1
+      }));
+    } catch (error) {
+      console.error('Error getting enriched progress entries:', error);
+      return [];
+    }
+  }
+
+  // result: 正誤（4択）または判定結果（タイピング解答。near-missは半分正解として扱う）
+  async updateEnrichedWordProgress(word: string, cefrLevel: string, result: boolean | AnswerOutcome): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
     
+    const outcome: AnswerOutcome = typeof result === 'boolean' ? (result ? 'correct' : 'incorrect') : result;
+    const isCorrect = outcome === 'correct';
+    const isNearMiss = outcome === 'near-miss';
+    
     try {
-      console.log(`Updating progress for enriched word: ${word} (${cefrLevel}) - ${isCorrect ? 'correct' : 'incorrect'}`);
+      console.log(`Updating progress for enriched word: ${word} (${cefrLevel}) - ${outcome}`);
       
       // 既存の進捗レコードを確認
       const existing = await this.db.getFirstAsync(`
         SELECT * FROM enriched_progress 
-        WHERE word = ? AND cefr_level = ?
-      `, [word, cefrLevel]) as any;
+        WHERE word = ? AND cefr_level = ? AND profile_id = ?
+      `, [word, cefrLevel, this.activeProfileId]) as any;
+
+      // 間隔反復スケジュールを更新
+      const schedule = spacedRepetitionService.scheduleReview(
+        this.rowToSchedule(existing),
+        spacedRepetitionService.qualityFromOutcome(outcome)
+      );
 
       if (existing) {
         // 既存レコードを更新
         const newAttempts = existing.attempts + 1;
         const newCorrectAttempts = existing.correct_attempts + (isCorrect ? 1 : 0);
-        const newMasteryLevel = Math.min(100, Math.round((newCorrectAttempts / newAttempts) * 100));
+        const newNearMissAttempts = (existing.near_miss_attempts || 0) + (isNearMiss ? 1 : 0);
+        const newMasteryLevel = Math.min(100, Math.round(((newCorrectAttempts + newNearMissAttempts * 0.5) / newAttempts) * 100));
         
         await this.db.runAsync(`
           UPDATE enriched_progress 
-          SET attempts = ?, correct_attempts = ?, mastery_level = ?, 
-              last_attempt_date = datetime('now'), is_weak = ?
-          WHERE word = ? AND cefr_level = ?
-        `, [newAttempts, newCorrectAttempts, newMasteryLevel, newMasteryLevel <= 30, word, cefrLevel]);
+          SET attempts = ?, correct_attempts = ?, near_miss_attempts = ?, mastery_level = ?, 
+              last_attempt_date = datetime('now'), is_weak = ?,
+              ease_factor = ?, interval_days = ?, repetitions = ?, lapses = ?, last_review_date = ?, next_review_date = ?
+          WHERE word = ? AND cefr_level = ? AND profile_id = ?
+        `, [newAttempts, newCorrectAttempts, newNearMissAttempts, newMasteryLevel, newMasteryLevel <= 30, ...this.scheduleParams(schedule), word, cefrLevel, this.activeProfileId]);
         
-        console.log(`Updated progress: ${word} - attempts: ${newAttempts}, correct: ${newCorrectAttempts}, mastery: ${newMasteryLevel}%`);
+        console.log(`Updated progress: ${word} - attempts: ${newAttempts}, correct: ${newCorrectAttempts}, mastery: ${newMasteryLevel}%, next review in ${schedule.intervalDays}d`);
       } else {
         // 新しいレコードを作成
-        const masteryLevel = isCorrect ? 100 : 0;
+        const masteryLevel = isCorrect ? 100 : isNearMiss ? 50 : 0;
         await this.db.runAsync(`
           INSERT INTO enriched_progress 
-          (word, cefr_level, attempts, correct_attempts, mastery_level, last_attempt_date, is_weak)
-          VALUES (?, ?, 1, ?, ?, datetime('now'), ?)
-        `, [word, cefrLevel, isCorrect ? 1 : 0, masteryLevel, masteryLevel <= 30]);
+          (profile_id, word, cefr_level, attempts, correct_attempts, near_miss_attempts, mastery_level, last_attempt_date, is_weak,
+           ease_factor, interval_days, repetitions, lapses, last_review_date, next_review_date)
+          VALUES (?, ?, ?, 1, ?, ?, ?, datetime('now'), ?, ?, ?, ?, ?, ?, ?)
+        `, [this.activeProfileId, word, cefrLevel, isCorrect ? 1 : 0, isNearMiss ? 1 : 0, masteryLevel, masteryLevel <= 30, ...this.scheduleParams(schedule)]);
         
-        console.log(`Created new progress record: ${word} - mastery: ${masteryLevel}%`);
+        console.log(`Created new progress record: ${word} - mastery: ${masteryLevel}%, next review in ${schedule.intervalDays}d`);
       }
       
-      console.log(`Updated progress for word: ${word} (${isCorrect ? 'correct' : 'incorrect'})`);
+      console.log(`Updated progress for word: ${word} (${outcome})`);
+      await this.recordEnrichedProgressChange(word, cefrLevel);
     } catch (error) {
       console.error('Error updating enriched word progress:', error);
       throw error;
     }
   }
 
+  // 書き取り（スペル）の結果は意味の正答率・復習スケジュールとは別に記録する
+  async updateEnrichedSpellingProgress(word: string, cefrLevel: string, outcome: AnswerOutcome): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    try {
+      console.log(`Updating spelling progress for enriched word: ${word} (${cefrLevel}) - ${outcome}`);
+      
+      const existing = await this.db.getFirstAsync(`
+        SELECT id FROM enriched_progress 
+        WHERE word = ? AND cefr_level = ? AND profile_id = ?
+      `, [word, cefrLevel, this.activeProfileId]);
+      
+      const correct = outcome === 'correct' ? 1 : 0;
+      const nearMiss = outcome === 'near-miss' ? 1 : 0;
+      
+      if (existing) {
+        await this.db.runAsync(`
+          UPDATE enriched_progress 
+          SET spelling_attempts = COALESCE(spelling_attempts, 0) + 1,
+              spelling_correct_attempts = COALESCE(spelling_correct_attempts, 0) + ?,
+              spelling_near_miss_attempts = COALESCE(spelling_near_miss_attempts, 0) + ?,
+              last_spelling_date = datetime('now')
+          WHERE word = ? AND cefr_level = ? AND profile_id = ?
+        `, [correct, nearMiss, word, cefrLevel, this.activeProfileId]);
+      } else {
+        // 意味の学習記録はまだないため、スペルの列だけを持つレコードを作成
+        // attemptsは0のままにする（学習済み・苦手・復習の判定はattempts > 0のレコードだけを対象にする）
+        await this.db.runAsync(`
+          INSERT INTO enriched_progress 
+          (profile_id, word, cefr_level, spelling_attempts, spelling_correct_attempts, spelling_near_miss_attempts, last_spelling_date)
+          VALUES (?, ?, ?, 1, ?, ?, datetime('now'))
+        `, [this.activeProfileId, word, cefrLevel, correct, nearMiss]);
+      }
+
+      await this.recordEnrichedProgressChange(word, cefrLevel);
+    } catch (error) {
+      console.error('Error updating enriched spelling progress:', error);
+      throw error;
+    }
+  }
+
+  // スペルが苦手な単語（2回以上書き取りをして正答率60%未満、near-missは半分正解）
+  async getEnrichedSpellingWeakWords(limit: number = 50): Promise<{word: string; cefr_level: string; spelling_attempts: number; spelling_accuracy: number}[]> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    try {
+      const result = await this.db.getAllAsync(`
+        SELECT word, cefr_level, spelling_attempts,
+               CAST(ROUND((spelling_correct_attempts + spelling_near_miss_attempts * 0.5) * 100.0 / spelling_attempts) AS INTEGER) as spelling_accuracy
+        FROM enriched_progress 
+        WHERE spelling_attempts >= 2 AND profile_id = ?
+          AND (spelling_correct_attempts + spelling_near_miss_attempts * 0.5) * 1.0 / spelling_attempts < 0.6
+        ORDER BY spelling_accuracy ASC, last_spelling_date DESC
+        LIMIT ?
+      `, [this.activeProfileId, limit]);
+      
+      return result as {word: string; cefr_level: string; spelling_attempts: number; spelling_accuracy: number}[];
+    } catch (error) {
+      console.error('Error getting enriched spelling weak words:', error);
+      return [];
+    }
+  }
+
+  async getEnrichedLearningRecord(word: string, cefrLevel: string): Promise<LearningRecord | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    try {
+      const [progress, bookmarked, attempts] = await Promise.all([
+        this.db.getFirstAsync(`
+          SELECT * FROM enriched_progress
+          WHERE word = ? AND cefr_level = ? AND profile_id = ? AND attempts > 0
+        `, [word, cefrLevel, this.activeProfileId]) as Promise<any>,
+        this.isEnrichedWordBookmarked(word, cefrLevel),
+        this.getQuizAttempts({ word, cefrLevel }),
+      ]);
+
+      if (!progress) return null;
+
+      return {
+        wordId: `${word}|${cefrLevel}`,
+        attempts: attempts.map(a => ({ timestamp: a.timestamp, isCorrect: a.isCorrect, responseTime: a.responseTimeMs })),
+        masteryLevel: progress.mastery_level,
+        isBookmarked: bookmarked,
+        isWeak: !!progress.is_weak,
+        ...this.rowToSchedule(progress),
+      };
+    } catch (error) {
+      console.error('Error getting enriched learning record:', error);
+      return null;
+    }
+  }
+
   async getEnrichedWeakWords(): Promise<{word: string; cefr_level: string; attempts: number; correct_attempts: number; mastery_level: number}[]> {
     if (!this.db) throw new Error('Database not initialized');
     
@@ -700,10 +1456,10 @@ class DatabaseService {
       const result = await this.db.getAllAsync(`
         SELECT word, cefr_level, attempts, correct_attempts, mastery_level
         FROM enriched_progress 
-        WHERE is_weak = 1
+        WHERE is_weak = 1 AND profile_id = ?
         ORDER BY mastery_level ASC, last_attempt_date DESC
         LIMIT 50
-      `);
+      `, [this.activeProfileId]);
       
       return result as {word: string; cefr_level: string; attempts: number; correct_attempts: number; mastery_level: number}[];
     } catch (error) {
@@ -712,14 +1468,38 @@ class DatabaseService {
     }
   }
 
+  // 復習期限が来た単語数（legacy + enriched）
+  async getDueWordCounts(): Promise<{ legacy: number; enriched: number; total: number }> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    try {
+      const legacy = await this.db.getFirstAsync(`
+        SELECT COUNT(*) as count FROM user_progress
+        WHERE next_review_date IS NOT NULL AND next_review_date <= datetime('now') AND profile_id = ?
+      `, [this.activeProfileId]) as { count: number } | null;
+      const enriched = await this.db.getFirstAsync(`
+        SELECT COUNT(*) as count FROM enriched_progress
+        WHERE next_review_date IS NOT NULL AND next_review_date <= datetime('now') AND profile_id = ?
+      `, [this.activeProfileId]) as { count: number } | null;
+
+      const legacyCount = legacy?.count || 0;
+      const enrichedCount = enriched?.count || 0;
+      return { legacy: legacyCount, enriched: enrichedCount, total: legacyCount + enrichedCount };
+    } catch (error) {
+      console.error('Error getting due word counts:', error);
+      return { legacy: 0, enriched: 0, total: 0 };
+    }
+  }
+
   async removeEnrichedWeakWord(word: string, cefrLevel: string): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
     try {
       await this.db.runAsync(`
         UPDATE enriched_progress 
         SET is_weak = 0
-        WHERE word = ? AND cefr_level = ?
-      `, [word, cefrLevel]);
+        WHERE word = ? AND cefr_level = ? AND profile_id = ?
+      `, [word, cefrLevel, this.activeProfileId]);
+      await this.recordEnrichedProgressChange(word, cefrLevel);
     } catch (error) {
       console.error('Error removing enriched weak word:', error);
       throw error;
@@ -733,20 +1513,22 @@ class DatabaseService {
       console.log(`Removing enriched bookmark: ${word} (${cefrLevel})`);
       const before = await this.db.getFirstAsync(`
         SELECT COUNT(*) as count FROM enriched_bookmarks
-        WHERE LOWER(word) = LOWER(?) AND UPPER(cefr_level) = UPPER(?)
-      `, [word, cefrLevel]) as any;
+        WHERE LOWER(word) = LOWER(?) AND UPPER(cefr_level) = UPPER(?) AND profile_id = ?
+      `, [word, cefrLevel, this.activeProfileId]) as any;
       console.log(`Before remove count for pair: ${before?.count || 0}`);
 
       await this.db.runAsync(`
         DELETE FROM enriched_bookmarks 
-        WHERE LOWER(word) = LOWER(?) AND UPPER(cefr_level) = UPPER(?)
-      `, [word, cefrLevel]);
+        WHERE LOWER(word) = LOWER(?) AND UPPER(cefr_level) = UPPER(?) AND profile_id = ?
+      `, [word, cefrLevel, this.activeProfileId]);
 
       const after = await this.db.getFirstAsync(`
         SELECT COUNT(*) as count FROM enriched_bookmarks
-        WHERE LOWER(word) = LOWER(?) AND UPPER(cefr_level) = UPPER(?)
-      `, [word, cefrLevel]) as any;
+        WHERE LOWER(word) = LOWER(?) AND UPPER(cefr_level) = UPPER(?) AND profile_id = ?
+      `, [word, cefrLevel, this.activeProfileId]) as any;
       console.log(`After remove count for pair: ${after?.count || 0}`);
+
+      await this.recordEnrichedBookmarkChange(word, cefrLevel);
     } catch (error) {
       console.error('Error removing enriched bookmark:', error);
       throw error;
@@ -757,16 +1539,424 @@ class DatabaseService {
   async saveStudySession(session: Omit<StudySession, 'id'>): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
     
-    await this.db.runAsync(`
-      INSERT INTO study_sessions (date, duration_minutes, words_studied, correct_answers, total_questions)
-      VALUES (?, ?, ?, ?, ?)
+    const result = await this.db.runAsync(`
+      INSERT INTO study_sessions (profile_id, date, duration_minutes, words_studied, correct_answers, total_questions, sync_key)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
     `, [
+      this.activeProfileId,
       session.date.toISOString().split('T')[0],
       session.durationMinutes,
       session.wordsStudied,
       session.correctAnswers,
-      session.totalQuestions
+      session.totalQuestions,
+      `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 10)}`
     ]);
+
+    await this.recordStudySessionChange(result.lastInsertRowId);
+  }
+
+  // デッキ（並び順 → 作成順）
+  async getDecks(): Promise<Deck[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    try {
+      const result = await this.db.getAllAsync(`
+        SELECT d.id, d.name, d.sort_order, d.created_at, COUNT(dw.id) as word_count
+        FROM decks d
+        LEFT JOIN deck_words dw ON dw.deck_id = d.id
+        WHERE d.profile_id = ?
+        GROUP BY d.id
+        ORDER BY d.sort_order ASC, d.id ASC
+      `, [this.activeProfileId]);
+
+      return result.map((row: any) => ({
+        id: row.id,
+        name: row.name,
+        sortOrder: row.sort_order,
+        wordCount: row.word_count,
+        createdAt: this.fromSqlDateTime(row.created_at) ?? new Date(0),
+      }));
+    } catch (error) {
+      console.error('Error getting decks:', error);
+      return [];
+    }
+  }
+
+  // 新しいデッキは末尾に追加
+  async createDeck(name: string): Promise<number> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const trimmed = name.trim();
+    if (!trimmed) throw new Error('Deck name is required');
+
+    const last = await this.db.getFirstAsync<{ max_order: number | null }>(
+      'SELECT MAX(sort_order) as max_order FROM decks WHERE profile_id = ?', [this.activeProfileId]
+    );
+    const result = await this.db.runAsync(
+      'INSERT INTO decks (profile_id, name, sort_order) VALUES (?, ?, ?)',
+      [this.activeProfileId, trimmed, (last?.max_order ?? -1) + 1]
+    );
+
+    return result.lastInsertRowId;
+  }
+
+  async renameDeck(deckId: number, name: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const trimmed = name.trim();
+    if (!trimmed) throw new Error('Deck name is required');
+
+    await this.db.runAsync(
+      'UPDATE decks SET name = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+      [trimmed, deckId]
+    );
+  }
+
+  // deckIdsの順番をそのまま並び順として保存
+  async reorderDecks(deckIds: number[]): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const db = this.db;
+    await db.withTransactionAsync(async () => {
+      for (let i = 0; i < deckIds.length; i++) {
+        await db.runAsync('UPDATE decks SET sort_order = ? WHERE id = ?', [i, deckIds[i]]);
+      }
+    });
+  }
+
+  // デッキと所属単語の関連を削除（カスタム単語自体はwordsテーブルに残す）
+  async deleteDeck(deckId: number): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const db = this.db;
+    await db.withTransactionAsync(async () => {
+      await db.runAsync('DELETE FROM deck_words WHERE deck_id = ?', [deckId]);
+      await db.runAsync('DELETE FROM decks WHERE id = ?', [deckId]);
+    });
+  }
+
+  async getDeckWords(deckId: number): Promise<DeckWord[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    try {
+      const result = await this.db.getAllAsync(`
+        SELECT dw.id, dw.deck_id, dw.word, dw.cefr_level, dw.word_id, dw.example, dw.tag, w.definition
+        FROM deck_words dw
+        LEFT JOIN words w ON w.id = dw.word_id
+        WHERE dw.deck_id = ?
+        ORDER BY dw.created_at ASC, dw.id ASC
+      `, [deckId]);
+
+      return result.map((row: any) => ({
+        id: row.id,
+        deckId: row.deck_id,
+        word: row.word,
+        cefrLevel: row.cefr_level ?? undefined,
+        wordId: row.word_id ?? undefined,
+        definition: row.definition ?? undefined,
+        example: row.example ?? undefined,
+        tag: row.tag ?? undefined,
+      }));
+    } catch (error) {
+      console.error('Error getting deck words:', error);
+      return [];
+    }
+  }
+
+  // デッキ内のカスタム単語（legacy単語と同じ形式でクイズに使う）
+  async getDeckCustomWords(deckId: number): Promise<Word[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const result = await this.db.getAllAsync(`
+      SELECT w.id, w.word, w.definition, w.pronunciation, w.difficulty, w.category, w.created_at as createdAt
+      FROM deck_words dw
+      JOIN words w ON w.id = dw.word_id
+      WHERE dw.deck_id = ?
+    `, [deckId]);
+
+    return result as Word[];
+  }
+
+  // 既に入っている単語は無視する
+  async addEnrichedWordToDeck(deckId: number, word: string, cefrLevel: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    await this.db.runAsync(
+      'INSERT OR IGNORE INTO deck_words (deck_id, word, cefr_level) VALUES (?, ?, ?)',
+      [deckId, word, cefrLevel]
+    );
+  }
+
+  // カスタム単語をwordsテーブルに登録してデッキに追加
+  // wordsテーブルは単語が一意なため、登録済みの単語は既存の行を使う
+  async addCustomWordToDeck(deckId: number, word: Omit<Word, 'id' | 'createdAt'>): Promise<number> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const db = this.db;
+    let wordId = 0;
+    await db.withTransactionAsync(async () => {
+      const existing = await db.getFirstAsync<{ id: number }>('SELECT id FROM words WHERE word = ?', [word.word]);
+      wordId = existing ? existing.id : await this.addWord(word);
+      await db.runAsync(
+        'INSERT OR IGNORE INTO deck_words (deck_id, word, word_id) VALUES (?, ?, ?)',
+        [deckId, word.word, wordId]
+      );
+    });
+
+    return wordId;
+  }
+
+  // 単語リストのインポート：すべての単語を1つのトランザクションで登録（途中で失敗したら何も登録しない）
+  async importDeckWords(deckId: number, entries: DeckImportEntry[]): Promise<number> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const db = this.db;
+    let inserted = 0;
+    try {
+      await db.withTransactionAsync(async () => {
+        for (const entry of entries) {
+          let wordId: number | null = null;
+
+          if (!entry.cefrLevel) {
+            const existing = await db.getFirstAsync<{ id: number }>('SELECT id FROM words WHERE word = ?', [entry.word]);
+            if (existing) {
+              wordId = existing.id;
+              if (entry.updateDefinition && entry.definition) {
+                await db.runAsync('UPDATE words SET definition = ? WHERE id = ?', [entry.definition, wordId]);
+              }
+            } else {
+              const result = await db.runAsync(
+                'INSERT INTO words (word, definition, pronunciation, difficulty, category) VALUES (?, ?, ?, ?, ?)',
+                [entry.word, entry.definition || '', '', 2, 'custom']
+              );
+              wordId = result.lastInsertRowId;
+            }
+          }
+
+          const result = await db.runAsync(
+            'INSERT OR IGNORE INTO deck_words (deck_id, word, cefr_level, word_id, example, tag) VALUES (?, ?, ?, ?, ?, ?)',
+            [deckId, entry.word, entry.cefrLevel ?? null, wordId, entry.example ?? null, entry.tag ?? null]
+          );
+          inserted += result.changes;
+
+          // 学習履歴は端末にまだ進捗がない単語にだけ反映する
+          if (entry.progress && entry.progress.attempts > 0) {
+            const { attempts, correctAttempts } = entry.progress;
+            const masteryLevel = Math.round((correctAttempts / attempts) * 100);
+            const lastAttemptDate = entry.progress.lastReviewDate ? this.toSqlDateTime(entry.progress.lastReviewDate) : null;
+
+            if (entry.cefrLevel) {
+              // 書き取りの記録だけがある単語は、そのレコードに学習履歴を書き込む
+              await db.runAsync(`
+                UPDATE enriched_progress
+                SET attempts = ?, correct_attempts = ?, mastery_level = ?, last_attempt_date = ?, is_weak = ?,
+                    ease_factor = ?, interval_days = ?, repetitions = ?, lapses = ?, last_review_date = ?, next_review_date = ?
+                WHERE word = ? AND cefr_level = ? AND profile_id = ? AND COALESCE(attempts, 0) = 0
+              `, [attempts, correctAttempts, masteryLevel, lastAttemptDate, masteryLevel <= 30, ...this.scheduleParams(entry.progress),
+                entry.word, entry.cefrLevel, this.activeProfileId]);
+              await db.runAsync(`
+                INSERT INTO enriched_progress
+                (profile_id, word, cefr_level, attempts, correct_attempts, mastery_level, last_attempt_date, is_weak,
+                 ease_factor, interval_days, repetitions, lapses, last_review_date, next_review_date)
+                SELECT ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?
+                WHERE NOT EXISTS (SELECT 1 FROM enriched_progress WHERE word = ? AND cefr_level = ? AND profile_id = ?)
+              `, [this.activeProfileId, entry.word, entry.cefrLevel, attempts, correctAttempts, masteryLevel, lastAttemptDate, masteryLevel <= 30,
+                ...this.scheduleParams(entry.progress), entry.word, entry.cefrLevel, this.activeProfileId]);
+            } else if (wordId !== null) {
+              await db.runAsync(`
+                INSERT INTO user_progress (profile_id, word_id, attempts, correct_attempts, last_attempt_date, mastery_level,
+                  ease_factor, interval_days, repetitions, lapses, last_review_date, next_review_date)
+                SELECT ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?
+                WHERE NOT EXISTS (SELECT 1 FROM user_progress WHERE word_id = ? AND profile_id = ?)
+              `, [this.activeProfileId, wordId, attempts, correctAttempts, lastAttemptDate, masteryLevel, ...this.scheduleParams(entry.progress),
+                wordId, this.activeProfileId]);
+            }
+          }
+        }
+      });
+    } catch (error) {
+      console.error('Error importing deck words:', error);
+      throw new Error(`Failed to import words: ${error}`);
+    }
+
+    console.log(`Imported ${inserted} of ${entries.length} words into deck ${deckId}`);
+    return inserted;
+  }
+
+  // 単語（完全一致）でwordsテーブルを検索
+  async getWordsByText(words: string[]): Promise<Word[]> {
+    if (!this.db) throw new Error('Database not initialized');
+    if (words.length === 0) return [];
+
+    // SQLiteのパラメータ数の上限を超えないよう分割して検索
+    const chunkSize = 500;
+    let found: Word[] = [];
+    for (let i = 0; i < words.length; i += chunkSize) {
+      const chunk = words.slice(i, i + chunkSize);
+      const result = await this.db.getAllAsync(`
+        SELECT id, word, definition, pronunciation, difficulty, category, created_at as createdAt
+        FROM words
+        WHERE word IN (${chunk.map(() => '?').join(', ')})
+      `, chunk);
+      found = [...found, ...(result as Word[])];
+    }
+
+    return found;
+  }
+
+  async removeDeckWord(deckWordId: number): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    await this.db.runAsync('DELETE FROM deck_words WHERE id = ?', [deckWordId]);
+  }
+
+  // 回答履歴
+  async recordQuizAttempt(attempt: Omit<QuizAttempt, 'id' | 'timestamp'>): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    try {
+      await this.db.runAsync(`
+        INSERT INTO quiz_attempts
+        (profile_id, word, word_id, cefr_level, question_type, chosen_option, correct_option, is_correct, outcome, response_time_ms, session_id, mode, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
+      `, [
+        this.activeProfileId,
+        attempt.word,
+        attempt.wordId ?? null,
+        attempt.cefrLevel ?? null,
+        attempt.questionType ?? null,
+        attempt.chosenOption,
+        attempt.correctOption,
+        attempt.isCorrect ? 1 : 0,
+        attempt.outcome ?? (attempt.isCorrect ? 'correct' : 'incorrect'),
+        Math.round(attempt.responseTimeMs),
+        attempt.sessionId,
+        attempt.mode
+      ]);
+    } catch (error) {
+      console.error('Error recording quiz attempt:', error);
+      throw error;
+    }
+  }
+
+  // 条件に一致する回答履歴を新しい順に取得
+  async getQuizAttempts(filter: QuizAttemptFilter = {}): Promise<QuizAttempt[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const conditions: string[] = ['profile_id = ?'];
+    const params: (string | number)[] = [this.activeProfileId];
+
+    if (filter.word !== undefined) {
+      conditions.push('word = ?');
+      params.push(filter.word);
+    }
+    if (filter.wordId !== undefined) {
+      conditions.push('word_id = ?');
+      params.push(filter.wordId);
+    }
+    if (filter.cefrLevel !== undefined) {
+      conditions.push('cefr_level = ?');
+      params.push(filter.cefrLevel);
+    }
+    if (filter.sessionId !== undefined) {
+      conditions.push('session_id = ?');
+      params.push(filter.sessionId);
+    }
+    if (filter.mode !== undefined) {
+      conditions.push('mode = ?');
+      params.push(filter.mode);
+    }
+    if (filter.questionType !== undefined) {
+      conditions.push('question_type = ?');
+      params.push(filter.questionType);
+    }
+    if (filter.isCorrect !== undefined) {
+      conditions.push('is_correct = ?');
+      params.push(filter.isCorrect ? 1 : 0);
+    }
+    if (filter.since) {
+      conditions.push('created_at >= ?');
+      params.push(this.toSqlDateTime(filter.since));
+    }
+    if (filter.until) {
+      conditions.push('created_at <= ?');
+      params.push(this.toSqlDateTime(filter.until));
+    }
+
+    const where = `WHERE ${conditions.join(' AND ')}`;
+    const limit = filter.limit ? `LIMIT ${Math.max(1, Math.floor(filter.limit))}` : '';
+
+    try {
+      const result = await this.db.getAllAsync(`
+        SELECT * FROM quiz_attempts
+        ${where}
+        ORDER BY created_at DESC, id DESC
+        ${limit}
+      `, params);
+
+      return result.map((row: any) => this.rowToQuizAttempt(row));
+    } catch (error) {
+      console.error('Error getting quiz attempts:', error);
+      return [];
+    }
+  }
+
+  // CEFRレベルごとの直近windowSize件の正答率（スペル練習は難しさが違うため除外）
+  async getLevelAccuracy(windowSize: number = 50): Promise<LevelAccuracy[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    try {
+      const result = await this.db.getAllAsync(`
+        SELECT cefr_level, COUNT(*) as attempts, SUM(is_correct) as correct
+        FROM (
+          SELECT cefr_level, is_correct,
+                 ROW_NUMBER() OVER (PARTITION BY cefr_level ORDER BY created_at DESC, id DESC) as recency
+          FROM quiz_attempts
+          WHERE cefr_level IS NOT NULL AND mode != 'dictation' AND profile_id = ?
+        )
+        WHERE recency <= ?
+        GROUP BY cefr_level
+      `, [this.activeProfileId, Math.max(1, Math.floor(windowSize))]);
+
+      return result.map((row: any) => ({
+        cefrLevel: row.cefr_level,
+        attempts: row.attempts,
+        correct: row.correct || 0,
+        accuracy: row.attempts > 0 ? (row.correct || 0) / row.attempts : 0,
+      }));
+    } catch (error) {
+      console.error('Error getting level accuracy:', error);
+      return [];
+    }
+  }
+
+  // 最近間違えた回答（ミス復習用）
+  async getRecentMistakes(limit: number = 50): Promise<QuizAttempt[]> {
+    return this.getQuizAttempts({ isCorrect: false, limit });
+  }
+
+  // セッション内の回答履歴（回答順）
+  async getSessionAttempts(sessionId: string): Promise<QuizAttempt[]> {
+    const attempts = await this.getQuizAttempts({ sessionId });
+    return attempts.reverse();
+  }
+
+  private rowToQuizAttempt(row: any): QuizAttempt {
+    return {
+      id: row.id,
+      word: row.word,
+      wordId: row.word_id ?? undefined,
+      cefrLevel: row.cefr_level ?? undefined,
+      questionType: row.question_type ?? undefined,
+      chosenOption: row.chosen_option ?? '',
+      correctOption: row.correct_option,
+      isCorrect: !!row.is_correct,
+      outcome: row.outcome ?? undefined,
+      responseTimeMs: row.response_time_ms ?? 0,
+      sessionId: row.session_id ?? '',
+      mode: row.mode ?? '',
+      timestamp: this.fromSqlDateTime(row.created_at) ?? new Date(0),
+    };
   }
 
   async getStudySessionsByDate(startDate: Date, endDate: Date): Promise<StudySession[]> {
@@ -776,9 +1966,9 @@ class DatabaseService {
       SELECT id, date, duration_minutes as durationMinutes, words_studied as wordsStudied,
              correct_answers as correctAnswers, total_questions as totalQuestions
       FROM study_sessions
-      WHERE date >= ? AND date <= ?
+      WHERE date >= ? AND date <= ? AND profile_id = ?
       ORDER BY date DESC
-    `, [startDate.toISOString().split('T')[0], endDate.toISOString().split('T')[0]]);
+    `, [startDate.toISOString().split('T')[0], endDate.toISOString().split('T')[0], this.activeProfileId]);
     
     return result.map((session: any) => ({
       ...session,
@@ -800,8 +1990,8 @@ class DatabaseService {
           ELSE 0 
         END as accuracy
       FROM study_sessions
-      WHERE date = ?
-    `, [today]);
+      WHERE date = ? AND profile_id = ?
+    `, [today, this.activeProfileId]);
     
     return result as { studyTime: number; wordsStudied: number; accuracy: number };
   }
@@ -820,13 +2010,417 @@ class DatabaseService {
     }
   }
 
+  // 端末間同期：変更を送信待ちとして記録（同じレコードの未送信の変更は最新の状態で置き換える）
+  // 同期はプロフィールごとに行うため、送信待ちも現在のプロフィールに記録する
+  async enqueueSyncChange(entity: SyncEntity, key: string, payload: any): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    await this.db.runAsync(
+      'DELETE FROM sync_outbox WHERE entity = ? AND entity_key = ? AND profile_id = ?',
+      [entity, key, this.activeProfileId]
+    );
+    await this.db.runAsync(
+      'INSERT INTO sync_outbox (profile_id, entity, entity_key, payload, updated_at) VALUES (?, ?, ?, ?, ?)',
+      [this.activeProfileId, entity, key, JSON.stringify(payload), new Date().toISOString()]
+    );
+  }
+
+  // 同期の記録に失敗しても学習記録の保存は失敗させない
+  private async recordSyncChange(entity: SyncEntity, key: string, buildPayload: () => Promise<any>): Promise<void> {
+    try {
+      const payload = await buildPayload();
+      if (payload !== null) {
+        await this.enqueueSyncChange(entity, key, payload);
+      }
+    } catch (error) {
+      console.warn(`Failed to record sync change for ${entity} ${key}:`, error);
+    }
+  }
+
+  private enrichedSyncKey(word: string, cefrLevel: string): string {
+    return `${word.toLowerCase()}|${cefrLevel.toUpperCase()}`;
+  }
+
+  // 端末ごとに異なるid・作成日時・プロフィールは送らない
+  private stripLocalColumns(row: Record<string, any>, ...extra: string[]): Record<string, any> {
+    const payload = { ...row };
+    ['id', 'created_at', 'profile_id', ...extra].forEach(column => delete payload[column]);
+    return payload;
+  }
+
+  private async recordEnrichedBookmarkChange(word: string, cefrLevel: string): Promise<void> {
+    await this.recordSyncChange('enriched_bookmark', this.enrichedSyncKey(word, cefrLevel), async () => ({
+      word,
+      cefr_level: cefrLevel,
+      bookmarked: await this.isEnrichedWordBookmarked(word, cefrLevel),
+    }));
+  }
+
+  private async recordEnrichedProgressChange(word: string, cefrLevel: string): Promise<void> {
+    await this.recordSyncChange('enriched_progress', this.enrichedSyncKey(word, cefrLevel), async () => {
+      const row = await this.db!.getFirstAsync<Record<string, any>>(
+        'SELECT * FROM enriched_progress WHERE word = ? AND cefr_level = ? AND profile_id = ?', [word, cefrLevel, this.activeProfileId]
+      );
+      return row ? this.stripLocalColumns(row) : null;
+    });
+  }
+
+  // 旧来の単語はidが端末ごとに異なるため、単語そのもの（カスタム単語の定義を含む）で送る
+  private async getSyncWord(wordId: number): Promise<Record<string, any> | null> {
+    return this.db!.getFirstAsync<Record<string, any>>(
+      'SELECT word, definition, pronunciation, difficulty, category FROM words WHERE id = ?', [wordId]
+    );
+  }
+
+  private async recordLegacyBookmarkChange(wordId: number): Promise<void> {
+    const word = await this.getSyncWord(wordId);
+    if (!word) return;
+    await this.recordSyncChange('legacy_bookmark', word.word, async () => {
+      const progress = await this.db!.getFirstAsync<{ is_bookmarked: number }>(
+        'SELECT is_bookmarked FROM user_progress WHERE word_id = ? AND profile_id = ?', [wordId, this.activeProfileId]
+      );
+      return { word, bookmarked: !!progress?.is_bookmarked };
+    });
+  }
+
+  private async recordUserProgressChange(wordId: number): Promise<void> {
+    const word = await this.getSyncWord(wordId);
+    if (!word) return;
+    await this.recordSyncChange('user_progress', word.word, async () => {
+      const row = await this.db!.getFirstAsync<Record<string, any>>(
+        'SELECT * FROM user_progress WHERE word_id = ? AND profile_id = ?', [wordId, this.activeProfileId]
+      );
+      // ブックマークはlegacy_bookmarkとして別に同期する
+      return row ? { word, progress: this.stripLocalColumns(row, 'word_id', 'is_bookmarked') } : null;
+    });
+  }
+
+  private async recordStudySessionChange(sessionId: number): Promise<void> {
+    const session = await this.db!.getFirstAsync<Record<string, any>>('SELECT * FROM study_sessions WHERE id = ?', [sessionId]);
+    if (!session?.sync_key) return;
+    await this.recordSyncChange('study_session', session.sync_key, async () => this.stripLocalColumns(session));
+  }
+
+  // 初回同期用に現在のプロフィールの既存データをすべて送信待ちにする
+  async enqueueSyncSnapshot(): Promise<number> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const profileId = this.activeProfileId;
+    const before = await this.getSyncOutboxCount();
+    for (const row of await this.db.getAllAsync<{ word: string; cefr_level: string }>(
+      'SELECT word, cefr_level FROM enriched_bookmarks WHERE profile_id = ?', [profileId]
+    )) {
+      await this.recordEnrichedBookmarkChange(row.word, row.cefr_level);
+    }
+    for (const row of await this.db.getAllAsync<{ word: string; cefr_level: string }>(
+      'SELECT word, cefr_level FROM enriched_progress WHERE profile_id = ?', [profileId]
+    )) {
+      await this.recordEnrichedProgressChange(row.word, row.cefr_level);
+    }
+    for (const row of await this.db.getAllAsync<{ word_id: number; is_bookmarked: number }>(
+      'SELECT word_id, is_bookmarked FROM user_progress WHERE profile_id = ?', [profileId]
+    )) {
+      if (row.is_bookmarked) await this.recordLegacyBookmarkChange(row.word_id);
+      await this.recordUserProgressChange(row.word_id);
+    }
+    for (const row of await this.db.getAllAsync<{ id: number }>('SELECT id FROM study_sessions WHERE profile_id = ?', [profileId])) {
+      await this.recordStudySessionChange(row.id);
+    }
+    return (await this.getSyncOutboxCount()) - before;
+  }
+
+  async getSyncOutbox(limit: number = 100): Promise<(Omit<SyncChange, 'deviceId'> & { id: number })[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const rows = await this.db.getAllAsync<{ id: number; entity: SyncEntity; entity_key: string; payload: string; updated_at: string }>(
+      'SELECT id, entity, entity_key, payload, updated_at FROM sync_outbox WHERE profile_id = ? ORDER BY id LIMIT ?',
+      [this.activeProfileId, limit]
+    );
+    return rows.map(row => ({
+      id: row.id,
+      entity: row.entity,
+      key: row.entity_key,
+      payload: JSON.parse(row.payload),
+      updatedAt: row.updated_at,
+    }));
+  }
+
+  async getSyncOutboxCount(): Promise<number> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const result = await this.db.getFirstAsync<{ count: number }>(
+      'SELECT COUNT(*) as count FROM sync_outbox WHERE profile_id = ?', [this.activeProfileId]
+    );
+    return result?.count || 0;
+  }
+
+  async hasPendingSyncChange(entity: SyncEntity, key: string): Promise<boolean> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const result = await this.db.getFirstAsync(
+      'SELECT id FROM sync_outbox WHERE entity = ? AND entity_key = ? AND profile_id = ?', [entity, key, this.activeProfileId]
+    );
+    return !!result;
+  }
+
+  async deleteSyncOutboxEntries(ids: number[]): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+    if (ids.length === 0) return;
+
+    await this.db.runAsync(`DELETE FROM sync_outbox WHERE id IN (${ids.map(() => '?').join(', ')})`, ids);
+  }
+
+  async getSyncState(key: string): Promise<string | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const result = await this.db.getFirstAsync<{ value: string | null }>('SELECT value FROM sync_state WHERE key = ?', [key]);
+    return result?.value ?? null;
+  }
+
+  async setSyncState(key: string, value: string | null): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    if (value === null) {
+      await this.db.runAsync('DELETE FROM sync_state WHERE key = ?', [key]);
+    } else {
+      await this.db.runAsync('INSERT OR REPLACE INTO sync_state (key, value) VALUES (?, ?)', [key, value]);
+    }
+  }
+
+  // 他の端末の変更を現在のプロフィールに反映（ここでは送信待ちに記録しない）。設定はストアが反映するため対象外
+  async applySyncChange(change: SyncChange): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const db = this.db;
+    const payload = change.payload;
+    try {
+      switch (change.entity) {
+        case 'enriched_bookmark': {
+          const bookmarked = await this.isEnrichedWordBookmarked(payload.word, payload.cefr_level);
+          if (payload.bookmarked && !bookmarked) {
+            await db.runAsync(
+              "INSERT INTO enriched_bookmarks (profile_id, word, cefr_level, created_at) VALUES (?, ?, ?, datetime('now'))",
+              [this.activeProfileId, payload.word, payload.cefr_level]
+            );
+          } else if (!payload.bookmarked && bookmarked) {
+            await db.runAsync(
+              'DELETE FROM enriched_bookmarks WHERE LOWER(word) = LOWER(?) AND UPPER(cefr_level) = UPPER(?) AND profile_id = ?',
+              [payload.word, payload.cefr_level, this.activeProfileId]
+            );
+          }
+          break;
+        }
+        case 'legacy_bookmark': {
+          const wordId = await this.findOrCreateSyncWord(payload.word);
+          await db.runAsync(`
+            INSERT INTO user_progress (profile_id, word_id, is_bookmarked)
+            SELECT ?, ?, ? WHERE NOT EXISTS (SELECT 1 FROM user_progress WHERE word_id = ? AND profile_id = ?)
+          `, [this.activeProfileId, wordId, payload.bookmarked ? 1 : 0, wordId, this.activeProfileId]);
+          await db.runAsync(
+            'UPDATE user_progress SET is_bookmarked = ? WHERE word_id = ? AND profile_id = ?',
+            [payload.bookmarked ? 1 : 0, wordId, this.activeProfileId]
+          );
+          break;
+        }
+        case 'enriched_progress':
+          await this.upsertSyncedProgress(
+            'enriched_progress', ['word', 'cefr_level'], [payload.word, payload.cefr_level], payload
+          );
+          break;
+        case 'user_progress': {
+          const wordId = await this.findOrCreateSyncWord(payload.word);
+          await this.upsertSyncedProgress('user_progress', ['word_id'], [wordId], { ...payload.progress, word_id: wordId });
+          break;
+        }
+        case 'study_session': {
+          // 受信したキーはこの端末のテーブルにある列だけを使う（新しいスキーマの列・不正なキーはSQLに入れない）
+          const session: Record<string, any> = { ...payload, profile_id: this.activeProfileId };
+          const tableColumns = (await db.getAllAsync<{ name: string }>('PRAGMA table_info(study_sessions)')).map(c => c.name);
+          const columns = Object.keys(session).filter(column => tableColumns.includes(column) && column !== 'id');
+          await db.runAsync(
+            `INSERT OR IGNORE INTO study_sessions (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`,
+            columns.map(column => session[column])
+          );
+          break;
+        }
+        case 'settings':
+          break;
+      }
+    } catch (error) {
+      console.error(`Error applying sync change ${change.entity} ${change.key}:`, error);
+      throw new Error(`Failed to apply sync change: ${error}`);
+    }
+  }
+
+  private async findOrCreateSyncWord(word: Record<string, any>): Promise<number> {
+    const existing = await this.db!.getFirstAsync<{ id: number }>('SELECT id FROM words WHERE word = ?', [word.word]);
+    if (existing) return existing.id;
+
+    return this.addWord({
+      word: word.word,
+      definition: word.definition || '',
+      pronunciation: word.pronunciation || '',
+      difficulty: word.difficulty ?? 2,
+      category: word.category || 'custom',
+    });
+  }
+
+  // 進捗は回答数の多い方を残す（同数なら受信した新しい方）
+  private async upsertSyncedProgress(table: string, keyColumns: string[], keyValues: any[], synced: Record<string, any>): Promise<void> {
+    const db = this.db!;
+    const row: Record<string, any> = { ...synced, profile_id: this.activeProfileId };
+    const tableColumns = (await db.getAllAsync<{ name: string }>(`PRAGMA table_info(${table})`)).map(c => c.name);
+    const columns = Object.keys(row).filter(column => tableColumns.includes(column) && column !== 'id' && column !== 'created_at');
+    const where = [...keyColumns, 'profile_id'].map(column => `${column} = ?`).join(' AND ');
+    const whereParams = [...keyValues, this.activeProfileId];
+
+    const existing = await db.getFirstAsync<{ attempts: number | null }>(`SELECT attempts FROM ${table} WHERE ${where}`, whereParams);
+    if (existing && (existing.attempts ?? 0) > (row.attempts ?? 0)) return;
+
+    if (existing) {
+      await db.runAsync(
+        `UPDATE ${table} SET ${columns.map(column => `${column} = ?`).join(', ')} WHERE ${where}`,
+        [...columns.map(column => row[column]), ...whereParams]
+      );
+    } else {
+      await db.runAsync(
+        `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`,
+        columns.map(column => row[column])
+      );
+    }
+  }
+
+  // バックアップ
+  getBackupTableNames(): string[] {
+    return BACKUP_TABLES.map(spec => spec.table);
+  }
+
+  async exportBackupTables(): Promise<BackupTableData> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const data: BackupTableData = {};
+    for (const { table } of BACKUP_TABLES) {
+      data[table] = await this.db.getAllAsync<Record<string, any>>(`SELECT * FROM ${table} ORDER BY id`);
+    }
+    return data;
+  }
+
+  // replaceは全テーブルを入れ替え、mergeはkeyが一致するレコードを同一とみなしてidを振り直しながら統合する
+  // migrateBuiltInWords: 単語の種類の統合前に作成された可能性のあるバックアップでは組み込みの単語の進捗をenriched単語に移す
+  async restoreBackupTables(data: BackupTableData, mode: RestoreMode, migrateBuiltInWords: boolean): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const db = this.db;
+    try {
+      await db.withTransactionAsync(async () => {
+        if (mode === 'replace') {
+          for (const { table } of [...BACKUP_TABLES].reverse()) {
+            await db.runAsync(`DELETE FROM ${table}`);
+          }
+        }
+
+        // バックアップ側のid -> 端末側のid
+        const idMaps: { [table: string]: Map<number, number> } = {};
+
+        for (const spec of BACKUP_TABLES) {
+          const rows = data[spec.table] || [];
+          const tableColumns = (await db.getAllAsync<{ name: string }>(`PRAGMA table_info(${spec.table})`)).map(c => c.name);
+          const idMap = new Map<number, number>();
+          idMaps[spec.table] = idMap;
+          let restored = 0;
+
+          for (const backupRow of rows) {
+            // 古いバックアップにない列は既定値、現在のスキーマにない列は無視
+            const row: Record<string, any> = {};
+            tableColumns.filter(column => column in backupRow).forEach(column => {
+              row[column] = backupRow[column];
+            });
+            // プロフィール機能の追加前のバックアップ（replaceでは最初のプロフィール、mergeでは現在のプロフィールに取り込む）
+            const lacksProfile = tableColumns.includes('profile_id') && !('profile_id' in backupRow);
+
+            if (mode === 'replace') {
+              if (lacksProfile) row.profile_id = DEFAULT_PROFILE_ID;
+              const columns = Object.keys(row);
+              await db.runAsync(
+                `INSERT INTO ${spec.table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`,
+                columns.map(column => row[column])
+              );
+              restored++;
+              continue;
+            }
+
+            // 参照先が統合されなかったレコードは取り込まない
+            const hasMissingRef = Object.entries(spec.refs || {}).some(([column, refTable]) => {
+              if (row[column] === null || row[column] === undefined) return false;
+              const mappedId = idMaps[refTable]?.get(row[column]);
+              if (mappedId === undefined) return true;
+              row[column] = mappedId;
+              return false;
+            });
+            if (hasMissingRef) continue;
+            if (lacksProfile) row.profile_id = this.activeProfileId;
+
+            const backupId = row.id;
+            delete row.id;
+            const columns = Object.keys(row);
+
+            const existing = await db.getFirstAsync<Record<string, any>>(
+              `SELECT * FROM ${spec.table} WHERE ${spec.key.map(column => `${column} IS ?`).join(' AND ')}`,
+              spec.key.map(column => row[column] ?? null)
+            );
+
+            if (existing) {
+              idMap.set(backupId, existing.id);
+              const isBackupNewer = spec.newerBy !== undefined && !!row[spec.newerBy] &&
+                (!existing[spec.newerBy] || row[spec.newerBy] > existing[spec.newerBy]);
+              if (isBackupNewer) {
+                await db.runAsync(
+                  `UPDATE ${spec.table} SET ${columns.map(column => `${column} = ?`).join(', ')} WHERE id = ?`,
+                  [...columns.map(column => row[column]), existing.id]
+                );
+                restored++;
+              }
+            } else {
+              const result = await db.runAsync(
+                `INSERT INTO ${spec.table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`,
+                columns.map(column => row[column])
+              );
+              idMap.set(backupId, result.lastInsertRowId);
+              restored++;
+            }
+          }
+
+          console.log(`Restored ${restored} of ${rows.length} rows into ${spec.table} (${mode})`);
+        }
+
+        await assignSessionSyncKeys(db);
+        if (migrateBuiltInWords) {
+          await moveRestoredBuiltInWordProgress(db);
+        }
+        await db.runAsync(
+          'INSERT INTO profiles (id, name, avatar) SELECT ?, ?, ? WHERE NOT EXISTS (SELECT 1 FROM profiles)',
+          [DEFAULT_PROFILE_ID, 'Learner', '🙂']
+        );
+      });
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      throw new Error(`Failed to restore backup: ${error}`);
+    }
+  }
+
   async clearAllEnrichedBookmarks(): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
     
     try {
       console.log('Clearing all enriched bookmarks...');
-      const result = await this.db.runAsync('DELETE FROM enriched_bookmarks');
+      const cleared = await this.db.getAllAsync<{ word: string; cefr_level: string }>(
+        'SELECT word, cefr_level FROM enriched_bookmarks WHERE profile_id = ?', [this.activeProfileId]
+      );
+      const result = await this.db.runAsync('DELETE FROM enriched_bookmarks WHERE profile_id = ?', [this.activeProfileId]);
       console.log(`Cleared ${result.changes} enriched bookmarks`);
+      for (const bookmark of cleared) {
+        await this.recordEnrichedBookmarkChange(bookmark.word, bookmark.cefr_level);
+      }
     } catch (error) {
       console.error('Error clearing enriched bookmarks:', error);
       throw error;
@@ -838,13 +2432,19 @@ class DatabaseService {
     
     try {
       console.log('Clearing legacy weak words progress...');
+      const cleared = await this.db.getAllAsync<{ word_id: number }>(
+        'SELECT word_id FROM user_progress WHERE mastery_level < 50 AND profile_id = ?', [this.activeProfileId]
+      );
       // mastery_level < 50の進捗をリセット（attempts=0, mastery_level=100に設定）
       const result = await this.db.runAsync(`
         UPDATE user_progress 
         SET attempts = 0, correct_attempts = 0, mastery_level = 100 
-        WHERE mastery_level < 50
-      `);
+        WHERE mastery_level < 50 AND profile_id = ?
+      `, [this.activeProfileId]);
       console.log(`Reset ${result.changes} legacy weak words progress records`);
+      for (const progress of cleared) {
+        await this.recordUserProgressChange(progress.word_id);
+      }
     } catch (error) {
       console.error('Error clearing legacy weak words progress:', error);
       throw error;
@@ -856,13 +2456,19 @@ class DatabaseService {
     
     try {
       console.log('Clearing enriched weak words progress...');
+      const cleared = await this.db.getAllAsync<{ word: string; cefr_level: string }>(
+        'SELECT word, cefr_level FROM enriched_progress WHERE is_weak = 1 AND profile_id = ?', [this.activeProfileId]
+      );
       // is_weak = 1のレコードをis_weak = 0に設定し、mastery_level = 100に更新
       const result = await this.db.runAsync(`
         UPDATE enriched_progress 
         SET is_weak = 0, mastery_level = 100 
-        WHERE is_weak = 1
-      `);
+        WHERE is_weak = 1 AND profile_id = ?
+      `, [this.activeProfileId]);
       console.log(`Reset ${result.changes} enriched weak words progress records`);
+      for (const progress of cleared) {
+        await this.recordEnrichedProgressChange(progress.word, progress.cefr_level);
+      }
     } catch (error) {
       console.error('Error clearing enriched weak words progress:', error);
       throw error;
@@ -0,0 +1,133 @@
+import { DistractorDifficulty } from '../types';
+import { CefrQuizWord } from './enrichedQuizService';
+import { enrichedVocabularyService } from './enrichedVocabularyService';
+import { morphology } from './morphology';
+
+export interface DistractorRequest {
+  difficulty: DistractorDifficulty;
+  count: number;
+  // 候補の単語から選択肢の文字列を作る（単語そのもの・定義など）。undefinedを返した単語は使わない
+  optionOf: (word: CefrQuizWord) => string | undefined;
+  exclude?: Set<string>; // 既に使った選択肢
+  samePosOnly?: boolean; // 難易度に関係なく同じ品詞に限定する
+}
+
+// 不正解選択肢（ディストラクター）の選定
+// 難易度が高いほど、対象語と品詞・頻度・意味が近い単語を選ぶ。同義語は難易度に関係なく使わない
+class DistractorService {
+  // 同じ品詞の候補がプールに足りない場合にレベル全体から補充する数の目安
+  private readonly MIN_CANDIDATES = 10;
+
+  // CEFRレベルに応じた既定の難易度（上級者ほど紛らわしい選択肢で練習する）
+  getDefaultDifficulty(cefrLevel: string): DistractorDifficulty {
+    if (cefrLevel.startsWith('C')) return 'hard';
+    if (cefrLevel.startsWith('B')) return 'medium';
+    return 'easy';
+  }
+
+  async selectDistractors(target: CefrQuizWord, pool: CefrQuizWord[], request: DistractorRequest): Promise<CefrQuizWord[]> {
+    const { difficulty, count, optionOf, exclude = new Set<string>(), samePosOnly = false } = request;
+    const requireSamePos = samePosOnly || difficulty !== 'easy';
+    const targetOption = optionOf(target);
+
+    const isUsable = (candidate: CefrQuizWord) => {
+      const option = optionOf(candidate);
+      return (
+        !!option &&
+        option !== targetOption &&
+        !exclude.has(option) &&
+        (!requireSamePos || !target.pos || candidate.pos === target.pos) &&
+        !this.isEquivalent(target, candidate)
+      );
+    };
+
+    let candidates = pool.filter(isUsable);
+
+    // 中級以上は同じ品詞・意味の近い単語を探すため、プールに足りなければレベル全体から補充
+    if (difficulty === 'hard' || candidates.length < Math.max(count, this.MIN_CANDIDATES)) {
+      const levelWords = await enrichedVocabularyService.getLevelWords(
+        target.cefr_level,
+        requireSamePos ? target.pos : undefined
+      );
+      const known = new Set(candidates.map(c => c.word.toLowerCase()));
+      candidates = [
+        ...candidates,
+        ...levelWords.filter(w => !known.has(w.word.toLowerCase()) && isUsable(w))
+      ];
+    }
+
+    const scored = candidates.map(candidate => ({
+      candidate,
+      // 同点の候補が毎回同じにならないよう少しランダム性を加える
+      score: this.score(target, candidate, difficulty) + Math.random() * 0.5,
+    }));
+    scored.sort((a, b) => b.score - a.score);
+
+    // 選択肢の文字列が重複しないように選ぶ
+    const selected: CefrQuizWord[] = [];
+    const selectedOptions = new Set<string>();
+    for (const { candidate } of scored) {
+      if (selected.length >= count) break;
+      const option = optionOf(candidate)!;
+      if (selectedOptions.has(option)) continue;
+      selectedOptions.add(option);
+      selected.push(candidate);
+    }
+
+    console.log(`Distractors (${difficulty}) for "${target.word}": ${selected.map(w => w.word).join(', ')}`);
+    return selected;
+  }
+
+  private score(target: CefrQuizWord, candidate: CefrQuizWord, difficulty: DistractorDifficulty): number {
+    const samePos = !!target.pos && candidate.pos === target.pos;
+
+    switch (difficulty) {
+      case 'easy':
+        // 品詞が違うほうが見分けやすい
+        return samePos ? 0 : 1;
+      case 'medium':
+        return (samePos ? 2 : 0) + this.frequencyCloseness(target, candidate);
+      case 'hard':
+        return (samePos ? 2 : 0) +
+          this.frequencyCloseness(target, candidate) +
+          (this.isSemanticNeighbor(target, candidate) ? 3 : 0);
+    }
+  }
+
+  // 頻度（Zipf値）が近いほど1に近い。データがなければ中間値
+  private frequencyCloseness(target: CefrQuizWord, candidate: CefrQuizWord): number {
+    if (target.frequency === undefined || candidate.frequency === undefined) return 0.5;
+    return Math.max(0, 1 - Math.abs(target.frequency - candidate.frequency) / 2);
+  }
+
+  // 上位語・下位語・類似語でつながっている、または同じ上位語を持つ（"oak" と "pine"）
+  private isSemanticNeighbor(a: CefrQuizWord, b: CefrQuizWord): boolean {
+    const linksOf = (w: CefrQuizWord) =>
+      [...(w.typeOf || []), ...(w.hasTypes || []), ...(w.similarTo || [])].map(s => s.toLowerCase());
+
+    if (linksOf(a).includes(b.word.toLowerCase()) || linksOf(b).includes(a.word.toLowerCase())) {
+      return true;
+    }
+
+    const parents = new Set((a.typeOf || []).map(s => s.toLowerCase()));
+    return (b.typeOf || []).some(parent => parents.has(parent.toLowerCase()));
+  }
+
+  // 対象語と同じ意味になりうる単語（正解が複数になるため使わない）
+  private isEquivalent(target: CefrQuizWord, candidate: CefrQuizWord): boolean {
+    const targetWord = target.word.toLowerCase();
+    const candidateWord = candidate.word.toLowerCase();
+    if (targetWord === candidateWord) return true;
+
+    const synonymsOf = (w: CefrQuizWord) =>
+      (w.synonyms || '').split(',').map(s => s.trim().toLowerCase()).filter(s => s.length > 0);
+    if (synonymsOf(target).includes(candidateWord) || synonymsOf(candidate).includes(targetWord)) {
+      return true;
+    }
+
+    // 活用形・表記ゆれ違いの同じ単語
+    return morphology.isInflectionOf(candidateWord, targetWord) || morphology.isInflectionOf(targetWord, candidateWord);
+  }
+}
+
+export const distractorService = new DistractorService();
@@ -1,5 +1,9 @@
 // Type definitions moved from cefrQuizService.ts
+import { DistractorDifficulty, QuestionTypeMix } from '../types';
+import { distractorService } from './distractorService';
 import { enrichedVocabularyService } from './enrichedVocabularyService';
+import { morphology } from './morphology';
+import { questionValidator } from './questionValidator';
 export interface CefrQuizWord {
   id: number;
   word: string;
@@ -10,6 +14,10 @@ export interface CefrQuizWord {
   example_sentence?: string;
   synonyms?: string;
   antonyms?: string;
+  frequency?: number; // Words APIの出現頻度（Zipf値、高いほど一般的）
+  typeOf?: string[]; // 上位語（"exterior" -> "region"）
+  hasTypes?: string[]; // 下位語
+  similarTo?: string[]; // 類似語
 }
 
 export interface QuizQuestion {
@@ -17,33 +25,45 @@ export interface QuizQuestion {
   question: string;
   options: string[];
   correctAnswer: string;
-  type: 'definition' | 'synonym' | 'antonym' | 'example';
+  type: 'definition' | 'synonym' | 'antonym' | 'example' | 'reverse' | 'dictation';
+  answerFormat?: 'choice' | 'typed'; // typedの場合optionsは空
+  prompt?: string; // 見出し語の代わりに表示する定義・穴埋め例文（reverse / example / typed）
 }
 
+export interface QuizGenerationOptions {
+  allowedTypes?: QuizQuestion['type'][]; // 出題を許可する問題形式（未指定なら全て）
+  distractorDifficulty?: DistractorDifficulty; // 不正解選択肢の難易度（未指定なら単語のCEFRレベルに応じて自動）
+  typeMix?: QuestionTypeMix; // 問題形式の割合（指定時はセッション全体でこの割合に近づける）
+}
+
+// 割合を指定できる問題形式
+type MixableQuestionType = keyof QuestionTypeMix;
+const MIXABLE_QUESTION_TYPES: MixableQuestionType[] = ['definition', 'synonym', 'antonym', 'example', 'reverse'];
+
 class EnrichedQuizService {
+  // 検証に通らなかった問題を作り直す回数（出題形式・不正解候補はランダムなので再生成で通ることが多い）
+  private readonly MAX_GENERATION_ATTEMPTS = 3;
+  // 正解・不正解候補として取得する単語数（問題数が多い場合は問題数に比例して増やす）
+  private readonly MIN_POOL_SIZE = 40;
+  private readonly POOL_SIZE_PER_QUESTION = 3;
   
   // メインのクイズ生成メソッド：enriched vocabularyを使用
-  async createEnrichedCefrQuiz(cefrLevel: string, questionCount: number = 10): Promise<QuizQuestion[]> {
+  async createEnrichedCefrQuiz(cefrLevel: string, questionCount: number = 10, options: QuizGenerationOptions = {}): Promise<QuizQuestion[]> {
     try {
       console.log(`Creating enriched CEFR quiz for level: ${cefrLevel}, questions: ${questionCount}`);
       
-      // 利用可能なレベルをチェック
-      const availableLevels = await enrichedVocabularyService.getAvailableLevels();
-      console.log(`Available enriched levels: ${availableLevels.join(', ')}`);
+      // 語彙パックがインストールされていないレベルは最も近いレベルで出題
+      cefrLevel = await enrichedVocabularyService.resolveLevel(cefrLevel);
       
-      if (!availableLevels.includes(cefrLevel)) {
-        console.warn(`Level ${cefrLevel} not available, falling back to A1`);
-        cefrLevel = 'A1'; // A1をフォールバックとして使用
-      }
-      
-      // 40単語を取得
+      // 問題数に応じた数の単語を取得（最低40単語）
+      const poolSize = this.getPoolSize(questionCount);
       let allWords: CefrQuizWord[] = [];
       
       try {
-        allWords = await enrichedVocabularyService.getRandomEnrichedWords(cefrLevel, 40);
+        allWords = await enrichedVocabularyService.getRandomEnrichedWords(cefrLevel, poolSize);
       } catch (error) {
         console.warn(`Failed to get words from ${cefrLevel}, trying multiple levels:`, error);
-        allWords = await enrichedVocabularyService.getWordsFromMultipleLevels(cefrLevel, 40);
+        allWords = await enrichedVocabularyService.getWordsFromMultipleLevels(cefrLevel, poolSize);
       }
       
       if (allWords.length < questionCount) {
@@ -52,8 +72,8 @@ class EnrichedQuizService {
       
       console.log(`Successfully retrieved ${allWords.length} enriched words`);
       
-      // 40単語のプールから10問のクイズを生成
-      const questions = await this.generateQuizFromEnrichedWords(allWords, questionCount);
+      // 単語プールからクイズを生成
+      const questions = await this.generateQuizFromEnrichedWords(allWords, questionCount, options);
       
       if (questions.length < questionCount) {
         console.warn(`Only generated ${questions.length} questions out of ${questionCount} requested`);
@@ -69,8 +89,148 @@ class EnrichedQuizService {
     }
   }
   
-  // 40単語のプールから指定数のクイズを生成
-  private async generateQuizFromEnrichedWords(wordPool: CefrQuizWord[], questionCount: number): Promise<QuizQuestion[]> {
+  // タイピング解答（想起）クイズ：定義または穴埋め例文を見て単語を入力する
+  async createRecallQuiz(cefrLevel: string, questionCount: number = 10): Promise<QuizQuestion[]> {
+    try {
+      console.log(`Creating recall quiz for level: ${cefrLevel}, questions: ${questionCount}`);
+      
+      cefrLevel = await enrichedVocabularyService.resolveLevel(cefrLevel);
+      
+      const poolSize = this.getPoolSize(questionCount);
+      let allWords: CefrQuizWord[] = [];
+      try {
+        allWords = await enrichedVocabularyService.getRandomEnrichedWords(cefrLevel, poolSize);
+      } catch (error) {
+        console.warn(`Failed to get words from ${cefrLevel}, trying multiple levels:`, error);
+        allWords = await enrichedVocabularyService.getWordsFromMultipleLevels(cefrLevel, poolSize);
+      }
+      
+      const questions: QuizQuestion[] = [];
+      for (const word of allWords) {
+        if (questions.length >= questionCount) break;
+        const question = this.createRecallQuestion(word);
+        if (question) {
+          questions.push(question);
+        }
+      }
+      
+      console.log(`Successfully created ${questions.length} recall questions`);
+      return questions;
+    } catch (error) {
+      console.error('Error in createRecallQuiz:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Failed to generate ${questionCount} recall questions: ${errorMessage}`);
+    }
+  }
+  
+  // 指定した単語（デッキの単語など）で想起クイズを作成（定義・例文が使えない単語は飛ばす）
+  async createRecallQuizForWords(targets: { word: string; cefr_level: string }[], questionCount: number = 10): Promise<QuizQuestion[]> {
+    const questions: QuizQuestion[] = [];
+    for (const target of targets) {
+      if (questions.length >= questionCount) break;
+      const word = await enrichedVocabularyService.getEnrichedWord(target.word, target.cefr_level);
+      const question = word ? this.createRecallQuestion(word) : null;
+      if (question) {
+        questions.push(question);
+      }
+    }
+    
+    console.log(`Created ${questions.length} recall questions from ${targets.length} specified words`);
+    return questions;
+  }
+  
+  // 書き取りクイズ：読み上げられた単語を入力する
+  // priorityWords（スペルが苦手な単語など）を先に出題し、残りを指定レベルのランダムな単語で埋める
+  async createDictationQuiz(
+    cefrLevel: string, 
+    questionCount: number = 10, 
+    priorityWords: { word: string; cefr_level: string }[] = []
+  ): Promise<QuizQuestion[]> {
+    try {
+      console.log(`Creating dictation quiz for level: ${cefrLevel}, questions: ${questionCount}, priority words: ${priorityWords.length}`);
+      
+      const words: CefrQuizWord[] = [];
+      for (const priority of priorityWords) {
+        if (words.length >= questionCount) break;
+        const word = await enrichedVocabularyService.getEnrichedWord(priority.word, priority.cefr_level);
+        if (word) {
+          words.push(word);
+        }
+      }
+      
+      if (words.length < questionCount) {
+        const level = await enrichedVocabularyService.resolveLevel(cefrLevel);
+        const randomWords = await enrichedVocabularyService.getRandomEnrichedWords(level, questionCount * 2);
+        for (const word of randomWords) {
+          if (words.length >= questionCount) break;
+          if (!words.some(w => w.word === word.word)) {
+            words.push(word);
+          }
+        }
+      }
+      
+      const questions: QuizQuestion[] = words.map(word => ({
+        word: word,
+        question: 'Listen and type the word you hear',
+        options: [],
+        correctAnswer: word.word,
+        type: 'dictation',
+        answerFormat: 'typed'
+      }));
+      
+      console.log(`Successfully created ${questions.length} dictation questions`);
+      return questions;
+    } catch (error) {
+      console.error('Error in createDictationQuiz:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Failed to generate ${questionCount} dictation questions: ${errorMessage}`);
+    }
+  }
+  
+  // 想起問題を作成（答えの単語が見えてしまう定義・例文は使わない）
+  private createRecallQuestion(word: CefrQuizWord): QuizQuestion | null {
+    const headwordPattern = new RegExp(`\\b${this.escapeRegExp(word.word)}\\b`, 'i');
+    
+    const definition = word.definition?.trim();
+    const usableDefinition = definition && !headwordPattern.test(definition) ? definition : null;
+    
+    const example = word.example_sentence?.trim();
+    const cloze = example ? morphology.createCloze(example, word.word, word.pos)?.text ?? null : null;
+    
+    // 両方使える場合はランダムに選択
+    if (usableDefinition && (!cloze || Math.random() < 0.5)) {
+      return {
+        word: word,
+        question: 'Type the word that matches this definition',
+        options: [],
+        correctAnswer: word.word,
+        type: 'reverse',
+        answerFormat: 'typed',
+        prompt: usableDefinition
+      };
+    }
+    
+    if (cloze) {
+      return {
+        word: word,
+        question: 'Type the word that fills the blank',
+        options: [],
+        correctAnswer: word.word,
+        type: 'example',
+        answerFormat: 'typed',
+        prompt: cloze
+      };
+    }
+    
+    return null;
+  }
+  
+  private escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+  
+  // 単語プールから指定数のクイズを生成
+  private async generateQuizFromEnrichedWords(wordPool: CefrQuizWord[], questionCount: number, options: QuizGenerationOptions = {}): Promise<QuizQuestion[]> {
     console.log(`Generating ${questionCount} questions from ${wordPool.length} enriched words`);
     
     // 定義がある単語を優先的に正解候補として選択
@@ -98,19 +258,67 @@ class EnrichedQuizService {
 
     console.log(`Selected ${correctWords.length} correct words and ${incorrectWords.length} incorrect words`);
 
-    // 各正解単語に対してクイズ問題を生成（使用済み不正解候補を追跡）
+    return this.generateQuestionsForWords(correctWords, incorrectWords, questionCount, options, true);
+  }
+  
+  // 指定した単語（苦手な単語・ブックマークなど）のクイズを生成
+  // 不正解候補は対象単語のレベルからランダムに取得する
+  async createQuizForWords(
+    targets: { word: string; cefr_level: string }[], 
+    options: QuizGenerationOptions = {}
+  ): Promise<QuizQuestion[]> {
+    try {
+      console.log(`Creating quiz for ${targets.length} specified words`);
+      
+      const words: CefrQuizWord[] = [];
+      for (const target of targets) {
+        const word = await enrichedVocabularyService.getEnrichedWord(target.word, target.cefr_level);
+        if (word) {
+          words.push(word);
+        }
+      }
+      
+      const levels = Array.from(new Set(words.map(w => w.cefr_level)));
+      const poolPerLevel = Math.ceil(this.getPoolSize(words.length) / Math.max(levels.length, 1));
+      let incorrectWords: CefrQuizWord[] = [];
+      for (const level of levels) {
+        const levelWords = await enrichedVocabularyService.getRandomEnrichedWords(level, poolPerLevel);
+        incorrectWords = [
+          ...incorrectWords,
+          ...levelWords.filter(w => !words.some(target => target.word === w.word))
+        ];
+      }
+      
+      // 対象単語は指定された順序のまま出題し、除外された分の補充はしない
+      return this.generateQuestionsForWords(words, incorrectWords, words.length, options, false);
+    } catch (error) {
+      console.error('Error in createQuizForWords:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Failed to generate quiz for specified words: ${errorMessage}`);
+    }
+  }
+  
+  private getPoolSize(questionCount: number): number {
+    return Math.max(this.MIN_POOL_SIZE, questionCount * this.POOL_SIZE_PER_QUESTION);
+  }
+  
+  // 各正解単語に対してクイズ問題を生成（使用済み不正解候補を追跡）
+  // allowReplacementsがtrueなら、検証で除外された分を不正解候補の単語で補充する
+  private async generateQuestionsForWords(
+    correctWords: CefrQuizWord[],
+    incorrectWords: CefrQuizWord[],
+    questionCount: number,
+    options: QuizGenerationOptions,
+    allowReplacements: boolean
+  ): Promise<QuizQuestion[]> {
     const questions: QuizQuestion[] = [];
     const usedIncorrectOptions = new Set<string>();
+    const typeQuota = options.typeMix ? this.allocateTypeQuota(options.typeMix, questionCount) : undefined;
     
     for (let i = 0; i < correctWords.length; i++) {
       const word = correctWords[i];
       try {
-        const question = await this.createQuestionForEnrichedWordWithTracking(
-          word, 
-          incorrectWords, 
-          usedIncorrectOptions,
-          i
-        );
+        const question = await this.createValidatedQuestion(word, incorrectWords, usedIncorrectOptions, i, options, typeQuota);
         if (question) {
           questions.push(question);
         }
@@ -119,10 +327,103 @@ class EnrichedQuizService {
       }
     }
 
+    // 除外された問題の分は、まだ選択肢に使われていない単語で補充
+    if (allowReplacements && questions.length < questionCount) {
+      const spareWords = incorrectWords.filter(word =>
+        word.definition && word.definition.trim().length > 0 && !usedIncorrectOptions.has(word.word)
+      );
+      for (const word of this.shuffleArray(spareWords)) {
+        if (questions.length >= questionCount) break;
+        try {
+          const question = await this.createValidatedQuestion(
+            word,
+            incorrectWords.filter(w => w.id !== word.id),
+            usedIncorrectOptions,
+            questions.length,
+            options,
+            typeQuota
+          );
+          if (question) {
+            questions.push(question);
+          }
+        } catch (error) {
+          console.warn(`Failed to create replacement question for word ${word.word}:`, error);
+        }
+      }
+    }
+
     console.log(`Successfully generated ${questions.length} questions from enriched data`);
     return questions;
   }
   
+  // 割合から問題形式ごとの出題数を決める（最大剰余方式で合計をquestionCountに合わせる）
+  // 割合0%の形式はMapに含めない（出題しない）
+  private allocateTypeQuota(mix: QuestionTypeMix, questionCount: number): Map<MixableQuestionType, number> | undefined {
+    const weighted = MIXABLE_QUESTION_TYPES.filter(type => (mix[type] || 0) > 0);
+    const total = weighted.reduce((sum, type) => sum + mix[type], 0);
+    if (total <= 0) return undefined;
+    
+    const exact = weighted.map(type => ({ type, value: (mix[type] / total) * questionCount }));
+    const quota = new Map(exact.map(({ type, value }) => [type, Math.floor(value)]));
+    let remaining = questionCount - Array.from(quota.values()).reduce((sum, n) => sum + n, 0);
+    
+    const byFraction = [...exact].sort((a, b) => (b.value % 1) - (a.value % 1));
+    for (const { type } of byFraction) {
+      if (remaining <= 0) break;
+      quota.set(type, quota.get(type)! + 1);
+      remaining--;
+    }
+    
+    console.log(`Question type quota: ${Array.from(quota.entries()).map(([type, n]) => `${type}=${n}`).join(', ')}`);
+    return quota;
+  }
+  
+  // 問題を作成して検証し、問題があれば作り直す（作り直しても通らなければnull）
+  // 採用しなかった問題の不正解選択肢は使用済みから外す（作り直し・補充の候補を減らさない）
+  private async createValidatedQuestion(
+    word: CefrQuizWord,
+    incorrectWordsPool: CefrQuizWord[],
+    usedIncorrectOptions: Set<string>,
+    questionIndex: number,
+    options: QuizGenerationOptions,
+    typeQuota?: Map<MixableQuestionType, number>
+  ): Promise<QuizQuestion | null> {
+    const restoreUsedOptions = (snapshot: Set<string>) => {
+      usedIncorrectOptions.clear();
+      snapshot.forEach(option => usedIncorrectOptions.add(option));
+    };
+
+    for (let attempt = 0; attempt < this.MAX_GENERATION_ATTEMPTS; attempt++) {
+      const usedBeforeAttempt = new Set(usedIncorrectOptions);
+      const question = await this.createQuestionForEnrichedWordWithTracking(
+        word,
+        incorrectWordsPool,
+        usedIncorrectOptions,
+        questionIndex,
+        options,
+        typeQuota
+      );
+      if (!question) {
+        restoreUsedOptions(usedBeforeAttempt);
+        return null;
+      }
+
+      const result = questionValidator.validateEnrichedQuestion(question);
+      if (result.valid) {
+        const type = question.type as MixableQuestionType;
+        if (typeQuota && typeQuota.has(type)) {
+          typeQuota.set(type, typeQuota.get(type)! - 1);
+        }
+        return question;
+      }
+      questionValidator.logRejection('EnrichedQuizService', word.word, result);
+      restoreUsedOptions(usedBeforeAttempt);
+    }
+
+    console.warn(`Dropped question for "${word.word}" after ${this.MAX_GENERATION_ATTEMPTS} attempts`);
+    return null;
+  }
+  
   // 詳細データがある単語に特化したクイズ問題作成
   private async createQuestionForEnrichedWord(word: CefrQuizWord, incorrectWordsPool: CefrQuizWord[]): Promise<QuizQuestion | null> {
     // 定義がある場合は定義クイズを優先
@@ -135,9 +436,12 @@ class EnrichedQuizService {
       return this.createSynonymQuestionWithPool(word, incorrectWordsPool);
     }
     
-    // 例文がある場合は例文クイズ
+    // 例文がある場合は例文クイズ（単語をきれいに空欄にできない例文は使わない）
     if (word.example_sentence && word.example_sentence.trim().length > 0) {
-      return this.createExampleQuestionWithPool(word, incorrectWordsPool);
+      const exampleQuestion = this.createExampleQuestionWithPool(word, incorrectWordsPool);
+      if (exampleQuestion) {
+        return exampleQuestion;
+      }
     }
     
     // 最後の手段：基本的な品詞クイズ
@@ -145,51 +449,101 @@ class EnrichedQuizService {
   }
 
   // 使用済み不正解候補を追跡するクイズ問題作成
+  // typeQuotaがあれば残り出題数の多い形式から、なければデータに応じた既定の優先順で試す
   private async createQuestionForEnrichedWordWithTracking(
     word: CefrQuizWord, 
     incorrectWordsPool: CefrQuizWord[], 
     usedIncorrectOptions: Set<string>,
-    questionIndex: number
+    questionIndex: number,
+    options: QuizGenerationOptions = {},
+    typeQuota?: Map<MixableQuestionType, number>
   ): Promise<QuizQuestion | null> {
     console.log(`Creating question ${questionIndex + 1} for word: ${word.word}`);
     
-    // 定義がある場合は定義クイズを優先
-    if (word.definition && word.definition.trim().length > 0) {
-      return this.createDefinitionQuestionWithTracking(word, incorrectWordsPool, usedIncorrectOptions);
-    }
+    const isAllowed = (type: QuizQuestion['type']) => !options.allowedTypes || options.allowedTypes.includes(type);
+    const difficulty = options.distractorDifficulty || distractorService.getDefaultDifficulty(word.cefr_level);
     
-    // 同義語がある場合は同義語クイズ
-    if (word.synonyms && word.synonyms.trim().length > 0) {
-      return this.createSynonymQuestionWithTracking(word, incorrectWordsPool, usedIncorrectOptions);
-    }
+    const typeOrder = (typeQuota ? this.getTypeOrderByQuota(typeQuota) : this.getDefaultTypeOrder(isAllowed))
+      .filter(isAllowed);
     
-    // 例文がある場合は例文クイズ
-    if (word.example_sentence && word.example_sentence.trim().length > 0) {
-      return this.createExampleQuestionWithTracking(word, incorrectWordsPool, usedIncorrectOptions);
+    for (const type of typeOrder) {
+      const question = await this.createQuestionOfType(type, word, incorrectWordsPool, usedIncorrectOptions, difficulty);
+      if (question) {
+        return question;
+      }
     }
     
     // 最後の手段：基本的な品詞クイズ
     return this.createBasicQuestionWithTracking(word, incorrectWordsPool, usedIncorrectOptions);
   }
   
+  // 既定の優先順：反意語（データがある単語は少ないため優先） -> 定義（一部は逆方向：定義 -> 単語） -> 同義語 -> 例文
+  private getDefaultTypeOrder(isAllowed: (type: QuizQuestion['type']) => boolean): MixableQuestionType[] {
+    const preferReverse = isAllowed('reverse') && (!isAllowed('definition') || Math.random() < 0.3);
+    return preferReverse
+      ? ['antonym', 'reverse', 'definition', 'synonym', 'example']
+      : ['antonym', 'definition', 'synonym', 'example'];
+  }
+  
+  // 残り出題数の多い形式から順に（残りが同じ場合はランダム）
+  // 出題数を使い切った形式も、他の形式のデータがない単語のために後ろに残す
+  private getTypeOrderByQuota(typeQuota: Map<MixableQuestionType, number>): MixableQuestionType[] {
+    return this.shuffleArray(Array.from(typeQuota.entries()))
+      .sort((a, b) => b[1] - a[1])
+      .map(([type]) => type);
+  }
+  
+  // 指定形式の問題を作成（単語にその形式のデータがない場合はnull）
+  private async createQuestionOfType(
+    type: MixableQuestionType,
+    word: CefrQuizWord,
+    incorrectWordsPool: CefrQuizWord[],
+    usedIncorrectOptions: Set<string>,
+    difficulty: DistractorDifficulty
+  ): Promise<QuizQuestion | null> {
+    const hasText = (value?: string) => !!value && value.trim().length > 0;
+    
+    switch (type) {
+      case 'antonym':
+        return hasText(word.antonyms)
+          ? this.createAntonymQuestionWithTracking(word, incorrectWordsPool, usedIncorrectOptions)
+          : null;
+      case 'reverse':
+        return hasText(word.definition)
+          ? this.createReverseQuestionWithTracking(word, incorrectWordsPool, usedIncorrectOptions, difficulty)
+          : null;
+      case 'definition':
+        return hasText(word.definition)
+          ? this.createDefinitionQuestionWithTracking(word, incorrectWordsPool, usedIncorrectOptions, difficulty)
+          : null;
+      case 'synonym':
+        return hasText(word.synonyms)
+          ? this.createSynonymQuestionWithTracking(word, incorrectWordsPool, usedIncorrectOptions, difficulty)
+          : null;
+      case 'example':
+        return hasText(word.example_sentence)
+          ? this.createExampleQuestionWithTracking(word, incorrectWordsPool, usedIncorrectOptions, difficulty)
+          : null;
+    }
+  }
+  
   // 使用済み不正解候補を追跡する定義クイズ作成
-  private createDefinitionQuestionWithTracking(
+  private async createDefinitionQuestionWithTracking(
     word: CefrQuizWord, 
     incorrectWordsPool: CefrQuizWord[], 
-    usedIncorrectOptions: Set<string>
-  ): QuizQuestion {
+    usedIncorrectOptions: Set<string>,
+    difficulty: DistractorDifficulty
+  ): Promise<QuizQuestion> {
     const correctDefinition = word.definition!;
     
-    // 使用済みでない不正解定義を選択
-    const availableIncorrectDefinitions = incorrectWordsPool
-      .filter(w => w.definition && w.definition.trim().length > 0 && w.definition !== correctDefinition)
-      .map(w => w.definition!)
-      .filter(def => def.length < 150 && !usedIncorrectOptions.has(def))
-      .slice(0, 10); // 候補を多く取得してからランダムに選択
-    
-    // ランダムに3つ選択
-    const shuffledAvailable = this.shuffleArray(availableIncorrectDefinitions);
-    const selectedIncorrectDefinitions = shuffledAvailable.slice(0, 3);
+    // 難易度に応じて使用済みでない不正解定義を選択（長すぎる定義は除く）
+    const distractorWords = await distractorService.selectDistractors(word, incorrectWordsPool, {
+      difficulty,
+      count: 3,
+      exclude: usedIncorrectOptions,
+      optionOf: w => (w.definition && w.definition.trim().length > 0 && w.definition.length < 150 ? w.definition : undefined)
+    });
+    const selectedIncorrectDefinitions = distractorWords.map(w => w.definition!);
     
     // 選択した不正解候補を使用済みに追加
     selectedIncorrectDefinitions.forEach(def => usedIncorrectOptions.add(def));
@@ -239,6 +593,57 @@ class EnrichedQuizService {
     };
   }
 
+  // 使用済み不正解候補を追跡する逆方向クイズ作成（定義を見て単語を選ぶ）
+  // 不正解候補は難易度に関係なく同じ品詞・同じCEFRレベルの単語から選ぶ
+  private async createReverseQuestionWithTracking(
+    word: CefrQuizWord, 
+    incorrectWordsPool: CefrQuizWord[], 
+    usedIncorrectOptions: Set<string>,
+    difficulty: DistractorDifficulty
+  ): Promise<QuizQuestion | null> {
+    const definition = word.definition!.trim();
+    
+    // 定義に見出し語が含まれていると答えがわかってしまう
+    if (new RegExp(`\\b${this.escapeRegExp(word.word)}\\b`, 'i').test(definition)) {
+      return null;
+    }
+    
+    // 対象語の同義語も定義に当てはまりうるため、distractorServiceが不正解候補から除外する
+    const distractorWords = await distractorService.selectDistractors(
+      word,
+      incorrectWordsPool.filter(candidate => candidate.cefr_level === word.cefr_level),
+      {
+        difficulty,
+        count: 3,
+        exclude: usedIncorrectOptions,
+        optionOf: w => w.word,
+        samePosOnly: true
+      }
+    );
+    
+    const selectedIncorrectWords = distractorWords.map(w => w.word);
+    if (selectedIncorrectWords.length < 3) {
+      console.log(`Reverse question for "${word.word}": not enough same-POS distractors (${selectedIncorrectWords.length})`);
+      return null;
+    }
+    
+    // 選択した不正解候補を使用済みに追加
+    selectedIncorrectWords.forEach(option => usedIncorrectOptions.add(option));
+    
+    console.log(`Reverse question for "${word.word}": Selected ${selectedIncorrectWords.length} unique incorrect words`);
+    
+    const options = this.shuffleArray([word.word, ...selectedIncorrectWords]);
+    
+    return {
+      word: word,
+      question: 'Which word matches this definition?',
+      options: options,
+      correctAnswer: word.word,
+      type: 'reverse',
+      prompt: definition
+    };
+  }
+
   // 定義を選択肢とするクイズ問題を作成
   private createDefinitionQuestionWithPool(word: CefrQuizWord, incorrectWordsPool: CefrQuizWord[]): QuizQuestion {
     // 正解の定義
@@ -280,23 +685,23 @@ class EnrichedQuizService {
   }
   
   // 使用済み不正解候補を追跡する同義語クイズ作成
-  private createSynonymQuestionWithTracking(
+  private async createSynonymQuestionWithTracking(
     word: CefrQuizWord, 
     incorrectWordsPool: CefrQuizWord[], 
-    usedIncorrectOptions: Set<string>
-  ): QuizQuestion {
+    usedIncorrectOptions: Set<string>,
+    difficulty: DistractorDifficulty
+  ): Promise<QuizQuestion> {
     const synonyms = word.synonyms!.split(',').map(s => s.trim()).filter(s => s.length > 0);
     const correctSynonym = synonyms[0];
     
-    // 使用済みでない不正解単語を選択
-    const availableIncorrectWords = incorrectWordsPool
-      .filter(w => w.word !== word.word && !usedIncorrectOptions.has(w.word))
-      .map(w => w.word)
-      .slice(0, 10); // 候補を多く取得してからランダムに選択
-    
-    // ランダムに3つ選択
-    const shuffledAvailable = this.shuffleArray(availableIncorrectWords);
-    const selectedIncorrectWords = shuffledAvailable.slice(0, 3);
+    // 難易度に応じて使用済みでない不正解単語を選択（同義語は除く）
+    const distractorWords = await distractorService.selectDistractors(word, incorrectWordsPool, {
+      difficulty,
+      count: 3,
+      exclude: usedIncorrectOptions,
+      optionOf: w => w.word
+    });
+    const selectedIncorrectWords = distractorWords.map(w => w.word);
     
     // 選択した不正解候補を使用済みに追加
     selectedIncorrectWords.forEach(word => usedIncorrectOptions.add(word));
@@ -358,24 +763,99 @@ class EnrichedQuizService {
     };
   }
   
-  // 使用済み不正解候補を追跡する例文クイズ作成
-  private createExampleQuestionWithTracking(
+  // 使用済み不正解候補を追跡する反意語クイズ作成
+  // 不正解候補は対象語自身の同義語と同じ品詞の単語から選ぶ（品詞や意味の違いだけで正解を推測できないように）
+  private createAntonymQuestionWithTracking(
     word: CefrQuizWord, 
     incorrectWordsPool: CefrQuizWord[], 
     usedIncorrectOptions: Set<string>
-  ): QuizQuestion {
-    const example = word.example_sentence!;
-    const hiddenExample = example.replace(new RegExp(word.word, 'gi'), '____');
+  ): QuizQuestion | null {
+    const splitList = (value?: string) => (value || '').split(',').map(s => s.trim()).filter(s => s.length > 0);
     
-    // 使用済みでない不正解単語を選択
-    const availableIncorrectWords = incorrectWordsPool
-      .filter(w => w.word !== word.word && !usedIncorrectOptions.has(w.word))
-      .map(w => w.word)
-      .slice(0, 10); // 候補を多く取得してからランダムに選択
+    const antonyms = splitList(word.antonyms);
+    const antonymSet = new Set(antonyms.map(a => a.toLowerCase()));
+    // 1語の反意語を優先
+    const correctAntonym = antonyms.find(a => !a.includes(' ')) || antonyms[0];
+    if (!correctAntonym) return null;
     
-    // ランダムに3つ選択
-    const shuffledAvailable = this.shuffleArray(availableIncorrectWords);
-    const selectedIncorrectWords = shuffledAvailable.slice(0, 3);
+    const isUsable = (candidate: string) => {
+      const lower = candidate.toLowerCase();
+      return lower !== word.word.toLowerCase() && !antonymSet.has(lower) && !usedIncorrectOptions.has(candidate);
+    };
+    
+    // 対象語の同義語（反意語とは逆の意味なので紛らわしい不正解になる）
+    const synonymCandidates = this.shuffleArray(
+      splitList(word.synonyms).filter(s => !s.includes(' ') && isUsable(s))
+    );
+    // 同じ品詞の単語
+    const samePosCandidates = this.shuffleArray(
+      incorrectWordsPool.filter(w => w.pos === word.pos).map(w => w.word).filter(isUsable)
+    );
+    // 最後の手段：品詞が異なる単語
+    const otherCandidates = this.shuffleArray(
+      incorrectWordsPool.filter(w => w.pos !== word.pos).map(w => w.word).filter(isUsable)
+    );
+    
+    // 同義語から最大2つ、残りは同じ品詞の単語から選択
+    const selectedIncorrectWords: string[] = [];
+    const candidates = [
+      ...synonymCandidates.slice(0, 2),
+      ...samePosCandidates,
+      ...synonymCandidates.slice(2),
+      ...otherCandidates
+    ];
+    for (const candidate of candidates) {
+      if (selectedIncorrectWords.length >= 3) break;
+      if (!selectedIncorrectWords.some(selected => selected.toLowerCase() === candidate.toLowerCase())) {
+        selectedIncorrectWords.push(candidate);
+      }
+    }
+    
+    // 汎用的な単語では品詞の違いで正解がわかってしまうため、足りない場合は他の形式に任せる
+    if (selectedIncorrectWords.length < 3) {
+      console.log(`Antonym question for "${word.word}": not enough distractors (${selectedIncorrectWords.length})`);
+      return null;
+    }
+    
+    // 選択した不正解候補を使用済みに追加
+    selectedIncorrectWords.forEach(option => usedIncorrectOptions.add(option));
+    
+    console.log(`Antonym question for "${word.word}": Selected ${selectedIncorrectWords.length} unique incorrect words`);
+    
+    const options = this.shuffleArray([correctAntonym, ...selectedIncorrectWords]);
+    
+    return {
+      word: word,
+      question: `Which word is the opposite of "${word.word}"?`,
+      options: options,
+      correctAnswer: correctAntonym,
+      type: 'antonym'
+    };
+  }
+  
+  // 使用済み不正解候補を追跡する例文クイズ作成
+  // 例文中に単語（活用形を含む）が見つからない、または空欄にしても答えが見える場合はnull
+  private async createExampleQuestionWithTracking(
+    word: CefrQuizWord, 
+    incorrectWordsPool: CefrQuizWord[], 
+    usedIncorrectOptions: Set<string>,
+    difficulty: DistractorDifficulty
+  ): Promise<QuizQuestion | null> {
+    const cloze = morphology.createCloze(word.example_sentence!, word.word, word.pos);
+    if (!cloze) {
+      console.log(`Example for "${word.word}" rejected: target not found cleanly in "${word.example_sentence}"`);
+      return null;
+    }
+    const hiddenExample = cloze.text;
+    
+    // 難易度に応じて使用済みでない不正解単語を選択（同義語は除く）
+    const distractorWords = await distractorService.selectDistractors(word, incorrectWordsPool, {
+      difficulty,
+      count: 3,
+      exclude: usedIncorrectOptions,
+      optionOf: w => w.word
+    });
+    const selectedIncorrectWords = distractorWords.map(w => w.word);
     
     // 選択した不正解候補を使用済みに追加
     selectedIncorrectWords.forEach(word => usedIncorrectOptions.add(word));
@@ -411,14 +891,18 @@ class EnrichedQuizService {
       question: `Fill in the blank: ${hiddenExample}`,
       options: options,
       correctAnswer: word.word,
-      type: 'example'
+      type: 'example',
+      prompt: hiddenExample
     };
   }
 
   // 例文クイズ問題を作成
-  private createExampleQuestionWithPool(word: CefrQuizWord, incorrectWordsPool: CefrQuizWord[]): QuizQuestion {
-    const example = word.example_sentence!;
-    const hiddenExample = example.replace(new RegExp(word.word, 'gi'), '____');
+  private createExampleQuestionWithPool(word: CefrQuizWord, incorrectWordsPool: CefrQuizWord[]): QuizQuestion | null {
+    const cloze = morphology.createCloze(word.example_sentence!, word.word, word.pos);
+    if (!cloze) {
+      return null;
+    }
+    const hiddenExample = cloze.text;
     
     // 他の単語から不正解選択肢を作成
     const incorrectOptions = incorrectWordsPool
@@ -433,7 +917,8 @@ class EnrichedQuizService {
       question: `Fill in the blank: ${hiddenExample}`,
       options: options,
       correctAnswer: word.word,
-      type: 'example'
+      type: 'example',
+      prompt: hiddenExample
     };
   }
   
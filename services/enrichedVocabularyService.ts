@@ -1,119 +1,48 @@
+import { FrequencyBand, QuizFilterSpec } from '../types';
+import { CefrWordDetailsRow, databaseService, WordDetailsEntry } from './database';
 import { CefrQuizWord } from './enrichedQuizService';
+import { EnrichedWord, VocabularyPackFile, vocabularyPackService } from './vocabularyPackService';
 
-// 静的インポート（React Native対応）
-import enrichedA1Data from './enriched_vocabulary_A1.json';
-import enrichedA2Data from './enriched_vocabulary_A2.json';
-import enrichedB1Data from './enriched_vocabulary_B1.json';
-import enrichedB2Data from './enriched_vocabulary_B2.json';
-import enrichedC1Data from './enriched_vocabulary_C1.json';
-import enrichedC2Data from './enriched_vocabulary_C2.json';
-
-// Enriched vocabulary data structure
-interface EnrichedVocabularyData {
-  metadata: {
-    source: string;
-    cefrLevel: string;
-    wordCount: number;
-    createdDate: string;
-    description: string;
-    enrichedDate: string;
-    totalWords: number;
-    wordsWithApiData: number;
-    wordsWithoutApiData: number;
-    apiDataCoverage: number;
-    totalApiRequests: number;
-    failedApiRequests: number;
-    apiSource: string;
-  };
-  vocabulary: EnrichedWord[];
-}
-
-interface EnrichedWord {
-  word: string;
-  pos: string;
-  cefr: string;
-  coreInventory1: any;
-  coreInventory2: any;
-  threshold: any;
-  apiData: {
-    pronunciation?: {
-      all?: string;
-    };
-    definitions?: {
-      definition: string;
-      partOfSpeech: string;
-      derivation: string[];
-      typeOf: string[];
-      hasTypes: string[];
-      partOf: string[];
-      hasParts: string[];
-      similarTo: string[];
-      also: string[];
-    }[];
-    syllables?: {
-      count: number;
-      list: string[];
-    };
-    frequency?: number;
-    examples?: string[];
-    synonyms?: string[];
-    antonyms?: string[];
-  };
-}
+type RelationField = 'typeOf' | 'hasTypes' | 'similarTo';
 
 class EnrichedVocabularyService {
-  private vocabularyCache: Map<string, EnrichedVocabularyData> = new Map();
-  
-  // 事前定義された語彙データマッピング（React Native対応）
-  private vocabularyData: { [key: string]: EnrichedVocabularyData } = {
-    'A1': enrichedA1Data as EnrichedVocabularyData,
-    'A2': enrichedA2Data as EnrichedVocabularyData,
-    'B1': enrichedB1Data as EnrichedVocabularyData,
-    'B2': enrichedB2Data as EnrichedVocabularyData,
-    'C1': enrichedC1Data as EnrichedVocabularyData,
-    'C2': enrichedC2Data as EnrichedVocabularyData,
-    // 将来追加: 'A2': enrichedA2Data, 'B1': enrichedB1Data, など
-  };
+  // SQLiteへの取り込みが完了したレベル（取り込み前のレベルは語彙データのJSONを検索する）
+  private indexedLevels: Set<string> = new Set();
   
-  // レベル別の詳細語彙データを取得
-  async getEnrichedVocabulary(cefrLevel: string): Promise<EnrichedVocabularyData> {
-    // キャッシュから取得を試行
-    if (this.vocabularyCache.has(cefrLevel)) {
-      return this.vocabularyCache.get(cefrLevel)!;
-    }
-    
+  // レベル別の詳細語彙データ（インストール済みの語彙パック）を取得
+  async getEnrichedVocabulary(cefrLevel: string): Promise<VocabularyPackFile> {
     try {
-      console.log(`Loading enriched vocabulary for level: ${cefrLevel}`);
-      
-      // 静的にインポートされた語彙データを取得
-      const vocabularyData = this.loadVocabularyData(cefrLevel);
-      
-      console.log(`Loaded ${vocabularyData.vocabulary.length} enriched words for ${cefrLevel}`);
-      console.log(`API data coverage: ${vocabularyData.metadata.apiDataCoverage}%`);
-      
-      // キャッシュに保存
-      this.vocabularyCache.set(cefrLevel, vocabularyData);
-      
-      return vocabularyData;
+      return await vocabularyPackService.getPackVocabulary(cefrLevel);
     } catch (error) {
-      console.error(`Failed to load enriched vocabulary for ${cefrLevel}:`, error);
+      console.warn(`Failed to load enriched vocabulary for ${cefrLevel}:`, error);
       throw new Error(`Enriched vocabulary data not available for level: ${cefrLevel}`);
     }
   }
   
-  // 静的インポートされた語彙データを取得（React Native対応）
-  private loadVocabularyData(cefrLevel: string): EnrichedVocabularyData {
-    const vocabularyData = this.vocabularyData[cefrLevel];
-    
-    if (!vocabularyData) {
-      throw new Error(`Vocabulary data not available for level: ${cefrLevel}. Available levels: ${Object.keys(this.vocabularyData).join(', ')}`);
+  // 語彙の取り込みが完了・やり直しになったときに呼ばれる
+  setLevelIndexed(cefrLevel: string, indexed: boolean): void {
+    if (indexed) {
+      this.indexedLevels.add(cefrLevel);
+      vocabularyPackService.releaseVocabulary(cefrLevel);
+    } else {
+      this.indexedLevels.delete(cefrLevel);
     }
-    
-    return vocabularyData;
+  }
+  
+  private isIndexed(cefrLevels: string[]): boolean {
+    return databaseService.isInitialized() && cefrLevels.length > 0 && cefrLevels.every(level => this.indexedLevels.has(level));
   }
   
   // 指定されたレベルからランダムに単語を取得
   async getRandomEnrichedWords(cefrLevel: string, count: number = 40): Promise<CefrQuizWord[]> {
+    if (this.isIndexed([cefrLevel])) {
+      const rows = await databaseService.queryCefrWordDetails({ cefrLevels: [cefrLevel], random: true, limit: count });
+      if (rows.length === 0) {
+        throw new Error(`No words available for level: ${cefrLevel}`);
+      }
+      return rows.map(row => this.rowToQuizWord(row));
+    }
+    
     const vocabularyData = await this.getEnrichedVocabulary(cefrLevel);
     const words = vocabularyData.vocabulary;
     
@@ -128,8 +57,215 @@ class EnrichedVocabularyService {
     const selectedWords = shuffledWords.slice(0, Math.min(count, words.length));
     
     // CefrQuizWord形式に変換
-    const quizWords: CefrQuizWord[] = selectedWords.map((word, index) => ({
-      id: index + 1,
+    const quizWords: CefrQuizWord[] = selectedWords.map((word, index) => this.toQuizWord(word, index + 1));
+    
+    console.log(`Converted ${quizWords.length} words to quiz format`);
+    console.log(`Sample words: ${quizWords.slice(0, 5).map(w => w.word).join(', ')}`);
+    
+    return quizWords;
+  }
+  
+  // 指定レベルの単語をCefrQuizWord形式で取得（見つからない場合はnull）
+  async getEnrichedWord(word: string, cefrLevel: string): Promise<CefrQuizWord | null> {
+    try {
+      if (this.isIndexed([cefrLevel])) {
+        const rows = await databaseService.queryCefrWordDetails({ cefrLevels: [cefrLevel], words: [word], limit: 1 });
+        return rows.length > 0 ? this.rowToQuizWord(rows[0]) : null;
+      }
+      
+      const vocabularyData = await this.getEnrichedVocabulary(cefrLevel);
+      const index = vocabularyData.vocabulary.findIndex(w => w.word.toLowerCase() === word.toLowerCase());
+      return index >= 0 ? this.toQuizWord(vocabularyData.vocabulary[index], index + 1) : null;
+    } catch (error) {
+      console.warn(`Failed to get enriched word ${word} (${cefrLevel}):`, error);
+      return null;
+    }
+  }
+  
+  // 指定レベルの単語をすべてCefrQuizWord形式で取得（posを指定するとその品詞のみ）
+  async getLevelWords(cefrLevel: string, pos?: string): Promise<CefrQuizWord[]> {
+    try {
+      if (this.isIndexed([cefrLevel])) {
+        const rows = await databaseService.queryCefrWordDetails({ cefrLevels: [cefrLevel], partsOfSpeech: pos ? [pos] : undefined });
+        return rows.map(row => this.rowToQuizWord(row));
+      }
+      
+      const vocabularyData = await this.getEnrichedVocabulary(cefrLevel);
+      const words: CefrQuizWord[] = [];
+      
+      vocabularyData.vocabulary.forEach((word, index) => {
+        if (!pos || word.pos === pos) {
+          words.push(this.toQuizWord(word, index + 1));
+        }
+      });
+      
+      return words;
+    } catch (error) {
+      console.warn(`Failed to get words for ${cefrLevel}:`, error);
+      return [];
+    }
+  }
+  
+  // 指定レベル・品詞の単語をランダムに取得（excludeに含まれる単語は除く）
+  async getRandomWordsByPos(cefrLevel: string, pos: string, count: number, exclude: string[] = []): Promise<CefrQuizWord[]> {
+    try {
+      if (this.isIndexed([cefrLevel])) {
+        const rows = await databaseService.queryCefrWordDetails({
+          cefrLevels: [cefrLevel],
+          partsOfSpeech: [pos],
+          exclude,
+          random: true,
+          limit: count,
+        });
+        return rows.map(row => this.rowToQuizWord(row));
+      }
+      
+      const vocabularyData = await this.getEnrichedVocabulary(cefrLevel);
+      const excluded = new Set(exclude.map(w => w.toLowerCase()));
+      const matches: CefrQuizWord[] = [];
+      
+      vocabularyData.vocabulary.forEach((word, index) => {
+        if (word.pos === pos && !excluded.has(word.word.toLowerCase())) {
+          matches.push(this.toQuizWord(word, index + 1));
+        }
+      });
+      
+      return this.enhancedShuffle(matches).slice(0, count);
+    } catch (error) {
+      console.warn(`Failed to get ${pos} words for ${cefrLevel}:`, error);
+      return [];
+    }
+  }
+  
+  // 語彙データだけで判定できる条件（レベル・品詞・頻度帯）で単語を検索
+  // 頻度帯を指定した場合、頻度データのない単語は含めない
+  async queryWords(filter: Pick<QuizFilterSpec, 'cefrLevels' | 'partsOfSpeech' | 'frequencyBands'>): Promise<CefrQuizWord[]> {
+    const levels = filter.cefrLevels && filter.cefrLevels.length > 0
+      ? filter.cefrLevels
+      : await this.getAvailableLevels();
+    const posSet = filter.partsOfSpeech && filter.partsOfSpeech.length > 0 ? new Set(filter.partsOfSpeech) : null;
+    const bandSet = filter.frequencyBands && filter.frequencyBands.length > 0 ? new Set(filter.frequencyBands) : null;
+    const matches: CefrQuizWord[] = [];
+    
+    for (const level of levels) {
+      try {
+        if (this.isIndexed([level])) {
+          const rows = await databaseService.queryCefrWordDetails({ cefrLevels: [level], partsOfSpeech: filter.partsOfSpeech });
+          rows.forEach(row => {
+            if (bandSet) {
+              const band = this.getFrequencyBand(row.frequency_score ?? undefined);
+              if (!band || !bandSet.has(band)) return;
+            }
+            matches.push(this.rowToQuizWord(row));
+          });
+          continue;
+        }
+        
+        const vocabularyData = await this.getEnrichedVocabulary(level);
+        vocabularyData.vocabulary.forEach((word, index) => {
+          if (posSet && !posSet.has(word.pos)) return;
+          if (bandSet) {
+            const band = this.getFrequencyBand(word.apiData?.frequency);
+            if (!band || !bandSet.has(band)) return;
+          }
+          matches.push(this.toQuizWord(word, index + 1));
+        });
+      } catch (error) {
+        console.warn(`Failed to query words for ${level}:`, error);
+      }
+    }
+    
+    return matches;
+  }
+  
+  // 指定レベルに含まれる品詞（単語数の多い順）
+  // データの誤記など単語数がminWords未満の品詞は除く
+  async getPartsOfSpeech(cefrLevels?: string[], minWords: number = 5): Promise<string[]> {
+    const levels = cefrLevels && cefrLevels.length > 0 ? cefrLevels : await this.getAvailableLevels();
+    if (this.isIndexed(levels)) {
+      const posCounts = await databaseService.getCefrPartOfSpeechCounts(levels);
+      return posCounts.filter(({ count }) => count >= minWords).map(({ pos }) => pos);
+    }
+    
+    const counts = new Map<string, number>();
+    
+    for (const level of levels) {
+      try {
+        const vocabularyData = await this.getEnrichedVocabulary(level);
+        vocabularyData.vocabulary.forEach(word => {
+          if (word.pos) counts.set(word.pos, (counts.get(word.pos) || 0) + 1);
+        });
+      } catch (error) {
+        console.warn(`Failed to get parts of speech for ${level}:`, error);
+      }
+    }
+    
+    return Array.from(counts.entries())
+      .filter(([, count]) => count >= minWords)
+      .sort((a, b) => b[1] - a[1])
+      .map(([pos]) => pos);
+  }
+  
+  // Zipf値（おおよそ1-7、高いほどよく使われる）を頻度帯に分類
+  getFrequencyBand(frequency?: number): FrequencyBand | undefined {
+    if (frequency === undefined || frequency === null) return undefined;
+    if (frequency >= 3.5) return 'common';
+    if (frequency >= 2.5) return 'intermediate';
+    return 'rare';
+  }
+  
+  // 取り込んだ単語（cefr_words + word_details）をCefrQuizWord形式に変換
+  private rowToQuizWord(row: CefrWordDetailsRow): CefrQuizWord {
+    let relations: Partial<Record<RelationField, string[]>> = {};
+    try {
+      relations = row.relations ? JSON.parse(row.relations) : {};
+    } catch (error) {
+      console.warn(`Invalid relations for ${row.word}:`, error);
+    }
+    
+    return {
+      id: row.id,
+      word: row.word,
+      pos: row.pos || undefined,
+      cefr_level: row.cefr_level,
+      definition: row.definition || undefined,
+      pronunciation: row.pronunciation || undefined,
+      example_sentence: row.example_sentence || undefined,
+      synonyms: row.synonyms || undefined,
+      antonyms: row.antonyms || undefined,
+      frequency: row.frequency_score ?? undefined,
+      typeOf: relations.typeOf,
+      hasTypes: relations.hasTypes,
+      similarTo: relations.similarTo,
+    };
+  }
+  
+  // SQLiteに取り込む単語の詳細（toQuizWordと同じ定義・例文・関連語を選ぶ）
+  toWordDetailsEntry(word: EnrichedWord): WordDetailsEntry {
+    const relations: Partial<Record<RelationField, string[]>> = {};
+    (['typeOf', 'hasTypes', 'similarTo'] as RelationField[]).forEach(field => {
+      const values = this.collectRelations(word, field);
+      if (values) relations[field] = values;
+    });
+    
+    return {
+      word: word.word,
+      pos: word.pos || null,
+      cefrLevel: word.cefr,
+      coreInventory: word.coreInventory1 ? 1 : 0,
+      definition: this.extractBestDefinition(word) || undefined,
+      pronunciation: word.apiData?.pronunciation?.all || undefined,
+      exampleSentence: this.extractBestExample(word) || undefined,
+      synonyms: word.apiData?.synonyms?.join(', ') || undefined,
+      antonyms: word.apiData?.antonyms?.join(', ') || undefined,
+      relations: Object.keys(relations).length > 0 ? JSON.stringify(relations) : undefined,
+      frequency: word.apiData?.frequency,
+    };
+  }
+  
+  private toQuizWord(word: EnrichedWord, id: number): CefrQuizWord {
+    return {
+      id,
       word: word.word,
       pos: word.pos,
       cefr_level: word.cefr,
@@ -138,12 +274,20 @@ class EnrichedVocabularyService {
       example_sentence: this.extractBestExample(word) || undefined,
       synonyms: word.apiData?.synonyms?.join(', ') || undefined,
       antonyms: word.apiData?.antonyms?.join(', ') || undefined,
-    }));
-    
-    console.log(`Converted ${quizWords.length} words to quiz format`);
-    console.log(`Sample words: ${quizWords.slice(0, 5).map(w => w.word).join(', ')}`);
-    
-    return quizWords;
+      frequency: word.apiData?.frequency,
+      typeOf: this.collectRelations(word, 'typeOf'),
+      hasTypes: this.collectRelations(word, 'hasTypes'),
+      similarTo: this.collectRelations(word, 'similarTo'),
+    };
+  }
+  
+  // 見出し語の品詞に合う定義から関連語を集める（該当する定義がなければ全定義から）
+  private collectRelations(word: EnrichedWord, field: RelationField): string[] | undefined {
+    const definitions = word.apiData?.definitions || [];
+    const samePos = definitions.filter(d => d.partOfSpeech === word.pos);
+    const source = samePos.length > 0 ? samePos : definitions;
+    const relations = Array.from(new Set(source.flatMap(d => d[field] || [])));
+    return relations.length > 0 ? relations : undefined;
   }
   
   // 単語から最適な定義を抽出
@@ -169,8 +313,9 @@ class EnrichedVocabularyService {
   async getWordsFromMultipleLevels(primaryLevel: string, totalWords: number = 40): Promise<CefrQuizWord[]> {
     let combinedWords: CefrQuizWord[] = [];
     
-    // 優先順位付きレベルリスト
-    const prioritizedLevels = this.getPrioritizedLevels(primaryLevel);
+    // 優先順位付きレベルリスト（語彙パックがインストールされているレベルのみ）
+    const availableLevels = await this.getAvailableLevels();
+    const prioritizedLevels = this.getPrioritizedLevels(primaryLevel).filter(level => availableLevels.includes(level));
     
     for (const level of prioritizedLevels) {
       if (combinedWords.length >= totalWords) break;
@@ -281,10 +426,22 @@ class EnrichedVocabularyService {
     return shuffled;
   }
   
-  // 利用可能なレベルをチェック
+  // 語彙パックがインストールされているレベル（易しい順）
   async getAvailableLevels(): Promise<string[]> {
-    // 静的にインポートされたデータから利用可能なレベルを返す
-    return Object.keys(this.vocabularyData);
+    return vocabularyPackService.getInstalledLevels();
+  }
+  
+  // 語彙パックがインストールされていないレベルは、最も近いインストール済みのレベルに置き換える
+  async resolveLevel(cefrLevel: string): Promise<string> {
+    const availableLevels = await this.getAvailableLevels();
+    if (availableLevels.includes(cefrLevel)) return cefrLevel;
+    
+    const fallback = this.getAdjacentCefrLevels(cefrLevel).find(level => availableLevels.includes(level));
+    if (!fallback) {
+      throw new Error('No vocabulary packs are installed');
+    }
+    console.warn(`Level ${cefrLevel} not installed, falling back to ${fallback}`);
+    return fallback;
   }
 
   // 追加: 全CEFRレベル横断で前方一致検索（最大limit件）
@@ -301,13 +458,33 @@ class EnrichedVocabularyService {
     const query = prefix.trim().toLowerCase();
     if (!query) return [];
 
-    const levels = Object.keys(this.vocabularyData);
+    const levels = await this.getAvailableLevels();
+    if (this.isIndexed(levels)) {
+      const rows = await databaseService.queryCefrWordDetails({ cefrLevels: levels, prefix: query, limit });
+      return rows.map(row => ({
+        word: row.word,
+        cefr: row.cefr_level,
+        definition: row.definition || undefined,
+        pronunciation: row.pronunciation || undefined,
+        example: row.example_sentence || undefined,
+        synonyms: row.synonyms ? row.synonyms.split(', ') : undefined,
+        antonyms: row.antonyms ? row.antonyms.split(', ') : undefined,
+        pos: row.pos || undefined,
+      }));
+    }
+
     const results: {
       word: string; cefr: string; definition?: string; pronunciation?: string; example?: string; synonyms?: string[]; antonyms?: string[]; pos?: string;
     }[] = [];
 
     for (const level of levels) {
-      const data = this.vocabularyData[level];
+      let data: VocabularyPackFile;
+      try {
+        data = await this.getEnrichedVocabulary(level);
+      } catch (error) {
+        console.warn(`Skipping ${level} in search:`, error);
+        continue;
+      }
       // できるだけ軽量に前方一致で抽出
       for (let i = 0; i < data.vocabulary.length; i++) {
         const v = data.vocabulary[i];
@@ -330,6 +507,48 @@ class EnrichedVocabularyService {
 
     return results.slice(0, limit);
   }
+
+  // 単語リストを完全一致（大文字小文字を区別しない）で検索し、最初に見つかったレベルの単語を返す
+  async findWordsAcrossLevels(words: string[]): Promise<Map<string, { word: string; cefr: string; definition?: string }>> {
+    const targets = new Set(words.map(word => word.trim().toLowerCase()).filter(Boolean));
+    const found = new Map<string, { word: string; cefr: string; definition?: string }>();
+    if (targets.size === 0) return found;
+
+    const levels = await this.getAvailableLevels();
+    if (this.isIndexed(levels)) {
+      // レベルの易しい順に並ぶので、最初に見つかった行を残す
+      const rows = await databaseService.queryCefrWordDetails({ cefrLevels: levels, words: Array.from(targets) });
+      rows.forEach(row => {
+        const key = row.word.toLowerCase();
+        if (!found.has(key)) {
+          found.set(key, { word: row.word, cefr: row.cefr_level, definition: row.definition || undefined });
+        }
+      });
+      return found;
+    }
+
+    for (const level of levels) {
+      let data: VocabularyPackFile;
+      try {
+        data = await this.getEnrichedVocabulary(level);
+      } catch (error) {
+        console.warn(`Skipping ${level} in word lookup:`, error);
+        continue;
+      }
+      for (const v of data.vocabulary) {
+        const key = v.word.toLowerCase();
+        if (targets.has(key) && !found.has(key)) {
+          found.set(key, {
+            word: v.word,
+            cefr: v.cefr,
+            definition: this.extractBestDefinition(v) || undefined,
+          });
+        }
+      }
+    }
+
+    return found;
+  }
 }
 
 export const enrichedVocabularyService = new EnrichedVocabularyService(); 
\ No newline at end of file
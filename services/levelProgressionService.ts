@@ -0,0 +1,141 @@
+import { databaseService } from './database';
+import { enrichedQuizService, QuizQuestion } from './enrichedQuizService';
+import { enrichedVocabularyService } from './enrichedVocabularyService';
+import { CEFR_LEVEL_ORDER, placementTestService } from './placementTestService';
+
+export type LevelChangeDirection = 'promotion' | 'demotion';
+
+export interface LevelSuggestion {
+  direction: LevelChangeDirection;
+  fromLevel: string;
+  toLevel: string;
+  accuracy: number; // 現在のレベルでの直近の正答率（0-1）
+  attempts: number;
+}
+
+export interface LevelExamResult {
+  passed: boolean;
+  correctCount: number;
+  totalCount: number;
+  accuracy: number;
+}
+
+// クイズの回答履歴からCEFRレベルの昇格・降格を提案する
+// 昇格は短い確認テストに合格した場合のみ、降格は学習者の同意で反映する
+class LevelProgressionService {
+  readonly WINDOW_SIZE = 50; // レベルごとに集計する直近の回答数
+  readonly MIN_ATTEMPTS = 30; // これより少ない回答数では判断しない
+  readonly PROMOTION_ACCURACY = 0.85;
+  readonly DEMOTION_ACCURACY = 0.5;
+  readonly EXAM_QUESTION_COUNT = 10;
+  readonly EXAM_PASS_ACCURACY = 0.8;
+  private readonly COOLDOWN_DAYS = 7; // 判定・見送りの後しばらくは再提案しない
+
+  async getSuggestion(): Promise<LevelSuggestion | null> {
+    try {
+      const userLevel = await databaseService.getUserCefrLevel();
+      if (this.isInCooldown(userLevel.last_assessment_date) || this.isInCooldown(userLevel.suggestion_dismissed_date)) {
+        return null;
+      }
+
+      const fromLevel: string = userLevel.current_level;
+      const stats = (await databaseService.getLevelAccuracy(this.WINDOW_SIZE))
+        .find(s => s.cefrLevel === fromLevel);
+      if (!stats || stats.attempts < this.MIN_ATTEMPTS) return null;
+
+      let direction: LevelChangeDirection;
+      if (stats.accuracy >= this.PROMOTION_ACCURACY) {
+        direction = 'promotion';
+      } else if (stats.accuracy < this.DEMOTION_ACCURACY) {
+        direction = 'demotion';
+      } else {
+        return null;
+      }
+
+      const toLevel = await this.findAdjacentLevel(fromLevel, direction);
+      if (!toLevel) return null;
+
+      return { direction, fromLevel, toLevel, accuracy: stats.accuracy, attempts: stats.attempts };
+    } catch (error) {
+      console.error('Error getting level suggestion:', error);
+      return null;
+    }
+  }
+
+  // 昇格先のレベルで確認テストを作成
+  async createExam(suggestion: LevelSuggestion): Promise<QuizQuestion[]> {
+    return enrichedQuizService.createEnrichedCefrQuiz(suggestion.toLevel, this.EXAM_QUESTION_COUNT, {
+      allowedTypes: ['definition'],
+      distractorDifficulty: 'medium'
+    });
+  }
+
+  // 確認テストの結果を反映（不合格でも判定日時は記録する。判定の確信度は前回の判定のまま）
+  async completeExam(suggestion: LevelSuggestion, correctCount: number, totalCount: number): Promise<LevelExamResult> {
+    const accuracy = totalCount > 0 ? correctCount / totalCount : 0;
+    const passed = totalCount > 0 && accuracy >= this.EXAM_PASS_ACCURACY;
+
+    try {
+      if (passed) {
+        await this.applyLevel(suggestion.toLevel, Math.round(accuracy * 100) / 100);
+      } else {
+        await databaseService.markLevelAssessed();
+      }
+    } catch (error) {
+      console.error('Error saving level exam result:', error);
+      throw new Error(`Failed to save level exam result: ${error}`);
+    }
+
+    console.log(`Level exam ${suggestion.fromLevel} -> ${suggestion.toLevel}: ${correctCount}/${totalCount} (${passed ? 'passed' : 'failed'})`);
+    return { passed, correctCount, totalCount, accuracy };
+  }
+
+  async acceptDemotion(suggestion: LevelSuggestion): Promise<void> {
+    try {
+      // 正答率が低いほど下のレベルが適切である可能性が高い
+      await this.applyLevel(suggestion.toLevel, Math.round((1 - suggestion.accuracy) * 100) / 100);
+    } catch (error) {
+      console.error('Error applying level demotion:', error);
+      throw new Error(`Failed to change level: ${error}`);
+    }
+  }
+
+  async dismissSuggestion(): Promise<void> {
+    try {
+      await databaseService.dismissLevelSuggestion();
+    } catch (error) {
+      console.error('Error dismissing level suggestion:', error);
+    }
+  }
+
+  // 新しいレベルが目標以上になったら目標を1つ上に更新
+  private async applyLevel(level: string, confidence: number): Promise<void> {
+    const existing = await databaseService.getUserCefrLevel();
+    const targetLevel = CEFR_LEVEL_ORDER.indexOf(existing.target_level) > CEFR_LEVEL_ORDER.indexOf(level)
+      ? existing.target_level
+      : placementTestService.suggestTargetLevel(level);
+
+    await databaseService.updateUserCefrLevel(level, targetLevel, confidence);
+  }
+
+  // 語彙がインストールされている隣のレベル（なければnull）
+  private async findAdjacentLevel(level: string, direction: LevelChangeDirection): Promise<string | null> {
+    const availableLevels = await enrichedVocabularyService.getAvailableLevels();
+    const index = CEFR_LEVEL_ORDER.indexOf(level);
+    const candidates = direction === 'promotion'
+      ? CEFR_LEVEL_ORDER.slice(index + 1)
+      : CEFR_LEVEL_ORDER.slice(0, index).reverse();
+
+    return candidates.find(candidate => availableLevels.includes(candidate)) ?? null;
+  }
+
+  // SQLiteのUTC日時文字列（YYYY-MM-DD HH:MM:SS）からの経過日数で判定
+  private isInCooldown(value: string | null | undefined): boolean {
+    if (!value) return false;
+    const date = new Date(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`);
+    if (isNaN(date.getTime())) return false;
+    return Date.now() - date.getTime() < this.COOLDOWN_DAYS * 24 * 60 * 60 * 1000;
+  }
+}
+
+export const levelProgressionService = new LevelProgressionService();
@@ -0,0 +1,558 @@
+import * as SQLite from 'expo-sqlite';
+
+// スキーマのマイグレーション（versionの順に1回だけ実行され、schema_versionに記録される）
+// 一度リリースしたマイグレーションは変更せず、スキーマを変えるときは末尾に追加する
+// destructive: データを書き換える・削除するマイグレーション（実行前にデータベースを複製する）
+export interface Migration {
+  version: number;
+  name: string;
+  destructive?: boolean;
+  up: (db: SQLite.SQLiteDatabase) => Promise<void>;
+}
+
+// テーブルに存在しないカラムだけを追加
+// マイグレーション導入前のインストールでは、どのカラムまで追加済みかが端末ごとに異なるため
+export const addColumnIfMissing = async (
+  db: SQLite.SQLiteDatabase,
+  table: string,
+  column: string,
+  definition: string
+): Promise<void> => {
+  const columns = await db.getAllAsync<{ name: string }>(`PRAGMA table_info(${table})`);
+  if (!columns.some(c => c.name === column)) {
+    await db.execAsync(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition};`);
+    console.log(`Added column ${table}.${column}`);
+  }
+};
+
+// 同期キーのない学習セッション（同期機能の追加前・バックアップから復元）に端末をまたいで重複しないキーを付ける
+export const assignSessionSyncKeys = async (db: SQLite.SQLiteDatabase): Promise<void> => {
+  await db.runAsync(`
+    UPDATE study_sessions SET sync_key = 'local-' || id || '-' || lower(hex(randomblob(6))) WHERE sync_key IS NULL
+  `);
+};
+
+// 語彙データにある組み込みの単語（デッキに入っていないwordsの単語）の進捗・ブックマークをenriched単語に移し、
+// wordsテーブルには学習者が追加したカスタム単語だけを残す（マイグレーション11。リリース済みのため変更しない）
+// 例外: デッキから外したカスタム単語（category = 'custom'）も移して削除していたため、まだ実行していない端末向けに除外した
+export const moveBuiltInWordProgress = async (db: SQLite.SQLiteDatabase): Promise<void> => {
+  await db.execAsync(`
+    CREATE TEMP TABLE legacy_word_map AS
+      SELECT w.id AS word_id, c.word AS word, c.cefr_level AS cefr_level
+      FROM words w
+      INNER JOIN cefr_words c ON LOWER(c.word) = LOWER(w.word)
+      WHERE w.id NOT IN (SELECT word_id FROM deck_words WHERE word_id IS NOT NULL)
+        AND w.category IS NOT 'custom';
+
+    -- 両方に進捗がある単語は回答数を合算（復習スケジュールはenriched単語のものを残す）
+    UPDATE enriched_progress
+    SET attempts = enriched_progress.attempts + up.attempts,
+        correct_attempts = enriched_progress.correct_attempts + up.correct_attempts,
+        mastery_level = MIN(100, CAST(ROUND(
+          (enriched_progress.correct_attempts + up.correct_attempts + COALESCE(enriched_progress.near_miss_attempts, 0) * 0.5) * 100.0
+          / (enriched_progress.attempts + up.attempts)) AS INTEGER)),
+        last_attempt_date = NULLIF(MAX(COALESCE(enriched_progress.last_attempt_date, ''), COALESCE(up.last_attempt_date, '')), '')
+    FROM user_progress up
+    INNER JOIN legacy_word_map m ON m.word_id = up.word_id
+    WHERE enriched_progress.profile_id = up.profile_id
+      AND enriched_progress.word = m.word AND enriched_progress.cefr_level = m.cefr_level
+      AND up.attempts > 0;
+
+    INSERT INTO enriched_progress
+      (profile_id, word, cefr_level, attempts, correct_attempts, mastery_level, last_attempt_date,
+       ease_factor, interval_days, repetitions, lapses, last_review_date, next_review_date)
+    SELECT up.profile_id, m.word, m.cefr_level, up.attempts, up.correct_attempts, up.mastery_level, up.last_attempt_date,
+           up.ease_factor, up.interval_days, up.repetitions, up.lapses, up.last_review_date, up.next_review_date
+    FROM user_progress up
+    INNER JOIN legacy_word_map m ON m.word_id = up.word_id
+    WHERE up.attempts > 0 AND NOT EXISTS (
+      SELECT 1 FROM enriched_progress ep
+      WHERE ep.profile_id = up.profile_id AND ep.word = m.word AND ep.cefr_level = m.cefr_level
+    );
+
+    -- 苦手の判定はenriched単語の基準（習熟度30%以下）に揃える
+    UPDATE enriched_progress SET is_weak = (attempts > 0 AND mastery_level <= 30)
+    WHERE EXISTS (
+      SELECT 1 FROM legacy_word_map m
+      WHERE m.word = enriched_progress.word AND m.cefr_level = enriched_progress.cefr_level
+    );
+
+    INSERT INTO enriched_bookmarks (profile_id, word, cefr_level, created_at)
+    SELECT up.profile_id, m.word, m.cefr_level, COALESCE(up.last_attempt_date, datetime('now'))
+    FROM user_progress up
+    INNER JOIN legacy_word_map m ON m.word_id = up.word_id
+    WHERE up.is_bookmarked = 1 AND NOT EXISTS (
+      SELECT 1 FROM enriched_bookmarks eb
+      WHERE eb.profile_id = up.profile_id AND eb.word = m.word AND eb.cefr_level = m.cefr_level
+    );
+
+    UPDATE quiz_attempts SET word_id = NULL, word = m.word, cefr_level = m.cefr_level
+    FROM legacy_word_map m
+    WHERE quiz_attempts.word_id = m.word_id;
+
+    DELETE FROM user_progress WHERE word_id IN (SELECT word_id FROM legacy_word_map);
+    DELETE FROM words WHERE id IN (SELECT word_id FROM legacy_word_map);
+    DROP TABLE legacy_word_map;
+  `);
+};
+
+// 単語の種類の統合前に作成したバックアップの復元後に、moveBuiltInWordProgressと同じ移行を行う
+// 語彙の取り込み後は同じ単語が複数のレベルに登録されているため、一番易しいレベルに移す
+// 学習者が追加したカスタム単語（category = 'custom'）はデッキから外れていても移さない
+export const moveRestoredBuiltInWordProgress = async (db: SQLite.SQLiteDatabase): Promise<void> => {
+  await db.execAsync(`
+    CREATE TEMP TABLE legacy_word_map AS
+      SELECT w.id AS word_id, c.word AS word, MIN(c.cefr_level) AS cefr_level
+      FROM words w
+      INNER JOIN cefr_words c ON LOWER(c.word) = LOWER(w.word)
+      WHERE w.id NOT IN (SELECT word_id FROM deck_words WHERE word_id IS NOT NULL)
+        AND w.category IS NOT 'custom'
+      GROUP BY w.id;
+
+    -- 両方に進捗がある単語は回答数を合算（復習スケジュールはenriched単語のものを残す）
+    UPDATE enriched_progress
+    SET attempts = enriched_progress.attempts + up.attempts,
+        correct_attempts = enriched_progress.correct_attempts + up.correct_attempts,
+        mastery_level = MIN(100, CAST(ROUND(
+          (enriched_progress.correct_attempts + up.correct_attempts + COALESCE(enriched_progress.near_miss_attempts, 0) * 0.5) * 100.0
+          / (enriched_progress.attempts + up.attempts)) AS INTEGER)),
+        last_attempt_date = NULLIF(MAX(COALESCE(enriched_progress.last_attempt_date, ''), COALESCE(up.last_attempt_date, '')), '')
+    FROM user_progress up
+    INNER JOIN legacy_word_map m ON m.word_id = up.word_id
+    WHERE enriched_progress.profile_id = up.profile_id
+      AND enriched_progress.word = m.word AND enriched_progress.cefr_level = m.cefr_level
+      AND up.attempts > 0;
+
+    INSERT INTO enriched_progress
+      (profile_id, word, cefr_level, attempts, correct_attempts, mastery_level, last_attempt_date,
+       ease_factor, interval_days, repetitions, lapses, last_review_date, next_review_date)
+    SELECT up.profile_id, m.word, m.cefr_level, up.attempts, up.correct_attempts, up.mastery_level, up.last_attempt_date,
+           up.ease_factor, up.interval_days, up.repetitions, up.lapses, up.last_review_date, up.next_review_date
+    FROM user_progress up
+    INNER JOIN legacy_word_map m ON m.word_id = up.word_id
+    WHERE up.attempts > 0 AND NOT EXISTS (
+      SELECT 1 FROM enriched_progress ep
+      WHERE ep.profile_id = up.profile_id AND ep.word = m.word AND ep.cefr_level = m.cefr_level
+    );
+
+    -- 苦手の判定はenriched単語の基準（習熟度30%以下）に揃える
+    UPDATE enriched_progress SET is_weak = (attempts > 0 AND mastery_level <= 30)
+    WHERE EXISTS (
+      SELECT 1 FROM legacy_word_map m
+      WHERE m.word = enriched_progress.word AND m.cefr_level = enriched_progress.cefr_level
+    );
+
+    INSERT INTO enriched_bookmarks (profile_id, word, cefr_level, created_at)
+    SELECT up.profile_id, m.word, m.cefr_level, COALESCE(up.last_attempt_date, datetime('now'))
+    FROM user_progress up
+    INNER JOIN legacy_word_map m ON m.word_id = up.word_id
+    WHERE up.is_bookmarked = 1 AND NOT EXISTS (
+      SELECT 1 FROM enriched_bookmarks eb
+      WHERE eb.profile_id = up.profile_id AND eb.word = m.word AND eb.cefr_level = m.cefr_level
+    );
+
+    UPDATE quiz_attempts SET word_id = NULL, word = m.word, cefr_level = m.cefr_level
+    FROM legacy_word_map m
+    WHERE quiz_attempts.word_id = m.word_id;
+
+    DELETE FROM user_progress WHERE word_id IN (SELECT word_id FROM legacy_word_map);
+    DELETE FROM words WHERE id IN (SELECT word_id FROM legacy_word_map);
+    DROP TABLE legacy_word_map;
+  `);
+};
+
+const addSchedulingColumns = async (db: SQLite.SQLiteDatabase, table: string): Promise<void> => {
+  await addColumnIfMissing(db, table, 'ease_factor', 'REAL DEFAULT 2.5');
+  await addColumnIfMissing(db, table, 'interval_days', 'INTEGER DEFAULT 0');
+  await addColumnIfMissing(db, table, 'repetitions', 'INTEGER DEFAULT 0');
+  await addColumnIfMissing(db, table, 'lapses', 'INTEGER DEFAULT 0');
+  await addColumnIfMissing(db, table, 'last_review_date', 'DATETIME');
+  await addColumnIfMissing(db, table, 'next_review_date', 'DATETIME');
+};
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS words (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          word TEXT UNIQUE NOT NULL,
+          definition TEXT NOT NULL,
+          pronunciation TEXT,
+          difficulty INTEGER DEFAULT 1,
+          category TEXT DEFAULT 'general',
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS user_progress (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          word_id INTEGER NOT NULL,
+          attempts INTEGER DEFAULT 0,
+          correct_attempts INTEGER DEFAULT 0,
+          last_attempt_date DATETIME,
+          mastery_level INTEGER DEFAULT 0,
+          is_bookmarked BOOLEAN DEFAULT 0,
+          FOREIGN KEY (word_id) REFERENCES words (id)
+        );
+
+        CREATE TABLE IF NOT EXISTS study_sessions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          date DATE NOT NULL,
+          duration_minutes INTEGER NOT NULL,
+          words_studied INTEGER NOT NULL,
+          correct_answers INTEGER NOT NULL,
+          total_questions INTEGER NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS cefr_words (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          word TEXT UNIQUE NOT NULL,
+          pos TEXT,
+          cefr_level TEXT NOT NULL,
+          core_inventory INTEGER DEFAULT 0,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS word_details (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          word_id INTEGER NOT NULL,
+          definition TEXT,
+          pronunciation TEXT,
+          example_sentence TEXT,
+          etymology TEXT,
+          synonyms TEXT,
+          antonyms TEXT,
+          difficulty_score REAL,
+          frequency_score REAL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (word_id) REFERENCES cefr_words (id)
+        );
+
+        CREATE TABLE IF NOT EXISTS user_cefr_levels (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id TEXT DEFAULT 'default',
+          current_level TEXT DEFAULT 'A1',
+          target_level TEXT DEFAULT 'B2',
+          last_assessment_date DATETIME,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS enriched_bookmarks (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          word TEXT NOT NULL,
+          cefr_level TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS enriched_progress (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          word TEXT NOT NULL,
+          cefr_level TEXT NOT NULL,
+          attempts INTEGER DEFAULT 0,
+          correct_attempts INTEGER DEFAULT 0,
+          mastery_level INTEGER DEFAULT 0,
+          last_attempt_date DATETIME,
+          is_weak BOOLEAN DEFAULT 0,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_words_difficulty ON words(difficulty);
+        CREATE INDEX IF NOT EXISTS idx_words_category ON words(category);
+        CREATE INDEX IF NOT EXISTS idx_user_progress_word_id ON user_progress(word_id);
+        CREATE INDEX IF NOT EXISTS idx_study_sessions_date ON study_sessions(date);
+        CREATE INDEX IF NOT EXISTS idx_cefr_words_level ON cefr_words(cefr_level);
+        CREATE INDEX IF NOT EXISTS idx_cefr_words_word ON cefr_words(word);
+        CREATE INDEX IF NOT EXISTS idx_word_details_word_id ON word_details(word_id);
+        CREATE INDEX IF NOT EXISTS idx_enriched_bookmarks_word_level ON enriched_bookmarks(word, cefr_level);
+        CREATE INDEX IF NOT EXISTS idx_enriched_progress_word_level ON enriched_progress(word, cefr_level);
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: 'review_scheduling',
+    up: async (db) => {
+      await addSchedulingColumns(db, 'user_progress');
+      await addSchedulingColumns(db, 'enriched_progress');
+      await db.execAsync(`
+        CREATE INDEX IF NOT EXISTS idx_user_progress_next_review ON user_progress(next_review_date);
+        CREATE INDEX IF NOT EXISTS idx_enriched_progress_next_review ON enriched_progress(next_review_date);
+      `);
+    },
+  },
+  {
+    version: 3,
+    name: 'quiz_attempts',
+    up: async (db) => {
+      // 回答ごとの履歴（legacy単語はword_id、enriched単語はword + cefr_levelで識別）
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS quiz_attempts (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          word TEXT NOT NULL,
+          word_id INTEGER,
+          cefr_level TEXT,
+          question_type TEXT,
+          chosen_option TEXT,
+          correct_option TEXT NOT NULL,
+          is_correct BOOLEAN NOT NULL,
+          response_time_ms INTEGER,
+          session_id TEXT,
+          mode TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_quiz_attempts_word_level ON quiz_attempts(word, cefr_level);
+        CREATE INDEX IF NOT EXISTS idx_quiz_attempts_word_id ON quiz_attempts(word_id);
+        CREATE INDEX IF NOT EXISTS idx_quiz_attempts_session ON quiz_attempts(session_id);
+        CREATE INDEX IF NOT EXISTS idx_quiz_attempts_created_at ON quiz_attempts(created_at);
+      `);
+    },
+  },
+  {
+    version: 4,
+    name: 'answer_outcomes',
+    up: async (db) => {
+      await addColumnIfMissing(db, 'enriched_progress', 'near_miss_attempts', 'INTEGER DEFAULT 0');
+      await addColumnIfMissing(db, 'quiz_attempts', 'outcome', 'TEXT');
+    },
+  },
+  {
+    version: 5,
+    name: 'spelling_progress',
+    up: async (db) => {
+      await addColumnIfMissing(db, 'enriched_progress', 'spelling_attempts', 'INTEGER DEFAULT 0');
+      await addColumnIfMissing(db, 'enriched_progress', 'spelling_correct_attempts', 'INTEGER DEFAULT 0');
+      await addColumnIfMissing(db, 'enriched_progress', 'spelling_near_miss_attempts', 'INTEGER DEFAULT 0');
+      await addColumnIfMissing(db, 'enriched_progress', 'last_spelling_date', 'DATETIME');
+    },
+  },
+  {
+    version: 6,
+    name: 'level_assessment',
+    up: async (db) => {
+      await addColumnIfMissing(db, 'user_cefr_levels', 'assessment_confidence', 'REAL');
+      await addColumnIfMissing(db, 'user_cefr_levels', 'suggestion_dismissed_date', 'DATETIME');
+    },
+  },
+  {
+    version: 7,
+    name: 'decks',
+    up: async (db) => {
+      // 学習者が作成するデッキ（enriched単語とカスタム単語を混在できる）
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS decks (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          sort_order INTEGER NOT NULL DEFAULT 0,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS deck_words (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          deck_id INTEGER NOT NULL,
+          word TEXT NOT NULL,
+          cefr_level TEXT,
+          word_id INTEGER,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (deck_id) REFERENCES decks (id),
+          FOREIGN KEY (word_id) REFERENCES words (id)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_deck_words_deck ON deck_words(deck_id);
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_deck_words_enriched ON deck_words(deck_id, word, cefr_level) WHERE word_id IS NULL;
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_deck_words_custom ON deck_words(deck_id, word_id) WHERE word_id IS NOT NULL;
+      `);
+    },
+  },
+  {
+    version: 8,
+    name: 'deck_word_details',
+    up: async (db) => {
+      await addColumnIfMissing(db, 'deck_words', 'example', 'TEXT');
+      await addColumnIfMissing(db, 'deck_words', 'tag', 'TEXT');
+    },
+  },
+  {
+    version: 9,
+    name: 'sync',
+    up: async (db) => {
+      // 端末間同期（未送信の変更と同期の状態）
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS sync_outbox (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          entity TEXT NOT NULL,
+          entity_key TEXT NOT NULL,
+          payload TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS sync_state (
+          key TEXT PRIMARY KEY,
+          value TEXT
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_sync_outbox_entity ON sync_outbox(entity, entity_key);
+      `);
+      await addColumnIfMissing(db, 'study_sessions', 'sync_key', 'TEXT');
+      await assignSessionSyncKeys(db);
+      await db.execAsync(`
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_study_sessions_sync_key ON study_sessions(sync_key) WHERE sync_key IS NOT NULL;
+      `);
+    },
+  },
+  {
+    version: 10,
+    name: 'profiles',
+    up: async (db) => {
+      // 学習者のプロフィール（既存のデータはid = 1の最初のプロフィールに属する）
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS profiles (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          avatar TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+      for (const table of [
+        'user_progress', 'study_sessions', 'user_cefr_levels', 'enriched_bookmarks',
+        'enriched_progress', 'quiz_attempts', 'decks', 'sync_outbox',
+      ]) {
+        await addColumnIfMissing(db, table, 'profile_id', 'INTEGER NOT NULL DEFAULT 1');
+      }
+      // プロフィールごとに分ける前の同期の状態（端末IDを除く）は最初のプロフィールに引き継ぐ
+      await db.runAsync(
+        "UPDATE sync_state SET key = 'profile:1:' || key WHERE key NOT LIKE 'profile:%' AND key != 'device_id'"
+      );
+      await db.execAsync(`
+        CREATE INDEX IF NOT EXISTS idx_user_progress_profile ON user_progress(profile_id, word_id);
+        CREATE INDEX IF NOT EXISTS idx_study_sessions_profile ON study_sessions(profile_id, date);
+        CREATE INDEX IF NOT EXISTS idx_enriched_bookmarks_profile ON enriched_bookmarks(profile_id, word, cefr_level);
+        CREATE INDEX IF NOT EXISTS idx_enriched_progress_profile ON enriched_progress(profile_id, word, cefr_level);
+        CREATE INDEX IF NOT EXISTS idx_quiz_attempts_profile ON quiz_attempts(profile_id, created_at);
+        CREATE INDEX IF NOT EXISTS idx_decks_profile ON decks(profile_id);
+      `);
+    },
+  },
+  {
+    version: 11,
+    name: 'unified_word_progress',
+    destructive: true,
+    up: async (db) => {
+      await moveBuiltInWordProgress(db);
+      // 移した進捗は次の同期で全データとして送り直す
+      await db.runAsync("DELETE FROM sync_state WHERE key LIKE 'profile:%:snapshot_enqueued'");
+    },
+  },
+  {
+    version: 12,
+    name: 'vocabulary_import',
+    destructive: true,
+    up: async (db) => {
+      // 同じ単語を品詞・レベルごとに登録できるようにcefr_wordsを作り直す（UNIQUE(word)は削除できないため）
+      // word_detailsは単語ごとに1件とし、enriched語彙の関連語（typeOf / hasTypes / similarTo）をJSONで持つ
+      await db.execAsync(`
+        ALTER TABLE word_details RENAME TO word_details_old;
+        ALTER TABLE cefr_words RENAME TO cefr_words_old;
+
+        CREATE TABLE cefr_words (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          word TEXT NOT NULL,
+          pos TEXT,
+          cefr_level TEXT NOT NULL,
+          core_inventory INTEGER DEFAULT 0,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE (word, pos, cefr_level)
+        );
+
+        CREATE TABLE word_details (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          word_id INTEGER NOT NULL UNIQUE,
+          definition TEXT,
+          pronunciation TEXT,
+          example_sentence TEXT,
+          etymology TEXT,
+          synonyms TEXT,
+          antonyms TEXT,
+          relations TEXT,
+          difficulty_score REAL,
+          frequency_score REAL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (word_id) REFERENCES cefr_words (id)
+        );
+
+        INSERT INTO cefr_words (id, word, pos, cefr_level, core_inventory, created_at)
+        SELECT id, word, pos, cefr_level, core_inventory, created_at FROM cefr_words_old;
+
+        INSERT OR IGNORE INTO word_details
+          (id, word_id, definition, pronunciation, example_sentence, etymology, synonyms, antonyms,
+           difficulty_score, frequency_score, created_at)
+        SELECT id, word_id, definition, pronunciation, example_sentence, etymology, synonyms, antonyms,
+               difficulty_score, frequency_score, created_at
+        FROM word_details_old
+        WHERE word_id IN (SELECT id FROM cefr_words)
+        ORDER BY id;
+
+        DROP TABLE word_details_old;
+        DROP TABLE cefr_words_old;
+
+        CREATE INDEX IF NOT EXISTS idx_cefr_words_level ON cefr_words(cefr_level, pos);
+        CREATE INDEX IF NOT EXISTS idx_cefr_words_word_nocase ON cefr_words(word COLLATE NOCASE);
+
+        -- 語彙データの取り込み状況（sourceごとに取り込みが完了したバージョンを記録）
+        CREATE TABLE IF NOT EXISTS vocabulary_imports (
+          source TEXT PRIMARY KEY,
+          version TEXT NOT NULL,
+          item_count INTEGER DEFAULT 0,
+          imported_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+    },
+  },
+  {
+    version: 13,
+    name: 'vocabulary_packs',
+    up: async (db) => {
+      // インストール済みの語彙パック（CEFRレベルごとに1つ。同梱のパック以外はファイルとして保存する）
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS vocabulary_packs (
+          id TEXT PRIMARY KEY,
+          language TEXT NOT NULL,
+          cefr_level TEXT NOT NULL UNIQUE,
+          version TEXT NOT NULL,
+          word_count INTEGER NOT NULL,
+          checksum TEXT NOT NULL,
+          source TEXT,
+          bundled BOOLEAN DEFAULT 0,
+          installed_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+    },
+  },
+  {
+    version: 14,
+    name: 'archived_words',
+    up: async (db) => {
+      // 語彙パックの更新で削除された単語の学習履歴（単語が語彙パックに戻ったら復元する）
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS archived_words (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          profile_id INTEGER NOT NULL DEFAULT 1,
+          word TEXT NOT NULL,
+          cefr_level TEXT NOT NULL,
+          progress TEXT,
+          bookmarked_at DATETIME,
+          pack_version TEXT,
+          archived_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE (profile_id, word, cefr_level)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_archived_words_word ON archived_words(word);
+      `);
+    },
+  },
+];
@@ -0,0 +1,462 @@
+// 英単語の活用形（複数形・過去形・比較級など）を生成するヘルパー
+// 解答チェックや穴埋め問題で、見出し語以外の形も同じ単語として扱うために使用
+
+// 不規則動詞: 原形 -> [過去形, 過去分詞]（複数の形がある場合は '|' 区切り）
+const IRREGULAR_VERBS: { [base: string]: [string, string] } = {
+  arise: ['arose', 'arisen'],
+  awake: ['awoke', 'awoken'],
+  bear: ['bore', 'borne|born'],
+  beat: ['beat', 'beaten'],
+  become: ['became', 'become'],
+  begin: ['began', 'begun'],
+  bend: ['bent', 'bent'],
+  bet: ['bet', 'bet'],
+  bind: ['bound', 'bound'],
+  bite: ['bit', 'bitten'],
+  bleed: ['bled', 'bled'],
+  blow: ['blew', 'blown'],
+  break: ['broke', 'broken'],
+  breed: ['bred', 'bred'],
+  bring: ['brought', 'brought'],
+  broadcast: ['broadcast', 'broadcast'],
+  build: ['built', 'built'],
+  burn: ['burnt|burned', 'burnt|burned'],
+  burst: ['burst', 'burst'],
+  buy: ['bought', 'bought'],
+  cast: ['cast', 'cast'],
+  catch: ['caught', 'caught'],
+  choose: ['chose', 'chosen'],
+  cling: ['clung', 'clung'],
+  come: ['came', 'come'],
+  cost: ['cost', 'cost'],
+  creep: ['crept', 'crept'],
+  cut: ['cut', 'cut'],
+  deal: ['dealt', 'dealt'],
+  dig: ['dug', 'dug'],
+  do: ['did', 'done'],
+  draw: ['drew', 'drawn'],
+  dream: ['dreamt|dreamed', 'dreamt|dreamed'],
+  drink: ['drank', 'drunk'],
+  drive: ['drove', 'driven'],
+  eat: ['ate', 'eaten'],
+  fall: ['fell', 'fallen'],
+  feed: ['fed', 'fed'],
+  feel: ['felt', 'felt'],
+  fight: ['fought', 'fought'],
+  find: ['found', 'found'],
+  flee: ['fled', 'fled'],
+  fly: ['flew', 'flown'],
+  forbid: ['forbade', 'forbidden'],
+  forecast: ['forecast', 'forecast'],
+  forget: ['forgot', 'forgotten'],
+  forgive: ['forgave', 'forgiven'],
+  freeze: ['froze', 'frozen'],
+  get: ['got', 'got|gotten'],
+  give: ['gave', 'given'],
+  go: ['went', 'gone'],
+  grind: ['ground', 'ground'],
+  grow: ['grew', 'grown'],
+  hang: ['hung|hanged', 'hung|hanged'],
+  have: ['had', 'had'],
+  hear: ['heard', 'heard'],
+  hide: ['hid', 'hidden'],
+  hit: ['hit', 'hit'],
+  hold: ['held', 'held'],
+  hurt: ['hurt', 'hurt'],
+  keep: ['kept', 'kept'],
+  kneel: ['knelt', 'knelt'],
+  know: ['knew', 'known'],
+  lay: ['laid', 'laid'],
+  lead: ['led', 'led'],
+  lean: ['leant|leaned', 'leant|leaned'],
+  leap: ['leapt|leaped', 'leapt|leaped'],
+  learn: ['learnt|learned', 'learnt|learned'],
+  leave: ['left', 'left'],
+  lend: ['lent', 'lent'],
+  let: ['let', 'let'],
+  lie: ['lay', 'lain'],
+  light: ['lit|lighted', 'lit|lighted'],
+  lose: ['lost', 'lost'],
+  make: ['made', 'made'],
+  mean: ['meant', 'meant'],
+  meet: ['met', 'met'],
+  mislead: ['misled', 'misled'],
+  mistake: ['mistook', 'mistaken'],
+  overcome: ['overcame', 'overcome'],
+  overtake: ['overtook', 'overtaken'],
+  pay: ['paid', 'paid'],
+  prove: ['proved', 'proven|proved'],
+  put: ['put', 'put'],
+  quit: ['quit', 'quit'],
+  read: ['read', 'read'],
+  ride: ['rode', 'ridden'],
+  ring: ['rang', 'rung'],
+  rise: ['rose', 'risen'],
+  run: ['ran', 'run'],
+  say: ['said', 'said'],
+  see: ['saw', 'seen'],
+  seek: ['sought', 'sought'],
+  sell: ['sold', 'sold'],
+  send: ['sent', 'sent'],
+  set: ['set', 'set'],
+  sew: ['sewed', 'sewn|sewed'],
+  shake: ['shook', 'shaken'],
+  shed: ['shed', 'shed'],
+  shine: ['shone', 'shone'],
+  shoot: ['shot', 'shot'],
+  show: ['showed', 'shown'],
+  shrink: ['shrank', 'shrunk'],
+  shut: ['shut', 'shut'],
+  sing: ['sang', 'sung'],
+  sink: ['sank', 'sunk'],
+  sit: ['sat', 'sat'],
+  sleep: ['slept', 'slept'],
+  slide: ['slid', 'slid'],
+  sling: ['slung', 'slung'],
+  speak: ['spoke', 'spoken'],
+  speed: ['sped', 'sped'],
+  spend: ['spent', 'spent'],
+  spill: ['spilt|spilled', 'spilt|spilled'],
+  spin: ['spun', 'spun'],
+  spit: ['spat', 'spat'],
+  split: ['split', 'split'],
+  spread: ['spread', 'spread'],
+  spring: ['sprang', 'sprung'],
+  stand: ['stood', 'stood'],
+  steal: ['stole', 'stolen'],
+  stick: ['stuck', 'stuck'],
+  sting: ['stung', 'stung'],
+  stink: ['stank', 'stunk'],
+  stride: ['strode', 'stridden'],
+  strike: ['struck', 'struck'],
+  strive: ['strove', 'striven'],
+  swear: ['swore', 'sworn'],
+  sweep: ['swept', 'swept'],
+  swell: ['swelled', 'swollen'],
+  swim: ['swam', 'swum'],
+  swing: ['swung', 'swung'],
+  take: ['took', 'taken'],
+  teach: ['taught', 'taught'],
+  tear: ['tore', 'torn'],
+  tell: ['told', 'told'],
+  think: ['thought', 'thought'],
+  throw: ['threw', 'thrown'],
+  thrust: ['thrust', 'thrust'],
+  tread: ['trod', 'trodden'],
+  undergo: ['underwent', 'undergone'],
+  understand: ['understood', 'understood'],
+  undertake: ['undertook', 'undertaken'],
+  upset: ['upset', 'upset'],
+  wake: ['woke', 'woken'],
+  wear: ['wore', 'worn'],
+  weave: ['wove', 'woven'],
+  weep: ['wept', 'wept'],
+  win: ['won', 'won'],
+  wind: ['wound', 'wound'],
+  withdraw: ['withdrew', 'withdrawn'],
+  withhold: ['withheld', 'withheld'],
+  withstand: ['withstood', 'withstood'],
+  wring: ['wrung', 'wrung'],
+  write: ['wrote', 'written'],
+};
+
+// 3人称単数現在形が規則に従わない動詞
+const IRREGULAR_THIRD_PERSON: { [base: string]: string[] } = {
+  be: ['am', 'is', 'are', 'was', 'were', 'been', 'being'],
+  have: ['has'],
+  do: ['does'],
+  go: ['goes'],
+};
+
+// 不規則な複数形
+const IRREGULAR_PLURALS: { [singular: string]: string[] } = {
+  analysis: ['analyses'],
+  appendix: ['appendices', 'appendixes'],
+  bacterium: ['bacteria'],
+  cactus: ['cacti', 'cactuses'],
+  child: ['children'],
+  criterion: ['criteria'],
+  curriculum: ['curricula', 'curriculums'],
+  datum: ['data'],
+  foot: ['feet'],
+  formula: ['formulae', 'formulas'],
+  fungus: ['fungi', 'funguses'],
+  goose: ['geese'],
+  index: ['indices', 'indexes'],
+  louse: ['lice'],
+  man: ['men'],
+  matrix: ['matrices', 'matrixes'],
+  medium: ['media', 'mediums'],
+  memorandum: ['memoranda', 'memorandums'],
+  mouse: ['mice'],
+  nucleus: ['nuclei'],
+  ox: ['oxen'],
+  person: ['people', 'persons'],
+  phenomenon: ['phenomena'],
+  radius: ['radii', 'radiuses'],
+  stimulus: ['stimuli'],
+  syllabus: ['syllabi', 'syllabuses'],
+  tooth: ['teeth'],
+  vertebra: ['vertebrae'],
+  woman: ['women'],
+};
+
+// 不規則な比較級・最上級
+const IRREGULAR_COMPARATIVES: { [base: string]: string[] } = {
+  good: ['better', 'best'],
+  well: ['better', 'best'],
+  bad: ['worse', 'worst'],
+  ill: ['worse', 'worst'],
+  far: ['farther', 'farthest', 'further', 'furthest'],
+  little: ['less', 'least'],
+  many: ['more', 'most'],
+  much: ['more', 'most'],
+};
+
+// 最後の音節に強勢がある2音節以上の語（-ed / -ing / -er で語末の子音を重ねる）
+const FINAL_STRESS_WORDS = new Set([
+  'abet', 'abhor', 'acquit', 'admit', 'allot', 'begin', 'commit', 'compel', 'concur', 'confer', 'control',
+  'defer', 'deter', 'dispel', 'embed', 'emit', 'equip', 'excel', 'expel', 'extol', 'forbid', 'forget',
+  'handicap', 'incur', 'infer', 'kidnap', 'occur', 'omit', 'outwit', 'patrol', 'permit', 'prefer', 'program',
+  'propel', 'rebel', 'recur', 'refer', 'regret', 'remit', 'repel', 'submit', 'transfer', 'transmit', 'upset',
+]);
+
+const VOWELS = 'aeiou';
+
+export interface ClozeResult {
+  text: string; // 空欄にした文
+  matchedForms: string[]; // 空欄にした語形（文中の表記のまま）
+}
+
+class Morphology {
+  // 単語の活用形をすべて返す（原形を含む、小文字）
+  // posを指定するとその品詞の活用のみ生成する（未指定や不明な品詞は全品詞分）
+  getInflections(word: string, pos?: string): string[] {
+    const base = word.trim().toLowerCase();
+    if (!base) return [];
+
+    // 複数語の見出し語（"give up" など）は先頭の語だけを活用させる
+    const spaceIndex = base.indexOf(' ');
+    if (spaceIndex > 0) {
+      const head = base.slice(0, spaceIndex);
+      const rest = base.slice(spaceIndex);
+      return this.getInflections(head, pos).map(form => form + rest);
+    }
+
+    const kind = this.normalizePos(pos);
+    const forms = new Set<string>([base]);
+    const add = (values: string[]) => values.forEach(v => forms.add(v));
+
+    if (kind === 'verb' || kind === 'any') {
+      add(this.getVerbForms(base));
+    }
+    if (kind === 'noun' || kind === 'any') {
+      add(this.getPluralForms(base));
+    }
+    if (kind === 'adjective' || kind === 'any') {
+      add(this.getComparativeForms(base));
+    }
+
+    return Array.from(forms);
+  }
+
+  // candidateがwordの活用形かどうか
+  isInflectionOf(candidate: string, word: string, pos?: string): boolean {
+    return this.getInflections(word, pos).includes(candidate.trim().toLowerCase());
+  }
+
+  // 例文中の単語（活用形を含む）を空欄にする
+  // 単語の境界を考慮し（"art" は "start" の中では一致しない）、
+  // 見つからない場合や空欄にしても答えが見えてしまう場合（"abandonment" など派生語が残る）はnullを返す
+  createCloze(sentence: string, word: string, pos?: string, blank: string = '____'): ClozeResult | null {
+    const variants = this.getVariants(word);
+    const pattern = this.buildFormPattern(word, pos);
+    if (!pattern) return null;
+
+    const matchedForms: string[] = [];
+    const text = sentence.replace(pattern, (_match, prefix: string, form: string) => {
+      matchedForms.push(form);
+      return prefix + blank;
+    });
+
+    if (matchedForms.length === 0) return null;
+
+    // 空欄の外に見出し語が残っていないか（派生語・複合語の一部として）
+    const remaining = text.toLowerCase();
+    const leaks = variants.some(v => {
+      const base = v.toLowerCase();
+      return base.length >= 4 && remaining.includes(base);
+    });
+    if (leaks) return null;
+
+    return { text, matchedForms };
+  }
+
+  // 文中に単語（活用形を含む）が独立した語として含まれているか
+  containsWord(text: string, word: string, pos?: string): boolean {
+    const pattern = this.buildFormPattern(word, pos);
+    return pattern ? pattern.test(text) : false;
+  }
+
+  private getVariants(word: string): string[] {
+    return word.split('/').map(v => v.trim()).filter(v => v.length > 0);
+  }
+
+  // 見出し語の全活用形に単語境界付きで一致する正規表現（グループ1: 直前の文字, グループ2: 語形）
+  private buildFormPattern(word: string, pos?: string): RegExp | null {
+    const forms = Array.from(new Set(this.getVariants(word).flatMap(v => this.getInflections(v, pos))))
+      // 長い語形から順に照合（"analyses" を "analys" より先に）
+      .sort((a, b) => b.length - a.length);
+    if (forms.length === 0) return null;
+
+    const alternation = forms.map(f => this.escapeRegExp(f).replace(/ /g, '\\s+')).join('|');
+    // 英字とハイフンを単語の一部とみなす（"well-known" の "known" は空欄にしない）
+    return new RegExp(`(^|[^A-Za-z\\-])(${alternation})(?=[^A-Za-z\\-]|$)`, 'gi');
+  }
+
+  private escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+
+  private normalizePos(pos?: string): 'verb' | 'noun' | 'adjective' | 'any' {
+    const value = (pos || '').toLowerCase();
+    if (value.startsWith('verb') || value === 'v') return 'verb';
+    if (value.startsWith('noun') || value === 'n') return 'noun';
+    if (value.startsWith('adj') || value === 'a') return 'adjective';
+    return 'any';
+  }
+
+  private getVerbForms(base: string): string[] {
+    const forms: string[] = [];
+
+    if (IRREGULAR_THIRD_PERSON[base]) {
+      forms.push(...IRREGULAR_THIRD_PERSON[base]);
+    } else {
+      forms.push(...this.addSuffixS(base));
+    }
+
+    if (IRREGULAR_VERBS[base]) {
+      const [past, participle] = IRREGULAR_VERBS[base];
+      forms.push(...past.split('|'), ...participle.split('|'));
+    } else if (base !== 'be') {
+      forms.push(...this.addSuffixEd(base));
+    }
+
+    forms.push(...this.addSuffixIng(base));
+    return forms;
+  }
+
+  private getPluralForms(base: string): string[] {
+    if (IRREGULAR_PLURALS[base]) {
+      return IRREGULAR_PLURALS[base];
+    }
+
+    // -is -> -es（analysis -> analyses 型）
+    if (base.endsWith('is') && base.length > 3) {
+      return [base.slice(0, -2) + 'es'];
+    }
+
+    // -f / -fe -> -ves（規則的な -s も許容）
+    if (base.endsWith('fe')) {
+      return [base.slice(0, -2) + 'ves', base + 's'];
+    }
+    if (base.endsWith('f') && !base.endsWith('ff')) {
+      return [base.slice(0, -1) + 'ves', base + 's'];
+    }
+
+    // -man -> -men（chairman -> chairmen）
+    if (base.endsWith('man') && base.length > 3) {
+      return [base.slice(0, -3) + 'men'];
+    }
+
+    return this.addSuffixS(base);
+  }
+
+  private getComparativeForms(base: string): string[] {
+    if (IRREGULAR_COMPARATIVES[base]) {
+      return IRREGULAR_COMPARATIVES[base];
+    }
+
+    if (base.endsWith('e')) {
+      return [base + 'r', base + 'st'];
+    }
+    if (this.endsWithConsonantY(base)) {
+      const stem = base.slice(0, -1);
+      return [stem + 'ier', stem + 'iest'];
+    }
+    return this.getSuffixStems(base).flatMap(stem => [stem + 'er', stem + 'est']);
+  }
+
+  // -s / -es
+  private addSuffixS(base: string): string[] {
+    if (/(s|x|z|ch|sh)$/.test(base)) {
+      return [base + 'es'];
+    }
+    if (this.endsWithConsonantY(base)) {
+      return [base.slice(0, -1) + 'ies'];
+    }
+    // 子音 + o は -es と -s の両方がある（potatoes / photos）
+    if (base.endsWith('o') && !VOWELS.includes(base[base.length - 2] || '')) {
+      return [base + 'es', base + 's'];
+    }
+    return [base + 's'];
+  }
+
+  // -ed
+  private addSuffixEd(base: string): string[] {
+    if (base.endsWith('e')) {
+      return [base + 'd'];
+    }
+    if (this.endsWithConsonantY(base)) {
+      return [base.slice(0, -1) + 'ied'];
+    }
+    if (base.endsWith('c')) {
+      return [base + 'ked', base + 'ed'];
+    }
+    return this.getSuffixStems(base).map(stem => stem + 'ed');
+  }
+
+  // -ing
+  private addSuffixIng(base: string): string[] {
+    if (base.endsWith('ie')) {
+      return [base.slice(0, -2) + 'ying'];
+    }
+    if (base.endsWith('e') && !/(ee|ye|oe)$/.test(base) && base.length > 2) {
+      return [base.slice(0, -1) + 'ing'];
+    }
+    if (base.endsWith('c')) {
+      return [base + 'king', base + 'ing'];
+    }
+    return this.getSuffixStems(base).map(stem => stem + 'ing');
+  }
+
+  // 母音で始まる語尾を付ける語幹（子音 + 母音 + 子音で終わる1音節の語と、最後の音節に強勢がある語は子音を重ねる）
+  // 強勢のない -l はイギリス式で重ねるため（travelled / traveled）両方を返す
+  private getSuffixStems(base: string): string[] {
+    if (!this.endsWithCvc(base)) return [base];
+
+    const doubled = base + base[base.length - 1];
+    if (this.countSyllables(base) <= 1 || FINAL_STRESS_WORDS.has(base)) return [doubled];
+    if (base.endsWith('l')) return [doubled, base];
+    return [base];
+  }
+
+  // 母音のまとまりの数（おおよその音節数）
+  private countSyllables(base: string): number {
+    return (base.match(/[aeiouy]+/g) || []).length;
+  }
+
+  private endsWithConsonantY(base: string): boolean {
+    return base.length > 1 && base.endsWith('y') && !VOWELS.includes(base[base.length - 2]);
+  }
+
+  // 子音 + 母音 + 子音で終わる（w, x, y で終わる場合は除く）
+  private endsWithCvc(base: string): boolean {
+    if (base.length < 3) return false;
+    const [c1, v, c2] = base.slice(-3).split('');
+    const isVowel = (ch: string) => VOWELS.includes(ch);
+    return !isVowel(c1) && isVowel(v) && !isVowel(c2) && !'wxy'.includes(c2) && /[a-z]/.test(c1);
+  }
+}
+
+export const morphology = new Morphology();
@@ -0,0 +1,136 @@
+import { enrichedQuizService, QuizQuestion } from './enrichedQuizService';
+import { enrichedVocabularyService } from './enrichedVocabularyService';
+
+export const CEFR_LEVEL_ORDER = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'];
+
+export interface PlacementAnswer {
+  level: string;
+  word: string;
+  isCorrect: boolean;
+}
+
+// 適応型プレースメントテストの進行状態
+export interface PlacementTestState {
+  levels: string[]; // 出題に使えるレベル（インストール済みの語彙のみ、易しい順）
+  levelIndex: number; // 次に出題するレベル
+  answers: PlacementAnswer[];
+  askedWords: string[];
+}
+
+export interface PlacementResult {
+  level: string; // 推定レベル
+  confidence: number; // 0-1（回答の一貫性と回答数から算出）
+  answeredCount: number;
+  correctCount: number;
+}
+
+// 適応型CEFRプレースメントテスト
+// 正解なら1つ上、不正解なら1つ下のレベルから出題し（階段法）、
+// 全回答と最も矛盾の少ないレベルを推定レベルとする
+class PlacementTestService {
+  readonly QUESTION_COUNT = 15;
+  private readonly START_LEVEL = 'B1';
+  private readonly MAX_PICK_ATTEMPTS = 5;
+
+  async createTest(): Promise<PlacementTestState> {
+    const availableLevels = await enrichedVocabularyService.getAvailableLevels();
+    const levels = CEFR_LEVEL_ORDER.filter(level => availableLevels.includes(level));
+    if (levels.length === 0) {
+      throw new Error('No vocabulary levels available for the placement test');
+    }
+
+    // 中間レベルから開始（なければ最も近い利用可能なレベル）
+    const startIndex = CEFR_LEVEL_ORDER.indexOf(this.START_LEVEL);
+    const levelIndex = levels.reduce((best, level, index) =>
+      Math.abs(CEFR_LEVEL_ORDER.indexOf(level) - startIndex) < Math.abs(CEFR_LEVEL_ORDER.indexOf(levels[best]) - startIndex)
+        ? index
+        : best
+    , 0);
+
+    return { levels, levelIndex, answers: [], askedWords: [] };
+  }
+
+  isComplete(state: PlacementTestState): boolean {
+    return state.answers.length >= this.QUESTION_COUNT;
+  }
+
+  // 現在のレベルから1問作成（既出の単語は避ける）
+  async getNextQuestion(state: PlacementTestState): Promise<QuizQuestion | null> {
+    const level = state.levels[state.levelIndex];
+
+    for (let attempt = 0; attempt < this.MAX_PICK_ATTEMPTS; attempt++) {
+      try {
+        const [question] = await enrichedQuizService.createEnrichedCefrQuiz(level, 1, {
+          allowedTypes: ['definition'],
+          distractorDifficulty: 'medium'
+        });
+        if (question && !state.askedWords.includes(question.word.word)) {
+          return question;
+        }
+      } catch (error) {
+        console.warn(`Failed to create placement question for ${level}:`, error);
+      }
+    }
+
+    console.error(`Could not create a placement question for ${level}`);
+    return null;
+  }
+
+  // 回答を記録して次の出題レベルを決める
+  recordAnswer(state: PlacementTestState, question: QuizQuestion, isCorrect: boolean): PlacementTestState {
+    const level = state.levels[state.levelIndex];
+    const step = isCorrect ? 1 : -1;
+    const levelIndex = Math.max(0, Math.min(state.levels.length - 1, state.levelIndex + step));
+
+    return {
+      ...state,
+      levelIndex,
+      answers: [...state.answers, { level, word: question.word.word, isCorrect }],
+      askedWords: [...state.askedWords, question.word.word],
+    };
+  }
+
+  // 推定レベル：「そのレベル以下は正解、より上は不正解」という仮定に最も合う回答が多いレベル
+  estimateLevel(state: PlacementTestState): PlacementResult {
+    const { levels, answers } = state;
+    const correctCount = answers.filter(a => a.isCorrect).length;
+
+    if (answers.length === 0) {
+      return { level: levels[0], confidence: 0, answeredCount: 0, correctCount: 0 };
+    }
+
+    let bestIndex = 0;
+    let bestConsistency = -1;
+    levels.forEach((_, candidateIndex) => {
+      const consistency = answers.filter(answer => {
+        const answerIndex = levels.indexOf(answer.level);
+        return answer.isCorrect ? answerIndex <= candidateIndex : answerIndex > candidateIndex;
+      }).length;
+      // 同点の場合は低いレベルを優先（高すぎる推定を避ける）
+      if (consistency > bestConsistency) {
+        bestConsistency = consistency;
+        bestIndex = candidateIndex;
+      }
+    });
+
+    // 一貫性の割合 × 回答数の充足度（途中で終了した場合は低くなる）
+    const consistencyRatio = bestConsistency / answers.length;
+    const completeness = Math.min(1, answers.length / this.QUESTION_COUNT);
+    const confidence = Math.round(consistencyRatio * completeness * 100) / 100;
+
+    return {
+      level: levels[bestIndex],
+      confidence,
+      answeredCount: answers.length,
+      correctCount,
+    };
+  }
+
+  // 推定レベルから目標レベルを提案（1つ上、C2ならC2）
+  suggestTargetLevel(level: string): string {
+    const index = CEFR_LEVEL_ORDER.indexOf(level);
+    return CEFR_LEVEL_ORDER[Math.min(CEFR_LEVEL_ORDER.length - 1, index + 1)];
+  }
+}
+
+export const placementTestService = new PlacementTestService();
@@ -0,0 +1,174 @@
+import { QuizQuestion } from '../types';
+import { QuizQuestion as EnrichedQuizQuestion } from './enrichedQuizService';
+import { morphology } from './morphology';
+
+export type QuestionIssue =
+  | 'missing-correct-answer' // 正解が選択肢に含まれていない
+  | 'too-few-options' // 選択肢が足りない
+  | 'duplicate-options' // 同じ選択肢が複数ある
+  | 'filler-option' // "Alternative definition 7" や "word12" などの埋め草
+  | 'synonym-distractor' // 不正解の選択肢が対象語の同義語（正解が複数ある）
+  | 'headword-leak'; // 定義・例文に見出し語が含まれていて答えがわかる
+
+export interface QuestionValidationResult {
+  valid: boolean;
+  issues: QuestionIssue[];
+  reasons: string[]; // ログ用の詳細
+}
+
+// 検証に必要な情報（アプリ共通形式・enriched形式のどちらからも作れる形）
+interface QuestionCheckTarget {
+  headword: string;
+  pos?: string;
+  questionType: QuizQuestion['questionType'];
+  answerFormat: 'choice' | 'typed';
+  options: string[];
+  correctAnswer: string;
+  prompt?: string;
+  synonyms: string[];
+}
+
+// 生成フォールバックで作られる意味のない選択肢
+const FILLER_PATTERNS = [
+  /^alternative definition \d+$/i,
+  /^alternative\d+$/i,
+  /^word\d+$/i,
+  /^a word type \d+$/i,
+];
+
+// 選択肢が単語になる問題形式（同義語チェックの対象）
+// antonymは対象語の同義語をあえて不正解候補に使うため対象外
+const WORD_OPTION_TYPES: QuizQuestion['questionType'][] = ['synonym', 'example', 'reverse'];
+
+// 生成したクイズ問題の品質チェック（曖昧な問題・答えが見えてしまう問題を弾く）
+class QuestionValidator {
+  readonly MIN_CHOICE_OPTIONS = 2;
+
+  // enrichedQuizServiceが生成した問題を検証
+  validateEnrichedQuestion(question: EnrichedQuizQuestion): QuestionValidationResult {
+    return this.validate({
+      headword: question.word.word,
+      pos: question.word.pos,
+      questionType: question.type,
+      answerFormat: question.answerFormat || 'choice',
+      options: question.options,
+      correctAnswer: question.correctAnswer,
+      prompt: question.prompt,
+      synonyms: this.splitList(question.word.synonyms),
+    });
+  }
+
+  // アプリ共通形式の問題を検証（legacy wordsには同義語データがない）
+  validateQuizQuestion(question: QuizQuestion, synonyms: string[] = []): QuestionValidationResult {
+    return this.validate({
+      headword: question.word,
+      pos: question.category,
+      questionType: question.questionType || 'definition',
+      answerFormat: question.answerFormat || 'choice',
+      options: question.options,
+      correctAnswer: question.correctAnswer,
+      prompt: question.prompt,
+      synonyms,
+    });
+  }
+
+  // 不正な問題を除外し、除外理由をログに残す
+  filterValid(questions: QuizQuestion[], label: string): QuizQuestion[] {
+    return questions.filter(question => {
+      const result = this.validateQuizQuestion(question);
+      if (!result.valid) {
+        this.logRejection(label, question.word, result);
+      }
+      return result.valid;
+    });
+  }
+
+  logRejection(label: string, headword: string, result: QuestionValidationResult): void {
+    console.warn(`[${label}] Rejected question for "${headword}": ${result.reasons.join('; ')}`);
+  }
+
+  private validate(target: QuestionCheckTarget): QuestionValidationResult {
+    const issues: QuestionIssue[] = [];
+    const reasons: string[] = [];
+    const report = (issue: QuestionIssue, reason: string) => {
+      if (!issues.includes(issue)) issues.push(issue);
+      reasons.push(reason);
+    };
+
+    if (target.answerFormat === 'choice') {
+      this.checkOptions(target, report);
+    }
+    this.checkHeadwordLeak(target, report);
+
+    return { valid: issues.length === 0, issues, reasons };
+  }
+
+  private checkOptions(target: QuestionCheckTarget, report: (issue: QuestionIssue, reason: string) => void): void {
+    const { options, correctAnswer } = target;
+    const correctKey = this.normalize(correctAnswer);
+
+    if (options.length < this.MIN_CHOICE_OPTIONS) {
+      report('too-few-options', `only ${options.length} option(s)`);
+    }
+
+    if (!options.some(option => this.normalize(option) === correctKey)) {
+      report('missing-correct-answer', `correct answer "${correctAnswer}" is not among the options`);
+    }
+
+    const seen = new Set<string>();
+    for (const option of options) {
+      const key = this.normalize(option);
+      if (seen.has(key)) {
+        report('duplicate-options', `duplicate option "${option}"`);
+      }
+      seen.add(key);
+
+      if (FILLER_PATTERNS.some(pattern => pattern.test(option.trim()))) {
+        report('filler-option', `filler option "${option}"`);
+      }
+    }
+
+    if (WORD_OPTION_TYPES.includes(target.questionType)) {
+      // 同義語問題では見出し語そのものも正解になりうる
+      const equivalents = new Set(target.synonyms.map(s => this.normalize(s)));
+      if (target.questionType === 'synonym') {
+        equivalents.add(this.normalize(target.headword));
+      }
+      for (const option of options) {
+        const key = this.normalize(option);
+        if (key !== correctKey && equivalents.has(key)) {
+          report('synonym-distractor', `distractor "${option}" is a synonym of "${target.headword}"`);
+        }
+      }
+    }
+  }
+
+  private checkHeadwordLeak(target: QuestionCheckTarget, report: (issue: QuestionIssue, reason: string) => void): void {
+    // "go" や "a" のような短い語は定義文に普通に現れるためチェックしない
+    if (target.headword.replace(/[^A-Za-z]/g, '').length < 3) return;
+
+    // 見出し語を隠して出題する問題では、表示する定義・例文に見出し語が含まれてはいけない
+    if (target.prompt && morphology.containsWord(target.prompt, target.headword, target.pos)) {
+      report('headword-leak', `prompt contains "${target.headword}"`);
+    }
+
+    // 定義問題：正解の定義に見出し語が含まれているとそれだけで選べてしまう
+    if (
+      target.questionType === 'definition' &&
+      target.answerFormat === 'choice' &&
+      morphology.containsWord(target.correctAnswer, target.headword, target.pos)
+    ) {
+      report('headword-leak', `correct definition contains "${target.headword}"`);
+    }
+  }
+
+  private normalize(text: string): string {
+    return text.trim().toLowerCase().replace(/\s+/g, ' ');
+  }
+
+  private splitList(list?: string): string[] {
+    return (list || '').split(',').map(s => s.trim()).filter(s => s.length > 0);
+  }
+}
+
+export const questionValidator = new QuestionValidator();
@@ -0,0 +1,84 @@
+import { AnswerOutcome, ReviewSchedule } from '../types';
+
+// SM-2アルゴリズムに基づく間隔反復スケジューラー
+// quality: 0-5（0=完全に忘れた, 3=かろうじて正解, 5=完璧に正解）
+class SpacedRepetitionService {
+  readonly DEFAULT_EASE_FACTOR = 2.5;
+  readonly MIN_EASE_FACTOR = 1.3;
+  readonly PASSING_QUALITY = 3;
+  private readonly DAY_MS = 24 * 60 * 60 * 1000;
+
+  // まだ一度も復習していない単語の初期スケジュール
+  createInitialSchedule(): ReviewSchedule {
+    return {
+      easeFactor: this.DEFAULT_EASE_FACTOR,
+      intervalDays: 0,
+      repetitions: 0,
+      lapses: 0,
+      lastReviewDate: null,
+      nextReviewDate: null,
+    };
+  }
+
+  // 正誤からSM-2のqualityに変換
+  qualityFromAnswer(isCorrect: boolean): number {
+    return isCorrect ? 4 : 1;
+  }
+
+  // 判定結果からSM-2のqualityに変換（near-missは「かろうじて正解」）
+  qualityFromOutcome(outcome: AnswerOutcome): number {
+    switch (outcome) {
+      case 'correct':
+        return 4;
+      case 'near-miss':
+        return 3;
+      default:
+        return 1;
+    }
+  }
+
+  // 回答結果から次回の復習スケジュールを計算
+  scheduleReview(previous: ReviewSchedule, quality: number, reviewedAt: Date = new Date()): ReviewSchedule {
+    const q = Math.max(0, Math.min(5, Math.round(quality)));
+
+    let { easeFactor, intervalDays, repetitions, lapses } = previous;
+
+    if (q < this.PASSING_QUALITY) {
+      // 不正解：連続正解をリセットし、翌日に再出題
+      if (repetitions > 0) {
+        lapses += 1;
+      }
+      repetitions = 0;
+      intervalDays = 1;
+    } else {
+      repetitions += 1;
+      if (repetitions === 1) {
+        intervalDays = 1;
+      } else if (repetitions === 2) {
+        intervalDays = 6;
+      } else {
+        intervalDays = Math.round(intervalDays * easeFactor);
+      }
+    }
+
+    // 易しさ係数の更新（不正解時も下げる）
+    easeFactor = easeFactor + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02));
+    easeFactor = Math.max(this.MIN_EASE_FACTOR, Math.round(easeFactor * 100) / 100);
+
+    return {
+      easeFactor,
+      intervalDays,
+      repetitions,
+      lapses,
+      lastReviewDate: reviewedAt,
+      nextReviewDate: new Date(reviewedAt.getTime() + intervalDays * this.DAY_MS),
+    };
+  }
+
+  // 復習期限が来ているか
+  isDue(schedule: ReviewSchedule, now: Date = new Date()): boolean {
+    return schedule.nextReviewDate !== null && schedule.nextReviewDate.getTime() <= now.getTime();
+  }
+}
+
+export const spacedRepetitionService = new SpacedRepetitionService();
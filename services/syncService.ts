@@ -0,0 +1,182 @@
+import { LearningGoals, SyncChange } from '../types';
+import { databaseService } from './database';
+import { HttpSyncTransport, SyncTransport } from './syncTransport';
+
+export interface SyncResult {
+  pushed: number;
+  pulled: number;
+  settings?: LearningGoals; // 他の端末で変更された学習設定（呼び出し側でストアに反映する）
+}
+
+export interface SyncStatus {
+  serverUrl: string | null;
+  pendingCount: number;
+  lastSyncedAt: Date | null;
+}
+
+// sync_stateのキー（端末ID以外はプロフィールごと）
+const DEVICE_ID_KEY = 'device_id';
+const SERVER_URL_KEY = 'server_url';
+const PULL_CURSOR_KEY = 'pull_cursor';
+const LAST_SYNCED_KEY = 'last_synced_at';
+const SNAPSHOT_KEY = 'snapshot_enqueued';
+
+// オフラインファーストの端末間同期
+// 変更はsync_outboxに記録しておき、同期時に送信してから他の端末の変更を受信する
+// 同期するのは現在のプロフィールのデータだけで、サーバーもプロフィールごとに設定する
+class SyncService {
+  private readonly BATCH_SIZE = 100;
+  private transport: SyncTransport | null = null;
+  private isSyncing = false;
+
+  // テストではLocalSyncTransportを渡す（nullで設定したサーバーURLに戻す）
+  setTransport(transport: SyncTransport | null): void {
+    this.transport = transport;
+  }
+
+  // 同期中はプロフィールを切り替えない（送受信の途中で対象のプロフィールが変わるため）
+  isSyncInProgress(): boolean {
+    return this.isSyncing;
+  }
+
+  async getStatus(): Promise<SyncStatus> {
+    const lastSyncedAt = await this.getProfileState(LAST_SYNCED_KEY);
+    return {
+      serverUrl: await this.getProfileState(SERVER_URL_KEY),
+      pendingCount: await databaseService.getSyncOutboxCount(),
+      lastSyncedAt: lastSyncedAt ? new Date(lastSyncedAt) : null,
+    };
+  }
+
+  // サーバーを変更したら最初から受信し直す
+  async setServerUrl(url: string | null): Promise<void> {
+    const trimmed = url?.trim() || null;
+    if (trimmed === (await this.getProfileState(SERVER_URL_KEY))) return;
+
+    await this.setProfileState(SERVER_URL_KEY, trimmed);
+    await this.setProfileState(PULL_CURSOR_KEY, null);
+    await this.setProfileState(SNAPSHOT_KEY, null);
+  }
+
+  // バックアップの復元などでデータをまとめて書き換えたときは、次の同期で全データを送り直す（すべてのプロフィール）
+  async requestFullUpload(): Promise<void> {
+    for (const profile of await databaseService.getProfiles()) {
+      await databaseService.setSyncState(this.stateKey(profile.id, SNAPSHOT_KEY), null);
+    }
+  }
+
+  async recordSettingsChange(settings: LearningGoals): Promise<void> {
+    if (!databaseService.isInitialized()) return;
+    await databaseService.enqueueSyncChange('settings', 'userSettings', settings);
+  }
+
+  async sync(): Promise<SyncResult> {
+    if (this.isSyncing) {
+      throw new Error('Sync already in progress');
+    }
+
+    const transport = await this.getTransport();
+    if (!transport) {
+      throw new Error('Sync server is not configured');
+    }
+
+    this.isSyncing = true;
+    try {
+      const deviceId = await this.getDeviceId();
+
+      if (!(await this.getProfileState(SNAPSHOT_KEY))) {
+        const queued = await databaseService.enqueueSyncSnapshot();
+        await this.setProfileState(SNAPSHOT_KEY, new Date().toISOString());
+        console.log(`Queued ${queued} existing records for the first sync`);
+      }
+
+      const pushed = await this.pushOutbox(transport, deviceId);
+      const { pulled, settings } = await this.pullChanges(transport, deviceId);
+
+      await this.setProfileState(LAST_SYNCED_KEY, new Date().toISOString());
+      console.log(`Sync complete: pushed ${pushed}, pulled ${pulled}`);
+      return { pushed, pulled, settings };
+    } catch (error) {
+      console.error('Sync error:', error);
+      throw new Error(`Failed to sync: ${error}`);
+    } finally {
+      this.isSyncing = false;
+    }
+  }
+
+  // 送信に失敗した変更はoutboxに残り、次回の同期で再送される
+  private async pushOutbox(transport: SyncTransport, deviceId: string): Promise<number> {
+    let pushed = 0;
+    for (;;) {
+      const entries = await databaseService.getSyncOutbox(this.BATCH_SIZE);
+      if (entries.length === 0) return pushed;
+
+      await transport.push(deviceId, entries.map(entry => ({
+        entity: entry.entity,
+        key: entry.key,
+        payload: entry.payload,
+        updatedAt: entry.updatedAt,
+        deviceId,
+      })));
+      await databaseService.deleteSyncOutboxEntries(entries.map(entry => entry.id));
+      pushed += entries.length;
+    }
+  }
+
+  private async pullChanges(transport: SyncTransport, deviceId: string): Promise<{ pulled: number; settings?: LearningGoals }> {
+    let pulled = 0;
+    let settings: SyncChange | undefined;
+    let cursor = await this.getProfileState(PULL_CURSOR_KEY);
+
+    for (;;) {
+      const result = await transport.pull(deviceId, cursor, this.BATCH_SIZE);
+      for (const change of result.changes) {
+        // 送信後に端末で変更されたレコードは、次の同期で端末側の変更をサーバーに判定させる
+        if (await databaseService.hasPendingSyncChange(change.entity, change.key)) continue;
+
+        if (change.entity === 'settings') {
+          settings = change;
+        } else {
+          await databaseService.applySyncChange(change);
+        }
+        pulled++;
+      }
+
+      cursor = result.cursor;
+      await this.setProfileState(PULL_CURSOR_KEY, cursor);
+      if (!result.hasMore) break;
+    }
+
+    return { pulled, settings: settings?.payload };
+  }
+
+  private stateKey(profileId: number, key: string): string {
+    return `profile:${profileId}:${key}`;
+  }
+
+  private getProfileState(key: string): Promise<string | null> {
+    return databaseService.getSyncState(this.stateKey(databaseService.getActiveProfileId(), key));
+  }
+
+  private setProfileState(key: string, value: string | null): Promise<void> {
+    return databaseService.setSyncState(this.stateKey(databaseService.getActiveProfileId(), key), value);
+  }
+
+  private async getTransport(): Promise<SyncTransport | null> {
+    if (this.transport) return this.transport;
+
+    const serverUrl = await this.getProfileState(SERVER_URL_KEY);
+    return serverUrl ? new HttpSyncTransport(serverUrl) : null;
+  }
+
+  private async getDeviceId(): Promise<string> {
+    const existing = await databaseService.getSyncState(DEVICE_ID_KEY);
+    if (existing) return existing;
+
+    const deviceId = `device-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 10)}`;
+    await databaseService.setSyncState(DEVICE_ID_KEY, deviceId);
+    return deviceId;
+  }
+}
+
+export const syncService = new SyncService();
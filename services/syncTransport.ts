@@ -0,0 +1,132 @@
+import { SyncChange, SyncEntity } from '../types';
+
+/*
+ * 同期サーバーとのHTTPプロトコル
+ *
+ * POST {baseUrl}/sync/push
+ *   リクエスト: { "deviceId": string, "changes": SyncChange[] }
+ *   レスポンス: { "cursor": string }
+ *   サーバーは (entity, key) ごとに SYNC_RULES に従って勝った変更だけを保持し、保持するたびにカーソルを進める
+ *
+ * GET {baseUrl}/sync/pull?deviceId={deviceId}&since={cursor}&limit={limit}
+ *   レスポンス: { "changes": SyncChange[], "cursor": string, "hasMore": boolean }
+ *   since より後に保持された変更のうち、他の端末の変更だけを保持した順に返す（sinceを省略すると最初から）
+ *
+ * 認証トークンを設定した場合は Authorization: Bearer {token} を付ける。
+ * カーソルはサーバーが決める不透明な文字列で、クライアントは次のpullにそのまま渡す。
+ */
+
+// last-writer-wins: updatedAtが新しい方 / most-attempts: 回答数（payload.attempts、user_progressはpayload.progress.attempts）が多い方、同数なら新しい方 / append-only: 競合しない
+export type SyncRule = 'last-writer-wins' | 'most-attempts' | 'append-only';
+
+export const SYNC_RULES: Record<SyncEntity, SyncRule> = {
+  enriched_bookmark: 'last-writer-wins',
+  legacy_bookmark: 'last-writer-wins',
+  settings: 'last-writer-wins',
+  enriched_progress: 'most-attempts',
+  user_progress: 'most-attempts',
+  study_session: 'append-only',
+};
+
+const getAttempts = (change: SyncChange): number =>
+  (change.entity === 'user_progress' ? change.payload?.progress?.attempts : change.payload?.attempts) ?? 0;
+
+// 同じレコードへの変更が競合したときに受信した変更を採用するか
+export const isIncomingPreferred = (current: SyncChange | null, incoming: SyncChange): boolean => {
+  if (!current) return true;
+
+  switch (SYNC_RULES[incoming.entity]) {
+    case 'most-attempts': {
+      const diff = getAttempts(incoming) - getAttempts(current);
+      return diff !== 0 ? diff > 0 : incoming.updatedAt >= current.updatedAt;
+    }
+    case 'append-only':
+      return false;
+    default:
+      return incoming.updatedAt >= current.updatedAt;
+  }
+};
+
+export interface SyncPullResult {
+  changes: SyncChange[];
+  cursor: string;
+  hasMore: boolean;
+}
+
+// 同期サーバーとの通信（テストではLocalSyncTransportに差し替える）
+export interface SyncTransport {
+  push(deviceId: string, changes: SyncChange[]): Promise<{ cursor: string }>;
+  pull(deviceId: string, since: string | null, limit: number): Promise<SyncPullResult>;
+}
+
+export class HttpSyncTransport implements SyncTransport {
+  constructor(private readonly baseUrl: string, private readonly token?: string) {}
+
+  async push(deviceId: string, changes: SyncChange[]): Promise<{ cursor: string }> {
+    return this.request('/sync/push', { method: 'POST', body: JSON.stringify({ deviceId, changes }) });
+  }
+
+  async pull(deviceId: string, since: string | null, limit: number): Promise<SyncPullResult> {
+    const params = new URLSearchParams({ deviceId, limit: String(limit) });
+    if (since) params.set('since', since);
+    return this.request(`/sync/pull?${params.toString()}`, { method: 'GET' });
+  }
+
+  private async request<T>(path: string, init: RequestInit): Promise<T> {
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.token ? { Authorization: `Bearer ${this.token}` } : {}),
+      },
+    });
+    if (!response.ok) {
+      throw new Error(`Sync server responded with ${response.status}`);
+    }
+    return response.json();
+  }
+}
+
+// 同期サーバーの代わりになるメモリ上のサーバー（複数のLocalSyncTransportで共有して端末間の同期を再現する）
+export class InMemorySyncServer {
+  private records = new Map<string, { change: SyncChange; seq: number }>();
+  private seq = 0;
+
+  push(changes: SyncChange[]): { cursor: string } {
+    for (const change of changes) {
+      const recordKey = `${change.entity}:${change.key}`;
+      const current = this.records.get(recordKey);
+      if (isIncomingPreferred(current?.change ?? null, change)) {
+        this.records.set(recordKey, { change, seq: ++this.seq });
+      }
+    }
+    return { cursor: String(this.seq) };
+  }
+
+  pull(deviceId: string, since: string | null, limit: number): SyncPullResult {
+    const sinceSeq = since ? Number(since) : 0;
+    const pending = [...this.records.values()]
+      .filter(record => record.seq > sinceSeq)
+      .sort((a, b) => a.seq - b.seq);
+    const page = pending.slice(0, limit);
+    const cursor = page.length > 0 ? page[page.length - 1].seq : sinceSeq;
+
+    return {
+      changes: page.filter(record => record.change.deviceId !== deviceId).map(record => record.change),
+      cursor: String(cursor),
+      hasMore: pending.length > limit,
+    };
+  }
+}
+
+export class LocalSyncTransport implements SyncTransport {
+  constructor(private readonly server: InMemorySyncServer) {}
+
+  async push(_deviceId: string, changes: SyncChange[]): Promise<{ cursor: string }> {
+    return this.server.push(changes);
+  }
+
+  async pull(deviceId: string, since: string | null, limit: number): Promise<SyncPullResult> {
+    return this.server.pull(deviceId, since, limit);
+  }
+}
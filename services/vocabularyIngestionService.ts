@@ -0,0 +1,168 @@
+import { databaseService } from './database';
+import { enrichedVocabularyService } from './enrichedVocabularyService';
+import { VocabularyChangeReport } from '../types';
+import vocabularyData from './vocabulary.json';
+import { EnrichedWord, vocabularyPackService } from './vocabularyPackService';
+import { RemovedEnrichedWord, vocabularyReconciliationService } from './vocabularyReconciliationService';
+
+export type VocabularyImportPhase = 'profile' | 'details';
+
+export interface VocabularyImportProgress {
+  phase: VocabularyImportPhase;
+  cefrLevel?: string; // detailsで取り込み中のレベル
+  processed: number;
+  total: number;
+}
+
+// vocabulary_importsに記録するsource（enriched語彙はレベルごと）
+const PROFILE_SOURCE = 'cefrj-profile';
+const DETAILS_SOURCE_PREFIX = 'enriched:';
+const detailsSource = (cefrLevel: string): string => `${DETAILS_SOURCE_PREFIX}${cefrLevel}`;
+
+// 1トランザクションで登録する単語数（バッチごとに進捗を通知する）
+const BATCH_SIZE = 200;
+
+// 語彙データ（CEFR-J語彙プロファイルとインストール済みの語彙パック）をSQLiteに取り込む
+// 取り込みが完了したsourceはバージョンを記録して次回から飛ばす（途中で終了した場合は次回そのsourceをやり直す）
+class VocabularyIngestionService {
+  private running: Promise<VocabularyChangeReport | null> | null = null;
+  private rerunRequested = false;
+
+  // 実行中に呼ばれた場合（語彙パックのインストール・削除）は、実行中の取り込みの後にもう一度取り込んでから完了する
+  // 進捗は最初の呼び出し元にだけ通知する。語彙パックの更新で単語が変わった場合はその内容を返す
+  run(onProgress?: (progress: VocabularyImportProgress) => void): Promise<VocabularyChangeReport | null> {
+    if (this.running) {
+      this.rerunRequested = true;
+      return this.running;
+    }
+
+    this.running = this.importUntilCurrent(onProgress).finally(() => {
+      this.running = null;
+    });
+    return this.running;
+  }
+
+  private async importUntilCurrent(
+    onProgress?: (progress: VocabularyImportProgress) => void
+  ): Promise<VocabularyChangeReport | null> {
+    let report: VocabularyChangeReport | null = null;
+    do {
+      this.rerunRequested = false;
+      report = this.mergeReports(report, await this.importAll(onProgress));
+    } while (this.rerunRequested);
+    return report;
+  }
+
+  private async importAll(onProgress?: (progress: VocabularyImportProgress) => void): Promise<VocabularyChangeReport | null> {
+    const profileVersion = vocabularyData.metadata.source;
+    const importProfile = (await databaseService.getVocabularyImportVersion(PROFILE_SOURCE)) !== profileVersion;
+
+    await this.removeUninstalledLevels();
+
+    // 読み込めないパックは取り込まない（そのレベルの検索は語彙パックのJSONのまま）
+    const pendingLevels: { level: string; version: string; previousVersion: string | null; words: EnrichedWord[] }[] = [];
+    for (const pack of await vocabularyPackService.getInstalledPacks()) {
+      const level = pack.cefrLevel;
+      const version = `${pack.id}@${pack.version}`;
+      const previousVersion = await databaseService.getVocabularyImportVersion(detailsSource(level));
+      if (previousVersion === version) {
+        enrichedVocabularyService.setLevelIndexed(level, true);
+        continue;
+      }
+      try {
+        const data = await vocabularyPackService.getPackVocabulary(level);
+        pendingLevels.push({ level, version, previousVersion, words: data.vocabulary });
+      } catch (error) {
+        console.warn(`Skipping vocabulary import for ${level}:`, error);
+      }
+    }
+
+    const total = (importProfile ? vocabularyData.vocabulary.length : 0) +
+      pendingLevels.reduce((sum, { words }) => sum + words.length, 0);
+    if (total === 0) return null;
+
+    console.log(`Importing ${total} vocabulary entries...`);
+    let processed = 0;
+    const removedWords: RemovedEnrichedWord[] = [];
+    onProgress?.({ phase: importProfile ? 'profile' : 'details', cefrLevel: pendingLevels[0]?.level, processed, total });
+
+    try {
+      if (importProfile) {
+        for (let i = 0; i < vocabularyData.vocabulary.length; i += BATCH_SIZE) {
+          const batch = vocabularyData.vocabulary.slice(i, i + BATCH_SIZE);
+          await databaseService.insertCefrWords(batch.map(item => ({
+            word: item.word,
+            pos: item.pos || null,
+            cefrLevel: item.cefr,
+            coreInventory: item.coreInventory1 ? 1 : 0,
+          })));
+          processed += batch.length;
+          onProgress?.({ phase: 'profile', processed, total });
+        }
+        await databaseService.markVocabularyImported(PROFILE_SOURCE, profileVersion, vocabularyData.vocabulary.length);
+      }
+
+      for (const { level, version, previousVersion, words } of pendingLevels) {
+        // 以前のバージョンを取り込み済みなら、詳細を消す前に新しいバージョンで削除された単語を調べる
+        if (previousVersion !== null) {
+          removedWords.push(...await vocabularyReconciliationService.findRemovedWords(level, version, words.map(w => w.word)));
+        }
+
+        // 古いバージョンの詳細を消している間は語彙データのJSONを検索する
+        enrichedVocabularyService.setLevelIndexed(level, false);
+        await databaseService.deleteWordDetailsForLevel(level);
+
+        for (let i = 0; i < words.length; i += BATCH_SIZE) {
+          const batch = words.slice(i, i + BATCH_SIZE);
+          await databaseService.insertWordDetails(batch.map(word => enrichedVocabularyService.toWordDetailsEntry(word)));
+          processed += batch.length;
+          onProgress?.({ phase: 'details', cefrLevel: level, processed, total });
+        }
+
+        await databaseService.markVocabularyImported(detailsSource(level), version, words.length);
+        enrichedVocabularyService.setLevelIndexed(level, true);
+        console.log(`Imported ${words.length} enriched words for ${level}`);
+      }
+    } catch (error) {
+      console.error('Error importing vocabulary:', error);
+      throw new Error(`Failed to import vocabulary: ${error}`);
+    }
+
+    console.log(`Imported ${processed} vocabulary entries`);
+
+    // 新しく取り込んだレベルにアーカイブした単語が戻っている場合もあるため、詳細を取り込んだら毎回確認する
+    if (pendingLevels.length === 0) return null;
+    return vocabularyReconciliationService.reconcile(pendingLevels.map(({ level }) => level), removedWords);
+  }
+
+  private mergeReports(
+    current: VocabularyChangeReport | null, next: VocabularyChangeReport | null
+  ): VocabularyChangeReport | null {
+    if (!current || !next) return current ?? next;
+    return {
+      cefrLevels: [...new Set([...current.cefrLevels, ...next.cefrLevels])],
+      moved: [...current.moved, ...next.moved],
+      removed: [...current.removed, ...next.removed],
+      restored: [...current.restored, ...next.restored],
+      affectedWords: current.affectedWords + next.affectedWords,
+    };
+  }
+
+  // 削除された語彙パックのレベルの詳細を削除（語彙プロファイルの単語と学習履歴は残す）
+  private async removeUninstalledLevels(): Promise<void> {
+    const installedLevels = await vocabularyPackService.getInstalledLevels();
+    const sources = await databaseService.getVocabularyImportSources();
+
+    for (const source of sources.filter(s => s.startsWith(DETAILS_SOURCE_PREFIX))) {
+      const level = source.substring(DETAILS_SOURCE_PREFIX.length);
+      if (installedLevels.includes(level)) continue;
+
+      enrichedVocabularyService.setLevelIndexed(level, false);
+      await databaseService.deleteWordDetailsForLevel(level);
+      await databaseService.deleteVocabularyImport(source);
+      console.log(`Removed imported vocabulary for ${level}`);
+    }
+  }
+}
+
+export const vocabularyIngestionService = new VocabularyIngestionService();
@@ -0,0 +1,282 @@
+import * as Crypto from 'expo-crypto';
+import * as FileSystem from 'expo-file-system';
+import { InstalledVocabularyPack, VocabularyPackManifest } from '../types';
+import { databaseService } from './database';
+
+// アプリに同梱する語彙データ（その他のレベルは語彙パックとしてインストールする）
+import enrichedC1Data from './enriched_vocabulary_C1.json';
+import enrichedC2Data from './enriched_vocabulary_C2.json';
+
+export const PACK_FORMAT = 'vocabmaster-pack';
+
+export const CEFR_LEVELS = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'];
+const SUPPORTED_LANGUAGES = ['en'];
+const PACK_DIRECTORY = `${FileSystem.documentDirectory}vocabulary-packs/`;
+
+export interface EnrichedWord {
+  word: string;
+  pos: string;
+  cefr: string;
+  coreInventory1: any;
+  coreInventory2: any;
+  threshold: any;
+  apiData: {
+    pronunciation?: {
+      all?: string;
+    };
+    definitions?: {
+      definition: string;
+      partOfSpeech: string;
+      derivation: string[];
+      typeOf: string[];
+      hasTypes: string[];
+      partOf: string[];
+      hasParts: string[];
+      similarTo: string[];
+      also: string[];
+    }[];
+    syllables?: {
+      count: number;
+      list: string[];
+    };
+    frequency?: number;
+    examples?: string[];
+    synonyms?: string[];
+    antonyms?: string[];
+  };
+}
+
+// 語彙パックのファイル形式
+export interface VocabularyPackFile {
+  format: typeof PACK_FORMAT;
+  manifest: VocabularyPackManifest;
+  vocabulary: EnrichedWord[];
+}
+
+// Words APIで生成したenriched語彙のファイル（マニフェストを補ってそのまま語彙パックとしてインストールできる）
+interface EnrichedVocabularyFile {
+  metadata: {
+    source: string;
+    cefrLevel: string;
+    enrichedDate: string;
+  };
+  vocabulary: EnrichedWord[];
+}
+
+const BUNDLED_PACKS: { [cefrLevel: string]: EnrichedVocabularyFile } = {
+  C1: enrichedC1Data as EnrichedVocabularyFile,
+  C2: enrichedC2Data as EnrichedVocabularyFile,
+};
+
+export interface PackInstallResult {
+  pack: InstalledVocabularyPack;
+  previous: InstalledVocabularyPack | null; // 置き換えた同じレベルのパック
+}
+
+// 語彙パックの登録簿（インストール・更新・削除と、インストール済みのパックの語彙の読み込み）
+class VocabularyPackService {
+  private installedPacks: InstalledVocabularyPack[] | null = null;
+  private vocabularyCache: Map<string, VocabularyPackFile> = new Map();
+
+  // データベースの初期化前は空
+  async getInstalledPacks(): Promise<InstalledVocabularyPack[]> {
+    if (!databaseService.isInitialized()) return [];
+    if (!this.installedPacks) {
+      this.installedPacks = await databaseService.getVocabularyPacks();
+    }
+    return this.installedPacks;
+  }
+
+  // インストール済みのレベル（易しい順）
+  async getInstalledLevels(): Promise<string[]> {
+    const packs = await this.getInstalledPacks();
+    return CEFR_LEVELS.filter(level => packs.some(pack => pack.cefrLevel === level));
+  }
+
+  async getPackVocabulary(cefrLevel: string): Promise<VocabularyPackFile> {
+    const cached = this.vocabularyCache.get(cefrLevel);
+    if (cached) return cached;
+
+    const pack = (await this.getInstalledPacks()).find(p => p.cefrLevel === cefrLevel);
+    if (!pack) {
+      throw new Error(`No vocabulary pack is installed for level: ${cefrLevel}`);
+    }
+
+    const data: VocabularyPackFile = pack.bundled
+      ? { format: PACK_FORMAT, manifest: this.toManifest(pack), vocabulary: BUNDLED_PACKS[cefrLevel]?.vocabulary ?? [] }
+      : JSON.parse(await FileSystem.readAsStringAsync(this.getPackFileUri(pack.id)));
+
+    console.log(`Loaded ${data.vocabulary.length} words from vocabulary pack ${pack.id} (${pack.version})`);
+    this.vocabularyCache.set(cefrLevel, data);
+    return data;
+  }
+
+  // SQLiteに取り込んだレベルの語彙はメモリに残さない（取り込み後はSQLiteを検索する）
+  releaseVocabulary(cefrLevel: string): void {
+    this.vocabularyCache.delete(cefrLevel);
+  }
+
+  // 同梱のパックを登録（パックのないレベルと、アプリの更新で同梱のパックが新しくなったレベル）
+  async ensureBundledPacks(): Promise<void> {
+    const packs = await this.getInstalledPacks();
+
+    for (const [level, data] of Object.entries(BUNDLED_PACKS)) {
+      const installed = packs.find(pack => pack.cefrLevel === level);
+      const isOutdatedBundle = installed?.bundled && installed.version !== data.metadata.enrichedDate;
+      if (installed && !isOutdatedBundle) continue;
+
+      const manifest = await this.manifestFromEnrichedFile(data);
+      await databaseService.saveVocabularyPack({ ...manifest, bundled: true });
+      console.log(`Registered built-in vocabulary pack ${manifest.id} (${manifest.version})`);
+      this.invalidate(level);
+    }
+  }
+
+  async readPackFile(uri: string): Promise<VocabularyPackFile> {
+    const text = await FileSystem.readAsStringAsync(uri);
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new Error('The file is not a valid vocabulary pack (invalid JSON).');
+    }
+    return this.validate(parsed);
+  }
+
+  // マニフェストと語彙の内容を検証（エラーメッセージはそのまま画面に表示する）
+  async validate(data: any): Promise<VocabularyPackFile> {
+    if (!data || typeof data !== 'object' || !Array.isArray(data.vocabulary)) {
+      throw new Error('The file is not a vocabulary pack.');
+    }
+
+    let pack: VocabularyPackFile;
+    if (data.format === PACK_FORMAT) {
+      pack = data;
+    } else if (typeof data.metadata?.cefrLevel === 'string' && typeof data.metadata?.enrichedDate === 'string') {
+      pack = { format: PACK_FORMAT, manifest: await this.manifestFromEnrichedFile(data), vocabulary: data.vocabulary };
+    } else {
+      throw new Error('The file is not a vocabulary pack.');
+    }
+
+    const { manifest, vocabulary } = pack;
+    if (!manifest || typeof manifest !== 'object') {
+      throw new Error('The vocabulary pack has no manifest.');
+    }
+    for (const field of ['id', 'language', 'cefrLevel', 'version', 'checksum', 'source'] as const) {
+      if (typeof manifest[field] !== 'string' || (field !== 'source' && !manifest[field])) {
+        throw new Error(`The vocabulary pack manifest is missing "${field}".`);
+      }
+    }
+    if (!/^[a-z0-9][a-z0-9._-]*$/i.test(manifest.id)) {
+      throw new Error('The vocabulary pack has an invalid id.');
+    }
+    if (!SUPPORTED_LANGUAGES.includes(manifest.language)) {
+      throw new Error(`Vocabulary packs for "${manifest.language}" are not supported.`);
+    }
+    if (!CEFR_LEVELS.includes(manifest.cefrLevel)) {
+      throw new Error(`The vocabulary pack has an unknown CEFR level: ${manifest.cefrLevel}`);
+    }
+    if (manifest.wordCount !== vocabulary.length) {
+      throw new Error(`The vocabulary pack should contain ${manifest.wordCount} words but contains ${vocabulary.length}.`);
+    }
+    if (vocabulary.some(word => !word || typeof word.word !== 'string' || !word.word.trim() || word.cefr !== manifest.cefrLevel)) {
+      throw new Error(`The vocabulary pack contains words that are not ${manifest.cefrLevel} entries.`);
+    }
+    if ((await this.computeChecksum(vocabulary)) !== manifest.checksum.toLowerCase()) {
+      throw new Error('The vocabulary pack is damaged (checksum mismatch).');
+    }
+
+    return pack;
+  }
+
+  // 同じレベルの同梱のパック・同じidのパックは置き換える（別のパックが入っている場合は先に削除してもらう）
+  async installFromFile(uri: string): Promise<PackInstallResult> {
+    const pack = await this.readPackFile(uri);
+    const { manifest } = pack;
+    const previous = (await this.getInstalledPacks()).find(p => p.cefrLevel === manifest.cefrLevel) ?? null;
+
+    if (previous && previous.id !== manifest.id && !previous.bundled) {
+      throw new Error(`The ${previous.id} pack is already installed for ${manifest.cefrLevel}. Remove it first.`);
+    }
+    if (previous && previous.id === manifest.id && previous.version === manifest.version) {
+      throw new Error(`Version ${manifest.version} of this pack is already installed.`);
+    }
+
+    try {
+      await FileSystem.makeDirectoryAsync(PACK_DIRECTORY, { intermediates: true });
+      await FileSystem.writeAsStringAsync(this.getPackFileUri(manifest.id), JSON.stringify(pack));
+      await databaseService.saveVocabularyPack({ ...manifest, bundled: false });
+    } catch (error) {
+      console.error('Error installing vocabulary pack:', error);
+      throw new Error(`Failed to install vocabulary pack: ${error}`);
+    }
+    this.invalidate(manifest.cefrLevel);
+    console.log(`Installed vocabulary pack ${manifest.id} (${manifest.version}) for ${manifest.cefrLevel}`);
+
+    const installed = (await this.getInstalledPacks()).find(p => p.id === manifest.id)!;
+    return { pack: installed, previous };
+  }
+
+  // 同梱のパックがあるレベルでは同梱のパックに戻す（戻したパックを返す）
+  async removePack(packId: string): Promise<InstalledVocabularyPack | null> {
+    const pack = (await this.getInstalledPacks()).find(p => p.id === packId);
+    if (!pack) {
+      throw new Error('The vocabulary pack is not installed.');
+    }
+    if (pack.bundled) {
+      throw new Error('Built-in vocabulary packs cannot be removed.');
+    }
+
+    try {
+      await databaseService.deleteVocabularyPack(packId);
+      await FileSystem.deleteAsync(this.getPackFileUri(packId), { idempotent: true });
+    } catch (error) {
+      console.error('Error removing vocabulary pack:', error);
+      throw new Error(`Failed to remove vocabulary pack: ${error}`);
+    }
+    this.invalidate(pack.cefrLevel);
+    console.log(`Removed vocabulary pack ${packId}`);
+
+    await this.ensureBundledPacks();
+    return (await this.getInstalledPacks()).find(p => p.cefrLevel === pack.cefrLevel) ?? null;
+  }
+
+  private toManifest(pack: InstalledVocabularyPack): VocabularyPackManifest {
+    return {
+      id: pack.id,
+      language: pack.language,
+      cefrLevel: pack.cefrLevel,
+      version: pack.version,
+      wordCount: pack.wordCount,
+      checksum: pack.checksum,
+      source: pack.source,
+    };
+  }
+
+  private getPackFileUri(packId: string): string {
+    return `${PACK_DIRECTORY}${packId}.json`;
+  }
+
+  private invalidate(cefrLevel: string): void {
+    this.installedPacks = null;
+    this.vocabularyCache.delete(cefrLevel);
+  }
+
+  private async computeChecksum(vocabulary: EnrichedWord[]): Promise<string> {
+    return Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, JSON.stringify(vocabulary));
+  }
+
+  private async manifestFromEnrichedFile(data: EnrichedVocabularyFile): Promise<VocabularyPackManifest> {
+    return {
+      id: `cefrj-en-${data.metadata.cefrLevel.toLowerCase()}`,
+      language: 'en',
+      cefrLevel: data.metadata.cefrLevel,
+      version: data.metadata.enrichedDate,
+      wordCount: data.vocabulary.length,
+      checksum: await this.computeChecksum(data.vocabulary),
+      source: data.metadata.source,
+    };
+  }
+}
+
+export const vocabularyPackService = new VocabularyPackService();
@@ -0,0 +1,79 @@
+import { VocabularyChangeReport } from '../types';
+import { databaseService, EnrichedWordChange } from './database';
+import { syncService } from './syncService';
+import { CEFR_LEVELS } from './vocabularyPackService';
+
+// 語彙パックの新しいバージョンで削除された単語（どのパックで削除されたか）
+export interface RemovedEnrichedWord {
+  word: string;
+  cefrLevel: string;
+  packVersion: string;
+}
+
+// 語彙パックの更新の前後で単語を比べ、学習履歴（単語+CEFRレベルで記録）を付け替える
+// 別のレベルに移った単語は移動先に付け替え、どのレベルにもない単語はアーカイブし、アーカイブした単語が戻ったら復元する
+class VocabularyReconciliationService {
+  // 新しいバージョンの詳細を取り込む前に呼ぶ（取り込み済みの単語と比べる）
+  async findRemovedWords(cefrLevel: string, packVersion: string, newWords: string[]): Promise<RemovedEnrichedWord[]> {
+    const remaining = new Set(newWords);
+    const previousWords = await databaseService.getEnrichedWordsForLevel(cefrLevel);
+    return previousWords
+      .filter(word => !remaining.has(word))
+      .map(word => ({ word, cefrLevel, packVersion }));
+  }
+
+  // 更新したレベルの詳細をすべて取り込んだ後に呼ぶ
+  async reconcile(updatedLevels: string[], removedWords: RemovedEnrichedWord[]): Promise<VocabularyChangeReport | null> {
+    try {
+      const archivedWords = await databaseService.getArchivedWordRefs();
+      const words = [...new Set([...removedWords, ...archivedWords].map(entry => entry.word))];
+      if (words.length === 0) return null;
+
+      const levelsByWord = await databaseService.getEnrichedWordLevels(words);
+      const changes: EnrichedWordChange[] = [];
+
+      for (const { word, cefrLevel, packVersion } of removedWords) {
+        const to = this.findNearestLevel(cefrLevel, (levelsByWord.get(word) ?? []).filter(level => level !== cefrLevel));
+        changes.push(to
+          ? { kind: 'move', word, from: cefrLevel, to }
+          : { kind: 'archive', word, from: cefrLevel, packVersion });
+      }
+      for (const { word, cefrLevel } of archivedWords) {
+        const to = this.findNearestLevel(cefrLevel, levelsByWord.get(word) ?? []);
+        if (to) changes.push({ kind: 'restore', word, from: cefrLevel, to });
+      }
+
+      const affected = await databaseService.reconcileEnrichedWords(changes);
+      // 同期キー（単語|レベル）が変わるため、次の同期で全データを送り直す
+      if (affected.length > 0) {
+        await syncService.requestFullUpload();
+      }
+      const report: VocabularyChangeReport = {
+        cefrLevels: updatedLevels,
+        moved: changes.filter(c => c.kind === 'move').map(c => ({ word: c.word, from: c.from, to: c.to! })),
+        removed: changes.filter(c => c.kind === 'archive').map(c => ({ word: c.word, cefrLevel: c.from })),
+        restored: changes.filter(c => c.kind === 'restore').map(c => ({ word: c.word, cefrLevel: c.to! })),
+        affectedWords: affected.length,
+      };
+      if (report.moved.length + report.removed.length + report.restored.length === 0) return null;
+
+      console.log(
+        `Vocabulary changes: ${report.moved.length} moved, ${report.removed.length} removed, ` +
+        `${report.restored.length} restored (${report.affectedWords} with learning history)`
+      );
+      return report;
+    } catch (error) {
+      console.error('Error reconciling vocabulary changes:', error);
+      throw new Error(`Failed to reconcile vocabulary changes: ${error}`);
+    }
+  }
+
+  // 元のレベルがあればそのレベル、なければ一番近いレベル（同じ距離なら易しい方）
+  private findNearestLevel(cefrLevel: string, candidates: string[]): string | null {
+    const index = CEFR_LEVELS.indexOf(cefrLevel);
+    const distance = (level: string) => Math.abs(CEFR_LEVELS.indexOf(level) - index);
+    return [...candidates].sort((a, b) => distance(a) - distance(b) || CEFR_LEVELS.indexOf(a) - CEFR_LEVELS.indexOf(b))[0] ?? null;
+  }
+}
+
+export const vocabularyReconciliationService = new VocabularyReconciliationService();
@@ -0,0 +1,189 @@
+import { DeckImportEntry } from '../types';
+import { databaseService } from './database';
+import { enrichedVocabularyService } from './enrichedVocabularyService';
+
+// new: 新規登録 / duplicate: ファイル内の重複またはデッキに登録済み / conflict: 登録済みのカスタム単語と定義が異なる
+export type ImportRowStatus = 'new' | 'duplicate' | 'conflict';
+
+export interface ImportPreviewRow {
+  line: number; // ファイル上の行番号（1始まり）
+  word: string;
+  definition: string;
+  example?: string;
+  tag?: string;
+  status: ImportRowStatus;
+  cefrLevel?: string; // enriched語彙に一致した場合のレベル
+  existingDefinition?: string; // conflictのときの登録済みの定義
+}
+
+export interface ImportParseError {
+  line: number;
+  message: string;
+}
+
+export interface ImportPreview {
+  rows: ImportPreviewRow[];
+  errors: ImportParseError[];
+  newCount: number;
+  duplicateCount: number;
+  conflictCount: number;
+}
+
+interface ParsedRecord {
+  line: number;
+  cells: string[];
+}
+
+// CSV/TSV単語リストのインポート（word, definition, example?, tag?）
+// プレビューで重複・定義の衝突・読み込めない行を確認してから1つのトランザクションで登録する
+class WordListImportService {
+  private readonly MIN_COLUMNS = 2;
+  private readonly MAX_COLUMNS = 4;
+
+  async createPreview(text: string, deckId: number): Promise<ImportPreview> {
+    const { records, errors } = this.parseRecords(text);
+
+    const candidates: Omit<ImportPreviewRow, 'status'>[] = [];
+    for (const record of records) {
+      const cells = record.cells.map(cell => cell.trim());
+      // 空行は無視
+      if (cells.every(cell => cell === '')) continue;
+      // 表計算ソフトが付ける末尾の空の列は取り除く
+      while (cells.length > this.MIN_COLUMNS && cells[cells.length - 1] === '') cells.pop();
+
+      if (cells.length < this.MIN_COLUMNS || cells.length > this.MAX_COLUMNS) {
+        errors.push({ line: record.line, message: `Expected ${this.MIN_COLUMNS}-${this.MAX_COLUMNS} columns but found ${cells.length}` });
+        continue;
+      }
+
+      const [word, definition, example, tag] = cells;
+      if (!word) {
+        errors.push({ line: record.line, message: 'Missing word' });
+        continue;
+      }
+      if (!definition) {
+        errors.push({ line: record.line, message: `Missing definition for "${word}"` });
+        continue;
+      }
+
+      candidates.push({ line: record.line, word, definition, example: example || undefined, tag: tag || undefined });
+    }
+
+    const enrichedMatches = await enrichedVocabularyService.findWordsAcrossLevels(candidates.map(row => row.word));
+    const existingWords = await databaseService.getWordsByText(
+      candidates.filter(row => !enrichedMatches.has(row.word.toLowerCase())).map(row => row.word)
+    );
+    const existingByWord = new Map(existingWords.map(word => [word.word, word]));
+    const deckWords = new Set((await databaseService.getDeckWords(deckId)).map(deckWord => deckWord.word.toLowerCase()));
+
+    const seen = new Set<string>();
+    const rows: ImportPreviewRow[] = candidates.map(row => {
+      const key = row.word.toLowerCase();
+      const match = enrichedMatches.get(key);
+
+      if (seen.has(key) || deckWords.has(key)) {
+        return { ...row, status: 'duplicate', cefrLevel: match?.cefr };
+      }
+      seen.add(key);
+
+      if (match) {
+        // enriched語彙と同じ表記にそろえて発音・類義語・レベルを引き継ぐ
+        return { ...row, word: match.word, status: 'new', cefrLevel: match.cefr };
+      }
+
+      const existing = existingByWord.get(row.word);
+      if (existing && existing.definition.trim() !== row.definition) {
+        return { ...row, status: 'conflict', existingDefinition: existing.definition };
+      }
+      return { ...row, status: 'new' };
+    });
+
+    errors.sort((a, b) => a.line - b.line);
+
+    return {
+      rows,
+      errors,
+      newCount: rows.filter(row => row.status === 'new').length,
+      duplicateCount: rows.filter(row => row.status === 'duplicate').length,
+      conflictCount: rows.filter(row => row.status === 'conflict').length,
+    };
+  }
+
+  // 重複行は登録しない。衝突行はデッキには追加し、updateConflictsのときだけ定義を上書きする
+  async commitImport(deckId: number, preview: ImportPreview, options: { updateConflicts: boolean }): Promise<number> {
+    const entries: DeckImportEntry[] = preview.rows
+      .filter(row => row.status !== 'duplicate')
+      .map(row => ({
+        word: row.word,
+        cefrLevel: row.cefrLevel,
+        definition: row.definition,
+        example: row.example,
+        tag: row.tag,
+        updateDefinition: row.status === 'conflict' && options.updateConflicts,
+      }));
+
+    if (entries.length === 0) return 0;
+    return databaseService.importDeckWords(deckId, entries);
+  }
+
+  // 区切り文字を判定してレコードに分割（引用符内の区切り文字・改行・""エスケープに対応）
+  private parseRecords(text: string): { records: ParsedRecord[]; errors: ImportParseError[] } {
+    const content = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+    const firstLine = content.split('\n').find(line => line.trim() !== '') || '';
+    const delimiter = firstLine.includes('\t') ? '\t' : ',';
+
+    const records: ParsedRecord[] = [];
+    const errors: ImportParseError[] = [];
+    let cells: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+    let line = 1;
+    let recordLine = 1;
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+
+      if (inQuotes) {
+        if (char === '"' && content[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          if (char === '\n') line++;
+          cell += char;
+        }
+      } else if (char === '"' && cell.trim() === '') {
+        cell = '';
+        inQuotes = true;
+      } else if (char === delimiter) {
+        cells.push(cell);
+        cell = '';
+      } else if (char === '\n') {
+        records.push({ line: recordLine, cells: [...cells, cell] });
+        cells = [];
+        cell = '';
+        line++;
+        recordLine = line;
+      } else {
+        cell += char;
+      }
+    }
+
+    if (inQuotes) {
+      errors.push({ line: recordLine, message: 'Unterminated quoted field' });
+    } else if (cells.length > 0 || cell !== '') {
+      records.push({ line: recordLine, cells: [...cells, cell] });
+    }
+
+    // 見出し行（word, definition, ...）はスキップ
+    const header = records.find(record => record.cells.some(c => c.trim() !== ''));
+    if (header && header.cells[0]?.trim().toLowerCase() === 'word' && header.cells[1]?.trim().toLowerCase() === 'definition') {
+      records.splice(records.indexOf(header), 1);
+    }
+
+    return { records, errors };
+  }
+}
+
+export const wordListImportService = new WordListImportService();
@@ -0,0 +1,82 @@
+import { AnswerOutcome, StudyWord, StudyWordList, Word, WordRef } from '../types';
+import { databaseService } from './database';
+import { enrichedVocabularyService } from './enrichedVocabularyService';
+
+// WordRefを比較・Setのキーに使うための文字列（enriched単語の見出し語は大文字小文字を区別しない）
+export const wordKey = (ref: WordRef): string =>
+  ref.kind === 'enriched' ? `enriched:${ref.word.toLowerCase()}|${ref.cefrLevel}` : `custom:${ref.wordId}`;
+
+export const enrichedWordRef = (word: string, cefrLevel: string): WordRef => ({ kind: 'enriched', word, cefrLevel });
+
+export const customWordRef = (word: Pick<Word, 'id' | 'word'>): WordRef => ({ kind: 'custom', wordId: word.id, word: word.word });
+
+// 単語の学習状況（進捗・ブックマーク・苦手単語）をWordRefで扱う
+// enriched単語（enriched_progress / enriched_bookmarks）とカスタム単語（user_progress）のテーブルの違いはここで吸収する
+class WordRepository {
+  // enriched単語の定義・発音は語彙データから補う
+  async getStudyWords(list: StudyWordList, limit?: number): Promise<StudyWord[]> {
+    const words = await databaseService.getStudyWords(list, limit);
+
+    return Promise.all(words.map(async word => {
+      if (word.ref.kind !== 'enriched') return word;
+      const enrichedWord = await enrichedVocabularyService.getEnrichedWord(word.ref.word, word.ref.cefrLevel);
+      return enrichedWord
+        ? { ...word, definition: enrichedWord.definition, pronunciation: enrichedWord.pronunciation }
+        : word;
+    }));
+  }
+
+  async isBookmarked(ref: WordRef): Promise<boolean> {
+    if (ref.kind === 'enriched') {
+      return databaseService.isEnrichedWordBookmarked(ref.word, ref.cefrLevel);
+    }
+    const progress = await databaseService.getUserProgress(ref.wordId);
+    return !!progress?.isBookmarked;
+  }
+
+  async toggleBookmark(ref: WordRef): Promise<void> {
+    if (ref.kind === 'enriched') {
+      await databaseService.toggleEnrichedWordBookmark(ref.word, ref.cefrLevel);
+    } else {
+      await databaseService.toggleBookmark(ref.wordId);
+    }
+  }
+
+  async removeBookmark(ref: WordRef): Promise<void> {
+    if (ref.kind === 'enriched') {
+      await databaseService.removeEnrichedBookmark(ref.word, ref.cefrLevel);
+    } else {
+      await databaseService.removeBookmark(ref.wordId);
+    }
+  }
+
+  // カスタム単語は正答率から苦手かどうかが決まるため、一覧から外せるのはenriched単語のみ
+  canRemoveWeakWord(ref: WordRef): boolean {
+    return ref.kind === 'enriched';
+  }
+
+  async removeWeakWord(ref: WordRef): Promise<void> {
+    if (ref.kind !== 'enriched') {
+      throw new Error('Custom words cannot be removed from challenging words');
+    }
+    await databaseService.removeEnrichedWeakWord(ref.word, ref.cefrLevel);
+  }
+
+  // 回答結果を記録（書き取りはスペルの記録のみ更新。カスタム単語は正誤のみでnear-missは不正解として扱う）
+  // カスタム単語にはスペルの記録がないため、書き取りの回答では進捗（習熟度・復習スケジュール）を変えない
+  async recordAnswer(ref: WordRef, outcome: AnswerOutcome, spelling: boolean = false): Promise<void> {
+    if (ref.kind === 'enriched') {
+      if (spelling) {
+        await databaseService.updateEnrichedSpellingProgress(ref.word, ref.cefrLevel, outcome);
+      } else {
+        await databaseService.updateEnrichedWordProgress(ref.word, ref.cefrLevel, outcome);
+      }
+    } else if (spelling) {
+      console.log(`Skipped progress update for dictation answer on custom word: ${ref.word}`);
+    } else {
+      await databaseService.updateUserProgress(ref.wordId, outcome === 'correct');
+    }
+  }
+}
+
+export const wordRepository = new WordRepository();
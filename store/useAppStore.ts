@@ -2,20 +2,51 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import { create } from 'zustand';
 import { createJSONStorage, persist } from 'zustand/middleware';
 
-import { databaseService } from '../services/database';
-import { enrichedQuizService } from '../services/enrichedQuizService'; // Added import
+import { answerChecker } from '../services/answerChecker';
+import { DEFAULT_PROFILE_ID, databaseService } from '../services/database';
+import { CefrQuizWord, enrichedQuizService, QuizGenerationOptions, QuizQuestion as EnrichedQuizQuestion } from '../services/enrichedQuizService'; // Added import
 import { enrichedVocabularyService } from '../services/enrichedVocabularyService'; // Added import
-import { DashboardData, LearningGoals, QuizQuestion, Word } from '../types';
+import { questionValidator } from '../services/questionValidator';
+import { syncService } from '../services/syncService';
+import { VocabularyImportProgress, vocabularyIngestionService } from '../services/vocabularyIngestionService';
+import { PackInstallResult, vocabularyPackService } from '../services/vocabularyPackService';
+import { customWordRef, enrichedWordRef, wordKey, wordRepository } from '../services/wordRepository';
+import { AnswerOutcome, DashboardData, LearningGoals, Profile, QuizFilterSpec, QuizMode, QuizQuestion, StudyWord, StudyWordList, VocabularyChangeReport, Word, WordRef } from '../types';
 
 interface CurrentSession {
   questions: QuizQuestion[];
   currentIndex: number;
   answers: boolean[];
   startTime: Date;
-  mode: 'random' | 'review' | 'bookmarked' | 'weak';
+  mode: QuizMode;
+  sessionId: string;
+  questionStartTime: Date; // 現在の問題を表示した時刻（回答時間の計測用）
+}
+
+// 語彙データの取り込み状況（progressは取り込む単語がある間だけ）
+interface VocabularyImportState {
+  status: 'idle' | 'running' | 'done' | 'error';
+  progress: VocabularyImportProgress | null;
+}
+
+// プロフィールごとに保持する設定と進捗
+interface ProfileState {
+  userSettings: LearningGoals;
+  xp: number;
+  level: number;
 }
 
 interface AppStore {
+  // プロフィール（userSettingsとprogressは現在のプロフィールのもの）
+  activeProfileId: number;
+  profiles: Profile[];
+  profileStates: { [profileId: number]: ProfileState }; // 切り替えたときに退避した各プロフィールの設定・XP
+  loadProfiles: () => Promise<void>;
+  switchProfile: (profileId: number) => Promise<void>;
+  createProfile: (name: string, avatar?: string) => Promise<number>;
+  updateProfile: (profileId: number, name: string, avatar?: string) => Promise<void>;
+  deleteProfile: (profileId: number) => Promise<void>;
+
   // ユーザー設定
   userSettings: LearningGoals;
   setUserSettings: (settings: LearningGoals) => void;
@@ -30,20 +61,32 @@ interface AppStore {
     level: number;
     xp: number;
   };
+
+  // 復習期限が来た単語数
+  dueCounts: { legacy: number; enriched: number; total: number };
   
   // アクション
-  startQuiz: (mode: 'random' | 'review' | 'bookmarked' | 'weak', wordCount?: number) => Promise<void>;
-  submitAnswer: (questionId: string, answer: string) => Promise<void>;
+  startQuiz: (mode: QuizMode | QuizFilterSpec, wordCount?: number, deckId?: number) => Promise<void>; // 条件を渡すとカスタムクイズ、deckIdでデッキ内の単語に限定
+  submitAnswer: (questionId: string, answer: string) => Promise<AnswerOutcome | undefined>;
   nextQuestion: () => void;
   previousQuestion: () => void;
   finishSession: () => Promise<void>;
   cancelQuiz: () => void; // クイズキャンセル機能を追加
-  bookmarkWord: (wordId: number) => Promise<void>;
-  bookmarkEnrichedWord: (word: string, cefrLevel: string) => Promise<void>;
+  toggleBookmark: (ref: WordRef) => Promise<void>;
   updateProgress: () => Promise<void>;
   
   // 初期化
   initialize: () => Promise<void>;
+
+  // 語彙データの取り込み（初回起動時・語彙データの更新後にバックグラウンドで実行）
+  vocabularyImport: VocabularyImportState;
+  importVocabulary: () => Promise<void>;
+  vocabularyChanges: VocabularyChangeReport | null; // 語彙パックの更新で変わった単語（確認するまで表示）
+  dismissVocabularyChanges: () => void;
+
+  // 語彙パック（インストール・削除の後に語彙を取り込み直す）
+  installVocabularyPack: (uri: string) => Promise<PackInstallResult>;
+  removeVocabularyPack: (packId: string) => Promise<void>;
   
   // UI状態
   isLoading: boolean;
@@ -94,25 +137,46 @@ const mapCefrToLegacyDifficulty = (cefrLevel: string): number => {
   }
 };
 
-const mapDifficultyToCefr = (difficulty: number): string => {
-  switch (difficulty) {
-    case 1:
-      return 'A1';
-    case 2:
-      return 'A2';
-    case 3:
-      return 'B1';
-    case 4:
-      return 'B2';
-    case 5:
-      return 'C1';
-    case 6:
-      return 'C2';
-    default:
-      return 'A2'; // Default for unknown difficulty
-  }
+// EnrichedQuizServiceの問題をアプリ共通のQuizQuestion形式に変換
+const convertEnrichedQuestion = (cefrQ: EnrichedQuizQuestion, index: number): QuizQuestion => ({
+  id: `${wordKey(enrichedWordRef(cefrQ.word.word, cefrQ.word.cefr_level))}-${index}`,
+  word: cefrQ.word.word,
+  correctAnswer: cefrQ.correctAnswer,
+  options: cefrQ.options,
+  pronunciation: cefrQ.word.pronunciation,
+  difficulty: mapCefrToLegacyDifficulty(cefrQ.word.cefr_level),
+  category: cefrQ.word.pos || 'general',
+  definition: cefrQ.word.definition,
+  example: cefrQ.word.example_sentence,
+  questionType: cefrQ.type,
+  cefrLevel: cefrQ.word.cefr_level, // CEFRレベル情報を追加
+  answerFormat: cefrQ.answerFormat || 'choice',
+  prompt: cefrQ.prompt,
+  wordRef: enrichedWordRef(cefrQ.word.word, cefrQ.word.cefr_level)
+});
+
+// 1回の問題数の既定値（モード別の設定がない場合）
+export const DEFAULT_QUIZ_LENGTH = 10;
+
+// 1回の問題数：引数 > モード別の設定 > 既定値（いずれも1日の目標単語数まで）
+export const getSessionLength = (settings: LearningGoals, mode: QuizMode, wordCount?: number): number => {
+  const requested = wordCount ?? settings.quizLengths?.[mode] ?? DEFAULT_QUIZ_LENGTH;
+  return Math.max(1, Math.min(requested, settings.dailyWordCount));
 };
 
+// ユーザー設定からクイズ生成オプションを作成
+// 問題形式の割合が設定されていればそれに従い、なければdefaultTypes（未指定なら全形式）
+const getGenerationOptions = (
+  settings: LearningGoals,
+  defaultTypes?: EnrichedQuizQuestion['type'][]
+): QuizGenerationOptions => ({
+  distractorDifficulty: settings.distractorDifficulty,
+  ...(settings.questionTypeMix ? { typeMix: settings.questionTypeMix } : { allowedTypes: defaultTypes })
+});
+
+const createSessionId = (): string =>
+  `session-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
 const shuffleArray = <T>(array: T[]): T[] => {
   const shuffledArray = [...array];
   for (let i = shuffledArray.length - 1; i > 0; i--) {
@@ -137,7 +201,7 @@ const generateQuestionsFromLegacyWords = async (words: Word[], count: number): P
     const options = [word.definition, ...wrongAnswers].sort(() => Math.random() - 0.5);
 
     questions.push({
-      id: `${word.id}-${i}`,
+      id: `${wordKey(customWordRef(word))}-${i}`,
       word: word.word,
       correctAnswer: word.definition,
       options,
@@ -145,7 +209,8 @@ const generateQuestionsFromLegacyWords = async (words: Word[], count: number): P
       difficulty: word.difficulty,
       category: word.category,
       definition: word.definition,
-      questionType: 'definition'
+      questionType: 'definition',
+      wordRef: customWordRef(word)
     });
   }
   
@@ -215,7 +280,7 @@ const generateQuestionsFromLegacyWordsWithTracking = async (words: Word[], count
     const options = shuffleArray([word.definition, ...selectedIncorrectOptions]);
 
     questions.push({
-      id: `${word.id}-${i}`,
+      id: `${wordKey(customWordRef(word))}-${i}`,
       word: word.word,
       correctAnswer: word.definition,
       options,
@@ -223,74 +288,231 @@ const generateQuestionsFromLegacyWordsWithTracking = async (words: Word[], count
       difficulty: word.difficulty,
       category: word.category,
       definition: word.definition,
-      questionType: 'definition'
+      questionType: 'definition',
+      wordRef: customWordRef(word)
     });
   }
   
-  return questions;
+  // 重複・埋め草の選択肢や、見出し語を含む定義の問題を除外
+  return questionValidator.filterValid(questions, 'LegacyQuiz');
 };
 
+// 指定したenriched wordsからクイズを生成（問題形式の割合が未設定なら定義問題のみ）
 const generateQuestionsFromEnrichedWords = async (
   enrichedWords: {word: string; cefr_level: string}[], 
-  count: number
+  count: number,
+  settings: LearningGoals
 ): Promise<QuizQuestion[]> => {
-  const questions: QuizQuestion[] = [];
-  
-  // enriched vocabulary serviceから詳細データを取得
-  for (let i = 0; i < Math.min(count, enrichedWords.length); i++) {
-    const enrichedWord = enrichedWords[i];
-    
-    try {
-      // enriched vocabulary dataから詳細情報を取得
-      const vocabularyData = await enrichedVocabularyService.getEnrichedVocabulary(enrichedWord.cefr_level);
-      const wordData = vocabularyData.vocabulary.find(w => w.word === enrichedWord.word);
-      
-      if (wordData && wordData.apiData?.definitions && wordData.apiData.definitions.length > 0) {
-        const definition = wordData.apiData.definitions[0].definition;
-        
-        // 他の単語から不正解選択肢を作成
-        const otherWords = vocabularyData.vocabulary
-          .filter(w => w.word !== enrichedWord.word && w.apiData?.definitions && w.apiData.definitions.length > 0)
-          .slice(0, 10);
-        
-        const wrongAnswers = shuffleArray(otherWords)
-          .slice(0, 3)
-          .map(w => w.apiData!.definitions![0].definition);
-        
-        const options = shuffleArray([definition, ...wrongAnswers]);
-        
-        questions.push({
-          id: `enriched-${i}`,
-          word: wordData.word,
-          correctAnswer: definition,
-          options,
-          pronunciation: wordData.apiData?.pronunciation?.all,
-          difficulty: mapCefrToLegacyDifficulty(wordData.cefr),
-          category: wordData.pos,
-          definition: definition,
-          questionType: 'definition'
-        });
-      }
-    } catch (error) {
-      console.error(`Error generating question for enriched word ${enrichedWord.word}:`, error);
-    }
+  const enrichedQuestions = await enrichedQuizService.createQuizForWords(
+    enrichedWords.slice(0, count),
+    getGenerationOptions(settings, ['definition'])
+  );
+
+  return enrichedQuestions.map(convertEnrichedQuestion);
+};
+
+// 学習状況で選んだ単語から出題（カスタム単語は定義の4択、enriched単語は設定した問題形式）
+const generateQuestionsFromStudyWords = async (words: StudyWord[], settings: LearningGoals): Promise<QuizQuestion[]> => {
+  const customWords = await databaseService.getWordsByText(
+    words.flatMap(w => w.ref.kind === 'custom' ? [w.ref.word] : [])
+  );
+  const enrichedWords = words.flatMap(w => w.ref.kind === 'enriched' ? [{ word: w.ref.word, cefr_level: w.ref.cefrLevel }] : []);
+  let questions: QuizQuestion[] = [];
+
+  if (customWords.length > 0) {
+    questions = [...questions, ...await generateQuestionsFromLegacyWordsWithTracking(customWords, customWords.length)];
+  }
+  if (enrichedWords.length > 0) {
+    questions = [...questions, ...await generateQuestionsFromEnrichedWords(enrichedWords, enrichedWords.length, settings)];
   }
-  
   return questions;
 };
 
+// デッキに含まれる単語（enriched単語とwordsテーブルのカスタム単語）
+interface DeckScope {
+  enrichedWords: { word: string; cefr_level: string }[];
+  customWords: Word[];
+  has: (ref: WordRef) => boolean;
+}
+
+const loadDeckScope = async (deckId: number): Promise<DeckScope> => {
+  const [deckWords, customWords] = await Promise.all([
+    databaseService.getDeckWords(deckId),
+    databaseService.getDeckCustomWords(deckId)
+  ]);
+  const enrichedWords = deckWords.flatMap(w =>
+    w.cefrLevel && w.wordId === undefined ? [{ word: w.word, cefr_level: w.cefrLevel }] : []
+  );
+  const keys = new Set([
+    ...enrichedWords.map(w => wordKey(enrichedWordRef(w.word, w.cefr_level))),
+    ...customWords.map(w => wordKey(customWordRef(w)))
+  ]);
+
+  return {
+    enrichedWords,
+    customWords,
+    has: ref => keys.has(wordKey(ref))
+  };
+};
+
+// デッキ指定時はデッキ内の単語だけに絞り込む
+const filterToDeck = (words: StudyWord[], deck: DeckScope | null): StudyWord[] =>
+  deck ? words.filter(w => deck.has(w.ref)) : words;
+
+const filterEnrichedToDeck = <T extends { word: string; cefr_level: string }>(words: T[], deck: DeckScope | null): T[] =>
+  deck ? words.filter(w => deck.has(enrichedWordRef(w.word, w.cefr_level))) : words;
+
+// デッキの単語からランダムに出題（enriched単語とカスタム単語を単語数に応じて配分）
+const generateQuestionsFromDeck = async (deck: DeckScope, count: number, settings: LearningGoals): Promise<QuizQuestion[]> => {
+  const totalWords = deck.enrichedWords.length + deck.customWords.length;
+  if (totalWords === 0) return [];
+
+  const actualCount = Math.min(count, totalWords);
+  const customPortion = Math.round((deck.customWords.length / totalWords) * actualCount);
+  const enrichedPortion = actualCount - customPortion;
+  let deckQuestions: QuizQuestion[] = [];
+
+  if (customPortion > 0) {
+    deckQuestions = [...deckQuestions, ...await generateQuestionsFromLegacyWordsWithTracking(shuffleArray(deck.customWords), customPortion)];
+  }
+  if (enrichedPortion > 0) {
+    const enrichedQuestions = await enrichedQuizService.createQuizForWords(
+      shuffleArray(deck.enrichedWords).slice(0, enrichedPortion),
+      getGenerationOptions(settings)
+    );
+    deckQuestions = [...deckQuestions, ...enrichedQuestions.map(convertEnrichedQuestion)];
+  }
+
+  return shuffleArray(deckQuestions);
+};
+
+// カスタムクイズの条件に合うenriched単語を検索
+// 語彙データの条件で絞り込んだ後、学習状況（ブックマーク・苦手・未学習、習熟度）で絞り込む
+export const findCustomQuizWords = async (filter: QuizFilterSpec): Promise<CefrQuizWord[]> => {
+  const candidates = await enrichedVocabularyService.queryWords(filter);
+  const needsProgress = !!filter.masteryRange || (filter.include && filter.include.length > 0);
+  if (!needsProgress || candidates.length === 0) return candidates;
+
+  const keyOf = (word: string, cefrLevel: string) => `${word.toLowerCase()}|${cefrLevel}`;
+  const progress = new Map(
+    (await databaseService.getEnrichedProgressEntries()).map(p => [keyOf(p.word, p.cefr_level), p])
+  );
+  const bookmarks = filter.include?.includes('bookmarked')
+    ? new Set((await databaseService.getEnrichedBookmarkedWords()).map(b => keyOf(b.word, b.cefr_level)))
+    : new Set<string>();
+
+  return candidates.filter(candidate => {
+    const key = keyOf(candidate.word, candidate.cefr_level);
+    const entry = progress.get(key);
+
+    if (filter.include && filter.include.length > 0) {
+      const included = filter.include.some(selection => {
+        switch (selection) {
+          case 'bookmarked': return bookmarks.has(key);
+          case 'weak': return !!entry?.is_weak;
+          case 'unseen': return !entry;
+        }
+      });
+      if (!included) return false;
+    }
+
+    if (filter.masteryRange) {
+      const mastery = entry?.mastery_level ?? 0;
+      if (mastery < filter.masteryRange.min || mastery > filter.masteryRange.max) return false;
+    }
+
+    return true;
+  });
+};
+
 export const useAppStore = create<AppStore>()(
   persist(
     (set, get) => ({
       // 初期状態
+      activeProfileId: DEFAULT_PROFILE_ID,
+      profiles: [],
+      profileStates: {},
       userSettings: defaultSettings,
       currentSession: null,
       progress: defaultProgress,
+      dueCounts: { legacy: 0, enriched: 0, total: 0 },
+      vocabularyImport: { status: 'idle', progress: null },
+      vocabularyChanges: null,
       isLoading: false,
 
       // ユーザー設定の更新
       setUserSettings: (settings: LearningGoals) => {
         set({ userSettings: settings });
+        syncService.recordSettingsChange(settings).catch(error => {
+          console.warn('Failed to record settings change for sync:', error);
+        });
+      },
+
+      // 保存されている現在のプロフィールをデータベースに反映（存在しない場合は最初のプロフィールに切り替える）
+      loadProfiles: async () => {
+        const profiles = await databaseService.getProfiles();
+        set({ profiles });
+
+        const { activeProfileId } = get();
+        if (profiles.some(profile => profile.id === activeProfileId)) {
+          databaseService.setActiveProfile(activeProfileId);
+        } else if (profiles.length > 0) {
+          await get().switchProfile(profiles[0].id);
+        }
+      },
+
+      // 現在のプロフィールの設定・XPを退避して、切り替え先のものを読み込む
+      switchProfile: async (profileId: number) => {
+        const { activeProfileId, profiles, profileStates, userSettings, progress, currentSession } = get();
+        if (profileId === activeProfileId) return;
+        if (currentSession) {
+          throw new Error('Finish or cancel the current quiz before switching profiles');
+        }
+        if (syncService.isSyncInProgress()) {
+          throw new Error('Wait for the sync to finish before switching profiles');
+        }
+
+        const savedStates = { ...profileStates };
+        if (profiles.some(profile => profile.id === activeProfileId)) {
+          savedStates[activeProfileId] = { userSettings, xp: progress.xp, level: progress.level };
+        }
+        const next = savedStates[profileId];
+
+        databaseService.setActiveProfile(profileId);
+        set({
+          activeProfileId: profileId,
+          profileStates: savedStates,
+          userSettings: next?.userSettings ?? defaultSettings,
+          progress: { ...defaultProgress, xp: next?.xp ?? 0, level: next?.level ?? 1 },
+        });
+        console.log(`Switched to profile ${profileId}`);
+
+        await get().updateProgress();
+      },
+
+      createProfile: async (name: string, avatar?: string) => {
+        const profileId = await databaseService.createProfile(name, avatar);
+        set({ profiles: await databaseService.getProfiles() });
+        return profileId;
+      },
+
+      updateProfile: async (profileId: number, name: string, avatar?: string) => {
+        await databaseService.updateProfile(profileId, name, avatar);
+        set({ profiles: await databaseService.getProfiles() });
+      },
+
+      // 現在のプロフィールを削除する場合は先に他のプロフィールに切り替える
+      deleteProfile: async (profileId: number) => {
+        if (profileId === get().activeProfileId) {
+          const other = get().profiles.find(profile => profile.id !== profileId);
+          if (!other) throw new Error('The last profile cannot be deleted');
+          await get().switchProfile(other.id);
+        }
+
+        await databaseService.deleteProfile(profileId);
+        const profileStates = { ...get().profileStates };
+        delete profileStates[profileId];
+        set({ profiles: await databaseService.getProfiles(), profileStates });
       },
 
       // ローディング状態の設定
@@ -303,8 +525,12 @@ export const useAppStore = create<AppStore>()(
         set({ isLoading: true });
         try {
           await databaseService.init();
+          await vocabularyPackService.ensureBundledPacks();
+          await get().loadProfiles();
           const updateProgress = get().updateProgress;
           await updateProgress();
+          // 取り込みを待たずに起動する（取り込みが終わるまでは語彙データのJSONを検索する）
+          get().importVocabulary();
         } catch (error) {
           console.error('App initialization error:', error);
         } finally {
@@ -312,37 +538,73 @@ export const useAppStore = create<AppStore>()(
         }
       },
 
+      // 取り込み中に呼ばれた場合は実行中の取り込みと一緒に完了する
+      importVocabulary: async () => {
+        if (get().vocabularyImport.status !== 'running') {
+          set({ vocabularyImport: { status: 'running', progress: null } });
+        }
+        try {
+          const changes = await vocabularyIngestionService.run(progress => {
+            set({ vocabularyImport: { status: 'running', progress } });
+          });
+          set({ vocabularyImport: { status: 'done', progress: null } });
+          if (changes) {
+            set({ vocabularyChanges: changes });
+            // 学習履歴を付け替えた場合は統計を読み込み直す
+            if (changes.affectedWords > 0) await get().updateProgress();
+          }
+        } catch (error) {
+          console.error('Vocabulary import error:', error);
+          set({ vocabularyImport: { status: 'error', progress: null } });
+        }
+      },
+
+      dismissVocabularyChanges: () => {
+        set({ vocabularyChanges: null });
+      },
+
+      installVocabularyPack: async (uri: string) => {
+        const result = await vocabularyPackService.installFromFile(uri);
+        get().importVocabulary();
+        return result;
+      },
+
+      removeVocabularyPack: async (packId: string) => {
+        await vocabularyPackService.removePack(packId);
+        get().importVocabulary();
+      },
+
       // クイズ開始
-      startQuiz: async (mode: 'random' | 'review' | 'bookmarked' | 'weak', wordCount?: number) => {
+      startQuiz: async (modeOrFilter: QuizMode | QuizFilterSpec, wordCount?: number, deckId?: number) => {
         set({ isLoading: true });
         try {
+          const mode: QuizMode = typeof modeOrFilter === 'string' ? modeOrFilter : 'custom';
           const { userSettings } = get();
-          // 全モードで最大10問とし、利用可能な単語数に応じて調整
-          const maxCount = 10;
-          const count = wordCount ? Math.min(wordCount, maxCount) : maxCount;
+          const count = getSessionLength(userSettings, mode, wordCount);
+          const deck = deckId !== undefined ? await loadDeckScope(deckId) : null;
           let questions: QuizQuestion[] = [];
 
+          if (deck) {
+            console.log(`Deck ${deckId}: ${deck.enrichedWords.length} enriched words, ${deck.customWords.length} custom words`);
+          }
+
           switch (mode) {
             case 'random':
+              if (deck) {
+                questions = await generateQuestionsFromDeck(deck, count, userSettings);
+                break;
+              }
               console.log('Starting quiz with enriched vocabulary system...');
               try {
                 const userLevel = await databaseService.getUserCefrLevel();
-                const enrichedQuestions = await enrichedQuizService.createEnrichedCefrQuiz(userLevel.current_level, count);
+                const enrichedQuestions = await enrichedQuizService.createEnrichedCefrQuiz(
+                  userLevel.current_level,
+                  count,
+                  getGenerationOptions(userSettings)
+                );
                 
                 // Convert enriched questions to our QuizQuestion format
-                questions = enrichedQuestions.map((cefrQ, index) => ({
-                  id: `${cefrQ.word.id}-${index}`,
-                  word: cefrQ.word.word,
-                  correctAnswer: cefrQ.correctAnswer,
-                  options: cefrQ.options,
-                  pronunciation: cefrQ.word.pronunciation,
-                  difficulty: mapCefrToLegacyDifficulty(cefrQ.word.cefr_level),
-                  category: cefrQ.word.pos || 'general',
-                  definition: cefrQ.word.definition,
-                  example: cefrQ.word.example_sentence,
-                  questionType: cefrQ.type,
-                  cefrLevel: cefrQ.word.cefr_level // CEFRレベル情報を追加
-                }));
+                questions = enrichedQuestions.map(convertEnrichedQuestion);
                 
                 console.log(`Successfully created ${questions.length} questions with enriched vocabulary`);
               } catch (enrichedError) {
@@ -351,124 +613,92 @@ export const useAppStore = create<AppStore>()(
               }
               break;
             case 'review':
-              // Legacy weak words + enriched weak words (accuracy < 50%)
-              const legacyWeakWords = await databaseService.getWeakWords();
-              const enrichedWeakWords = await databaseService.getEnrichedWeakWords();
-              
-              console.log(`Review mode: Found ${legacyWeakWords.length} legacy weak words, ${enrichedWeakWords.length} enriched weak words`);
-              
-              const totalAvailableWords = legacyWeakWords.length + enrichedWeakWords.length;
-              const actualCount = Math.min(count, totalAvailableWords);
-              
-              let reviewQuestions: QuizQuestion[] = [];
-              
-              if (totalAvailableWords > 0) {
-                // 利用可能な単語数に基づいて比例配分
-                const legacyPortion = Math.ceil((legacyWeakWords.length / totalAvailableWords) * actualCount);
-                const enrichedPortion = actualCount - legacyPortion;
-                
-                // Legacy weak wordsからクイズを生成（enrichedQuizServiceの追跡アルゴリズムを使用）
-                if (legacyWeakWords.length > 0 && legacyPortion > 0) {
-                  const legacyQuestions = await generateQuestionsFromLegacyWordsWithTracking(legacyWeakWords, legacyPortion);
-                  reviewQuestions = [...reviewQuestions, ...legacyQuestions];
-                }
-                
-                // Enriched weak wordsからクイズを生成
-                if (enrichedWeakWords.length > 0 && enrichedPortion > 0) {
-                  const enrichedQuestions = await generateQuestionsFromEnrichedWords(enrichedWeakWords, enrichedPortion);
-                  reviewQuestions = [...reviewQuestions, ...enrichedQuestions];
-                }
-                
-                questions = shuffleArray(reviewQuestions).slice(0, actualCount);
-                console.log(`Review mode: Generated ${questions.length} questions from ${totalAvailableWords} available words`);
-              }
-              break;
-              
+            case 'weak':
             case 'bookmarked':
-              // Legacy bookmarked words + enriched bookmarked words
-              const legacyBookmarkedWords = await databaseService.getBookmarkedWords();
-              const enrichedBookmarkedWords = await databaseService.getEnrichedBookmarkedWords();
-              
-              console.log(`Bookmarked mode: Found ${legacyBookmarkedWords.length} legacy bookmarked words, ${enrichedBookmarkedWords.length} enriched bookmarked words`);
-              
-              const totalBookmarkedWords = legacyBookmarkedWords.length + enrichedBookmarkedWords.length;
-              const actualBookmarkedCount = Math.min(count, totalBookmarkedWords);
-              
-              let bookmarkedQuestions: QuizQuestion[] = [];
-              
-              if (totalBookmarkedWords > 0) {
-                // 利用可能な単語数に基づいて比例配分
-                const legacyBookmarkedPortion = Math.ceil((legacyBookmarkedWords.length / totalBookmarkedWords) * actualBookmarkedCount);
-                const enrichedBookmarkedPortion = actualBookmarkedCount - legacyBookmarkedPortion;
-                
-                // Legacy bookmarked wordsからクイズを生成（enrichedQuizServiceの追跡アルゴリズムを使用）
-                if (legacyBookmarkedWords.length > 0 && legacyBookmarkedPortion > 0) {
-                  const legacyQuestions = await generateQuestionsFromLegacyWordsWithTracking(legacyBookmarkedWords, legacyBookmarkedPortion);
-                  bookmarkedQuestions = [...bookmarkedQuestions, ...legacyQuestions];
+            case 'due':
+              // 学習状況で選ぶ単語（enriched単語とカスタム単語をまとめて扱う）
+              // review / weak: 苦手な単語、bookmarked: ブックマークした単語、due: 復習期限が来た単語（期限の古い順に出題）
+              const studyList: StudyWordList = mode === 'bookmarked' ? 'bookmarked' : mode === 'due' ? 'due' : 'weak';
+              // 期限順の一覧はデッキで絞り込んだ後に足りるよう、デッキ指定時は件数を制限しない
+              const studyWords = filterToDeck(
+                await wordRepository.getStudyWords(studyList, mode === 'due' && !deck ? count : undefined),
+                deck
+              );
+              const selectedWords = mode === 'due' ? studyWords.slice(0, count) : shuffleArray(studyWords).slice(0, count);
+              console.log(`${mode} mode: Found ${studyWords.length} words, selected ${selectedWords.length}`);
+
+              if (selectedWords.length > 0) {
+                const studyQuestions = await generateQuestionsFromStudyWords(selectedWords, userSettings);
+                if (mode === 'due') {
+                  const dueOrder = new Map(selectedWords.map((w, index) => [wordKey(w.ref), index]));
+                  questions = studyQuestions.sort((a, b) => (dueOrder.get(wordKey(a.wordRef)) ?? 0) - (dueOrder.get(wordKey(b.wordRef)) ?? 0));
+                } else {
+                  questions = shuffleArray(studyQuestions);
                 }
-                
-                // Enriched bookmarked wordsからクイズを生成
-                if (enrichedBookmarkedWords.length > 0 && enrichedBookmarkedPortion > 0) {
-                  const enrichedQuestions = await generateQuestionsFromEnrichedWords(enrichedBookmarkedWords, enrichedBookmarkedPortion);
-                  bookmarkedQuestions = [...bookmarkedQuestions, ...enrichedQuestions];
-                }
-                
-                questions = shuffleArray(bookmarkedQuestions).slice(0, actualBookmarkedCount);
-                console.log(`Bookmarked mode: Generated ${questions.length} questions from ${totalBookmarkedWords} available words`);
+                console.log(`${mode} mode: Generated ${questions.length} questions`);
               }
               break;
+
+            case 'recall':
+              // タイピング解答（定義・穴埋め例文から単語を想起）。デッキではenriched単語のみ出題
+              const recallLevel = await databaseService.getUserCefrLevel();
+              const recallQuestions = deck
+                ? await enrichedQuizService.createRecallQuizForWords(shuffleArray(deck.enrichedWords), count)
+                : await enrichedQuizService.createRecallQuiz(recallLevel.current_level, count);
+              questions = recallQuestions.map(convertEnrichedQuestion);
+              console.log(`Recall mode: Generated ${questions.length} questions`);
+              break;
+
+            case 'dictation':
+              // 書き取り（スペルが苦手な単語を優先）
+              const dictationLevel = await databaseService.getUserCefrLevel();
+              const spellingWeakWords = deck
+                ? filterEnrichedToDeck(await databaseService.getEnrichedSpellingWeakWords(), deck).slice(0, Math.ceil(count / 2))
+                : await databaseService.getEnrichedSpellingWeakWords(Math.ceil(count / 2));
+              // デッキではスペルが苦手な単語の後にデッキの残りの単語を出題し、デッキ外の単語では埋めない
+              const dictationQuestions = deck
+                ? await enrichedQuizService.createDictationQuiz(
+                    dictationLevel.current_level,
+                    Math.min(count, deck.enrichedWords.length),
+                    [
+                      ...spellingWeakWords,
+                      ...shuffleArray(deck.enrichedWords).filter(w =>
+                        !spellingWeakWords.some(weak => weak.word === w.word && weak.cefr_level === w.cefr_level)
+                      )
+                    ]
+                  )
+                : await enrichedQuizService.createDictationQuiz(dictationLevel.current_level, count, spellingWeakWords);
+              questions = dictationQuestions.map(convertEnrichedQuestion);
+              console.log(`Dictation mode: Generated ${questions.length} questions (${spellingWeakWords.length} spelling-weak words)`);
+              break;
+
+            case 'custom':
+              // 学習者が選んだ条件に合う単語から出題
+              const customFilter = typeof modeOrFilter === 'string' ? {} : modeOrFilter;
+              const customWords = filterEnrichedToDeck(await findCustomQuizWords(customFilter), deck);
+              console.log(`Custom mode: Found ${customWords.length} matching words`);
               
-            case 'weak':
-              // Challenging words (accuracy < 30%)
-              const legacyWeakWordsChallenge = await databaseService.getWeakWords();
-              const enrichedWeakWordsChallenge = await databaseService.getEnrichedWeakWords();
-              
-              console.log(`Challenge mode: Found ${legacyWeakWordsChallenge.length} legacy weak words, ${enrichedWeakWordsChallenge.length} enriched weak words`);
-              
-              const totalChallengeWords = legacyWeakWordsChallenge.length + enrichedWeakWordsChallenge.length;
-              const actualChallengeCount = Math.min(count, totalChallengeWords);
-              
-              let weakQuestions: QuizQuestion[] = [];
-              
-              if (totalChallengeWords > 0) {
-                // 利用可能な単語数に基づいて比例配分
-                const legacyChallengePortion = Math.ceil((legacyWeakWordsChallenge.length / totalChallengeWords) * actualChallengeCount);
-                const enrichedChallengePortion = actualChallengeCount - legacyChallengePortion;
-                
-                // Legacy weak wordsからクイズを生成（enrichedQuizServiceの追跡アルゴリズムを使用）
-                if (legacyWeakWordsChallenge.length > 0 && legacyChallengePortion > 0) {
-                  const legacyQuestions = await generateQuestionsFromLegacyWordsWithTracking(legacyWeakWordsChallenge, legacyChallengePortion);
-                  weakQuestions = [...weakQuestions, ...legacyQuestions];
-                }
-                
-                // Enriched weak wordsからクイズを生成
-                if (enrichedWeakWordsChallenge.length > 0 && enrichedChallengePortion > 0) {
-                  const enrichedQuestions = await generateQuestionsFromEnrichedWords(enrichedWeakWordsChallenge, enrichedChallengePortion);
-                  weakQuestions = [...weakQuestions, ...enrichedQuestions];
-                }
-                
-                questions = shuffleArray(weakQuestions).slice(0, actualChallengeCount);
-                console.log(`Challenge mode: Generated ${questions.length} questions from ${totalChallengeWords} available words`);
+              if (customWords.length > 0) {
+                const customQuestions = await enrichedQuizService.createQuizForWords(
+                  shuffleArray(customWords).slice(0, count),
+                  getGenerationOptions(userSettings)
+                );
+                questions = customQuestions.map(convertEnrichedQuestion);
+                console.log(`Custom mode: Generated ${questions.length} questions`);
               }
               break;
           }
 
+          if (questions.length === 0 && (mode === 'custom' || deck)) {
+            // 条件・デッキ外の単語で代用すると選んだ意味がなくなるためエラーにする
+            throw new Error(deck ? 'No questions available in this deck for this mode' : 'No words match the selected filters');
+          }
+
           if (questions.length === 0) {
             // Fallback to random CEFR words if no questions generated
             console.log('Falling back to default A2 level quiz...');
-            const fallbackQuestions = await enrichedQuizService.createEnrichedCefrQuiz('A2', count);
-            questions = fallbackQuestions.map((cefrQ, index) => ({
-              id: `${cefrQ.word.id}-${index}`,
-              word: cefrQ.word.word,
-              correctAnswer: cefrQ.correctAnswer,
-              options: cefrQ.options,
-              pronunciation: cefrQ.word.pronunciation,
-              difficulty: mapCefrToLegacyDifficulty(cefrQ.word.cefr_level),
-              category: cefrQ.word.pos || 'general',
-              definition: cefrQ.word.definition,
-              example: cefrQ.word.example_sentence,
-              questionType: cefrQ.type
-            }));
+            const fallbackQuestions = await enrichedQuizService.createEnrichedCefrQuiz('A2', count, getGenerationOptions(userSettings));
+            questions = fallbackQuestions.map(convertEnrichedQuestion);
           }
 
           console.log(`Quiz started successfully with ${questions.length} questions`);
@@ -479,7 +709,9 @@ export const useAppStore = create<AppStore>()(
               currentIndex: 0,
               answers: [],
               startTime: new Date(),
-              mode
+              mode,
+              sessionId: createSessionId(),
+              questionStartTime: new Date()
             }
           });
         } catch (error) {
@@ -497,36 +729,40 @@ export const useAppStore = create<AppStore>()(
         if (!currentSession) return;
 
         const currentQuestion = currentSession.questions[currentSession.currentIndex];
-        const isCorrect = answer === currentQuestion.correctAnswer;
-        
-        // CEFRレベルが設定されている、またはIDがenriched形式の場合はenriched word
-        const isEnrichedWord = currentQuestion.cefrLevel || questionId.startsWith('enriched-');
-        
-        if (isEnrichedWord && currentQuestion.word) {
-          // 新しいenriched vocabulary systemの場合
-          const word = currentQuestion.word;
-          // CEFRレベル情報を直接取得、なければdifficultyから逆算
-          const cefrLevel = currentQuestion.cefrLevel || mapDifficultyToCefr(currentQuestion.difficulty);
-          
-          console.log(`Updating enriched word progress: ${word} (${cefrLevel}) - ${isCorrect ? 'correct' : 'incorrect'}`);
-          
-          // enriched vocabulary用の進捗更新
-          try {
-            await databaseService.updateEnrichedWordProgress(word, cefrLevel, isCorrect);
-          } catch (error) {
-            console.error('Error updating enriched word progress:', error);
-          }
-        } else {
-          // 従来のシステムの場合
-          const wordIdStr = questionId.split('-')[0];
-          const wordId = parseInt(wordIdStr);
-          
-          if (isNaN(wordId)) {
-            console.error(`Invalid word ID format for progress update: ${questionId}`);
-            // エラーでも処理を続行（進捗更新だけ失敗）
-          } else {
-            await databaseService.updateUserProgress(wordId, isCorrect);
-          }
+        // タイピング解答は表記ゆれ・活用形・スペルミスを考慮して判定
+        // 書き取りは聞いた形そのものを求めるため活用形は不正解
+        const isDictation = currentQuestion.questionType === 'dictation';
+        const outcome: AnswerOutcome = currentQuestion.answerFormat === 'typed'
+          ? answerChecker.checkAnswer(answer, currentQuestion.correctAnswer, currentQuestion.category, { allowInflections: !isDictation }).outcome
+          : answer === currentQuestion.correctAnswer ? 'correct' : 'incorrect';
+        const isCorrect = outcome === 'correct';
+        const responseTimeMs = Date.now() - currentSession.questionStartTime.getTime();
+        const ref = currentQuestion.wordRef;
+
+        console.log(`Updating progress: ${ref.word} (${ref.kind === 'enriched' ? ref.cefrLevel : 'custom'}) - ${outcome}`);
+        try {
+          await wordRepository.recordAnswer(ref, outcome, isDictation);
+        } catch (error) {
+          console.error('Error updating word progress:', error);
+        }
+
+        // 回答履歴を記録
+        try {
+          await databaseService.recordQuizAttempt({
+            word: currentQuestion.word,
+            wordId: ref.kind === 'custom' ? ref.wordId : undefined,
+            cefrLevel: ref.kind === 'enriched' ? ref.cefrLevel : undefined,
+            questionType: currentQuestion.questionType,
+            chosenOption: answer,
+            correctOption: currentQuestion.correctAnswer,
+            isCorrect,
+            outcome,
+            responseTimeMs,
+            sessionId: currentSession.sessionId,
+            mode: currentSession.mode
+          });
+        } catch (error) {
+          console.error('Error recording quiz attempt:', error);
         }
 
         // セッションの回答を更新
@@ -539,6 +775,8 @@ export const useAppStore = create<AppStore>()(
             answers: newAnswers
           }
         });
+
+        return outcome;
       },
 
       // 次の問題へ
@@ -550,7 +788,8 @@ export const useAppStore = create<AppStore>()(
           set({
             currentSession: {
               ...currentSession,
-              currentIndex: currentSession.currentIndex + 1
+              currentIndex: currentSession.currentIndex + 1,
+              questionStartTime: new Date()
             }
           });
         }
@@ -565,7 +804,8 @@ export const useAppStore = create<AppStore>()(
           set({
             currentSession: {
               ...currentSession,
-              currentIndex: currentSession.currentIndex - 1
+              currentIndex: currentSession.currentIndex - 1,
+              questionStartTime: new Date()
             }
           });
         }
@@ -615,21 +855,13 @@ export const useAppStore = create<AppStore>()(
         set({ currentSession: null });
       },
 
-      // 単語ブックマーク
-      bookmarkWord: async (wordId: number) => {
+      // ブックマークの追加・解除
+      toggleBookmark: async (ref: WordRef) => {
         try {
-          await databaseService.toggleBookmark(wordId);
+          await wordRepository.toggleBookmark(ref);
         } catch (error) {
-          console.error('Bookmark word error:', error);
-        }
-      },
-
-      // Enriched vocabulary用のブックマーク機能
-      bookmarkEnrichedWord: async (word: string, cefrLevel: string) => {
-        try {
-          await databaseService.toggleEnrichedWordBookmark(word, cefrLevel);
-        } catch (error) {
-          console.error('Bookmark enriched word error:', error);
+          console.error('Toggle bookmark error:', error);
+          throw error;
         }
       },
 
@@ -674,7 +906,10 @@ export const useAppStore = create<AppStore>()(
           // ストリーク計算（簡単な実装）
           const streak = todayStats.wordsStudied > 0 ? 1 : 0; // 実際はより複雑な計算が必要
 
+          const dueCounts = await databaseService.getDueWordCounts();
+
           set({
+            dueCounts,
             progress: {
               ...get().progress,
               todayStats: {
@@ -694,7 +929,9 @@ export const useAppStore = create<AppStore>()(
       storage: createJSONStorage(() => AsyncStorage),
       partialize: (state) => ({
         userSettings: state.userSettings,
-        progress: state.progress
+        progress: state.progress,
+        activeProfileId: state.activeProfileId,
+        profileStates: state.profileStates
       })
     }
   )
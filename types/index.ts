@@ -3,8 +3,24 @@ export interface LearningGoals {
   dailyWordCount: number; // 5-100単語
   reminderTime?: string; // 通知時間
   learningDays: boolean[]; // 週7日の学習曜日
+  distractorDifficulty?: DistractorDifficulty; // 不正解選択肢の難易度（未指定ならCEFRレベルに応じて自動）
+  quizLengths?: Partial<Record<QuizMode, number>>; // モード別の1回の問題数（1日の目標単語数まで）
+  questionTypeMix?: QuestionTypeMix; // 問題形式の割合（未指定なら単語のデータに応じて自動）
 }
 
+// 問題形式ごとの出題割合（%）
+export interface QuestionTypeMix {
+  definition: number;
+  synonym: number;
+  antonym: number;
+  example: number;
+  reverse: number;
+}
+
+// 不正解選択肢の難易度
+// easy: ランダム / medium: 同じ品詞・近い頻度 / hard: 意味的に近い単語（上位語・下位語・類似語）
+export type DistractorDifficulty = 'easy' | 'medium' | 'hard';
+
 export interface QuizQuestion {
   id: string;
   word: string;
@@ -15,10 +31,37 @@ export interface QuizQuestion {
   category?: string;
   definition?: string;
   example?: string;
-  questionType?: 'definition' | 'synonym' | 'antonym' | 'example';
+  questionType?: 'definition' | 'synonym' | 'antonym' | 'example' | 'reverse' | 'dictation';
   cefrLevel?: string; // CEFRレベル情報（A1, A2, B1等）
+  answerFormat?: 'choice' | 'typed'; // 4択 or タイピング（未指定は4択）
+  prompt?: string; // 単語の代わりに表示する定義・穴埋め例文（reverse / example / タイピング問題）
+  wordRef: WordRef; // 回答・ブックマークを記録する単語
 }
 
+// 単語の識別子（enriched単語は単語+CEFRレベル、学習者が追加したカスタム単語はwordsテーブルのID）
+export type WordRef =
+  | { kind: 'enriched'; word: string; cefrLevel: string }
+  | { kind: 'custom'; wordId: number; word: string };
+
+// 学習状況で絞り込んだ単語の一覧
+export type StudyWordList = 'bookmarked' | 'weak' | 'due';
+
+// 復習・ブックマーク・苦手単語の一覧で扱う単語（enriched単語とカスタム単語の共通の形式）
+export interface StudyWord {
+  ref: WordRef;
+  word: string;
+  cefrLevel?: string;
+  definition?: string; // enriched単語は語彙データから補う
+  pronunciation?: string;
+  attempts: number;
+  correctAttempts: number;
+  masteryLevel: number;
+  nextReviewDate: Date | null;
+}
+
+// 解答の判定結果（near-missはスペルミス程度の惜しい解答）
+export type AnswerOutcome = 'correct' | 'near-miss' | 'incorrect';
+
 export interface WordData {
   word: string;
   meanings: {
@@ -45,8 +88,153 @@ export interface LearningRecord {
   masteryLevel: number; // 0-100
   isBookmarked: boolean;
   isWeak: boolean; // 不正解が多い単語
-  lastReviewDate: Date;
-  nextReviewDate: Date;
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  lapses: number;
+  lastReviewDate: Date | null;
+  nextReviewDate: Date | null;
+}
+
+// 1回の回答の履歴
+export interface QuizAttempt {
+  id: number;
+  word: string;
+  wordId?: number; // legacy単語のID
+  cefrLevel?: string; // enriched単語のCEFRレベル
+  questionType?: string;
+  chosenOption: string;
+  correctOption: string;
+  isCorrect: boolean;
+  outcome?: AnswerOutcome;
+  responseTimeMs: number;
+  sessionId: string;
+  mode: string;
+  timestamp: Date;
+}
+
+export interface QuizAttemptFilter {
+  word?: string;
+  wordId?: number;
+  cefrLevel?: string;
+  sessionId?: string;
+  mode?: string;
+  questionType?: string;
+  isCorrect?: boolean;
+  since?: Date;
+  until?: Date;
+  limit?: number;
+}
+
+// CEFRレベルごとの直近の正答率
+export interface LevelAccuracy {
+  cefrLevel: string;
+  attempts: number; // 集計対象の回答数（直近の一定数まで）
+  correct: number;
+  accuracy: number; // 0-1
+}
+
+// 学習者が作成する単語リスト
+export interface Deck {
+  id: number;
+  name: string;
+  sortOrder: number;
+  wordCount: number;
+  createdAt: Date;
+}
+
+// デッキ内の単語（enriched単語は単語+CEFRレベル、カスタム単語はwordsテーブルのID）
+export interface DeckWord {
+  id: number;
+  deckId: number;
+  word: string;
+  cefrLevel?: string;
+  wordId?: number;
+  definition?: string; // カスタム単語の定義
+  example?: string;
+  tag?: string;
+}
+
+// デッキに一括登録する単語（cefrLevelがあればenriched単語、なければカスタム単語）
+export interface DeckImportEntry {
+  word: string;
+  cefrLevel?: string;
+  definition?: string;
+  example?: string;
+  tag?: string;
+  updateDefinition?: boolean; // 登録済みのカスタム単語の定義を上書きする
+  progress?: ImportedProgress; // Ankiなどから引き継ぐ学習履歴
+}
+
+// 1台の端末を共有する学習者（進捗・ブックマーク・設定・XPなどはプロフィールごとに保持）
+export interface Profile {
+  id: number;
+  name: string;
+  avatar?: string; // 絵文字
+  createdAt: Date;
+}
+
+// 端末間で同期するデータの種類
+export type SyncEntity =
+  | 'enriched_bookmark'
+  | 'legacy_bookmark'
+  | 'enriched_progress'
+  | 'user_progress'
+  | 'study_session'
+  | 'settings';
+
+// 同期する変更（レコードの変更後の状態をそのまま送る）
+export interface SyncChange {
+  entity: SyncEntity;
+  key: string; // 端末をまたいで同じレコードを指すキー（単語・CEFRレベルなど。ローカルのidは使わない）
+  payload: any;
+  updatedAt: string; // ISO 8601
+  deviceId: string;
+}
+
+// 語彙パック（1つのCEFRレベルのenriched語彙）の内容の説明
+export interface VocabularyPackManifest {
+  id: string;
+  language: string; // ISO 639-1（現在は'en'のみ）
+  cefrLevel: string;
+  version: string;
+  wordCount: number;
+  checksum: string; // vocabularyをJSON.stringifyした文字列のSHA-256（16進数）
+  source: string; // 元になった語彙リスト・APIなど
+}
+
+// インストール済みの語彙パック（bundledはアプリに同梱されたパック）
+export interface InstalledVocabularyPack extends VocabularyPackManifest {
+  bundled: boolean;
+  installedAt: Date;
+}
+
+// 語彙パックの更新で変わった単語（レベルを移った単語は学習履歴を付け替え、削除された単語は学習履歴をアーカイブする）
+export interface VocabularyChangeReport {
+  cefrLevels: string[]; // 更新されたレベル
+  moved: { word: string; from: string; to: string }[];
+  removed: { word: string; cefrLevel: string }[];
+  restored: { word: string; cefrLevel: string }[]; // アーカイブから学習履歴を戻した単語
+  affectedWords: number; // 学習履歴を付け替え・アーカイブ・復元した単語数
+}
+
+// バックアップの復元方法（merge: 端末のデータと統合 / replace: 端末のデータを置き換え）
+export type RestoreMode = 'merge' | 'replace';
+
+// 他のアプリから取り込む学習履歴（端末に進捗がない単語のみ反映）
+export interface ImportedProgress extends ReviewSchedule {
+  attempts: number;
+  correctAttempts: number;
+}
+
+// 間隔反復（SM-2）のスケジュール情報
+export interface ReviewSchedule {
+  easeFactor: number; // 易しさ係数（1.3以上）
+  intervalDays: number; // 次回までの間隔（日）
+  repetitions: number; // 連続正解回数
+  lapses: number; // 覚えた後に忘れた回数
+  lastReviewDate: Date | null;
+  nextReviewDate: Date | null;
 }
 
 export interface DashboardData {
@@ -111,7 +299,7 @@ export interface AppStore {
   };
   
   // アクション
-  startQuiz: (mode: 'random' | 'review') => void;
+  startQuiz: (mode: QuizMode | QuizFilterSpec) => void;
   submitAnswer: (questionId: string, answer: string) => void;
   bookmarkWord: (wordId: string) => void;
   updateProgress: () => void;
@@ -135,8 +323,28 @@ export interface UserProgress {
   lastAttemptDate: Date;
   masteryLevel: number;
   isBookmarked: boolean;
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  lapses: number;
+  lastReviewDate: Date | null;
+  nextReviewDate: Date | null;
 }
 
-export type QuizMode = 'random' | 'review' | 'bookmarked' | 'weak';
+export type QuizMode = 'random' | 'review' | 'bookmarked' | 'weak' | 'due' | 'recall' | 'dictation' | 'custom';
+
+// 単語の出現頻度帯（apiData.frequencyのZipf値で分類）
+export type FrequencyBand = 'common' | 'intermediate' | 'rare';
+
+export type WordSelection = 'bookmarked' | 'weak' | 'unseen';
+
+// カスタムクイズの出題条件（未指定の条件では絞り込まない）
+export interface QuizFilterSpec {
+  cefrLevels?: string[];
+  partsOfSpeech?: string[];
+  frequencyBands?: FrequencyBand[];
+  masteryRange?: { min: number; max: number }; // 習熟度（0-100）。未学習の単語は0として扱う
+  include?: WordSelection[]; // 指定した場合はいずれかに当てはまる単語のみ
+}
 
 export type WordCategory = 'general' | 'business' | 'travel' | 'academic' | 'technology';
\ No newline at end of file